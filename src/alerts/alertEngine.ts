@@ -0,0 +1,309 @@
+/**
+ * Worker alert engine
+ *
+ * Evaluates alert rules against observed worker data and tracks one alert
+ * per rule, account and worker:
+ *
+ * - An alert fires once its condition has held for the rule's `minutes`.
+ * - While it stays active, further observations only update it (dedup).
+ * - When the condition clears, the alert resolves and moves to a short
+ *   recently-resolved list.
+ * - A fired or resolved event is emitted for listeners (notifiers) unless
+ *   the same alert already fired within its cooldown; suppressed alerts are
+ *   still listed as active, and their recovery is not announced either.
+ */
+
+import { config } from '../config/settings.js';
+import { logger } from '../utils/logger.js';
+import {
+  evaluateRule,
+  loadAlertRules,
+  ruleAppliesTo,
+  type AlertRule,
+  type AlertRuleType,
+  type AlertRulesConfig,
+  type AlertSeverity,
+  type WorkerObservation,
+} from './alertRules.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Resolved alerts kept for listing
+ */
+const MAX_RECENTLY_RESOLVED = 50;
+
+/**
+ * Alert on one worker for one rule
+ */
+export interface Alert {
+  /** Stable key: rule id, account and worker id */
+  id: string;
+  ruleId: string;
+  ruleType: AlertRuleType;
+  severity: AlertSeverity;
+  account: string;
+  workerId: string;
+  workerName: string;
+  message: string;
+  value: number;
+  threshold: number;
+  /** When the condition started (epoch ms) */
+  startedAt: number;
+  firedAt: number;
+  lastSeenAt: number;
+  resolvedAt: number | null;
+  /** Whether listeners were told; false when suppressed by the cooldown */
+  notified: boolean;
+}
+
+/**
+ * Alert state change delivered to listeners
+ */
+export interface AlertEvent {
+  type: 'fired' | 'resolved';
+  alert: Alert;
+}
+
+export type AlertListener = (event: AlertEvent) => void;
+
+/**
+ * Options for one observation
+ */
+export interface ObserveOptions {
+  /** Observation time in epoch ms (default: now) */
+  now?: number;
+  /**
+   * Whether the workers are every worker of the account; alerts on workers
+   * missing from a complete observation are resolved
+   */
+  complete?: boolean;
+}
+
+/**
+ * Tracking state of one rule/account/worker
+ */
+interface AlertState {
+  /** When the condition was first seen breaching */
+  pendingSince: number;
+  alert: Alert | null;
+}
+
+/**
+ * Tracks alerts raised by a set of rules
+ */
+export class AlertEngine {
+  private readonly states = new Map<string, AlertState>();
+  /** Last notification time per alert id, kept across resolution for the cooldown */
+  private readonly lastNotified = new Map<string, number>();
+  private readonly recentlyResolved: Alert[] = [];
+  private readonly listeners = new Set<AlertListener>();
+
+  constructor(private readonly rulesConfig: AlertRulesConfig) {}
+
+  /**
+   * Rules evaluated by this engine
+   */
+  getRules(): readonly AlertRule[] {
+    return this.rulesConfig.rules;
+  }
+
+  /**
+   * Listen for fired and resolved alerts
+   *
+   * @returns Function removing the listener
+   */
+  onAlert(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Evaluate every applicable rule against observed workers of an account
+   */
+  observe(
+    account: string,
+    workers: readonly WorkerObservation[],
+    options: ObserveOptions = {}
+  ): void {
+    const now = options.now ?? Date.now();
+    const rules = this.rulesConfig.rules.filter((rule) => ruleAppliesTo(rule, account));
+
+    for (const worker of workers) {
+      for (const rule of rules) {
+        this.evaluate(rule, account, worker, now);
+      }
+    }
+
+    if (options.complete === true) {
+      const seen = new Set(workers.map((worker) => worker.id));
+      for (const [id, state] of this.states) {
+        const { account: stateAccount, workerId } = parseAlertId(id);
+        if (stateAccount === account && !seen.has(workerId)) {
+          this.clear(id, state, now);
+        }
+      }
+    }
+  }
+
+  /**
+   * Active alerts, critical first, then oldest first
+   */
+  getActiveAlerts(): Alert[] {
+    const active: Alert[] = [];
+    for (const state of this.states.values()) {
+      if (state.alert !== null) {
+        active.push({ ...state.alert });
+      }
+    }
+    return active.sort(
+      (a, b) =>
+        Number(b.severity === 'critical') - Number(a.severity === 'critical') ||
+        a.startedAt - b.startedAt
+    );
+  }
+
+  /**
+   * Recently resolved alerts, newest first
+   */
+  getRecentlyResolved(): Alert[] {
+    return this.recentlyResolved.map((alert) => ({ ...alert }));
+  }
+
+  private evaluate(rule: AlertRule, account: string, worker: WorkerObservation, now: number): void {
+    const id = alertId(rule.id, account, worker.id);
+    const evaluation = evaluateRule(rule, worker, now);
+    let state = this.states.get(id);
+
+    if (!evaluation.breaching) {
+      if (state) {
+        this.clear(id, state, now);
+      }
+      return;
+    }
+
+    if (!state) {
+      state = { pendingSince: now, alert: null };
+      this.states.set(id, state);
+    }
+    // The pool's last share time, when known, dates the condition better than our first sighting
+    const startedAt = Math.min(evaluation.since ?? state.pendingSince, state.pendingSince);
+
+    if (state.alert) {
+      Object.assign(state.alert, {
+        workerName: worker.name,
+        message: evaluation.message,
+        value: evaluation.value,
+        lastSeenAt: now,
+      });
+      return;
+    }
+
+    if (now - startedAt < rule.minutes * MINUTE_MS) {
+      return;
+    }
+
+    const cooldownMs = (rule.cooldownMinutes ?? this.rulesConfig.cooldownMinutes) * MINUTE_MS;
+    const lastNotified = this.lastNotified.get(id);
+    const notified = lastNotified === undefined || now - lastNotified >= cooldownMs;
+
+    state.alert = {
+      id,
+      ruleId: rule.id,
+      ruleType: rule.type,
+      severity: rule.severity,
+      account,
+      workerId: worker.id,
+      workerName: worker.name,
+      message: evaluation.message,
+      value: evaluation.value,
+      threshold: evaluation.threshold,
+      startedAt,
+      firedAt: now,
+      lastSeenAt: now,
+      resolvedAt: null,
+      notified,
+    };
+
+    logger.info('Alert fired', { alert: id, message: evaluation.message, notified });
+    if (notified) {
+      this.lastNotified.set(id, now);
+      this.emit({ type: 'fired', alert: { ...state.alert } });
+    }
+  }
+
+  /**
+   * Drop tracking state, resolving the alert if it fired
+   */
+  private clear(id: string, state: AlertState, now: number): void {
+    this.states.delete(id);
+    const { alert } = state;
+    if (alert === null) return;
+
+    alert.resolvedAt = now;
+    this.recentlyResolved.unshift(alert);
+    this.recentlyResolved.length = Math.min(this.recentlyResolved.length, MAX_RECENTLY_RESOLVED);
+
+    logger.info('Alert resolved', { alert: id, notified: alert.notified });
+    if (alert.notified) {
+      this.emit({ type: 'resolved', alert: { ...alert } });
+    }
+  }
+
+  private emit(event: AlertEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('Alert listener failed', {
+          alert: event.alert.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Alert id of a rule, account and worker
+ *
+ * Rule ids and account names cannot contain ":", so the worker id is the rest.
+ */
+function alertId(ruleId: string, account: string, workerId: string): string {
+  return `${ruleId}:${account}:${workerId}`;
+}
+
+function parseAlertId(id: string): { account: string; workerId: string } {
+  const [, account, ...workerId] = id.split(':');
+  return { account, workerId: workerId.join(':') };
+}
+
+/**
+ * Singleton alert engine instance
+ */
+let engineInstance: AlertEngine | null = null;
+
+/**
+ * Get the alert engine, loading ALERT_RULES_FILE on first use
+ *
+ * @returns undefined when alerting is disabled
+ * @throws ConfigError if the rules file is missing or invalid
+ */
+export function getAlertEngine(): AlertEngine | undefined {
+  if (config.alertRulesFile === undefined) {
+    return undefined;
+  }
+  if (!engineInstance) {
+    engineInstance = new AlertEngine(loadAlertRules(config.alertRulesFile));
+  }
+  return engineInstance;
+}
+
+/**
+ * Reset the alert engine (useful for testing)
+ */
+export function resetAlertEngine(): void {
+  engineInstance = null;
+}
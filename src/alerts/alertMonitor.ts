@@ -0,0 +1,142 @@
+/**
+ * Alert monitor
+ *
+ * Feeds worker data into the alert engine from two sources:
+ *
+ * - Every worker list page and worker details response fetched from the API
+ *   (by tool calls or the cache poller), via onCacheRefresh.
+ * - Every ALERT_EVALUATION_INTERVAL seconds, a walk over every worker of
+ *   each configured account, so alerts fire and resolve without tool calls
+ *   and alerts on removed workers are cleared.
+ */
+
+import { onCacheRefresh, type CacheRefreshEvent } from '../api/cachedBraiinsClient.js';
+import { walkAllWorkers } from '../api/workerWalk.js';
+import { getAccountRegistry } from '../config/accounts.js';
+import { config } from '../config/settings.js';
+import { ListWorkersResponseSchema } from '../schemas/listWorkersResponse.js';
+import { GetWorkerDetailsResponseSchema } from '../schemas/getWorkerDetailsResponse.js';
+import { logger } from '../utils/logger.js';
+import type { AlertEngine } from './alertEngine.js';
+
+/**
+ * Outcome of one evaluation round
+ */
+export interface AlertRoundResult {
+  evaluatedAt: number;
+  /** Workers evaluated per account */
+  workers: Record<string, number>;
+  /** Accounts whose workers could not be listed, with the error message */
+  failed: { account: string; error: string }[];
+}
+
+/**
+ * Evaluates alert rules on a timer and on every worker data refresh
+ */
+export class AlertMonitor {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<AlertRoundResult> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * @param engine - Engine receiving the observations
+   * @param intervalMs - Time between full evaluation rounds
+   */
+  constructor(
+    private readonly engine: AlertEngine,
+    private readonly intervalMs: number = config.alertEvaluationInterval * 1000
+  ) {}
+
+  /**
+   * Subscribe to refreshes, evaluate a first round now and then one every interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.unsubscribe = onCacheRefresh((event) => this.onRefresh(event));
+
+    const tick = (): void => {
+      void this.evaluateRound();
+    };
+    this.timer = setInterval(tick, this.intervalMs);
+    // Alert evaluation alone should not keep the process alive
+    this.timer.unref();
+    tick();
+
+    logger.info('Alert monitor started', {
+      intervalMs: this.intervalMs,
+      rules: this.engine.getRules().length,
+    });
+  }
+
+  /**
+   * Stop the timer and subscription and wait for a round in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  /**
+   * Evaluate every worker of every account
+   *
+   * Overlapping calls share the round already in progress.
+   */
+  evaluateRound(): Promise<AlertRoundResult> {
+    if (!this.running) {
+      this.running = this.evaluate().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async evaluate(): Promise<AlertRoundResult> {
+    const evaluatedAt = Date.now();
+    const result: AlertRoundResult = { evaluatedAt, workers: {}, failed: [] };
+
+    for (const account of getAccountRegistry().list()) {
+      try {
+        const walk = await walkAllWorkers({ account: account.name });
+        // A capped walk misses workers, so absent ones are not resolved
+        this.engine.observe(account.name, walk.workers, {
+          now: evaluatedAt,
+          complete: !walk.capped,
+        });
+        result.workers[account.name] = walk.workers.length;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.failed.push({ account: account.name, error: message });
+        logger.warn('Alert evaluation failed', { account: account.name, error: message });
+      }
+    }
+
+    logger.debug('Alert round complete', {
+      workers: result.workers,
+      failed: result.failed.length,
+      active: this.engine.getActiveAlerts().length,
+    });
+    return result;
+  }
+
+  private onRefresh(event: CacheRefreshEvent): void {
+    if (event.resourceType === 'workers-list') {
+      const parsed = ListWorkersResponseSchema.safeParse(event.data);
+      if (parsed.success) {
+        this.engine.observe(event.account, parsed.data.workers);
+      }
+    } else if (event.resourceType === 'worker-details') {
+      const parsed = GetWorkerDetailsResponseSchema.safeParse(event.data);
+      if (parsed.success) {
+        this.engine.observe(event.account, [parsed.data]);
+      }
+    }
+  }
+}
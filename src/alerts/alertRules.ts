@@ -0,0 +1,241 @@
+/**
+ * Worker alert rules
+ *
+ * Rules are loaded from the JSON file named by ALERT_RULES_FILE:
+ *
+ * ```json
+ * {
+ *   "cooldownMinutes": 30,
+ *   "rules": [
+ *     { "id": "offline", "type": "worker_offline", "minutes": 15, "severity": "critical" },
+ *     { "id": "low-hashrate", "type": "hashrate_drop", "belowPercent": 70, "minutes": 10 },
+ *     { "id": "rejects", "type": "invalid_share_ratio", "maxRatio": 0.02, "minShares": 1000 },
+ *     { "id": "stalled", "type": "no_shares", "minutes": 30, "accounts": ["site-a"] }
+ *   ]
+ * }
+ * ```
+ *
+ * Each rule is evaluated per worker. `minutes` is how long the condition
+ * must hold before the alert fires; for worker_offline and no_shares it is
+ * counted from the worker's last share when the pool reports one.
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { AccountNameSchema } from '../config/accounts.js';
+import type { Worker } from '../schemas/listWorkersResponse.js';
+import { ConfigError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Worker states counted as offline
+ */
+const OFFLINE_STATES: readonly string[] = ['off', 'inactive'];
+
+/**
+ * Worker states a hashrate drop is not reported for (offline or disabled)
+ */
+const NOT_HASHING_STATES: readonly string[] = ['off', 'inactive', 'dis', 'disabled'];
+
+export const AlertSeverityEnum = z.enum(['warning', 'critical']);
+export type AlertSeverity = z.infer<typeof AlertSeverityEnum>;
+
+export const AlertRuleTypeEnum = z.enum([
+  'worker_offline',
+  'hashrate_drop',
+  'invalid_share_ratio',
+  'no_shares',
+]);
+export type AlertRuleType = z.infer<typeof AlertRuleTypeEnum>;
+
+/**
+ * Fields shared by every rule
+ */
+const RuleBaseSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, 'Rule ids must be lowercase letters, digits, "-" or "_"'),
+  severity: AlertSeverityEnum.default('warning'),
+  minutes: z.number().min(0).max(10080).default(0),
+  cooldownMinutes: z.number().min(0).max(10080).optional(),
+  accounts: z.array(AccountNameSchema).min(1).optional(),
+});
+
+export const AlertRuleSchema = z.discriminatedUnion('type', [
+  RuleBaseSchema.extend({ type: z.literal('worker_offline') }).strict(),
+  RuleBaseSchema.extend({
+    type: z.literal('hashrate_drop'),
+    belowPercent: z.number().gt(0).lt(100),
+  }).strict(),
+  RuleBaseSchema.extend({
+    type: z.literal('invalid_share_ratio'),
+    maxRatio: z.number().gt(0).lt(1),
+    minShares: z.number().int().min(1).default(100),
+  }).strict(),
+  RuleBaseSchema.extend({ type: z.literal('no_shares') }).strict(),
+]);
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+
+export const AlertRulesConfigSchema = z
+  .object({
+    cooldownMinutes: z.number().min(0).max(10080).default(30),
+    rules: z.array(AlertRuleSchema).min(1, 'At least one rule is required'),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const ids = new Set<string>();
+    data.rules.forEach((rule, index) => {
+      if (ids.has(rule.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate rule id "${rule.id}"`,
+          path: ['rules', index, 'id'],
+        });
+      }
+      ids.add(rule.id);
+    });
+  });
+export type AlertRulesConfig = z.infer<typeof AlertRulesConfigSchema>;
+
+/**
+ * Worker data a rule is evaluated against (list and details responses both fit)
+ */
+export type WorkerObservation = Pick<
+  Worker,
+  'id' | 'name' | 'status' | 'hashrate' | 'shares' | 'last_share_at'
+>;
+
+/**
+ * Outcome of evaluating a rule against one worker
+ */
+export interface RuleEvaluation {
+  breaching: boolean;
+  /** When the condition started, if the data tells (epoch ms) */
+  since?: number;
+  /** Observed value and the threshold it is compared to */
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+/**
+ * Load alert rules from a JSON file
+ *
+ * @throws ConfigError if the file is missing or invalid
+ */
+export function loadAlertRules(rulesFile: string): AlertRulesConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(rulesFile, 'utf8')) as unknown;
+  } catch (error) {
+    throw new ConfigError(`Cannot read alert rules file: ${rulesFile}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const parsed = AlertRulesConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError('Invalid alert rules file', {
+      issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+  }
+
+  logger.info('Loaded alert rules', { rules: parsed.data.rules.map((rule) => rule.id) });
+  return parsed.data;
+}
+
+/**
+ * Whether a rule applies to an account
+ */
+export function ruleAppliesTo(rule: AlertRule, account: string): boolean {
+  return rule.accounts === undefined || rule.accounts.includes(account);
+}
+
+/**
+ * Format a duration in minutes for alert messages
+ */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.floor(minutes)}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${Math.floor(minutes % 60)}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Parse a nullable timestamp to epoch ms
+ */
+function parseTimestamp(timestamp: string | null): number | undefined {
+  if (timestamp === null) return undefined;
+  const ms = Date.parse(timestamp);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+/**
+ * Evaluate a rule against one worker
+ *
+ * The `minutes` hold time is applied by the alert engine, not here.
+ *
+ * @param now - Evaluation time in epoch ms
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  worker: WorkerObservation,
+  now: number
+): RuleEvaluation {
+  const lastShare = parseTimestamp(worker.last_share_at);
+  const minutesSinceShare = lastShare !== undefined ? (now - lastShare) / MINUTE_MS : undefined;
+
+  switch (rule.type) {
+    case 'worker_offline': {
+      const breaching = OFFLINE_STATES.includes(worker.status);
+      return {
+        breaching,
+        since: breaching ? lastShare : undefined,
+        value: minutesSinceShare ?? 0,
+        threshold: rule.minutes,
+        message:
+          minutesSinceShare !== undefined
+            ? `Worker ${worker.name} is ${worker.status}; last share ${formatMinutes(minutesSinceShare)} ago`
+            : `Worker ${worker.name} is ${worker.status}`,
+      };
+    }
+
+    case 'hashrate_drop': {
+      const average = worker.hashrate.avg_24h;
+      const percent = average > 0 ? (worker.hashrate.current / average) * 100 : 100;
+      return {
+        breaching: !NOT_HASHING_STATES.includes(worker.status) && percent < rule.belowPercent,
+        value: Math.round(percent * 10) / 10,
+        threshold: rule.belowPercent,
+        message: `Worker ${worker.name} at ${percent.toFixed(1)}% of its 24h average hashrate`,
+      };
+    }
+
+    case 'invalid_share_ratio': {
+      const total = worker.shares.valid + worker.shares.invalid;
+      const ratio = total > 0 ? worker.shares.invalid / total : 0;
+      return {
+        breaching: total >= rule.minShares && ratio > rule.maxRatio,
+        value: Math.round(ratio * 100000) / 100000,
+        threshold: rule.maxRatio,
+        message: `Worker ${worker.name} invalid share ratio ${(ratio * 100).toFixed(2)}%`,
+      };
+    }
+
+    case 'no_shares': {
+      // Without a last share the hold time counts from the first observation
+      return {
+        breaching: minutesSinceShare === undefined || minutesSinceShare >= rule.minutes,
+        since: lastShare,
+        value: minutesSinceShare ?? 0,
+        threshold: rule.minutes,
+        message:
+          minutesSinceShare !== undefined
+            ? `No shares from worker ${worker.name} for ${formatMinutes(minutesSinceShare)}`
+            : `No shares recorded from worker ${worker.name}`,
+      };
+    }
+  }
+}
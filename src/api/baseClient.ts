@@ -0,0 +1,213 @@
+/**
+ * Base HTTP client for Braiins Pool APIs
+ *
+ * Shared transport used by every Braiins client implementation.
+ * Implements rate limiting, circuit breaking, retry logic, logging interceptors,
+ * and error translation.
+ */
+
+import axios, { type AxiosInstance, type AxiosError, type AxiosResponse } from 'axios';
+import { config } from '../config/settings.js';
+import { logger } from '../utils/logger.js';
+import { BraiinsApiError, NetworkError } from '../utils/errors.js';
+import { getRateLimiter, type RateLimiter } from './rateLimiter.js';
+import { getCircuitBreakers } from './circuitBreaker.js';
+import type { GetUserOverviewResponse } from '../schemas/getUserOverviewResponse.js';
+import type { ListWorkersResponse } from '../schemas/listWorkersResponse.js';
+import type { GetWorkerDetailsResponse } from '../schemas/getWorkerDetailsResponse.js';
+import type { GetWorkerHashrateResponse } from '../schemas/getWorkerHashrateResponse.js';
+import type { GetUserRewardsResponse } from '../schemas/getUserRewardsResponse.js';
+import type { GetPoolStatsResponse } from '../schemas/getPoolStatsResponse.js';
+import type { GetNetworkStatsResponse } from '../schemas/getNetworkStatsResponse.js';
+import type { GetPayoutsResponse } from '../schemas/getPayoutsResponse.js';
+import type { GetBlockRewardsResponse } from '../schemas/getBlockRewardsResponse.js';
+import type { GetDailyHashrateResponse } from '../schemas/getDailyHashrateResponse.js';
+import type { DailyHashrateScope } from '../schemas/getDailyHashrateInput.js';
+
+/**
+ * Common interface implemented by all Braiins API clients
+ *
+ * Every method resolves to the normalized response types consumed by
+ * the MCP tools, regardless of the wire format used by the backend.
+ */
+export interface PoolApiClient {
+  getUserOverview(): Promise<GetUserOverviewResponse>;
+  listWorkers(params: Record<string, string | number>): Promise<ListWorkersResponse>;
+  getWorkerDetails(workerId: string): Promise<GetWorkerDetailsResponse>;
+  getWorkerHashrate(
+    workerId: string,
+    params?: Record<string, string>
+  ): Promise<GetWorkerHashrateResponse>;
+  getUserRewards(params?: Record<string, string>): Promise<GetUserRewardsResponse>;
+  getPayouts(params?: Record<string, string>): Promise<GetPayoutsResponse>;
+  getBlockRewards(params?: Record<string, string>): Promise<GetBlockRewardsResponse>;
+  getDailyHashrate(scope?: DailyHashrateScope): Promise<GetDailyHashrateResponse>;
+  getPoolStats(): Promise<GetPoolStatsResponse>;
+  getNetworkStats(): Promise<GetNetworkStatsResponse>;
+}
+
+/**
+ * Options for constructing the underlying HTTP client
+ */
+export interface BaseClientOptions {
+  baseURL: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Per-account credentials accepted by the client implementations
+ *
+ * Omitted fields fall back to the global settings.
+ */
+export interface ClientCredentials {
+  token?: string;
+  baseURL?: string;
+}
+
+/**
+ * Base Braiins API client
+ *
+ * Owns the axios instance and the retry/error handling shared by
+ * the REST and native client implementations.
+ */
+export abstract class BaseBraiinsClient {
+  protected readonly client: AxiosInstance;
+  private readonly baseURL: string;
+  private readonly rateLimiter: RateLimiter;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelay: number;
+
+  constructor(options: BaseClientOptions) {
+    this.baseURL = options.baseURL;
+    this.rateLimiter = getRateLimiter();
+    this.maxRetries = config.maxRetries;
+    this.retryBaseDelay = config.retryBaseDelay;
+
+    this.client = axios.create({
+      baseURL: options.baseURL,
+      timeout: config.requestTimeout,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    // Request interceptor for logging
+    this.client.interceptors.request.use((request) => {
+      logger.debug('API request', {
+        method: request.method?.toUpperCase(),
+        url: request.url,
+      });
+      return request;
+    });
+
+    // Response interceptor for logging
+    this.client.interceptors.response.use(
+      (response) => {
+        logger.debug('API response', {
+          status: response.status,
+          url: response.config.url,
+        });
+        return response;
+      },
+      (error: AxiosError) => {
+        logger.warn('API error', {
+          status: error.response?.status,
+          url: error.config?.url,
+          message: error.message,
+        });
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Execute request with exponential backoff retry
+   *
+   * Every attempt, including retries, must be admitted by the endpoint's
+   * circuit breaker and then wait for a rate limiter token. A
+   * CircuitOpenError or RateLimitError is not retried, so once a failing
+   * endpoint's circuit opens, callers fail fast instead of sitting through
+   * the remaining backoff delays.
+   *
+   * @param endpoint - Path template identifying the endpoint's circuit, e.g. /workers/{id}
+   */
+  protected async retryWithBackoff<T>(
+    endpoint: string,
+    fn: () => Promise<AxiosResponse<T>>,
+    retryCount = 0
+  ): Promise<T> {
+    const breaker = getCircuitBreakers().get(this.baseURL, endpoint);
+    breaker.admit();
+
+    try {
+      await this.rateLimiter.acquire();
+    } catch (error) {
+      breaker.release();
+      throw error;
+    }
+
+    try {
+      const response = await fn();
+      breaker.recordSuccess();
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      // Don't retry client errors (4xx) - these won't succeed on retry
+      if (axiosError.response && axiosError.response.status < 500) {
+        // The API answered, so the endpoint is healthy
+        breaker.recordSuccess();
+        throw this.handleApiError(axiosError);
+      }
+
+      breaker.recordFailure(axiosError.message);
+
+      // Check if we have retries left
+      if (retryCount >= this.maxRetries) {
+        throw this.handleApiError(axiosError);
+      }
+
+      // Calculate delay with exponential backoff: 1s, 2s, 4s...
+      const delay = this.retryBaseDelay * Math.pow(2, retryCount);
+      logger.info('Retrying API request', {
+        endpoint,
+        attempt: retryCount + 1,
+        maxRetries: this.maxRetries,
+        delayMs: delay,
+      });
+
+      await this.sleep(delay);
+      return this.retryWithBackoff(endpoint, fn, retryCount + 1);
+    }
+  }
+
+  /**
+   * Sleep utility for retry delays
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Convert Axios errors to our custom error types
+   */
+  private handleApiError(error: AxiosError): BraiinsApiError | NetworkError {
+    // Network error (no response received)
+    if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' || !error.response) {
+      return new NetworkError(`Cannot connect to Braiins API: ${error.message}`, {
+        code: error.code,
+      });
+    }
+
+    // API returned an error response
+    const status = error.response.status;
+    const data = error.response.data as Record<string, unknown> | undefined;
+    const message = typeof data?.message === 'string' ? data.message : undefined;
+
+    return BraiinsApiError.fromHttpStatus(status, message, {
+      url: error.config?.url,
+      data,
+    });
+  }
+}
@@ -2,13 +2,14 @@
  * Braiins Pool API Client
  *
  * HTTP client for communicating with Braiins Pool monitoring API.
- * Implements retry logic, authentication, and error handling.
+ * Implements authentication and endpoint routing on top of the shared
+ * retry and error handling in BaseBraiinsClient.
  */
 
-import axios, { type AxiosInstance, type AxiosError, type AxiosResponse } from 'axios';
 import { config } from '../config/settings.js';
-import { logger } from '../utils/logger.js';
-import { BraiinsApiError, NetworkError } from '../utils/errors.js';
+import { getAccountRegistry, type Account } from '../config/accounts.js';
+import { BaseBraiinsClient, type ClientCredentials, type PoolApiClient } from './baseClient.js';
+import { NativeBraiinsClient } from './nativeBraiinsClient.js';
 import type { GetUserOverviewResponse } from '../schemas/getUserOverviewResponse.js';
 import type { ListWorkersResponse } from '../schemas/listWorkersResponse.js';
 import type { GetWorkerDetailsResponse } from '../schemas/getWorkerDetailsResponse.js';
@@ -16,125 +17,33 @@ import type { GetWorkerHashrateResponse } from '../schemas/getWorkerHashrateResp
 import type { GetUserRewardsResponse } from '../schemas/getUserRewardsResponse.js';
 import type { GetPoolStatsResponse } from '../schemas/getPoolStatsResponse.js';
 import type { GetNetworkStatsResponse } from '../schemas/getNetworkStatsResponse.js';
+import type { GetPayoutsResponse } from '../schemas/getPayoutsResponse.js';
+import type { GetBlockRewardsResponse } from '../schemas/getBlockRewardsResponse.js';
+import type { GetDailyHashrateResponse } from '../schemas/getDailyHashrateResponse.js';
+import type { DailyHashrateScope } from '../schemas/getDailyHashrateInput.js';
+
+export type { ClientCredentials, PoolApiClient } from './baseClient.js';
 
 /**
  * Braiins API Client
  *
  * Provides type-safe methods for calling Braiins Pool API endpoints.
  */
-export class BraiinsClient {
-  private readonly client: AxiosInstance;
-  private readonly maxRetries: number;
-  private readonly retryBaseDelay: number;
-
-  constructor() {
-    this.maxRetries = config.maxRetries;
-    this.retryBaseDelay = config.retryBaseDelay;
-
-    const hasToken = config.braiinsApiToken !== undefined && config.braiinsApiToken !== '';
-    this.client = axios.create({
-      baseURL: config.braiinsApiBaseUrl,
-      timeout: config.requestTimeout,
+export class BraiinsClient extends BaseBraiinsClient implements PoolApiClient {
+  /**
+   * @param credentials - Account token and base URL (default: global settings)
+   */
+  constructor(credentials: ClientCredentials = {}) {
+    const token = credentials.token ?? config.braiinsApiToken;
+    const hasToken = token !== undefined && token !== '';
+    super({
+      baseURL: credentials.baseURL ?? config.braiinsApiBaseUrl,
       headers: {
-        'Content-Type': 'application/json',
         ...(hasToken && {
-          Authorization: `Bearer ${config.braiinsApiToken}`,
+          Authorization: `Bearer ${token}`,
         }),
       },
     });
-
-    // Request interceptor for logging
-    this.client.interceptors.request.use((request) => {
-      logger.debug('API request', {
-        method: request.method?.toUpperCase(),
-        url: request.url,
-      });
-      return request;
-    });
-
-    // Response interceptor for logging
-    this.client.interceptors.response.use(
-      (response) => {
-        logger.debug('API response', {
-          status: response.status,
-          url: response.config.url,
-        });
-        return response;
-      },
-      (error: AxiosError) => {
-        logger.warn('API error', {
-          status: error.response?.status,
-          url: error.config?.url,
-          message: error.message,
-        });
-        return Promise.reject(error);
-      }
-    );
-  }
-
-  /**
-   * Execute request with exponential backoff retry
-   */
-  private async retryWithBackoff<T>(
-    fn: () => Promise<AxiosResponse<T>>,
-    retryCount = 0
-  ): Promise<T> {
-    try {
-      const response = await fn();
-      return response.data;
-    } catch (error) {
-      const axiosError = error as AxiosError;
-
-      // Don't retry client errors (4xx) - these won't succeed on retry
-      if (axiosError.response && axiosError.response.status < 500) {
-        throw this.handleApiError(axiosError);
-      }
-
-      // Check if we have retries left
-      if (retryCount >= this.maxRetries) {
-        throw this.handleApiError(axiosError);
-      }
-
-      // Calculate delay with exponential backoff: 1s, 2s, 4s...
-      const delay = this.retryBaseDelay * Math.pow(2, retryCount);
-      logger.info('Retrying API request', {
-        attempt: retryCount + 1,
-        maxRetries: this.maxRetries,
-        delayMs: delay,
-      });
-
-      await this.sleep(delay);
-      return this.retryWithBackoff(fn, retryCount + 1);
-    }
-  }
-
-  /**
-   * Sleep utility for retry delays
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Convert Axios errors to our custom error types
-   */
-  private handleApiError(error: AxiosError): BraiinsApiError | NetworkError {
-    // Network error (no response received)
-    if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' || !error.response) {
-      return new NetworkError(`Cannot connect to Braiins API: ${error.message}`, {
-        code: error.code,
-      });
-    }
-
-    // API returned an error response
-    const status = error.response.status;
-    const data = error.response.data as Record<string, unknown> | undefined;
-    const message = typeof data?.message === 'string' ? data.message : undefined;
-
-    return BraiinsApiError.fromHttpStatus(status, message, {
-      url: error.config?.url,
-      data,
-    });
   }
 
   // ============================================================================
@@ -150,7 +59,9 @@ export class BraiinsClient {
    * @see API.md Section 5.1
    */
   async getUserOverview(): Promise<GetUserOverviewResponse> {
-    return this.retryWithBackoff(() => this.client.get<GetUserOverviewResponse>('/user/overview'));
+    return this.retryWithBackoff('/user/overview', () =>
+      this.client.get<GetUserOverviewResponse>('/user/overview')
+    );
   }
 
   /**
@@ -163,7 +74,7 @@ export class BraiinsClient {
    * @see API.md Section 6.1
    */
   async listWorkers(params: Record<string, string | number>): Promise<ListWorkersResponse> {
-    return this.retryWithBackoff(() =>
+    return this.retryWithBackoff('/workers', () =>
       this.client.get<ListWorkersResponse>('/workers', { params })
     );
   }
@@ -178,7 +89,7 @@ export class BraiinsClient {
    * @see API.md Section 6.2
    */
   async getWorkerDetails(workerId: string): Promise<GetWorkerDetailsResponse> {
-    return this.retryWithBackoff(() =>
+    return this.retryWithBackoff('/workers/{id}', () =>
       this.client.get<GetWorkerDetailsResponse>(`/workers/${encodeURIComponent(workerId)}`)
     );
   }
@@ -197,7 +108,7 @@ export class BraiinsClient {
     workerId: string,
     params: Record<string, string> = {}
   ): Promise<GetWorkerHashrateResponse> {
-    return this.retryWithBackoff(() =>
+    return this.retryWithBackoff('/workers/{id}/hashrate', () =>
       this.client.get<GetWorkerHashrateResponse>(
         `/workers/${encodeURIComponent(workerId)}/hashrate`,
         { params }
@@ -215,11 +126,58 @@ export class BraiinsClient {
    * @see API.md Section 5.2
    */
   async getUserRewards(params: Record<string, string> = {}): Promise<GetUserRewardsResponse> {
-    return this.retryWithBackoff(() =>
+    return this.retryWithBackoff('/user/rewards', () =>
       this.client.get<GetUserRewardsResponse>('/user/rewards', { params })
     );
   }
 
+  /**
+   * Get payout transactions
+   *
+   * Returns on-chain and Lightning payouts for the authenticated account.
+   * Supports time range filtering.
+   *
+   * @param params - Query parameters (from, to)
+   * @see docs/API.md Payouts API
+   */
+  async getPayouts(params: Record<string, string> = {}): Promise<GetPayoutsResponse> {
+    return this.retryWithBackoff('/user/payouts', () =>
+      this.client.get<GetPayoutsResponse>('/user/payouts', { params })
+    );
+  }
+
+  /**
+   * Get per-block rewards
+   *
+   * Returns the user's reward for each pool block found in the range,
+   * with its component breakdown and remaining confirmations.
+   *
+   * @param params - Query parameters (from, to)
+   * @see docs/API.md Block Rewards API
+   */
+  async getBlockRewards(params: Record<string, string> = {}): Promise<GetBlockRewardsResponse> {
+    return this.retryWithBackoff('/user/block-rewards', () =>
+      this.client.get<GetBlockRewardsResponse>('/user/block-rewards', { params })
+    );
+  }
+
+  /**
+   * Get daily hashrate history
+   *
+   * Returns the daily average hashrate and share count for the account,
+   * or for its user group.
+   *
+   * @param scope - user (default) or group
+   * @see docs/API.md Daily Hashrate API
+   */
+  async getDailyHashrate(scope: DailyHashrateScope = 'user'): Promise<GetDailyHashrateResponse> {
+    return this.retryWithBackoff('/user/hashrate/daily', () =>
+      this.client.get<GetDailyHashrateResponse>('/user/hashrate/daily', {
+        params: scope === 'group' ? { group: 'true' } : {},
+      })
+    );
+  }
+
   /**
    * Get pool statistics
    *
@@ -229,7 +187,9 @@ export class BraiinsClient {
    * @see API.md Section 7.1
    */
   async getPoolStats(): Promise<GetPoolStatsResponse> {
-    return this.retryWithBackoff(() => this.client.get<GetPoolStatsResponse>('/pool/stats'));
+    return this.retryWithBackoff('/pool/stats', () =>
+      this.client.get<GetPoolStatsResponse>('/pool/stats')
+    );
   }
 
   /**
@@ -241,28 +201,48 @@ export class BraiinsClient {
    * @see API.md Section 7.2
    */
   async getNetworkStats(): Promise<GetNetworkStatsResponse> {
-    return this.retryWithBackoff(() => this.client.get<GetNetworkStatsResponse>('/network/stats'));
+    return this.retryWithBackoff('/network/stats', () =>
+      this.client.get<GetNetworkStatsResponse>('/network/stats')
+    );
   }
 }
 
 /**
- * Singleton instance of the Braiins client
+ * Braiins client instances, one per account
  */
-let clientInstance: BraiinsClient | null = null;
+const clientInstances = new Map<string, PoolApiClient>();
 
 /**
- * Get the Braiins client instance (lazy initialization)
+ * Build the client implementation selected by the account's API mode
+ */
+function createClient(account: Account): PoolApiClient {
+  return account.apiMode === 'native'
+    ? new NativeBraiinsClient({ token: account.apiToken, baseURL: account.nativeApiBaseUrl })
+    : new BraiinsClient({ token: account.apiToken, baseURL: account.apiBaseUrl });
+}
+
+/**
+ * Get the Braiins client for an account (lazy initialization)
+ *
+ * Selects the REST or native implementation from the account's API mode
+ * (BRAIINS_API_MODE unless the accounts file overrides it).
+ *
+ * @param accountName - Configured account name (default: the default account)
+ * @throws ValidationError if the account is not configured
  */
-export function getBraiinsClient(): BraiinsClient {
-  if (!clientInstance) {
-    clientInstance = new BraiinsClient();
+export function getBraiinsClient(accountName?: string): PoolApiClient {
+  const account = getAccountRegistry().resolve(accountName);
+  let client = clientInstances.get(account.name);
+  if (!client) {
+    client = createClient(account);
+    clientInstances.set(account.name, client);
   }
-  return clientInstance;
+  return client;
 }
 
 /**
- * Reset the client instance (useful for testing)
+ * Reset all client instances (useful for testing)
  */
 export function resetBraiinsClient(): void {
-  clientInstance = null;
+  clientInstances.clear();
 }
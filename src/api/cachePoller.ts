@@ -0,0 +1,296 @@
+/**
+ * Background cache poller
+ *
+ * CachedBraiinsClient is cache-aside, so the first call after each TTL
+ * expiry pays full API latency. When POLL_ENABLED is set, the poller
+ * refreshes the user overview, the first worker list page, pool stats and
+ * network stats of every account on fixed intervals, replacing cache entries
+ * before they expire so tool calls are served from Redis.
+ *
+ * Refreshes go through the shared rate limiter and use at most
+ * POLL_RATE_BUDGET of RATE_LIMIT_RPS: when the configured intervals need
+ * more, every interval is stretched to fit. A refresh is skipped while tool
+ * calls are queued in the limiter. Every refresh notifies onCacheRefresh
+ * listeners, so resource subscriptions and other consumers see fresh data
+ * without a tool call. Accounts in native API mode skip network stats, which
+ * that API does not expose.
+ */
+
+import { getCachedBraiinsClient } from './cachedBraiinsClient.js';
+import { getRateLimiter } from './rateLimiter.js';
+import { getAccountRegistry, type Account } from '../config/accounts.js';
+import { config } from '../config/settings.js';
+import { getTTL } from '../cache/index.js';
+import { ListWorkersInputSchema, toApiParams } from '../schemas/listWorkersInput.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Resources the poller keeps warm
+ */
+export type PolledResource = 'user-overview' | 'workers-list' | 'pool-stats' | 'network-stats';
+
+/**
+ * Every polled resource, in refresh order
+ */
+const POLLED_RESOURCES: readonly PolledResource[] = [
+  'user-overview',
+  'workers-list',
+  'pool-stats',
+  'network-stats',
+];
+
+/**
+ * Resources the native Braiins Pool API cannot serve
+ */
+const NATIVE_UNSUPPORTED: ReadonlySet<PolledResource> = new Set(['network-stats']);
+
+/**
+ * Seconds between refreshes of each resource
+ */
+export type PollIntervals = Record<PolledResource, number>;
+
+/**
+ * Poller settings
+ */
+export interface CachePollerOptions {
+  intervals: PollIntervals;
+  /** Requests per second the poller may use */
+  requestsPerSecond: number;
+}
+
+/**
+ * State of one account/resource refresh loop
+ */
+export interface PollTaskStatus {
+  account: string;
+  resource: PolledResource;
+  /** Effective interval after fitting the rate budget */
+  intervalSeconds: number;
+  runs: number;
+  failures: number;
+  /** Refreshes skipped because tool calls were waiting for the rate limiter */
+  skipped: number;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+interface PollTask {
+  status: PollTaskStatus;
+  timer: NodeJS.Timeout | null;
+  running: Promise<void> | null;
+}
+
+/**
+ * Load poller settings from configuration
+ */
+export function loadPollerOptions(): CachePollerOptions {
+  return {
+    intervals: {
+      'user-overview': config.pollIntervalUserOverview,
+      'workers-list': config.pollIntervalWorkers,
+      'pool-stats': config.pollIntervalPoolStats,
+      'network-stats': config.pollIntervalNetworkStats,
+    },
+    requestsPerSecond: config.rateLimitRequestsPerSecond * config.pollRateBudget,
+  };
+}
+
+/**
+ * Resources the poller refreshes for an account
+ */
+function polledResources(account: Account): PolledResource[] {
+  return account.apiMode === 'native'
+    ? POLLED_RESOURCES.filter((resource) => !NATIVE_UNSUPPORTED.has(resource))
+    : [...POLLED_RESOURCES];
+}
+
+/**
+ * Stretch intervals so every account's refreshes fit the rate budget
+ *
+ * Each refresh is one request, so accounts polling resources at intervals t_i
+ * need Σ 1/t_i requests per second over every account's resources.
+ *
+ * @param polled - Resources polled for each account
+ * @returns Intervals in seconds, unchanged when they already fit
+ */
+export function fitIntervals(
+  intervals: PollIntervals,
+  polled: readonly (readonly PolledResource[])[],
+  requestsPerSecond: number
+): PollIntervals {
+  const demand = polled.flat().reduce((sum, resource) => sum + 1 / intervals[resource], 0);
+  const stretch = Math.max(1, demand / requestsPerSecond);
+  // Whole milliseconds, so floating point noise does not leak into timers and logs
+  const fit = (seconds: number): number => Math.round(seconds * stretch * 1000) / 1000;
+
+  return {
+    'user-overview': fit(intervals['user-overview']),
+    'workers-list': fit(intervals['workers-list']),
+    'pool-stats': fit(intervals['pool-stats']),
+    'network-stats': fit(intervals['network-stats']),
+  };
+}
+
+/**
+ * Refresh one resource of one account, bypassing the cache
+ */
+async function refresh(account: string, resource: PolledResource): Promise<void> {
+  const client = getCachedBraiinsClient(account);
+  switch (resource) {
+    case 'user-overview':
+      await client.getUserOverview({ refresh: true });
+      return;
+    case 'workers-list':
+      // The page listWorkers requests when called without arguments
+      await client.listWorkers(toApiParams(ListWorkersInputSchema.parse({})), { refresh: true });
+      return;
+    case 'pool-stats':
+      await client.getPoolStats({ refresh: true });
+      return;
+    case 'network-stats':
+      await client.getNetworkStats({ refresh: true });
+      return;
+  }
+}
+
+/**
+ * Refreshes cached resources of every account on a timer
+ */
+export class CachePoller {
+  private readonly tasks: PollTask[] = [];
+
+  constructor(private readonly options: CachePollerOptions = loadPollerOptions()) {}
+
+  /**
+   * Start one refresh loop per account and resource
+   *
+   * First refreshes are staggered to spread them over the rate budget.
+   */
+  start(): void {
+    if (this.tasks.length > 0) return;
+
+    const accounts = getAccountRegistry().list();
+    const intervals = fitIntervals(
+      this.options.intervals,
+      accounts.map(polledResources),
+      this.options.requestsPerSecond
+    );
+    if (intervals['user-overview'] > this.options.intervals['user-overview']) {
+      logger.warn('Poll intervals stretched to fit the rate budget', {
+        accounts: accounts.length,
+        requestsPerSecond: this.options.requestsPerSecond,
+        intervals,
+      });
+    }
+
+    for (const resource of POLLED_RESOURCES) {
+      if (intervals[resource] > getTTL(resource)) {
+        logger.warn('Poll interval exceeds cache TTL; entries expire between refreshes', {
+          resource,
+          intervalSeconds: intervals[resource],
+          ttlSeconds: getTTL(resource),
+        });
+      }
+    }
+
+    const spacingMs = 1000 / this.options.requestsPerSecond;
+    for (const account of accounts) {
+      for (const resource of polledResources(account)) {
+        const intervalMs = intervals[resource] * 1000;
+        const task: PollTask = {
+          status: {
+            account: account.name,
+            resource,
+            intervalSeconds: intervals[resource],
+            runs: 0,
+            failures: 0,
+            skipped: 0,
+            lastRunAt: null,
+            lastError: null,
+          },
+          timer: null,
+          running: null,
+        };
+        this.schedule(task, Math.min(this.tasks.length * spacingMs, intervalMs), intervalMs);
+        this.tasks.push(task);
+      }
+    }
+
+    logger.info('Cache poller started', {
+      accounts: accounts.length,
+      tasks: this.tasks.length,
+      requestsPerSecond: this.options.requestsPerSecond,
+    });
+  }
+
+  /**
+   * Stop every loop and wait for refreshes in progress
+   */
+  async stop(): Promise<void> {
+    const running: Promise<void>[] = [];
+    for (const task of this.tasks) {
+      if (task.timer) {
+        clearTimeout(task.timer);
+        task.timer = null;
+      }
+      if (task.running) {
+        running.push(task.running);
+      }
+    }
+    this.tasks.length = 0;
+    await Promise.all(running);
+  }
+
+  /**
+   * State of every refresh loop
+   */
+  getStatus(): PollTaskStatus[] {
+    return this.tasks.map((task) => ({ ...task.status }));
+  }
+
+  private schedule(task: PollTask, delayMs: number, intervalMs: number): void {
+    task.timer = setTimeout(() => {
+      task.running = this.run(task).finally(() => {
+        task.running = null;
+      });
+      // Schedule the next refresh unless stop() ran meanwhile
+      void task.running.then(() => {
+        if (task.timer !== null) {
+          this.schedule(task, intervalMs, intervalMs);
+        }
+      });
+    }, delayMs);
+    // Polling alone should not keep the process alive
+    task.timer.unref();
+  }
+
+  private async run(task: PollTask): Promise<void> {
+    const { status } = task;
+
+    // Tool calls waiting for a token come first
+    if (getRateLimiter().getStats().queueDepth > 0) {
+      status.skipped++;
+      logger.debug('Poll skipped; rate limiter busy', {
+        account: status.account,
+        resource: status.resource,
+      });
+      return;
+    }
+
+    try {
+      await refresh(status.account, status.resource);
+      status.lastError = null;
+    } catch (error) {
+      status.failures++;
+      status.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn('Poll refresh failed', {
+        account: status.account,
+        resource: status.resource,
+        error: status.lastError,
+      });
+    } finally {
+      status.runs++;
+      status.lastRunAt = new Date().toISOString();
+    }
+  }
+}
@@ -3,9 +3,16 @@
  *
  * Wraps the BraiinsClient with Redis caching for improved performance.
  * Implements cache-aside pattern: check cache first, fall through to API on miss.
+ * The cache poller reads with `refresh` to replace entries before they expire.
+ *
+ * In stale-while-revalidate mode (CACHE_STALE_WHILE_REVALIDATE=true) entries
+ * are kept until their hard TTL. An entry past its soft TTL is still returned,
+ * recorded as a stale read for the tool call, and refreshed in the background,
+ * so tools keep answering from the cache while the Braiins API is down.
  */
 
-import { BraiinsClient, getBraiinsClient } from './braiinsClient.js';
+import { getBraiinsClient, type PoolApiClient } from './braiinsClient.js';
+import { getAccountRegistry } from '../config/accounts.js';
 import {
   getRedisManager,
   buildUserOverviewKey,
@@ -13,10 +20,18 @@ import {
   buildWorkerDetailsKey,
   buildWorkerHashrateKey,
   buildUserRewardsKey,
+  buildPayoutsKey,
+  buildBlockRewardsKey,
+  buildDailyHashrateKey,
   buildPoolStatsKey,
   buildNetworkStatsKey,
+  buildStaleEntryKey,
   getTTL,
+  getHardTTL,
+  isStaleWhileRevalidate,
+  recordStaleRead,
   shouldCache,
+  type ResourceType,
 } from '../cache/index.js';
 import { logger } from '../utils/logger.js';
 import type { GetUserOverviewResponse } from '../schemas/getUserOverviewResponse.js';
@@ -26,72 +41,174 @@ import type { GetWorkerHashrateResponse } from '../schemas/getWorkerHashrateResp
 import type { GetUserRewardsResponse } from '../schemas/getUserRewardsResponse.js';
 import type { GetPoolStatsResponse } from '../schemas/getPoolStatsResponse.js';
 import type { GetNetworkStatsResponse } from '../schemas/getNetworkStatsResponse.js';
+import type { GetPayoutsResponse } from '../schemas/getPayoutsResponse.js';
+import type { GetBlockRewardsResponse } from '../schemas/getBlockRewardsResponse.js';
+import type { GetDailyHashrateResponse } from '../schemas/getDailyHashrateResponse.js';
+import type { DailyHashrateScope } from '../schemas/getDailyHashrateInput.js';
+
+/**
+ * Fresh data fetched from the API after a cache miss
+ */
+export interface CacheRefreshEvent {
+  account: string;
+  resourceType: ResourceType;
+  /** Worker ID for per-worker resources */
+  identifier?: string;
+  data: unknown;
+}
+
+/**
+ * Options for reads that can bypass the cache
+ */
+export interface CacheReadOptions {
+  /** Skip the cache lookup, fetch from the API and overwrite the cache entry */
+  refresh?: boolean;
+}
+
+/**
+ * Cache entry in stale-while-revalidate mode
+ */
+interface StaleEntry<T> {
+  data: T;
+  /** When the data was fetched from the API (epoch ms) */
+  cachedAt: number;
+}
+
+/**
+ * Callback for cache refresh events
+ */
+export type CacheRefreshListener = (event: CacheRefreshEvent) => void;
+
+/**
+ * Listeners notified whenever any account refreshes data from the API
+ */
+const refreshListeners = new Set<CacheRefreshListener>();
+
+/**
+ * Listen for data refreshed from the API
+ *
+ * @returns Function removing the listener
+ */
+export function onCacheRefresh(listener: CacheRefreshListener): () => void {
+  refreshListeners.add(listener);
+  return () => {
+    refreshListeners.delete(listener);
+  };
+}
 
 /**
  * Cached Braiins API Client
  *
- * Provides the same interface as BraiinsClient but with transparent caching.
+ * Provides the same interface as PoolApiClient but with transparent caching.
  * Cache failures are handled gracefully - API calls proceed on cache errors.
  */
 export class CachedBraiinsClient {
-  private readonly client: BraiinsClient;
+  private readonly client: PoolApiClient;
+  readonly account: string;
+  /** Background refreshes in progress, by stale entry key */
+  private readonly revalidations = new Map<string, Promise<void>>();
+  /** Error of the last failed background refresh, by stale entry key */
+  private readonly revalidationErrors = new Map<string, string>();
 
-  constructor() {
-    this.client = getBraiinsClient();
+  /**
+   * @param accountName - Configured account name (default: the default account)
+   * @throws ValidationError if the account is not configured
+   */
+  constructor(accountName?: string) {
+    this.account = getAccountRegistry().resolve(accountName).name;
+    this.client = getBraiinsClient(this.account);
   }
 
   /**
-   * Get user overview with caching
+   * Notify refresh listeners; a failing listener never breaks the API call
    */
-  async getUserOverview(): Promise<GetUserOverviewResponse> {
-    const cacheKey = buildUserOverviewKey();
-
-    if (shouldCache('user-overview')) {
-      const cache = getRedisManager();
-      const cached = await cache.get<GetUserOverviewResponse>(cacheKey);
-      if (cached !== null) {
-        return cached;
+  private notifyRefresh(resourceType: ResourceType, data: unknown, identifier?: string): void {
+    for (const listener of refreshListeners) {
+      try {
+        listener({ account: this.account, resourceType, identifier, data });
+      } catch (err) {
+        logger.warn('Cache refresh listener failed', {
+          resourceType,
+          error: err instanceof Error ? err.message : String(err),
+        });
       }
     }
-
-    // Cache miss - call API
-    const data = await this.client.getUserOverview();
-
-    // Store in cache (fire-and-forget)
-    if (shouldCache('user-overview')) {
-      const cache = getRedisManager();
-      const ttl = getTTL('user-overview');
-      cache.set(cacheKey, data, ttl).catch((err: Error) => {
-        logger.debug('Failed to cache user overview', { error: err.message });
-      });
-    }
-
-    return data;
   }
 
   /**
-   * List workers with caching
+   * Read a resource through the cache
+   *
+   * @param resourceType - Resource type, selecting the TTL
+   * @param cacheKey - Cache key of the request
+   * @param fetch - API call made on a cache miss
+   * @param options - Read options
+   * @param identifier - Worker ID for per-worker resources
    */
-  async listWorkers(params: Record<string, string | number>): Promise<ListWorkersResponse> {
-    const cacheKey = buildWorkersListKey(params);
-
-    if (shouldCache('workers-list')) {
+  private async read<T>(
+    resourceType: ResourceType,
+    cacheKey: string,
+    fetch: () => Promise<T>,
+    options: CacheReadOptions = {},
+    identifier?: string
+  ): Promise<T> {
+    if (options.refresh !== true && shouldCache(resourceType)) {
       const cache = getRedisManager();
-      const cached = await cache.get<ListWorkersResponse>(cacheKey);
-      if (cached !== null) {
-        return cached;
+
+      if (isStaleWhileRevalidate()) {
+        const entryKey = buildStaleEntryKey(cacheKey);
+        const entry = await cache.get<StaleEntry<T>>(entryKey);
+        if (entry !== null) {
+          const ageMs = Date.now() - entry.cachedAt;
+          if (ageMs > getTTL(resourceType) * 1000) {
+            // Past the soft TTL: answer now, refresh for the next read
+            recordStaleRead({
+              account: this.account,
+              resourceType,
+              identifier,
+              cachedAt: entry.cachedAt,
+              ageSeconds: Math.floor(ageMs / 1000),
+              revalidationError: this.revalidationErrors.get(entryKey) ?? null,
+            });
+            this.revalidate(resourceType, cacheKey, fetch, identifier);
+          }
+          return entry.data;
+        }
+      } else {
+        const cached = await cache.get<T>(cacheKey);
+        if (cached !== null) {
+          return cached;
+        }
       }
     }
 
     // Cache miss - call API
-    const data = await this.client.listWorkers(params);
+    return this.fetchAndStore(resourceType, cacheKey, fetch, identifier);
+  }
+
+  /**
+   * Call the API, notify refresh listeners and store the response
+   */
+  private async fetchAndStore<T>(
+    resourceType: ResourceType,
+    cacheKey: string,
+    fetch: () => Promise<T>,
+    identifier?: string
+  ): Promise<T> {
+    const data = await fetch();
+    this.notifyRefresh(resourceType, data, identifier);
 
     // Store in cache (fire-and-forget)
-    if (shouldCache('workers-list')) {
+    if (shouldCache(resourceType)) {
       const cache = getRedisManager();
-      const ttl = getTTL('workers-list');
-      cache.set(cacheKey, data, ttl).catch((err: Error) => {
-        logger.debug('Failed to cache workers list', { error: err.message });
+      const write = isStaleWhileRevalidate()
+        ? cache.set<StaleEntry<T>>(
+            buildStaleEntryKey(cacheKey),
+            { data, cachedAt: Date.now() },
+            getHardTTL(resourceType)
+          )
+        : cache.set(cacheKey, data, getTTL(resourceType));
+      write.catch((err: Error) => {
+        logger.debug('Failed to cache API response', { resourceType, error: err.message });
       });
     }
 
@@ -99,172 +216,177 @@ export class CachedBraiinsClient {
   }
 
   /**
-   * Get worker details with caching
+   * Refresh a stale entry in the background, once at a time per entry
    */
-  async getWorkerDetails(workerId: string): Promise<GetWorkerDetailsResponse> {
-    const cacheKey = buildWorkerDetailsKey(workerId);
-
-    if (shouldCache('worker-details')) {
-      const cache = getRedisManager();
-      const cached = await cache.get<GetWorkerDetailsResponse>(cacheKey);
-      if (cached !== null) {
-        return cached;
-      }
-    }
+  private revalidate<T>(
+    resourceType: ResourceType,
+    cacheKey: string,
+    fetch: () => Promise<T>,
+    identifier?: string
+  ): void {
+    const entryKey = buildStaleEntryKey(cacheKey);
+    if (this.revalidations.has(entryKey)) return;
+
+    const revalidation = this.fetchAndStore(resourceType, cacheKey, fetch, identifier)
+      .then(() => {
+        this.revalidationErrors.delete(entryKey);
+      })
+      .catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        this.revalidationErrors.set(entryKey, message);
+        logger.warn('Background cache refresh failed, serving stale data', {
+          account: this.account,
+          resourceType,
+          error: message,
+        });
+      })
+      .finally(() => {
+        this.revalidations.delete(entryKey);
+      });
+    this.revalidations.set(entryKey, revalidation);
+  }
 
-    // Cache miss - call API
-    const data = await this.client.getWorkerDetails(workerId);
+  /**
+   * Get user overview with caching
+   */
+  getUserOverview(options: CacheReadOptions = {}): Promise<GetUserOverviewResponse> {
+    return this.read(
+      'user-overview',
+      buildUserOverviewKey(this.account),
+      () => this.client.getUserOverview(),
+      options
+    );
+  }
 
-    // Store in cache (fire-and-forget)
-    if (shouldCache('worker-details')) {
-      const cache = getRedisManager();
-      const ttl = getTTL('worker-details');
-      cache.set(cacheKey, data, ttl).catch((err: Error) => {
-        logger.debug('Failed to cache worker details', { error: err.message });
-      });
-    }
+  /**
+   * List workers with caching
+   */
+  listWorkers(
+    params: Record<string, string | number>,
+    options: CacheReadOptions = {}
+  ): Promise<ListWorkersResponse> {
+    return this.read(
+      'workers-list',
+      buildWorkersListKey(this.account, params),
+      () => this.client.listWorkers(params),
+      options
+    );
+  }
 
-    return data;
+  /**
+   * Get worker details with caching
+   */
+  getWorkerDetails(workerId: string): Promise<GetWorkerDetailsResponse> {
+    return this.read(
+      'worker-details',
+      buildWorkerDetailsKey(this.account, workerId),
+      () => this.client.getWorkerDetails(workerId),
+      {},
+      workerId
+    );
   }
 
   /**
    * Get worker hashrate with caching
    */
-  async getWorkerHashrate(
+  getWorkerHashrate(
     workerId: string,
     params: Record<string, string> = {}
   ): Promise<GetWorkerHashrateResponse> {
-    const cacheKey = buildWorkerHashrateKey(workerId, params);
-
-    if (shouldCache('worker-hashrate')) {
-      const cache = getRedisManager();
-      const cached = await cache.get<GetWorkerHashrateResponse>(cacheKey);
-      if (cached !== null) {
-        return cached;
-      }
-    }
-
-    // Cache miss - call API
-    const data = await this.client.getWorkerHashrate(workerId, params);
-
-    // Store in cache (fire-and-forget)
-    if (shouldCache('worker-hashrate')) {
-      const cache = getRedisManager();
-      const ttl = getTTL('worker-hashrate');
-      cache.set(cacheKey, data, ttl).catch((err: Error) => {
-        logger.debug('Failed to cache worker hashrate', { error: err.message });
-      });
-    }
-
-    return data;
+    return this.read(
+      'worker-hashrate',
+      buildWorkerHashrateKey(this.account, workerId, params),
+      () => this.client.getWorkerHashrate(workerId, params),
+      {},
+      workerId
+    );
   }
 
   /**
    * Get user rewards with caching
    */
-  async getUserRewards(params: Record<string, string> = {}): Promise<GetUserRewardsResponse> {
-    const cacheKey = buildUserRewardsKey(params);
-
-    if (shouldCache('user-rewards')) {
-      const cache = getRedisManager();
-      const cached = await cache.get<GetUserRewardsResponse>(cacheKey);
-      if (cached !== null) {
-        return cached;
-      }
-    }
+  getUserRewards(params: Record<string, string> = {}): Promise<GetUserRewardsResponse> {
+    return this.read('user-rewards', buildUserRewardsKey(this.account, params), () =>
+      this.client.getUserRewards(params)
+    );
+  }
 
-    // Cache miss - call API
-    const data = await this.client.getUserRewards(params);
+  /**
+   * Get payouts with caching
+   */
+  getPayouts(params: Record<string, string> = {}): Promise<GetPayoutsResponse> {
+    return this.read('payouts', buildPayoutsKey(this.account, params), () =>
+      this.client.getPayouts(params)
+    );
+  }
 
-    // Store in cache (fire-and-forget)
-    if (shouldCache('user-rewards')) {
-      const cache = getRedisManager();
-      const ttl = getTTL('user-rewards');
-      cache.set(cacheKey, data, ttl).catch((err: Error) => {
-        logger.debug('Failed to cache user rewards', { error: err.message });
-      });
-    }
+  /**
+   * Get block rewards with caching
+   */
+  getBlockRewards(params: Record<string, string> = {}): Promise<GetBlockRewardsResponse> {
+    return this.read('block-rewards', buildBlockRewardsKey(this.account, params), () =>
+      this.client.getBlockRewards(params)
+    );
+  }
 
-    return data;
+  /**
+   * Get daily hashrate with caching
+   */
+  getDailyHashrate(scope: DailyHashrateScope = 'user'): Promise<GetDailyHashrateResponse> {
+    return this.read('daily-hashrate', buildDailyHashrateKey(this.account, scope), () =>
+      this.client.getDailyHashrate(scope)
+    );
   }
 
   /**
    * Get pool statistics with caching
    */
-  async getPoolStats(): Promise<GetPoolStatsResponse> {
-    const cacheKey = buildPoolStatsKey();
-
-    if (shouldCache('pool-stats')) {
-      const cache = getRedisManager();
-      const cached = await cache.get<GetPoolStatsResponse>(cacheKey);
-      if (cached !== null) {
-        return cached;
-      }
-    }
-
-    // Cache miss - call API
-    const data = await this.client.getPoolStats();
-
-    // Store in cache (fire-and-forget)
-    if (shouldCache('pool-stats')) {
-      const cache = getRedisManager();
-      const ttl = getTTL('pool-stats');
-      cache.set(cacheKey, data, ttl).catch((err: Error) => {
-        logger.debug('Failed to cache pool stats', { error: err.message });
-      });
-    }
-
-    return data;
+  getPoolStats(options: CacheReadOptions = {}): Promise<GetPoolStatsResponse> {
+    return this.read(
+      'pool-stats',
+      buildPoolStatsKey(this.account),
+      () => this.client.getPoolStats(),
+      options
+    );
   }
 
   /**
    * Get network statistics with caching
    */
-  async getNetworkStats(): Promise<GetNetworkStatsResponse> {
-    const cacheKey = buildNetworkStatsKey();
-
-    if (shouldCache('network-stats')) {
-      const cache = getRedisManager();
-      const cached = await cache.get<GetNetworkStatsResponse>(cacheKey);
-      if (cached !== null) {
-        return cached;
-      }
-    }
-
-    // Cache miss - call API
-    const data = await this.client.getNetworkStats();
-
-    // Store in cache (fire-and-forget)
-    if (shouldCache('network-stats')) {
-      const cache = getRedisManager();
-      const ttl = getTTL('network-stats');
-      cache.set(cacheKey, data, ttl).catch((err: Error) => {
-        logger.debug('Failed to cache network stats', { error: err.message });
-      });
-    }
-
-    return data;
+  getNetworkStats(options: CacheReadOptions = {}): Promise<GetNetworkStatsResponse> {
+    return this.read(
+      'network-stats',
+      buildNetworkStatsKey(this.account),
+      () => this.client.getNetworkStats(),
+      options
+    );
   }
 }
 
 /**
- * Singleton instance of the cached Braiins client
+ * Cached client instances, one per account
  */
-let cachedClientInstance: CachedBraiinsClient | null = null;
+const cachedClientInstances = new Map<string, CachedBraiinsClient>();
 
 /**
- * Get the cached Braiins client instance (lazy initialization)
+ * Get the cached Braiins client for an account (lazy initialization)
+ *
+ * @param accountName - Configured account name (default: the default account)
+ * @throws ValidationError if the account is not configured
  */
-export function getCachedBraiinsClient(): CachedBraiinsClient {
-  if (!cachedClientInstance) {
-    cachedClientInstance = new CachedBraiinsClient();
+export function getCachedBraiinsClient(accountName?: string): CachedBraiinsClient {
+  const account = getAccountRegistry().resolve(accountName).name;
+  let client = cachedClientInstances.get(account);
+  if (!client) {
+    client = new CachedBraiinsClient(account);
+    cachedClientInstances.set(account, client);
   }
-  return cachedClientInstance;
+  return client;
 }
 
 /**
- * Reset the cached client instance (useful for testing)
+ * Reset all cached client instances (useful for testing)
  */
 export function resetCachedBraiinsClient(): void {
-  cachedClientInstance = null;
+  cachedClientInstances.clear();
 }
@@ -0,0 +1,248 @@
+/**
+ * Circuit breaker for Braiins API endpoints
+ *
+ * Each endpoint of each API base URL has its own breaker:
+ *
+ * - closed: requests pass; CIRCUIT_FAILURE_THRESHOLD consecutive failed
+ *   attempts (network errors and 5xx responses) open the circuit
+ * - open: requests fail immediately with CIRCUIT_OPEN, without waiting for
+ *   retries, until CIRCUIT_RESET_TIMEOUT has passed
+ * - half-open: a single probe request is let through; success closes the
+ *   circuit, failure opens it again
+ *
+ * 4xx responses count as successes: the API answered, the request was wrong.
+ */
+
+import { z } from 'zod';
+import { config } from '../config/settings.js';
+import { logger } from '../utils/logger.js';
+import { CircuitOpenError } from '../utils/errors.js';
+
+export const CircuitStateEnum = z.enum(['closed', 'open', 'half-open']);
+export type CircuitState = z.infer<typeof CircuitStateEnum>;
+
+/**
+ * Breaker state for diagnostics
+ */
+export interface CircuitStatus {
+  /** API base URL */
+  api: string;
+  /** Endpoint path template, e.g. /workers/{id} */
+  endpoint: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  /** Requests rejected without contacting the API */
+  totalRejected: number;
+  /** Epoch ms, null unless the circuit is open or half-open */
+  openedAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  /** Epoch ms when an open circuit admits a probe, null unless open */
+  retryAt: number | null;
+}
+
+/**
+ * Three-state breaker guarding one endpoint
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private totalRejected = 0;
+  private openedAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+  private probeInFlight = false;
+
+  /**
+   * @param api - API base URL
+   * @param endpoint - Endpoint path template
+   * @param failureThreshold - Consecutive failures that open the circuit
+   * @param resetTimeoutMs - Time an open circuit waits before a probe
+   */
+  constructor(
+    readonly api: string,
+    readonly endpoint: string,
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Admit one request attempt
+   *
+   * @throws CircuitOpenError while open, or while a half-open probe is in flight
+   */
+  admit(now: number = Date.now()): void {
+    if (this.state === 'open' && this.openedAt !== null) {
+      const retryAt = this.openedAt + this.resetTimeoutMs;
+      if (now < retryAt) {
+        this.totalRejected++;
+        throw new CircuitOpenError(
+          `Braiins API circuit open for ${this.endpoint} after ${this.consecutiveFailures} ` +
+            `consecutive failures; retrying in ${Math.ceil((retryAt - now) / 1000)}s`,
+          {
+            api: this.api,
+            endpoint: this.endpoint,
+            lastError: this.lastError,
+            retryAt: new Date(retryAt).toISOString(),
+          }
+        );
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) {
+        this.totalRejected++;
+        throw new CircuitOpenError(
+          `Braiins API circuit half-open for ${this.endpoint}; waiting for a probe request`,
+          { api: this.api, endpoint: this.endpoint, lastError: this.lastError }
+        );
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  /**
+   * Give back an admitted attempt that never reached the API
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Record an attempt the API answered
+   */
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.openedAt = null;
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * Record a network error or 5xx response
+   */
+  recordFailure(message: string, now: number = Date.now()): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastFailureAt = now;
+    this.lastError = message;
+
+    const reopen = this.state === 'half-open';
+    if (reopen || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = now;
+      this.transition('open');
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      api: this.api,
+      endpoint: this.endpoint,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalRejected: this.totalRejected,
+      openedAt: this.openedAt,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError,
+      retryAt:
+        this.state === 'open' && this.openedAt !== null
+          ? this.openedAt + this.resetTimeoutMs
+          : null,
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    const from = this.state;
+    this.state = state;
+    const meta = {
+      api: this.api,
+      endpoint: this.endpoint,
+      from,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+
+    if (state === 'open') {
+      logger.warn('Circuit breaker opened', {
+        ...meta,
+        resetTimeoutMs: this.resetTimeoutMs,
+        lastError: this.lastError,
+      });
+    } else if (state === 'half-open') {
+      logger.info('Circuit breaker half-open, probing endpoint', meta);
+    } else {
+      logger.info('Circuit breaker closed', meta);
+    }
+  }
+}
+
+/**
+ * Breakers for every endpoint seen so far
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Breaker for an endpoint, created closed on first use
+   */
+  get(api: string, endpoint: string): CircuitBreaker {
+    const key = `${api} ${endpoint}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(api, endpoint, this.failureThreshold, this.resetTimeoutMs);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Status of every breaker, sorted by API and endpoint
+   */
+  list(): CircuitStatus[] {
+    return [...this.breakers.values()]
+      .map((breaker) => breaker.getStatus())
+      .sort((a, b) =>
+        a.api === b.api ? a.endpoint.localeCompare(b.endpoint) : a.api.localeCompare(b.api)
+      );
+  }
+}
+
+/**
+ * Singleton registry shared by all Braiins clients
+ */
+let registryInstance: CircuitBreakerRegistry | null = null;
+
+/**
+ * Get the circuit breaker registry (lazy initialization)
+ */
+export function getCircuitBreakers(): CircuitBreakerRegistry {
+  if (!registryInstance) {
+    registryInstance = new CircuitBreakerRegistry(
+      config.circuitFailureThreshold,
+      config.circuitResetTimeout
+    );
+  }
+  return registryInstance;
+}
+
+/**
+ * Reset the circuit breaker registry (useful for testing)
+ */
+export function resetCircuitBreakers(): void {
+  registryInstance = null;
+}
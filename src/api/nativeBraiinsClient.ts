@@ -0,0 +1,794 @@
+/**
+ * Native Braiins Pool API Client
+ *
+ * Client for the JSON endpoints actually served by pool.braiins.com
+ * (/accounts/profile/json/btc/, /accounts/workers/json/btc, /stats/json/btc/, ...),
+ * authenticated with the Pool-Auth-Token header.
+ *
+ * Responses are normalized into the same types returned by BraiinsClient
+ * so that every MCP tool works unchanged against either backend.
+ *
+ * @see docs/API.md
+ */
+
+import { config } from '../config/settings.js';
+import { BaseBraiinsClient, type ClientCredentials, type PoolApiClient } from './baseClient.js';
+import { BraiinsApiError, ErrorCode } from '../utils/errors.js';
+import type { GetUserOverviewResponse } from '../schemas/getUserOverviewResponse.js';
+import type { ListWorkersResponse, Worker } from '../schemas/listWorkersResponse.js';
+import { matchesStatusFilter } from '../schemas/listWorkersInput.js';
+import type { GetWorkerDetailsResponse } from '../schemas/getWorkerDetailsResponse.js';
+import type { GetWorkerHashrateResponse } from '../schemas/getWorkerHashrateResponse.js';
+import type { GetUserRewardsResponse } from '../schemas/getUserRewardsResponse.js';
+import type { GetPoolStatsResponse } from '../schemas/getPoolStatsResponse.js';
+import type { GetNetworkStatsResponse } from '../schemas/getNetworkStatsResponse.js';
+import type { GetPayoutsResponse, Payout } from '../schemas/getPayoutsResponse.js';
+import type { GetBlockRewardsResponse, BlockReward } from '../schemas/getBlockRewardsResponse.js';
+import type { GetDailyHashrateResponse } from '../schemas/getDailyHashrateResponse.js';
+import type { DailyHashrateScope } from '../schemas/getDailyHashrateInput.js';
+
+// ============================================================================
+// Wire Format Types
+// ============================================================================
+
+/**
+ * Numeric fields are documented as "number/string" on several endpoints
+ */
+type NumericValue = number | string;
+
+/**
+ * Coin section of GET /accounts/profile/json/btc/
+ */
+export interface NativeProfileCoin {
+  all_time_reward: string;
+  hash_rate_unit: string;
+  hash_rate_5m: NumericValue;
+  hash_rate_60m: NumericValue;
+  hash_rate_24h: NumericValue;
+  hash_rate_yesterday: NumericValue;
+  low_workers: number;
+  off_workers: number;
+  ok_workers: number;
+  dis_workers: number;
+  current_balance: string;
+  today_reward: string;
+  estimated_reward: string;
+  shares_5m: number;
+  shares_60m: number;
+  shares_24h: number;
+  shares_yesterday: number;
+}
+
+/**
+ * Response of GET /accounts/profile/json/btc/
+ */
+export interface NativeProfileResponse {
+  username: string;
+  btc: NativeProfileCoin;
+}
+
+/**
+ * Worker state reported by the pool
+ */
+export type NativeWorkerState = 'ok' | 'low' | 'off' | 'dis';
+
+/**
+ * Single worker entry of GET /accounts/workers/json/btc
+ */
+export interface NativeWorker {
+  last_share: number | null;
+  state: NativeWorkerState;
+  hash_rate_unit: string;
+  hash_rate_scoring: NumericValue;
+  hash_rate_5m: NumericValue;
+  hash_rate_60m: NumericValue;
+  hash_rate_24h: NumericValue;
+  shares_5m: number;
+  shares_60m: number;
+  shares_24h: number;
+}
+
+/**
+ * Response of GET /accounts/workers/json/btc (workers keyed by name)
+ */
+export interface NativeWorkersResponse {
+  btc: {
+    workers: Record<string, NativeWorker>;
+  };
+}
+
+/**
+ * Single block entry of GET /stats/json/btc/
+ */
+export interface NativeBlock {
+  date_found: number;
+  mining_duration: number;
+  total_shares: number;
+  state: string;
+  confirmations_left: number;
+  value: string;
+  user_reward: string;
+  pool_scoring_hash_rate: number;
+}
+
+/**
+ * Response of GET /stats/json/btc/ (blocks keyed by height)
+ */
+export interface NativePoolStatsResponse {
+  btc: {
+    hash_rate_unit: string;
+    pool_5m_hash_rate: NumericValue;
+    pool_60m_hash_rate: NumericValue;
+    pool_24h_hash_rate: NumericValue;
+    update_ts: number;
+    blocks: Record<string, NativeBlock>;
+    fpps_rate: NumericValue;
+  };
+}
+
+/**
+ * Single day of GET /accounts/rewards/json/btc
+ */
+export interface NativeDailyReward {
+  date: number;
+  total_reward: NumericValue;
+  mining_reward: NumericValue;
+  bos_plus_reward: NumericValue;
+  referral_bonus: NumericValue;
+  referral_reward: NumericValue;
+  calculation_date: number;
+}
+
+/**
+ * Response of GET /accounts/rewards/json/btc
+ */
+export interface NativeDailyRewardsResponse {
+  btc: {
+    daily_rewards: NativeDailyReward[];
+  };
+}
+
+/**
+ * Single payout entry of GET /accounts/payouts/json/btc
+ */
+export interface NativePayout {
+  financial_account_name?: string;
+  requested_at_ts: number;
+  resolved_at_ts: number | null;
+  status: Payout['status'];
+  amount_sats: number;
+  fee_sats: number;
+  destination: string;
+  tx_id?: string | null;
+  invoice?: string | null;
+  preimage?: string | null;
+  trigger_type?: string;
+}
+
+/**
+ * Response of GET /accounts/payouts/json/btc
+ */
+export interface NativePayoutsResponse {
+  btc: {
+    onchain?: NativePayout[];
+    lightning?: NativePayout[];
+  };
+}
+
+/**
+ * Single block entry of GET /accounts/block_rewards/json/btc
+ */
+export interface NativeBlockReward {
+  block_found_at: number;
+  pool_scoring_hash_rate: NumericValue;
+  user_scoring_hash_rate: NumericValue;
+  block_value: NumericValue;
+  user_reward: NumericValue;
+  block_heigh: number;
+  mining_reward: NumericValue;
+  braiinsos_plus_mining_bonus: NumericValue;
+  referral_reward: NumericValue;
+  referral_bonus: NumericValue;
+  confirmations_left: number;
+}
+
+/**
+ * Response of GET /accounts/block_rewards/json/btc
+ */
+export interface NativeBlockRewardsResponse {
+  btc: {
+    hash_rate_unit?: string;
+    block_rewards: NativeBlockReward[];
+  };
+}
+
+/**
+ * Single day of GET /accounts/hash_rate_daily/json/[group]/btc
+ */
+export interface NativeDailyHashrate {
+  date: number;
+  hash_rate_unit: string;
+  hash_rate_24h: NumericValue;
+  total_shares: NumericValue;
+}
+
+/**
+ * Response of GET /accounts/hash_rate_daily/json/[group]/btc
+ */
+export interface NativeDailyHashrateResponse {
+  btc: NativeDailyHashrate[];
+}
+
+// ============================================================================
+// Normalization Helpers
+// ============================================================================
+
+/**
+ * SI prefix multipliers for hash rate units such as "Gh/s" or "TH/s"
+ */
+const HASH_RATE_MULTIPLIERS: Record<string, number> = {
+  '': 1,
+  k: 1e3,
+  m: 1e6,
+  g: 1e9,
+  t: 1e12,
+  p: 1e15,
+  e: 1e18,
+  z: 1e21,
+};
+
+/**
+ * Parse a numeric field that may be serialized as a string
+ */
+function toNumber(value: NumericValue | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Format a BTC amount with fixed 8-decimal precision
+ */
+function toBtcString(value: NumericValue | null | undefined): string {
+  return toNumber(value).toFixed(8);
+}
+
+/**
+ * Convert a Unix timestamp (seconds) to ISO 8601
+ */
+function toIsoTimestamp(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+
+/**
+ * Convert a hash rate in the given unit to H/s
+ *
+ * @param value - Hash rate value in `unit`
+ * @param unit - Unit string reported by the API (e.g. "Gh/s")
+ */
+export function toHashesPerSecond(value: NumericValue, unit: string): number {
+  const prefix = unit.trim().toLowerCase().replace(/h\/s$/, '');
+  const multiplier = HASH_RATE_MULTIPLIERS[prefix] ?? 1;
+  return toNumber(value) * multiplier;
+}
+
+/**
+ * Pass the pool's four worker states through, treating unknown states as off
+ */
+function toWorkerStatus(state: NativeWorkerState): Worker['status'] {
+  switch (state) {
+    case 'ok':
+    case 'low':
+    case 'off':
+    case 'dis':
+      return state;
+    default:
+      return 'off';
+  }
+}
+
+/**
+ * Normalize the profile endpoint into a user overview
+ *
+ * The native API does not report payout history, so last payout fields
+ * are left empty. Current balance is reported as confirmed rewards and
+ * the estimated reward for the current block as unconfirmed.
+ */
+export function normalizeProfile(
+  data: NativeProfileResponse,
+  fetchedAt: Date = new Date()
+): GetUserOverviewResponse {
+  const coin = data.btc;
+  const unit = coin.hash_rate_unit;
+  const active = coin.ok_workers + coin.low_workers;
+
+  return {
+    username: data.username,
+    currency: 'BTC',
+    hashrate: {
+      current: toHashesPerSecond(coin.hash_rate_5m, unit),
+      avg_1h: toHashesPerSecond(coin.hash_rate_60m, unit),
+      avg_24h: toHashesPerSecond(coin.hash_rate_24h, unit),
+    },
+    rewards: {
+      confirmed: toBtcString(coin.current_balance),
+      unconfirmed: toBtcString(coin.estimated_reward),
+      last_payout: toBtcString(0),
+      last_payout_at: null,
+      today_reward: toBtcString(coin.today_reward),
+    },
+    workers: {
+      active,
+      inactive: coin.off_workers,
+      total: active + coin.off_workers + coin.dis_workers,
+      ok: coin.ok_workers,
+      low: coin.low_workers,
+      off: coin.off_workers,
+      dis: coin.dis_workers,
+    },
+    updated_at: fetchedAt.toISOString(),
+  };
+}
+
+/**
+ * Normalize a single native worker entry
+ */
+export function normalizeWorker(name: string, worker: NativeWorker): Worker {
+  const unit = worker.hash_rate_unit;
+  return {
+    id: name,
+    name,
+    status: toWorkerStatus(worker.state),
+    hashrate: {
+      current: toHashesPerSecond(worker.hash_rate_5m, unit),
+      avg_24h: toHashesPerSecond(worker.hash_rate_24h, unit),
+    },
+    shares: {
+      valid: worker.shares_24h,
+      invalid: 0,
+    },
+    last_share_at:
+      worker.last_share !== null && worker.last_share > 0
+        ? toIsoTimestamp(worker.last_share)
+        : null,
+  };
+}
+
+/**
+ * Compare two workers according to the REST sort_by parameter
+ */
+function compareWorkers(sortBy: string | number | undefined): (a: Worker, b: Worker) => number {
+  switch (sortBy) {
+    case 'hashrate_desc':
+      return (a, b) => b.hashrate.avg_24h - a.hashrate.avg_24h;
+    case 'hashrate_asc':
+      return (a, b) => a.hashrate.avg_24h - b.hashrate.avg_24h;
+    case 'name_desc':
+      return (a, b) => b.name.localeCompare(a.name);
+    case 'last_share':
+      return (a, b) =>
+        new Date(b.last_share_at ?? 0).getTime() - new Date(a.last_share_at ?? 0).getTime();
+    case 'name_asc':
+    default:
+      return (a, b) => a.name.localeCompare(b.name);
+  }
+}
+
+/**
+ * Normalize the workers endpoint into a paginated worker list
+ *
+ * The native endpoint returns every worker at once, so filtering,
+ * sorting and pagination are applied client-side using the same
+ * parameters the REST API accepts (page, page_size, status, search, sort_by).
+ */
+export function normalizeWorkers(
+  data: NativeWorkersResponse,
+  params: Record<string, string | number> = {}
+): ListWorkersResponse {
+  const page = toNumber(params.page) || 1;
+  const pageSize = toNumber(params.page_size) || 50;
+  const status = params.status;
+  const search = typeof params.search === 'string' ? params.search.toLowerCase() : '';
+
+  const workers = Object.entries(data.btc.workers)
+    .map(([name, worker]) => normalizeWorker(name, worker))
+    .filter((worker) => status === undefined || matchesStatusFilter(worker.status, String(status)))
+    .filter((worker) => search === '' || worker.name.toLowerCase().includes(search))
+    .sort(compareWorkers(params.sort_by));
+
+  const start = (page - 1) * pageSize;
+
+  return {
+    page,
+    page_size: pageSize,
+    total: workers.length,
+    workers: workers.slice(start, start + pageSize),
+  };
+}
+
+/**
+ * Normalize the pool stats endpoint
+ *
+ * The native endpoint reports neither active worker counts nor luck, so
+ * both are null.
+ */
+export function normalizePoolStats(data: NativePoolStatsResponse): GetPoolStatsResponse {
+  const stats = data.btc;
+  const blocks = Object.entries(stats.blocks).sort(([, a], [, b]) => b.date_found - a.date_found);
+  const latest = blocks[0] as [string, NativeBlock] | undefined;
+
+  return {
+    coin: 'BTC',
+    pool_hashrate: toHashesPerSecond(stats.pool_5m_hash_rate, stats.hash_rate_unit),
+    workers_active: null,
+    last_block:
+      latest !== undefined
+        ? {
+            height: parseInt(latest[0], 10),
+            found_at: toIsoTimestamp(latest[1].date_found),
+            reward: latest[1].value,
+          }
+        : {
+            height: 0,
+            found_at: toIsoTimestamp(stats.update_ts),
+            reward: toBtcString(0),
+          },
+    luck: null,
+    fpps_rate: toNumber(stats.fpps_rate),
+    recent_blocks: blocks.map(([height, block]) => ({
+      height: parseInt(height, 10),
+      found_at: toIsoTimestamp(block.date_found),
+      mining_duration: block.mining_duration,
+      total_shares: block.total_shares,
+      state: block.state,
+      confirmations_left: block.confirmations_left,
+      value: toBtcString(block.value),
+      user_reward: toBtcString(block.user_reward),
+      pool_scoring_hashrate: toHashesPerSecond(block.pool_scoring_hash_rate, stats.hash_rate_unit),
+    })),
+    updated_at: toIsoTimestamp(stats.update_ts),
+  };
+}
+
+/**
+ * Normalize the daily rewards endpoint into a rewards timeseries
+ *
+ * Each day's total reward is reported as confirmed; the native endpoint
+ * does not break out unconfirmed amounts or payouts per day.
+ */
+export function normalizeDailyRewards(data: NativeDailyRewardsResponse): GetUserRewardsResponse {
+  const points = [...data.btc.daily_rewards]
+    .sort((a, b) => a.date - b.date)
+    .map((day) => ({
+      timestamp: toIsoTimestamp(day.date),
+      confirmed: toBtcString(day.total_reward),
+      unconfirmed: toBtcString(0),
+      payout: toBtcString(0),
+      mining_reward: toBtcString(day.mining_reward),
+      bos_plus_reward: toBtcString(day.bos_plus_reward),
+      referral_bonus: toBtcString(day.referral_bonus),
+      referral_reward: toBtcString(day.referral_reward),
+    }));
+
+  return { currency: 'BTC', points };
+}
+
+/**
+ * Normalize a single native payout entry
+ */
+function normalizePayout(type: Payout['type'], payout: NativePayout): Payout {
+  return {
+    type,
+    status: payout.status,
+    amount_sats: payout.amount_sats,
+    fee_sats: payout.fee_sats,
+    destination: payout.destination,
+    tx_id: payout.tx_id ?? null,
+    invoice: payout.invoice ?? null,
+    requested_at: toIsoTimestamp(payout.requested_at_ts),
+    resolved_at:
+      payout.resolved_at_ts !== null && payout.resolved_at_ts > 0
+        ? toIsoTimestamp(payout.resolved_at_ts)
+        : null,
+    ...(payout.trigger_type !== undefined && { trigger_type: payout.trigger_type }),
+    ...(payout.financial_account_name !== undefined && {
+      financial_account_name: payout.financial_account_name,
+    }),
+  };
+}
+
+/**
+ * Normalize the payouts endpoint, merging on-chain and Lightning payouts
+ * into a single list ordered by request time (newest first)
+ */
+export function normalizePayouts(data: NativePayoutsResponse): GetPayoutsResponse {
+  const onchain = (data.btc.onchain ?? []).map((p) => normalizePayout('onchain', p));
+  const lightning = (data.btc.lightning ?? []).map((p) => normalizePayout('lightning', p));
+
+  const payouts = [...onchain, ...lightning].sort(
+    (a, b) => new Date(b.requested_at).getTime() - new Date(a.requested_at).getTime()
+  );
+
+  return { currency: 'BTC', payouts };
+}
+
+/**
+ * Normalize the block rewards endpoint (newest block first)
+ *
+ * The endpoint does not document a hash rate unit; the pool's default Gh/s
+ * is assumed unless one is reported. The `block_heigh` typo is corrected.
+ */
+export function normalizeBlockRewards(data: NativeBlockRewardsResponse): GetBlockRewardsResponse {
+  const unit = data.btc.hash_rate_unit ?? 'Gh/s';
+
+  const blockRewards: BlockReward[] = [...data.btc.block_rewards]
+    .sort((a, b) => b.block_found_at - a.block_found_at)
+    .map((block) => ({
+      block_height: block.block_heigh,
+      found_at: toIsoTimestamp(block.block_found_at),
+      pool_scoring_hashrate: toHashesPerSecond(block.pool_scoring_hash_rate, unit),
+      user_scoring_hashrate: toHashesPerSecond(block.user_scoring_hash_rate, unit),
+      block_value: toBtcString(block.block_value),
+      user_reward: toBtcString(block.user_reward),
+      mining_reward: toBtcString(block.mining_reward),
+      braiinsos_plus_mining_bonus: toBtcString(block.braiinsos_plus_mining_bonus),
+      referral_reward: toBtcString(block.referral_reward),
+      referral_bonus: toBtcString(block.referral_bonus),
+      confirmations_left: block.confirmations_left,
+    }));
+
+  return { currency: 'BTC', block_rewards: blockRewards };
+}
+
+/**
+ * Normalize the daily hashrate endpoint into a series ordered oldest first
+ */
+export function normalizeDailyHashrate(
+  data: NativeDailyHashrateResponse,
+  scope: DailyHashrateScope
+): GetDailyHashrateResponse {
+  const points = [...data.btc]
+    .sort((a, b) => a.date - b.date)
+    .map((day) => ({
+      timestamp: toIsoTimestamp(day.date),
+      hashrate_24h: toHashesPerSecond(day.hash_rate_24h, day.hash_rate_unit),
+      total_shares: toNumber(day.total_shares),
+    }));
+
+  return { scope, points };
+}
+
+/**
+ * Convert REST-style ISO datetime params to the native YYYY-MM-DD range
+ */
+export function toNativeDateParams(params: Record<string, string> = {}): Record<string, string> {
+  const dateParams: Record<string, string> = {};
+  if (params.from) {
+    dateParams.from = params.from.slice(0, 10);
+  }
+  if (params.to) {
+    dateParams.to = params.to.slice(0, 10);
+  }
+  return dateParams;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * How long a fetched workers payload is reused
+ *
+ * The native API returns every worker in one response, so paging through it
+ * (worker walks, per-worker detail lookups) reuses one fetch instead of
+ * downloading the whole list for each page.
+ */
+const WORKERS_PAYLOAD_TTL_MS = 5000;
+
+/**
+ * Native Braiins API Client
+ *
+ * Speaks the pool's real wire format and returns normalized responses.
+ */
+export class NativeBraiinsClient extends BaseBraiinsClient implements PoolApiClient {
+  /**
+   * @param credentials - Account token and base URL (default: global settings)
+   */
+  constructor(credentials: ClientCredentials = {}) {
+    const token = credentials.token ?? config.braiinsApiToken ?? '';
+    super({
+      baseURL: credentials.baseURL ?? config.braiinsNativeApiBaseUrl,
+      headers: token !== '' ? { 'Pool-Auth-Token': token } : {},
+    });
+  }
+
+  /**
+   * Most recent workers payload fetch; expiresAt is set once it resolves
+   */
+  private workersPayload?: { data: Promise<NativeWorkersResponse>; expiresAt: number };
+
+  /**
+   * Build an error for endpoints the native API does not provide
+   */
+  private unsupported(operation: string): BraiinsApiError {
+    return new BraiinsApiError(
+      `${operation} is not available from the native Braiins Pool API`,
+      ErrorCode.NOT_FOUND,
+      404,
+      { apiMode: 'native' }
+    );
+  }
+
+  /**
+   * Get user overview from the profile endpoint
+   */
+  async getUserOverview(): Promise<GetUserOverviewResponse> {
+    const data = await this.retryWithBackoff('/accounts/profile/json/btc/', () =>
+      this.client.get<NativeProfileResponse>('/accounts/profile/json/btc/')
+    );
+    return normalizeProfile(data);
+  }
+
+  /**
+   * Fetch the workers payload, sharing an in-flight or recent fetch
+   */
+  private fetchWorkers(): Promise<NativeWorkersResponse> {
+    const cached = this.workersPayload;
+    if (cached !== undefined && Date.now() < cached.expiresAt) {
+      return cached.data;
+    }
+
+    const entry = {
+      data: this.retryWithBackoff('/accounts/workers/json/btc', () =>
+        this.client.get<NativeWorkersResponse>('/accounts/workers/json/btc')
+      ),
+      expiresAt: Infinity,
+    };
+    this.workersPayload = entry;
+    entry.data.then(
+      () => {
+        entry.expiresAt = Date.now() + WORKERS_PAYLOAD_TTL_MS;
+      },
+      () => {
+        if (this.workersPayload === entry) {
+          this.workersPayload = undefined;
+        }
+      }
+    );
+    return entry.data;
+  }
+
+  /**
+   * List workers from the workers endpoint
+   *
+   * @param params - REST-style query parameters, applied client-side
+   */
+  async listWorkers(params: Record<string, string | number>): Promise<ListWorkersResponse> {
+    const data = await this.fetchWorkers();
+    return normalizeWorkers(data, params);
+  }
+
+  /**
+   * Get worker details by looking the worker up in the workers endpoint
+   *
+   * The native API has no per-worker endpoint, hardware or environment data,
+   * and does not report worker creation time; both timestamps are the fetch time.
+   *
+   * @param workerId - Worker name (e.g. "username.worker1")
+   */
+  async getWorkerDetails(workerId: string): Promise<GetWorkerDetailsResponse> {
+    const data = await this.fetchWorkers();
+
+    const worker = data.btc.workers[workerId] as NativeWorker | undefined;
+    if (worker === undefined) {
+      throw BraiinsApiError.fromHttpStatus(404, `Worker not found: ${workerId}`);
+    }
+
+    const normalized = normalizeWorker(workerId, worker);
+    const fetchedAt = new Date().toISOString();
+
+    return {
+      id: normalized.id,
+      name: normalized.name,
+      status: normalized.status,
+      hashrate: {
+        current: normalized.hashrate.current,
+        avg_1h: toHashesPerSecond(worker.hash_rate_60m, worker.hash_rate_unit),
+        avg_24h: normalized.hashrate.avg_24h,
+      },
+      shares: {
+        valid: worker.shares_24h,
+        invalid: 0,
+        stale: 0,
+      },
+      last_share_at: normalized.last_share_at,
+      created_at: fetchedAt,
+      updated_at: fetchedAt,
+    };
+  }
+
+  /**
+   * Worker hashrate timeseries are not exposed by the native API
+   */
+  getWorkerHashrate(
+    _workerId: string,
+    _params: Record<string, string> = {}
+  ): Promise<GetWorkerHashrateResponse> {
+    return Promise.reject(this.unsupported('Worker hashrate history'));
+  }
+
+  /**
+   * Get daily rewards for a date range
+   *
+   * @param params - REST-style params; from/to are truncated to YYYY-MM-DD
+   */
+  async getUserRewards(params: Record<string, string> = {}): Promise<GetUserRewardsResponse> {
+    const data = await this.retryWithBackoff('/accounts/rewards/json/btc', () =>
+      this.client.get<NativeDailyRewardsResponse>('/accounts/rewards/json/btc', {
+        params: toNativeDateParams(params),
+      })
+    );
+    return normalizeDailyRewards(data);
+  }
+
+  /**
+   * Get payouts for a date range
+   *
+   * @param params - REST-style params; from/to are truncated to YYYY-MM-DD
+   */
+  async getPayouts(params: Record<string, string> = {}): Promise<GetPayoutsResponse> {
+    const data = await this.retryWithBackoff('/accounts/payouts/json/btc', () =>
+      this.client.get<NativePayoutsResponse>('/accounts/payouts/json/btc', {
+        params: toNativeDateParams(params),
+      })
+    );
+    return normalizePayouts(data);
+  }
+
+  /**
+   * Get per-block rewards for a date range
+   *
+   * @param params - REST-style params; from/to are truncated to YYYY-MM-DD
+   */
+  async getBlockRewards(params: Record<string, string> = {}): Promise<GetBlockRewardsResponse> {
+    const data = await this.retryWithBackoff('/accounts/block_rewards/json/btc', () =>
+      this.client.get<NativeBlockRewardsResponse>('/accounts/block_rewards/json/btc', {
+        params: toNativeDateParams(params),
+      })
+    );
+    return normalizeBlockRewards(data);
+  }
+
+  /**
+   * Get daily hashrate for the account or its user group
+   *
+   * @param scope - user (default) or group; group adds the `group` path segment
+   */
+  async getDailyHashrate(scope: DailyHashrateScope = 'user'): Promise<GetDailyHashrateResponse> {
+    const path =
+      scope === 'group'
+        ? '/accounts/hash_rate_daily/json/group/btc'
+        : '/accounts/hash_rate_daily/json/btc';
+    const data = await this.retryWithBackoff(path, () =>
+      this.client.get<NativeDailyHashrateResponse>(path)
+    );
+    return normalizeDailyHashrate(data, scope);
+  }
+
+  /**
+   * Get pool statistics from the stats endpoint
+   */
+  async getPoolStats(): Promise<GetPoolStatsResponse> {
+    const data = await this.retryWithBackoff('/stats/json/btc/', () =>
+      this.client.get<NativePoolStatsResponse>('/stats/json/btc/')
+    );
+    return normalizePoolStats(data);
+  }
+
+  /**
+   * Network statistics are not exposed by the native API
+   */
+  getNetworkStats(): Promise<GetNetworkStatsResponse> {
+    return Promise.reject(this.unsupported('Network statistics'));
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Client-side Rate Limiter
+ *
+ * Token-bucket limiter that queues outbound Braiins API requests so the
+ * server never exceeds RATE_LIMIT_RPS (sustained) or RATE_LIMIT_BURST (peak).
+ * Braiins may ignore requests or temporarily ban the IP when its limits are exceeded.
+ */
+
+import { config } from '../config/settings.js';
+import { logger } from '../utils/logger.js';
+import { RateLimitError } from '../utils/errors.js';
+
+/**
+ * Rate limiter statistics for monitoring
+ */
+export interface RateLimiterStats {
+  availableTokens: number;
+  queueDepth: number;
+  totalAdmitted: number;
+  totalRejected: number;
+}
+
+/**
+ * Request waiting in the queue for a token
+ */
+interface QueuedRequest {
+  resolve: () => void;
+  enqueuedAt: number;
+}
+
+/**
+ * Token-bucket rate limiter with FIFO queueing
+ *
+ * Design principles:
+ * - Requests are admitted in arrival order
+ * - Bucket starts full so a cold start can burst up to the configured size
+ * - Requests whose estimated wait exceeds maxWaitMs are rejected immediately
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly queue: QueuedRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private totalAdmitted = 0;
+  private totalRejected = 0;
+
+  /**
+   * @param requestsPerSecond - Sustained refill rate
+   * @param burstSize - Bucket capacity
+   * @param maxWaitMs - Longest a caller may wait for a token before RATE_LIMITED
+   */
+  constructor(
+    private readonly requestsPerSecond: number,
+    private readonly burstSize: number,
+    private readonly maxWaitMs: number
+  ) {
+    this.tokens = burstSize;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Add tokens accrued since the last refill, capped at burst size
+   */
+  private refill(): void {
+    const now = Date.now();
+    const elapsedMs = now - this.lastRefill;
+    if (elapsedMs > 0) {
+      this.tokens = Math.min(
+        this.burstSize,
+        this.tokens + (elapsedMs / 1000) * this.requestsPerSecond
+      );
+      this.lastRefill = now;
+    }
+  }
+
+  /**
+   * Estimate how long a request at the given queue position must wait
+   */
+  private estimateWaitMs(position: number): number {
+    const deficit = position + 1 - this.tokens;
+    if (deficit <= 0) return 0;
+    return Math.ceil((deficit / this.requestsPerSecond) * 1000);
+  }
+
+  /**
+   * Admit queued requests while tokens are available
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const next = this.queue.shift();
+      if (!next) break;
+      this.tokens -= 1;
+      this.totalAdmitted++;
+      logger.debug('Rate limiter admitted queued request', {
+        waitedMs: Date.now() - next.enqueuedAt,
+        queueDepth: this.queue.length,
+      });
+      next.resolve();
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Schedule the next drain for when the next token becomes available
+   */
+  private schedule(): void {
+    if (this.timer !== null || this.queue.length === 0) return;
+
+    const delay = this.estimateWaitMs(0);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delay);
+  }
+
+  /**
+   * Wait for a token
+   *
+   * Resolves immediately when a token is free and nobody is queued,
+   * otherwise queues the caller in FIFO order.
+   *
+   * @throws RateLimitError if the estimated wait exceeds maxWaitMs
+   */
+  async acquire(): Promise<void> {
+    this.refill();
+
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.totalAdmitted++;
+      return;
+    }
+
+    const position = this.queue.length;
+    const estimatedWaitMs = this.estimateWaitMs(position);
+
+    if (estimatedWaitMs > this.maxWaitMs) {
+      this.totalRejected++;
+      logger.warn('Rate limiter rejected request', {
+        queueDepth: position,
+        estimatedWaitMs,
+        maxWaitMs: this.maxWaitMs,
+      });
+      throw new RateLimitError(
+        `Request would wait ${estimatedWaitMs}ms for rate limiter (limit ${this.maxWaitMs}ms)`,
+        {
+          queueDepth: position,
+          estimatedWaitMs,
+          requestsPerSecond: this.requestsPerSecond,
+          burstSize: this.burstSize,
+        }
+      );
+    }
+
+    logger.debug('Rate limiter queued request', {
+      queueDepth: position + 1,
+      estimatedWaitMs,
+    });
+
+    return new Promise<void>((resolve) => {
+      this.queue.push({ resolve, enqueuedAt: Date.now() });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Get rate limiter statistics
+   */
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      availableTokens: Math.floor(this.tokens),
+      queueDepth: this.queue.length,
+      totalAdmitted: this.totalAdmitted,
+      totalRejected: this.totalRejected,
+    };
+  }
+}
+
+/**
+ * Singleton instance shared by all Braiins clients (limits apply per IP)
+ */
+let limiterInstance: RateLimiter | null = null;
+
+/**
+ * Get the rate limiter instance (lazy initialization)
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!limiterInstance) {
+    limiterInstance = new RateLimiter(
+      config.rateLimitRequestsPerSecond,
+      config.rateLimitBurstSize,
+      config.requestTimeout
+    );
+  }
+  return limiterInstance;
+}
+
+/**
+ * Reset the rate limiter instance (useful for testing)
+ */
+export function resetRateLimiter(): void {
+  limiterInstance = null;
+}
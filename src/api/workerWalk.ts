@@ -0,0 +1,119 @@
+/**
+ * Full worker list retrieval
+ *
+ * Walks every page of GET /workers for one account through the cached
+ * client, deduplicating workers by id. Used by listWorkers' all and export
+ * modes and by the snapshot recorder.
+ */
+
+import { getCachedBraiinsClient } from './cachedBraiinsClient.js';
+import { toApiParams, type ListWorkersInput } from '../schemas/listWorkersInput.js';
+import { ListWorkersResponseSchema, type Worker } from '../schemas/listWorkersResponse.js';
+import { BraiinsError, ErrorCode } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Workers fetched per request when walking every page
+ */
+export const WALK_PAGE_SIZE = 200;
+
+/**
+ * Pages walked at most, capping full-fleet retrieval at 10,000 workers
+ */
+export const MAX_WALK_PAGES = 50;
+
+/**
+ * Filters applied to every page of a walk
+ */
+export type WorkerWalkFilters = Partial<
+  Pick<ListWorkersInput, 'status' | 'search' | 'sortBy' | 'account'>
+>;
+
+/**
+ * Called after each page with the page number, expected page count and a message
+ */
+export type WalkProgressReporter = (
+  progress: number,
+  total?: number,
+  message?: string
+) => Promise<void>;
+
+/**
+ * Workers collected by walking every page
+ */
+export interface WorkerWalk {
+  /** Unique workers in the order first seen */
+  workers: Worker[];
+  /** Total reported by the last page */
+  total: number;
+  pagesFetched: number;
+  /** Workers seen again on a later page (the list shifted during the walk) */
+  duplicatesSkipped: number;
+  /** Whether the walk stopped at MAX_WALK_PAGES before reaching the end */
+  capped: boolean;
+}
+
+/**
+ * Fetch every page of workers matching the filters
+ *
+ * Pages go through the cached client, so each request is rate limited.
+ * Workers are deduplicated by id because the list can shift between
+ * requests. Stops after MAX_WALK_PAGES pages.
+ *
+ * @throws BraiinsError if a page does not match the response schema
+ */
+export async function walkAllWorkers(
+  filters: WorkerWalkFilters,
+  reportProgress?: WalkProgressReporter
+): Promise<WorkerWalk> {
+  const client = getCachedBraiinsClient(filters.account);
+  const workers = new Map<string, Worker>();
+  let total = 0;
+  let duplicatesSkipped = 0;
+  let page = 1;
+
+  for (; ; page++) {
+    const apiParams = toApiParams({ status: 'all', ...filters, page, pageSize: WALK_PAGE_SIZE });
+    logger.debug('Fetching workers page', { params: apiParams });
+
+    const validationResult = ListWorkersResponseSchema.safeParse(
+      await client.listWorkers(apiParams)
+    );
+    if (!validationResult.success) {
+      logger.error('API response validation failed', {
+        page,
+        issues: validationResult.error.issues,
+      });
+      throw new BraiinsError('Unexpected worker list response format', ErrorCode.API_ERROR, 502);
+    }
+
+    const data = validationResult.data;
+    for (const worker of data.workers) {
+      if (workers.has(worker.id)) {
+        duplicatesSkipped++;
+      } else {
+        workers.set(worker.id, worker);
+      }
+    }
+    total = data.total;
+
+    const totalPages = Math.min(Math.ceil(total / WALK_PAGE_SIZE), MAX_WALK_PAGES);
+    const done = data.workers.length < WALK_PAGE_SIZE || page * WALK_PAGE_SIZE >= total;
+    if (reportProgress !== undefined) {
+      await reportProgress(
+        page,
+        done ? page : Math.max(totalPages, page + 1),
+        `Fetched page ${page} (${workers.size} workers)`
+      );
+    }
+    if (done || page >= MAX_WALK_PAGES) {
+      return {
+        workers: [...workers.values()],
+        total,
+        pagesFetched: page,
+        duplicatesSkipped,
+        capped: !done,
+      };
+    }
+  }
+}
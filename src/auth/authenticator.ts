@@ -0,0 +1,353 @@
+/**
+ * Inbound authentication for the HTTP-served MCP endpoint
+ *
+ * Authenticates requests with static API keys or JWTs verified against a
+ * local JWKS file, and resolves the tools each caller may use. The auth
+ * configuration is a JSON file referenced by MCP_AUTH_FILE:
+ *
+ * ```json
+ * {
+ *   "apiKeys": [
+ *     { "name": "finance", "keySha256": "<hex>", "allowedTools": ["getUserRewards"] },
+ *     { "name": "ops", "key": "plain-key", "allowedTools": ["*"] }
+ *   ],
+ *   "jwt": {
+ *     "jwksFile": "./jwks.json",
+ *     "issuer": "https://idp.example.com/",
+ *     "audience": "braiins-pool-mcp",
+ *     "toolsClaim": "mcp_tools"
+ *   }
+ * }
+ * ```
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import type { IncomingHttpHeaders } from 'node:http';
+import { z } from 'zod';
+import { AuthError, ConfigError, ErrorCode } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { LocalJwks, isJwt, verifyJwt } from './jwt.js';
+
+/**
+ * Wildcard granting access to every tool
+ */
+export const ALL_TOOLS = '*';
+
+/**
+ * Allowed tool list ('*' grants every tool)
+ */
+const AllowedToolsSchema = z
+  .array(z.string().min(1))
+  .min(1, 'allowedTools must list at least one tool or "*"')
+  .default([ALL_TOOLS]);
+
+/**
+ * Static API key entry; exactly one of key or keySha256 is required
+ */
+const ApiKeySchema = z
+  .object({
+    name: z.string().min(1).describe('Caller name used in logs'),
+    key: z.string().min(16, 'API keys must be at least 16 characters').optional(),
+    keySha256: z
+      .string()
+      .regex(/^[0-9a-fA-F]{64}$/, 'keySha256 must be a hex SHA-256 digest')
+      .optional(),
+    allowedTools: AllowedToolsSchema,
+  })
+  .refine((entry) => (entry.key === undefined) !== (entry.keySha256 === undefined), {
+    message: 'Each API key needs exactly one of "key" or "keySha256"',
+  });
+
+/**
+ * JWT validation settings
+ */
+const JwtConfigSchema = z.object({
+  jwksFile: z.string().min(1).describe('Path to a JWKS file (relative to the auth file)'),
+  issuer: z.string().min(1).optional(),
+  audience: z.string().min(1).optional(),
+  toolsClaim: z
+    .string()
+    .min(1)
+    .default('mcp_tools')
+    .describe('Claim listing allowed tools (array or space-separated string)'),
+  allowedTools: AllowedToolsSchema.describe('Tools allowed when the token has no tools claim'),
+  maxTokenLifetime: z
+    .number()
+    .int()
+    .positive()
+    .default(86400)
+    .describe('Longest accepted token lifetime in seconds (exp minus iat)'),
+});
+
+/**
+ * Auth configuration file schema
+ */
+export const AuthConfigSchema = z
+  .object({
+    apiKeys: z.array(ApiKeySchema).default([]),
+    jwt: JwtConfigSchema.optional(),
+  })
+  .refine((cfg) => cfg.apiKeys.length > 0 || cfg.jwt !== undefined, {
+    message: 'Configure at least one API key or JWT validation',
+  });
+
+/**
+ * Parsed auth configuration
+ */
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+/**
+ * Authenticated caller
+ */
+export interface Principal {
+  name: string;
+  type: 'api-key' | 'jwt';
+  allowedTools: string[];
+}
+
+/**
+ * Loaded API key with its digest
+ */
+interface ApiKeyEntry {
+  name: string;
+  digest: Buffer;
+  allowedTools: string[];
+}
+
+/**
+ * Hash a key for constant-time comparison
+ */
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check whether an allowed tool list grants a tool
+ */
+export function isToolAllowed(allowedTools: readonly string[], toolName: string): boolean {
+  return allowedTools.includes(ALL_TOOLS) || allowedTools.includes(toolName);
+}
+
+/**
+ * Authenticator for inbound MCP requests
+ */
+export class Authenticator {
+  private readonly apiKeys: ApiKeyEntry[];
+  private readonly jwt: { jwks: LocalJwks; config: NonNullable<AuthConfig['jwt']> } | null;
+
+  constructor(authConfig: AuthConfig, jwks: LocalJwks | null = null) {
+    this.apiKeys = authConfig.apiKeys.map((entry) => ({
+      name: entry.name,
+      digest:
+        entry.keySha256 !== undefined
+          ? Buffer.from(entry.keySha256, 'hex')
+          : sha256(entry.key ?? ''),
+      allowedTools: entry.allowedTools,
+    }));
+
+    if (authConfig.jwt !== undefined && jwks === null) {
+      throw new ConfigError('JWT validation is configured but no JWKS was provided');
+    }
+    this.jwt =
+      authConfig.jwt !== undefined && jwks !== null ? { jwks, config: authConfig.jwt } : null;
+  }
+
+  /**
+   * Authenticate a request from its headers
+   *
+   * Accepts `Authorization: Bearer <token>` (JWT or API key) or `X-API-Key: <key>`.
+   *
+   * @throws AuthError (UNAUTHORIZED) if credentials are missing or invalid
+   */
+  authenticate(headers: IncomingHttpHeaders): Principal {
+    const token = this.extractToken(headers);
+    if (token === null) {
+      throw new AuthError('Missing credentials: send Authorization: Bearer <token> or X-API-Key');
+    }
+
+    if (this.jwt !== null && isJwt(token)) {
+      return this.authenticateJwt(token);
+    }
+
+    return this.authenticateApiKey(token);
+  }
+
+  /**
+   * Extract the presented credential from request headers
+   */
+  private extractToken(headers: IncomingHttpHeaders): string | null {
+    const authorization = headers.authorization;
+    if (authorization !== undefined) {
+      const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization);
+      if (match === null) {
+        throw new AuthError('Unsupported Authorization scheme, expected Bearer');
+      }
+      return match[1];
+    }
+
+    const apiKey = headers['x-api-key'];
+    const value = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+    return value !== undefined && value !== '' ? value : null;
+  }
+
+  /**
+   * Match a static API key in constant time
+   */
+  private authenticateApiKey(key: string): Principal {
+    const digest = sha256(key);
+    // Compare against every key so timing does not reveal which one matched
+    let matched: ApiKeyEntry | null = null;
+    for (const entry of this.apiKeys) {
+      if (timingSafeEqual(entry.digest, digest) && matched === null) {
+        matched = entry;
+      }
+    }
+
+    if (matched === null) {
+      throw new AuthError('Invalid API key');
+    }
+
+    return { name: matched.name, type: 'api-key', allowedTools: matched.allowedTools };
+  }
+
+  /**
+   * Verify a JWT and read its allowed tools claim
+   */
+  private authenticateJwt(token: string): Principal {
+    const { jwks, config } = this.jwt as NonNullable<Authenticator['jwt']>;
+    const claims = verifyJwt(token, jwks, {
+      issuer: config.issuer,
+      audience: config.audience,
+      maxLifetime: config.maxTokenLifetime,
+    });
+    // The subject names the principal that owns HTTP sessions, so it must identify the caller
+    if (typeof claims.sub !== 'string' || claims.sub === '') {
+      throw new AuthError('JWT has no subject');
+    }
+
+    const claim = claims[config.toolsClaim];
+    let allowedTools = config.allowedTools;
+    if (Array.isArray(claim)) {
+      allowedTools = claim.filter((tool): tool is string => typeof tool === 'string');
+    } else if (typeof claim === 'string') {
+      allowedTools = claim.split(' ').filter((tool) => tool !== '');
+    }
+
+    return {
+      name: claims.sub,
+      type: 'jwt',
+      allowedTools,
+    };
+  }
+}
+
+/**
+ * Read and parse a JSON file, reporting failures as ConfigError
+ */
+function readJsonFile(path: string, label: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as unknown;
+  } catch (error) {
+    throw new ConfigError(`Cannot read ${label}: ${path}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Load an Authenticator from an auth configuration file
+ *
+ * @throws ConfigError if the file, its JWKS, or their contents are invalid
+ */
+export function loadAuthenticator(authFile: string): Authenticator {
+  const parsed = AuthConfigSchema.safeParse(readJsonFile(authFile, 'auth file'));
+  if (!parsed.success) {
+    throw new ConfigError('Invalid auth file', {
+      issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+  }
+
+  let jwks: LocalJwks | null = null;
+  if (parsed.data.jwt !== undefined) {
+    const jwksPath = resolve(dirname(authFile), parsed.data.jwt.jwksFile);
+    try {
+      jwks = new LocalJwks(readJsonFile(jwksPath, 'JWKS file'));
+    } catch (error) {
+      if (error instanceof ConfigError) throw error;
+      throw new ConfigError(`Invalid JWKS file: ${jwksPath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  logger.info('Inbound authentication enabled', {
+    apiKeys: parsed.data.apiKeys.length,
+    jwt: jwks !== null ? { keys: jwks.size } : false,
+  });
+
+  return new Authenticator(parsed.data, jwks);
+}
+
+/**
+ * Settings deciding how the HTTP transport authenticates callers
+ */
+export interface HttpAuthOptions {
+  /** Bind address of the HTTP transport */
+  host: string;
+  /** Auth configuration file (MCP_AUTH_FILE) */
+  authConfigFile?: string;
+  /** Serve a non-loopback host without authentication (MCP_ALLOW_ANONYMOUS) */
+  allowAnonymous: boolean;
+}
+
+/**
+ * Check whether a bind address only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  const address = host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  return (
+    address === 'localhost' ||
+    address === '::1' ||
+    /^(::ffff:)?127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(address)
+  );
+}
+
+/**
+ * Resolve the authenticator for the HTTP transport
+ *
+ * Without an auth file the endpoint is open, which is only allowed on a
+ * loopback address unless anonymous access is explicitly enabled.
+ *
+ * @returns The authenticator, or undefined when callers are not authenticated
+ * @throws ConfigError if a non-loopback host has no authentication, or the auth file is invalid
+ */
+export function resolveHttpAuthenticator(options: HttpAuthOptions): Authenticator | undefined {
+  if (options.authConfigFile !== undefined) {
+    return loadAuthenticator(options.authConfigFile);
+  }
+
+  if (!isLoopbackHost(options.host) && !options.allowAnonymous) {
+    throw new ConfigError(
+      `Refusing to serve HTTP on ${options.host} without authentication; ` +
+        'set MCP_AUTH_FILE, or MCP_ALLOW_ANONYMOUS=true to allow anonymous access',
+      { host: options.host }
+    );
+  }
+
+  logger.warn('HTTP transport has no authentication; set MCP_AUTH_FILE to require it', {
+    host: options.host,
+  });
+  return undefined;
+}
+
+/**
+ * Build the FORBIDDEN error for a tool the caller may not use
+ */
+export function forbiddenToolError(principal: string, toolName: string): AuthError {
+  return new AuthError(`Not allowed to call tool: ${toolName}`, ErrorCode.FORBIDDEN, {
+    principal,
+    tool: toolName,
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Auth Module Exports
+ *
+ * Re-exports inbound authentication for the HTTP transport.
+ */
+
+export {
+  ALL_TOOLS,
+  AuthConfigSchema,
+  type AuthConfig,
+  type Principal,
+  Authenticator,
+  loadAuthenticator,
+  isLoopbackHost,
+  resolveHttpAuthenticator,
+  type HttpAuthOptions,
+  isToolAllowed,
+  forbiddenToolError,
+} from './authenticator.js';
+
+export { LocalJwks, isJwt, verifyJwt, type JwtClaims, type JwtVerifyOptions } from './jwt.js';
@@ -0,0 +1,229 @@
+/**
+ * JWT verification against a local JWKS
+ *
+ * Verifies compact JWS tokens signed with RSA, RSA-PSS, ECDSA or EdDSA keys
+ * using node:crypto only. Keys come from a JWKS file loaded at startup, so
+ * no network access is needed at request time.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7519
+ */
+
+import { createPublicKey, verify, constants, type KeyObject, type JsonWebKey } from 'node:crypto';
+import { AuthError } from '../utils/errors.js';
+
+/**
+ * Verification parameters for each supported JWS algorithm
+ */
+const ALGORITHMS: Record<
+  string,
+  { kty: string; hash: string | null; padding?: number; dsaEncoding?: 'ieee-p1363' }
+> = {
+  RS256: { kty: 'RSA', hash: 'sha256' },
+  RS384: { kty: 'RSA', hash: 'sha384' },
+  RS512: { kty: 'RSA', hash: 'sha512' },
+  PS256: { kty: 'RSA', hash: 'sha256', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { kty: 'RSA', hash: 'sha384', padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { kty: 'RSA', hash: 'sha512', padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { kty: 'EC', hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { kty: 'EC', hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { kty: 'EC', hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { kty: 'OKP', hash: null },
+};
+
+/**
+ * Allowed clock skew when checking exp/nbf (seconds)
+ */
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Public key imported from a JWKS entry
+ */
+interface VerificationKey {
+  kid?: string;
+  alg?: string;
+  /** JWK key type (RSA, EC or OKP) */
+  kty?: string;
+  key: KeyObject;
+}
+
+/**
+ * Verified JWT claims
+ */
+export type JwtClaims = Record<string, unknown> & {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+};
+
+/**
+ * Options for JWT verification
+ */
+export interface JwtVerifyOptions {
+  issuer?: string;
+  audience?: string;
+  /** Longest accepted token lifetime in seconds, from iat (or now) to exp */
+  maxLifetime?: number;
+  /** Current time in seconds (defaults to now) */
+  now?: number;
+}
+
+/**
+ * Set of public keys from a JWKS document
+ */
+export class LocalJwks {
+  private readonly keys: VerificationKey[];
+
+  constructor(jwks: unknown) {
+    const entries =
+      typeof jwks === 'object' && jwks !== null && Array.isArray((jwks as { keys?: unknown }).keys)
+        ? ((jwks as { keys: unknown[] }).keys as Array<
+            JsonWebKey & { kid?: string; alg?: string; use?: string }
+          >)
+        : null;
+    if (entries === null) {
+      throw new TypeError('JWKS must be an object with a "keys" array');
+    }
+
+    this.keys = entries
+      .filter((jwk) => jwk.use === undefined || jwk.use === 'sig')
+      .map((jwk) => ({
+        kid: jwk.kid,
+        alg: jwk.alg,
+        kty: jwk.kty,
+        key: createPublicKey({ key: jwk, format: 'jwk' }),
+      }));
+
+    if (this.keys.length === 0) {
+      throw new TypeError('JWKS contains no signing keys');
+    }
+  }
+
+  /**
+   * Number of signing keys loaded
+   */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Find the candidate keys for a token header
+   */
+  candidates(kid: string | undefined, alg: string): VerificationKey[] {
+    return this.keys.filter(
+      (entry) =>
+        (kid === undefined || entry.kid === kid) && (entry.alg === undefined || entry.alg === alg)
+    );
+  }
+}
+
+/**
+ * Decode a base64url segment as JSON
+ */
+function decodeSegment(segment: string): Record<string, unknown> {
+  const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as unknown;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TypeError('Segment is not a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Check whether a string looks like a compact JWS
+ */
+export function isJwt(token: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(token);
+}
+
+/**
+ * Verify a JWT signature and its registered claims
+ *
+ * @throws AuthError (UNAUTHORIZED) if the token is malformed, unsigned by a known key, or invalid
+ */
+export function verifyJwt(
+  token: string,
+  jwks: LocalJwks,
+  options: JwtVerifyOptions = {}
+): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed JWT');
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  let header: Record<string, unknown>;
+  let claims: JwtClaims;
+  try {
+    header = decodeSegment(headerSegment);
+    claims = decodeSegment(payloadSegment);
+  } catch {
+    throw new AuthError('Malformed JWT');
+  }
+
+  const alg = typeof header.alg === 'string' ? header.alg : '';
+  const params = ALGORITHMS[alg];
+  if (params === undefined) {
+    throw new AuthError('Unsupported JWT algorithm', undefined, { alg });
+  }
+
+  const kid = typeof header.kid === 'string' ? header.kid : undefined;
+  const signingInput = Buffer.from(`${headerSegment}.${payloadSegment}`);
+  const signature = Buffer.from(signatureSegment, 'base64url');
+
+  // Only keys of the algorithm's family; node:crypto would otherwise accept, for
+  // example, an RSA signature on a token claiming EdDSA
+  const candidates = jwks.candidates(kid, alg).filter((candidate) => candidate.kty === params.kty);
+  const verified = candidates.some((candidate) => {
+    try {
+      return verify(
+        params.hash,
+        signingInput,
+        {
+          key: candidate.key,
+          ...(params.padding !== undefined && { padding: params.padding }),
+          ...(params.dsaEncoding !== undefined && { dsaEncoding: params.dsaEncoding }),
+        },
+        signature
+      );
+    } catch {
+      // Key does not fit the algorithm (e.g. an RSA-PSS-only key for RS256)
+      return false;
+    }
+  });
+  if (!verified) {
+    throw new AuthError('Invalid JWT signature');
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  // A token without exp would stay valid forever
+  if (typeof claims.exp !== 'number') {
+    throw new AuthError('JWT has no expiry');
+  }
+  if (now > claims.exp + CLOCK_SKEW_SECONDS) {
+    throw new AuthError('JWT has expired');
+  }
+  if (options.maxLifetime !== undefined) {
+    const issuedAt = typeof claims.iat === 'number' ? Math.min(claims.iat, now) : now;
+    if (claims.exp - issuedAt > options.maxLifetime) {
+      throw new AuthError('JWT lifetime exceeds the allowed maximum', undefined, {
+        maxLifetime: options.maxLifetime,
+      });
+    }
+  }
+  if (typeof claims.nbf === 'number' && now + CLOCK_SKEW_SECONDS < claims.nbf) {
+    throw new AuthError('JWT is not yet valid');
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw new AuthError('JWT issuer mismatch');
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new AuthError('JWT audience mismatch');
+    }
+  }
+
+  return claims;
+}
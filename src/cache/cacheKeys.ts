@@ -2,7 +2,10 @@
  * Cache Key Builder
  *
  * Type-safe cache key generation with validation and sanitization.
- * Follows the pattern: [resource-type]:[identifier]:[params-hash]
+ * Follows the pattern: [account]:[resource-type]:[identifier]:[params-hash]
+ *
+ * Every key is namespaced by account name so accounts never share cached data,
+ * including pool and network stats (accounts may use different API backends).
  */
 
 import { createHash } from 'crypto';
@@ -16,6 +19,9 @@ export type ResourceType =
   | 'worker-details'
   | 'worker-hashrate'
   | 'user-rewards'
+  | 'payouts'
+  | 'block-rewards'
+  | 'daily-hashrate'
   | 'pool-stats'
   | 'network-stats';
 
@@ -24,6 +30,12 @@ export type ResourceType =
  */
 const CACHE_PREFIX = 'braiins';
 
+/**
+ * Prefix for stale-while-revalidate entries, which wrap the data with the
+ * time it was cached, so they never collide with plain entries
+ */
+const STALE_ENTRY_PREFIX = 'braiins-swr';
+
 /**
  * Maximum cache key length (Redis limit is 512MB but keep practical)
  */
@@ -61,97 +73,160 @@ function hashParams(params: Record<string, unknown>): string {
   return createHash('sha256').update(json).digest('hex').substring(0, 16);
 }
 
+/**
+ * Build the account-namespaced prefix shared by every key
+ */
+function accountPrefix(account: string): string {
+  return `${CACHE_PREFIX}:${sanitize(account)}`;
+}
+
 /**
  * Build cache key for user overview
+ *
+ * @param account - Account name
  */
-export function buildUserOverviewKey(): string {
-  return `${CACHE_PREFIX}:user-overview`;
+export function buildUserOverviewKey(account: string): string {
+  return `${accountPrefix(account)}:user-overview`;
 }
 
 /**
  * Build cache key for workers list
  *
+ * @param account - Account name
  * @param params - Query parameters (status, page, limit, etc.)
  */
-export function buildWorkersListKey(params: Record<string, unknown> = {}): string {
+export function buildWorkersListKey(account: string, params: Record<string, unknown> = {}): string {
   const hasParams = Object.keys(params).length > 0;
   if (!hasParams) {
-    return `${CACHE_PREFIX}:workers-list`;
+    return `${accountPrefix(account)}:workers-list`;
   }
   const hash = hashParams(params);
-  return `${CACHE_PREFIX}:workers-list:${hash}`;
+  return `${accountPrefix(account)}:workers-list:${hash}`;
 }
 
 /**
  * Build cache key for worker details
  *
+ * @param account - Account name
  * @param workerId - Unique worker identifier
  */
-export function buildWorkerDetailsKey(workerId: string): string {
+export function buildWorkerDetailsKey(account: string, workerId: string): string {
   const sanitized = sanitize(workerId);
-  return `${CACHE_PREFIX}:worker-details:${sanitized}`;
+  return `${accountPrefix(account)}:worker-details:${sanitized}`;
 }
 
 /**
  * Build cache key for worker hashrate
  *
+ * @param account - Account name
  * @param workerId - Unique worker identifier
  * @param params - Query parameters (from, to, granularity)
  */
 export function buildWorkerHashrateKey(
+  account: string,
   workerId: string,
   params: Record<string, unknown> = {}
 ): string {
   const sanitized = sanitize(workerId);
   const hasParams = Object.keys(params).length > 0;
   if (!hasParams) {
-    return `${CACHE_PREFIX}:worker-hashrate:${sanitized}`;
+    return `${accountPrefix(account)}:worker-hashrate:${sanitized}`;
   }
   const hash = hashParams(params);
-  return `${CACHE_PREFIX}:worker-hashrate:${sanitized}:${hash}`;
+  return `${accountPrefix(account)}:worker-hashrate:${sanitized}:${hash}`;
 }
 
 /**
  * Build cache key for user rewards
  *
+ * @param account - Account name
  * @param params - Query parameters (from, to, granularity)
  */
-export function buildUserRewardsKey(params: Record<string, unknown> = {}): string {
+export function buildUserRewardsKey(account: string, params: Record<string, unknown> = {}): string {
   const hasParams = Object.keys(params).length > 0;
   if (!hasParams) {
-    return `${CACHE_PREFIX}:user-rewards`;
+    return `${accountPrefix(account)}:user-rewards`;
   }
   const hash = hashParams(params);
-  return `${CACHE_PREFIX}:user-rewards:${hash}`;
+  return `${accountPrefix(account)}:user-rewards:${hash}`;
+}
+
+/**
+ * Build cache key for payouts
+ *
+ * @param account - Account name
+ * @param params - Query parameters (from, to)
+ */
+export function buildPayoutsKey(account: string, params: Record<string, unknown> = {}): string {
+  const hasParams = Object.keys(params).length > 0;
+  if (!hasParams) {
+    return `${accountPrefix(account)}:payouts`;
+  }
+  const hash = hashParams(params);
+  return `${accountPrefix(account)}:payouts:${hash}`;
+}
+
+/**
+ * Build cache key for block rewards
+ *
+ * @param account - Account name
+ * @param params - Query parameters (from, to)
+ */
+export function buildBlockRewardsKey(
+  account: string,
+  params: Record<string, unknown> = {}
+): string {
+  const hasParams = Object.keys(params).length > 0;
+  if (!hasParams) {
+    return `${accountPrefix(account)}:block-rewards`;
+  }
+  const hash = hashParams(params);
+  return `${accountPrefix(account)}:block-rewards:${hash}`;
+}
+
+/**
+ * Build cache key for daily hashrate
+ *
+ * @param account - Account name
+ * @param scope - user or group
+ */
+export function buildDailyHashrateKey(account: string, scope: string): string {
+  return `${accountPrefix(account)}:daily-hashrate:${sanitize(scope)}`;
 }
 
 /**
  * Build cache key for pool stats
+ *
+ * @param account - Account name
  */
-export function buildPoolStatsKey(): string {
-  return `${CACHE_PREFIX}:pool-stats`;
+export function buildPoolStatsKey(account: string): string {
+  return `${accountPrefix(account)}:pool-stats`;
 }
 
 /**
  * Build cache key for network stats
+ *
+ * @param account - Account name
  */
-export function buildNetworkStatsKey(): string {
-  return `${CACHE_PREFIX}:network-stats`;
+export function buildNetworkStatsKey(account: string): string {
+  return `${accountPrefix(account)}:network-stats`;
 }
 
 /**
  * Generic cache key builder for custom resources
  *
+ * @param account - Account name
  * @param resourceType - Type of resource
  * @param identifier - Optional identifier (e.g., worker ID)
  * @param params - Optional parameters to hash
  */
 export function buildCacheKey(
+  account: string,
   resourceType: ResourceType,
   identifier?: string,
   params?: Record<string, unknown>
 ): string {
-  let key = `${CACHE_PREFIX}:${resourceType}`;
+  let key = `${accountPrefix(account)}:${resourceType}`;
 
   if (identifier) {
     key += `:${sanitize(identifier)}`;
@@ -165,18 +240,30 @@ export function buildCacheKey(
   if (key.length > MAX_KEY_LENGTH) {
     // Hash the entire key if too long
     const hash = createHash('sha256').update(key).digest('hex');
-    key = `${CACHE_PREFIX}:${resourceType}:${hash}`;
+    key = `${accountPrefix(account)}:${resourceType}:${hash}`;
   }
 
   return key;
 }
 
+/**
+ * Build the key of the stale-while-revalidate entry for a cache key
+ *
+ * @param key - Key from one of the builders above
+ */
+export function buildStaleEntryKey(key: string): string {
+  return key.startsWith(`${CACHE_PREFIX}:`)
+    ? `${STALE_ENTRY_PREFIX}${key.substring(CACHE_PREFIX.length)}`
+    : `${STALE_ENTRY_PREFIX}:${key}`;
+}
+
 /**
  * Parse a cache key to extract components
  * Useful for debugging and logging
  */
 export function parseCacheKey(key: string): {
   prefix: string;
+  account: string;
   resourceType: string;
   identifier?: string;
   paramsHash?: string;
@@ -184,8 +271,9 @@ export function parseCacheKey(key: string): {
   const parts = key.split(':');
   return {
     prefix: parts[0] || '',
-    resourceType: parts[1] || '',
-    identifier: parts[2],
-    paramsHash: parts[3],
+    account: parts[1] || '',
+    resourceType: parts[2] || '',
+    identifier: parts[3],
+    paramsHash: parts[4],
   };
 }
@@ -3,6 +3,10 @@
  *
  * Defines TTL values and caching rules for different resource types.
  * TTL values are configurable via environment variables with sensible defaults.
+ *
+ * With CACHE_STALE_WHILE_REVALIDATE=true the TTL of a resource is its soft
+ * TTL: entries older than that are stale but still served (and refreshed in
+ * the background) until the hard TTL, soft TTL + CACHE_MAX_STALE, expires.
  */
 
 import type { ResourceType } from './cacheKeys.js';
@@ -21,10 +25,18 @@ export const DEFAULT_TTL = {
   'worker-details': 30,
   'worker-hashrate': 300, // Historical data
   'user-rewards': 300, // Historical data
+  payouts: 300, // Historical data
+  'block-rewards': 120, // Immature rewards gain confirmations every block
+  'daily-hashrate': 300, // Historical data
   'pool-stats': 60,
   'network-stats': 60,
 } as const;
 
+/**
+ * Default time in seconds a stale entry stays usable past its soft TTL
+ */
+export const DEFAULT_MAX_STALE = 3600;
+
 /**
  * Cache configuration loaded from environment
  * Defaults are used if environment variables are not set
@@ -32,6 +44,10 @@ export const DEFAULT_TTL = {
 export interface CacheConfig {
   enabled: boolean;
   ttl: Record<ResourceType, number>;
+  /** Serve stale entries and refresh them in the background */
+  staleWhileRevalidate: boolean;
+  /** Seconds a stale entry stays usable past its soft TTL */
+  maxStale: number;
 }
 
 /**
@@ -60,9 +76,14 @@ export function loadCacheConfig(): CacheConfig {
       'worker-details': parseTtl(process.env.CACHE_TTL_WORKERS, DEFAULT_TTL['worker-details']),
       'worker-hashrate': parseTtl(process.env.CACHE_TTL_HISTORICAL, DEFAULT_TTL['worker-hashrate']),
       'user-rewards': parseTtl(process.env.CACHE_TTL_HISTORICAL, DEFAULT_TTL['user-rewards']),
+      payouts: parseTtl(process.env.CACHE_TTL_HISTORICAL, DEFAULT_TTL.payouts),
+      'block-rewards': parseTtl(process.env.CACHE_TTL_BLOCK_REWARDS, DEFAULT_TTL['block-rewards']),
+      'daily-hashrate': parseTtl(process.env.CACHE_TTL_HISTORICAL, DEFAULT_TTL['daily-hashrate']),
       'pool-stats': parseTtl(process.env.CACHE_TTL_POOL_STATS, DEFAULT_TTL['pool-stats']),
       'network-stats': parseTtl(process.env.CACHE_TTL_NETWORK_STATS, DEFAULT_TTL['network-stats']),
     },
+    staleWhileRevalidate: process.env.CACHE_STALE_WHILE_REVALIDATE === 'true',
+    maxStale: parseTtl(process.env.CACHE_MAX_STALE, DEFAULT_MAX_STALE),
   };
 }
 
@@ -99,6 +120,26 @@ export function getTTL(resourceType: ResourceType): number {
   return config.ttl[resourceType];
 }
 
+/**
+ * Get how long an entry is kept in the cache
+ *
+ * @param resourceType - Type of resource
+ * @returns Hard TTL in seconds: the soft TTL plus CACHE_MAX_STALE in
+ *   stale-while-revalidate mode, otherwise the TTL itself
+ */
+export function getHardTTL(resourceType: ResourceType): number {
+  const config = getCacheConfig();
+  const ttl = config.ttl[resourceType];
+  return config.staleWhileRevalidate ? ttl + config.maxStale : ttl;
+}
+
+/**
+ * Check if stale entries are served while they are refreshed in the background
+ */
+export function isStaleWhileRevalidate(): boolean {
+  return getCacheConfig().staleWhileRevalidate;
+}
+
 /**
  * Check if caching should be used for a resource type
  *
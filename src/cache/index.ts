@@ -21,18 +21,28 @@ export {
   buildWorkerDetailsKey,
   buildWorkerHashrateKey,
   buildUserRewardsKey,
+  buildPayoutsKey,
+  buildBlockRewardsKey,
+  buildDailyHashrateKey,
   buildPoolStatsKey,
   buildNetworkStatsKey,
+  buildStaleEntryKey,
   parseCacheKey,
 } from './cacheKeys.js';
 
 // Caching Strategy
 export {
   DEFAULT_TTL,
+  DEFAULT_MAX_STALE,
   type CacheConfig,
   getCacheConfig,
   resetCacheConfig,
   getTTL,
+  getHardTTL,
+  isStaleWhileRevalidate,
   shouldCache,
   getAllTTLs,
 } from './cachingStrategy.js';
+
+// Stale Reads
+export { type StaleRead, trackStaleReads, recordStaleRead } from './staleReads.js';
@@ -0,0 +1,46 @@
+/**
+ * Stale read tracking
+ *
+ * In stale-while-revalidate mode the cached client answers with entries past
+ * their soft TTL. Each such read is recorded against the tool call in progress
+ * (through AsyncLocalStorage), so the tool result can be annotated with the
+ * stale data and its age without every tool handling it.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ResourceType } from './cacheKeys.js';
+
+/**
+ * Cache entry served after its soft TTL
+ */
+export interface StaleRead {
+  account: string;
+  resourceType: ResourceType;
+  /** Worker ID for per-worker resources */
+  identifier?: string;
+  /** When the entry was fetched from the API (epoch ms) */
+  cachedAt: number;
+  ageSeconds: number;
+  /** Why the last background refresh failed, null if none failed */
+  revalidationError: string | null;
+}
+
+const storage = new AsyncLocalStorage<StaleRead[]>();
+
+/**
+ * Run a function, collecting the stale reads made while it runs
+ */
+export async function trackStaleReads<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; staleReads: StaleRead[] }> {
+  const staleReads: StaleRead[] = [];
+  const result = await storage.run(staleReads, fn);
+  return { result, staleReads };
+}
+
+/**
+ * Record a stale read; ignored outside trackStaleReads
+ */
+export function recordStaleRead(read: StaleRead): void {
+  storage.getStore()?.push(read);
+}
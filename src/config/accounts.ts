@@ -0,0 +1,265 @@
+/**
+ * Named Braiins Pool accounts
+ *
+ * Resolves the accounts tools can query. Without BRAIINS_ACCOUNTS_FILE a
+ * single "default" account is built from BRAIINS_API_KEY and the global API
+ * settings. With it, accounts come from a JSON file:
+ *
+ * ```json
+ * {
+ *   "defaultAccount": "site-a",
+ *   "accounts": [
+ *     { "name": "site-a", "apiKeyEnv": "BRAIINS_SITE_A_KEY", "description": "Main farm" },
+ *     { "name": "customer-x", "apiKey": "<token>", "apiMode": "native" }
+ *   ]
+ * }
+ * ```
+ *
+ * Tokens can be inlined with apiKey or read from the environment with
+ * apiKeyEnv so the file itself holds no secrets.
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { config } from './settings.js';
+import { ConfigError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Name of the implicit account built from the global settings
+ */
+export const DEFAULT_ACCOUNT_NAME = 'default';
+
+/**
+ * Account names are used in cache keys, so keep them key-safe
+ */
+export const AccountNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9_-]{0,63}$/,
+    'Account names must be lowercase letters, digits, "-" or "_" (max 64 characters)'
+  );
+
+/**
+ * Account entry; exactly one of apiKey or apiKeyEnv is required
+ */
+const AccountEntrySchema = z
+  .object({
+    name: AccountNameSchema,
+    description: z.string().max(200).optional(),
+    apiKey: z.string().min(1).optional(),
+    apiKeyEnv: z
+      .string()
+      .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'apiKeyEnv must be an environment variable name')
+      .optional(),
+    apiMode: z.enum(['rest', 'native']).optional(),
+    apiBaseUrl: z.string().url().optional(),
+    nativeApiBaseUrl: z.string().url().optional(),
+  })
+  .strict()
+  .refine((entry) => (entry.apiKey === undefined) !== (entry.apiKeyEnv === undefined), {
+    message: 'Each account needs exactly one of "apiKey" or "apiKeyEnv"',
+  });
+
+/**
+ * Accounts file schema
+ */
+export const AccountsConfigSchema = z
+  .object({
+    defaultAccount: AccountNameSchema.optional(),
+    accounts: z.array(AccountEntrySchema).min(1, 'At least one account is required'),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const names = new Set<string>();
+    data.accounts.forEach((account, index) => {
+      if (names.has(account.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate account name "${account.name}"`,
+          path: ['accounts', index, 'name'],
+        });
+      }
+      names.add(account.name);
+    });
+
+    if (data.defaultAccount !== undefined && !names.has(data.defaultAccount)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `defaultAccount "${data.defaultAccount}" is not a configured account`,
+        path: ['defaultAccount'],
+      });
+    }
+  });
+
+export type AccountsConfig = z.infer<typeof AccountsConfigSchema>;
+
+/**
+ * Fully resolved account used to build API clients
+ */
+export interface Account {
+  name: string;
+  description?: string;
+  apiToken?: string;
+  apiMode: 'rest' | 'native';
+  apiBaseUrl: string;
+  nativeApiBaseUrl: string;
+}
+
+/**
+ * Tools the native Braiins Pool API has no data for
+ */
+export const NATIVE_UNSUPPORTED_TOOLS: ReadonlySet<string> = new Set([
+  'getWorkerHashrate',
+  'getNetworkStats',
+]);
+
+/**
+ * Check whether an account's API can serve a tool
+ */
+export function accountSupportsTool(account: Account, tool: string): boolean {
+  return account.apiMode !== 'native' || !NATIVE_UNSUPPORTED_TOOLS.has(tool);
+}
+
+/**
+ * Lookup of configured accounts by name
+ */
+export class AccountRegistry {
+  private readonly accounts: Map<string, Account>;
+  readonly defaultAccount: string;
+
+  constructor(accounts: Account[], defaultAccount?: string) {
+    if (accounts.length === 0) {
+      throw new ConfigError('At least one account is required');
+    }
+    this.accounts = new Map(accounts.map((account) => [account.name, account]));
+    this.defaultAccount = defaultAccount ?? accounts[0].name;
+    if (!this.accounts.has(this.defaultAccount)) {
+      throw new ConfigError(`Default account "${this.defaultAccount}" is not configured`);
+    }
+  }
+
+  /**
+   * All accounts in configuration order
+   */
+  list(): Account[] {
+    return [...this.accounts.values()];
+  }
+
+  /**
+   * Check whether at least one account's API can serve a tool
+   */
+  supportsTool(tool: string): boolean {
+    return this.list().some((account) => accountSupportsTool(account, tool));
+  }
+
+  /**
+   * Resolve an account by name, falling back to the default account
+   *
+   * @throws ValidationError if the name is not a configured account
+   */
+  resolve(name?: string): Account {
+    const account = this.accounts.get(name ?? this.defaultAccount);
+    if (account === undefined) {
+      throw new ValidationError(`Unknown account: ${name}`, {
+        availableAccounts: [...this.accounts.keys()],
+      });
+    }
+    return account;
+  }
+}
+
+/**
+ * Build the implicit single-account registry from the global settings
+ */
+function buildDefaultRegistry(): AccountRegistry {
+  return new AccountRegistry([
+    {
+      name: DEFAULT_ACCOUNT_NAME,
+      apiToken: config.braiinsApiToken,
+      apiMode: config.braiinsApiMode,
+      apiBaseUrl: config.braiinsApiBaseUrl,
+      nativeApiBaseUrl: config.braiinsNativeApiBaseUrl,
+    },
+  ]);
+}
+
+/**
+ * Load accounts from a JSON file
+ *
+ * Entries without apiMode or base URLs inherit the global settings.
+ *
+ * @throws ConfigError if the file or an apiKeyEnv variable is missing or invalid
+ */
+export function loadAccountRegistry(accountsFile: string): AccountRegistry {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(accountsFile, 'utf8')) as unknown;
+  } catch (error) {
+    throw new ConfigError(`Cannot read accounts file: ${accountsFile}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const parsed = AccountsConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError('Invalid accounts file', {
+      issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+  }
+
+  const accounts = parsed.data.accounts.map((entry): Account => {
+    let apiToken = entry.apiKey;
+    if (entry.apiKeyEnv !== undefined) {
+      apiToken = process.env[entry.apiKeyEnv];
+      if (apiToken === undefined || apiToken === '') {
+        throw new ConfigError(
+          `Environment variable ${entry.apiKeyEnv} for account "${entry.name}" is not set`
+        );
+      }
+    }
+
+    return {
+      name: entry.name,
+      description: entry.description,
+      apiToken,
+      apiMode: entry.apiMode ?? config.braiinsApiMode,
+      apiBaseUrl: entry.apiBaseUrl ?? config.braiinsApiBaseUrl,
+      nativeApiBaseUrl: entry.nativeApiBaseUrl ?? config.braiinsNativeApiBaseUrl,
+    };
+  });
+
+  const registry = new AccountRegistry(accounts, parsed.data.defaultAccount);
+  logger.info('Loaded Braiins accounts', {
+    accounts: accounts.map((account) => account.name),
+    defaultAccount: registry.defaultAccount,
+  });
+  return registry;
+}
+
+/**
+ * Singleton account registry
+ */
+let registryInstance: AccountRegistry | null = null;
+
+/**
+ * Get the account registry (lazy initialization)
+ *
+ * Loads BRAIINS_ACCOUNTS_FILE when set, otherwise the single default account.
+ */
+export function getAccountRegistry(): AccountRegistry {
+  if (!registryInstance) {
+    registryInstance =
+      config.braiinsAccountsFile !== undefined
+        ? loadAccountRegistry(config.braiinsAccountsFile)
+        : buildDefaultRegistry();
+  }
+  return registryInstance;
+}
+
+/**
+ * Reset the registry instance (useful for testing)
+ */
+export function resetAccountRegistry(): void {
+  registryInstance = null;
+}
@@ -23,6 +23,60 @@ const ConfigSchema = z.object({
   // Accepts BRAIINS_API_KEY (preferred) or BRAIINS_POOL_API_TOKEN (legacy)
   braiinsApiToken: z.string().min(1, 'BRAIINS_API_KEY is required').optional(),
 
+  // API client implementation: 'rest' (/api/v1, Bearer) or 'native' (JSON endpoints, Pool-Auth-Token)
+  braiinsApiMode: z.enum(['rest', 'native']).default('rest'),
+
+  // Base URL for the native JSON endpoints (/accounts/..., /stats/...)
+  braiinsNativeApiBaseUrl: z
+    .string()
+    .url('BRAIINS_NATIVE_API_BASE_URL must be a valid URL')
+    .default('https://pool.braiins.com'),
+
+  // JSON file with named accounts (see src/config/accounts.ts); overrides the single token above
+  braiinsAccountsFile: z.string().min(1).optional(),
+
+  // MCP transport: 'stdio' (child process of one client) or 'http' (Streamable HTTP)
+  mcpTransport: z.enum(['stdio', 'http']).default('stdio'),
+
+  // Bind address and port for the HTTP transport
+  httpHost: z.string().min(1).default('127.0.0.1'),
+
+  httpPort: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(0).max(65535))
+    .default('3000'),
+
+  // JSON file with API keys and JWT settings for the HTTP transport (see src/auth)
+  authConfigFile: z.string().min(1).optional(),
+
+  // Serve HTTP without authentication on a non-loopback host
+  httpAllowAnonymous: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'),
+
+  // HTTP sessions without requests for this long are closed (ms)
+  httpSessionIdleTimeout: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(1000).max(86400000))
+    .default('1800000'),
+
+  // Initialize requests are refused with 503 while this many HTTP sessions are open
+  httpMaxSessions: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(1).max(10000))
+    .default('100'),
+
+  // How long shutdown waits for in-flight tool calls (ms)
+  shutdownTimeout: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(0).max(120000))
+    .default('10000'),
+
   // Redis configuration
   redisUrl: z.string().url('REDIS_URL must be a valid URL').default('redis://localhost:6379'),
 
@@ -31,16 +85,99 @@ const ConfigSchema = z.object({
     .transform((val) => val === 'true')
     .default('true'),
 
+  // Background cache poller (see src/api/cachePoller.ts)
+  pollEnabled: z
+    .string()
+    .transform((val) => val === 'true')
+    .default('false'),
+
+  // Seconds between refreshes of each polled resource
+  pollIntervalUserOverview: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(5).max(86400))
+    .default('25'),
+
+  pollIntervalWorkers: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(5).max(86400))
+    .default('25'),
+
+  pollIntervalPoolStats: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(5).max(86400))
+    .default('50'),
+
+  pollIntervalNetworkStats: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(5).max(86400))
+    .default('50'),
+
+  // Share of RATE_LIMIT_RPS the poller may use; the rest is left for tool calls
+  pollRateBudget: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0.05).max(1))
+    .default('0.5'),
+
+  // SQLite file for historical snapshots (see src/history); unset disables history
+  historyDbPath: z.string().min(1).optional(),
+
+  // Seconds between snapshot rounds
+  historySnapshotInterval: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(60).max(86400))
+    .default('900'),
+
+  // Days snapshots of overview, pool and network stats are kept
+  historyRetentionDays: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(1).max(3650))
+    .default('365'),
+
+  // Days per-worker snapshots are kept (one row per worker per round)
+  historyWorkerRetentionDays: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(1).max(3650))
+    .default('30'),
+
+  // JSON file of worker alert rules (see src/alerts); unset disables alerting
+  alertRulesFile: z.string().min(1).optional(),
+
+  // Seconds between alert evaluations over every worker of every account
+  alertEvaluationInterval: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(10).max(86400))
+    .default('60'),
+
+  // JSON file of notification webhooks (see src/notify); unset disables notifications
+  notifyConfigFile: z.string().min(1).optional(),
+
+  // Seconds between payout checks for payout.confirmed notifications
+  notifyPayoutInterval: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(60).max(86400))
+    .default('600'),
+
   // Logging configuration
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
 
   logFormat: z.enum(['json', 'pretty']).default('json'),
 
   // Rate limiting
+  // Fractional values allowed (e.g. 0.2 = one request every 5 seconds)
   rateLimitRequestsPerSecond: z
     .string()
-    .transform((val) => parseInt(val, 10))
-    .pipe(z.number().min(1).max(10))
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0.1).max(10))
     .default('1'),
 
   rateLimitBurstSize: z
@@ -68,6 +205,20 @@ const ConfigSchema = z.object({
     .transform((val) => parseInt(val, 10))
     .pipe(z.number().min(100).max(5000))
     .default('1000'),
+
+  // Circuit breaker: consecutive failed attempts that open an endpoint's circuit
+  circuitFailureThreshold: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(1).max(100))
+    .default('5'),
+
+  // Time an open circuit fast-fails before letting a probe request through (ms)
+  circuitResetTimeout: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().int().min(1000).max(600000))
+    .default('30000'),
 });
 
 /**
@@ -91,8 +242,35 @@ function loadConfig(): Config {
     nodeEnv: process.env.NODE_ENV,
     braiinsApiBaseUrl: process.env.BRAIINS_API_BASE_URL,
     braiinsApiToken: process.env.BRAIINS_API_KEY || process.env.BRAIINS_POOL_API_TOKEN,
+    braiinsApiMode: process.env.BRAIINS_API_MODE,
+    braiinsNativeApiBaseUrl: process.env.BRAIINS_NATIVE_API_BASE_URL,
+    braiinsAccountsFile:
+      process.env.BRAIINS_ACCOUNTS_FILE !== '' ? process.env.BRAIINS_ACCOUNTS_FILE : undefined,
+    mcpTransport: process.env.MCP_TRANSPORT,
+    httpHost: process.env.MCP_HTTP_HOST,
+    httpPort: process.env.MCP_HTTP_PORT,
+    httpSessionIdleTimeout: process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT,
+    httpMaxSessions: process.env.MCP_HTTP_MAX_SESSIONS,
+    authConfigFile: process.env.MCP_AUTH_FILE !== '' ? process.env.MCP_AUTH_FILE : undefined,
+    httpAllowAnonymous: process.env.MCP_ALLOW_ANONYMOUS,
+    shutdownTimeout: process.env.SHUTDOWN_TIMEOUT,
     redisUrl: process.env.REDIS_URL,
     redisEnabled: process.env.REDIS_ENABLED,
+    pollEnabled: process.env.POLL_ENABLED,
+    pollIntervalUserOverview: process.env.POLL_INTERVAL_USER_OVERVIEW,
+    pollIntervalWorkers: process.env.POLL_INTERVAL_WORKERS,
+    pollIntervalPoolStats: process.env.POLL_INTERVAL_POOL_STATS,
+    pollIntervalNetworkStats: process.env.POLL_INTERVAL_NETWORK_STATS,
+    pollRateBudget: process.env.POLL_RATE_BUDGET,
+    historyDbPath: process.env.HISTORY_DB_PATH !== '' ? process.env.HISTORY_DB_PATH : undefined,
+    historySnapshotInterval: process.env.HISTORY_SNAPSHOT_INTERVAL,
+    historyRetentionDays: process.env.HISTORY_RETENTION_DAYS,
+    historyWorkerRetentionDays: process.env.HISTORY_WORKER_RETENTION_DAYS,
+    alertRulesFile: process.env.ALERT_RULES_FILE !== '' ? process.env.ALERT_RULES_FILE : undefined,
+    alertEvaluationInterval: process.env.ALERT_EVALUATION_INTERVAL,
+    notifyConfigFile:
+      process.env.NOTIFY_CONFIG_FILE !== '' ? process.env.NOTIFY_CONFIG_FILE : undefined,
+    notifyPayoutInterval: process.env.NOTIFY_PAYOUT_INTERVAL,
     logLevel: process.env.LOG_LEVEL,
     logFormat: process.env.LOG_FORMAT,
     rateLimitRequestsPerSecond: process.env.RATE_LIMIT_RPS,
@@ -100,6 +278,8 @@ function loadConfig(): Config {
     requestTimeout: process.env.REQUEST_TIMEOUT,
     maxRetries: process.env.MAX_RETRIES,
     retryBaseDelay: process.env.RETRY_BASE_DELAY,
+    circuitFailureThreshold: process.env.CIRCUIT_FAILURE_THRESHOLD,
+    circuitResetTimeout: process.env.CIRCUIT_RESET_TIMEOUT,
   };
 
   const result = ConfigSchema.safeParse(envConfig);
@@ -122,8 +302,35 @@ export function validateConfig(): ConfigValidationResult {
     nodeEnv: process.env.NODE_ENV,
     braiinsApiBaseUrl: process.env.BRAIINS_API_BASE_URL,
     braiinsApiToken: process.env.BRAIINS_API_KEY || process.env.BRAIINS_POOL_API_TOKEN,
+    braiinsApiMode: process.env.BRAIINS_API_MODE,
+    braiinsNativeApiBaseUrl: process.env.BRAIINS_NATIVE_API_BASE_URL,
+    braiinsAccountsFile:
+      process.env.BRAIINS_ACCOUNTS_FILE !== '' ? process.env.BRAIINS_ACCOUNTS_FILE : undefined,
+    mcpTransport: process.env.MCP_TRANSPORT,
+    httpHost: process.env.MCP_HTTP_HOST,
+    httpPort: process.env.MCP_HTTP_PORT,
+    httpSessionIdleTimeout: process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT,
+    httpMaxSessions: process.env.MCP_HTTP_MAX_SESSIONS,
+    authConfigFile: process.env.MCP_AUTH_FILE !== '' ? process.env.MCP_AUTH_FILE : undefined,
+    httpAllowAnonymous: process.env.MCP_ALLOW_ANONYMOUS,
+    shutdownTimeout: process.env.SHUTDOWN_TIMEOUT,
     redisUrl: process.env.REDIS_URL,
     redisEnabled: process.env.REDIS_ENABLED,
+    pollEnabled: process.env.POLL_ENABLED,
+    pollIntervalUserOverview: process.env.POLL_INTERVAL_USER_OVERVIEW,
+    pollIntervalWorkers: process.env.POLL_INTERVAL_WORKERS,
+    pollIntervalPoolStats: process.env.POLL_INTERVAL_POOL_STATS,
+    pollIntervalNetworkStats: process.env.POLL_INTERVAL_NETWORK_STATS,
+    pollRateBudget: process.env.POLL_RATE_BUDGET,
+    historyDbPath: process.env.HISTORY_DB_PATH !== '' ? process.env.HISTORY_DB_PATH : undefined,
+    historySnapshotInterval: process.env.HISTORY_SNAPSHOT_INTERVAL,
+    historyRetentionDays: process.env.HISTORY_RETENTION_DAYS,
+    historyWorkerRetentionDays: process.env.HISTORY_WORKER_RETENTION_DAYS,
+    alertRulesFile: process.env.ALERT_RULES_FILE !== '' ? process.env.ALERT_RULES_FILE : undefined,
+    alertEvaluationInterval: process.env.ALERT_EVALUATION_INTERVAL,
+    notifyConfigFile:
+      process.env.NOTIFY_CONFIG_FILE !== '' ? process.env.NOTIFY_CONFIG_FILE : undefined,
+    notifyPayoutInterval: process.env.NOTIFY_PAYOUT_INTERVAL,
     logLevel: process.env.LOG_LEVEL,
     logFormat: process.env.LOG_FORMAT,
     rateLimitRequestsPerSecond: process.env.RATE_LIMIT_RPS,
@@ -131,6 +338,8 @@ export function validateConfig(): ConfigValidationResult {
     requestTimeout: process.env.REQUEST_TIMEOUT,
     maxRetries: process.env.MAX_RETRIES,
     retryBaseDelay: process.env.RETRY_BASE_DELAY,
+    circuitFailureThreshold: process.env.CIRCUIT_FAILURE_THRESHOLD,
+    circuitResetTimeout: process.env.CIRCUIT_RESET_TIMEOUT,
   };
 
   const result = ConfigSchema.safeParse(envConfig);
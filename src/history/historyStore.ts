@@ -0,0 +1,376 @@
+/**
+ * Historical snapshot store
+ *
+ * Persists periodic snapshots of user overview, worker states, pool stats
+ * and network stats in a local SQLite file, so history reaches back further
+ * than the API's windows and the seconds-to-minutes Redis cache. The file
+ * is opened in WAL mode and migrated on open; old snapshots are removed by
+ * prune() according to the configured retention.
+ */
+
+import Database from 'better-sqlite3';
+import { config } from '../config/settings.js';
+import type { GetUserOverviewResponse } from '../schemas/getUserOverviewResponse.js';
+import type { GetPoolStatsResponse } from '../schemas/getPoolStatsResponse.js';
+import type { GetNetworkStatsResponse } from '../schemas/getNetworkStatsResponse.js';
+import type { Worker } from '../schemas/listWorkersResponse.js';
+import { convertBtc } from '../utils/export.js';
+import { logger } from '../utils/logger.js';
+import { migrate } from './migrations.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stored user overview snapshot (timestamps in epoch ms, amounts in sats)
+ */
+export interface OverviewSnapshot {
+  account: string;
+  recorded_at: number;
+  hashrate_current: number;
+  hashrate_avg_1h: number;
+  hashrate_avg_24h: number;
+  workers_active: number;
+  workers_inactive: number;
+  workers_total: number;
+  workers_ok: number | null;
+  workers_low: number | null;
+  workers_off: number | null;
+  workers_dis: number | null;
+  confirmed_sats: number;
+  unconfirmed_sats: number;
+  today_reward_sats: number | null;
+}
+
+/**
+ * Stored worker state snapshot
+ */
+export interface WorkerSnapshot {
+  account: string;
+  recorded_at: number;
+  worker_id: string;
+  name: string;
+  status: string;
+  hashrate_current: number;
+  hashrate_avg_24h: number;
+  shares_valid: number;
+  shares_invalid: number;
+  last_share_at: number | null;
+}
+
+/**
+ * Stored pool stats snapshot
+ */
+export interface PoolSnapshot {
+  recorded_at: number;
+  pool_hashrate: number;
+  workers_active: number | null;
+  luck: number | null;
+  fpps_rate: number | null;
+  last_block_height: number;
+}
+
+/**
+ * Stored network stats snapshot
+ */
+export interface NetworkSnapshot {
+  recorded_at: number;
+  difficulty: number;
+  hashrate_estimate: number;
+  block_time_avg: number;
+}
+
+/**
+ * Time range of a history query, in epoch ms (inclusive)
+ */
+export interface HistoryRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Retention applied by prune(), in days
+ */
+export interface HistoryRetention {
+  /** Overview, pool and network snapshots */
+  snapshotDays: number;
+  /** Per-worker snapshots */
+  workerDays: number;
+}
+
+/**
+ * Rows removed by prune(), per table
+ */
+export interface PruneResult {
+  overview: number;
+  workers: number;
+  pool: number;
+  network: number;
+}
+
+/**
+ * SQLite-backed snapshot store
+ *
+ * Unlike the Redis cache, errors are not swallowed here: the snapshot
+ * recorder and history tools decide how to report them.
+ */
+export class HistoryStore {
+  private readonly db: Database.Database;
+
+  /**
+   * Open (creating if needed) and migrate a history database
+   *
+   * @param path - SQLite file path, or ':memory:'
+   * @param retention - Retention applied by prune()
+   */
+  constructor(
+    path: string,
+    private readonly retention: HistoryRetention = {
+      snapshotDays: config.historyRetentionDays,
+      workerDays: config.historyWorkerRetentionDays,
+    }
+  ) {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    migrate(this.db);
+  }
+
+  /**
+   * Record a user overview snapshot
+   */
+  recordOverview(
+    account: string,
+    overview: GetUserOverviewResponse,
+    recordedAt: number = Date.now()
+  ): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO overview_snapshots VALUES (
+          @account, @recorded_at, @hashrate_current, @hashrate_avg_1h, @hashrate_avg_24h,
+          @workers_active, @workers_inactive, @workers_total,
+          @workers_ok, @workers_low, @workers_off, @workers_dis,
+          @confirmed_sats, @unconfirmed_sats, @today_reward_sats
+        )`
+      )
+      .run({
+        account,
+        recorded_at: recordedAt,
+        hashrate_current: overview.hashrate.current,
+        hashrate_avg_1h: overview.hashrate.avg_1h,
+        hashrate_avg_24h: overview.hashrate.avg_24h,
+        workers_active: overview.workers.active,
+        workers_inactive: overview.workers.inactive,
+        workers_total: overview.workers.total,
+        workers_ok: overview.workers.ok ?? null,
+        workers_low: overview.workers.low ?? null,
+        workers_off: overview.workers.off ?? null,
+        workers_dis: overview.workers.dis ?? null,
+        confirmed_sats: convertBtc(overview.rewards.confirmed, 'sats'),
+        unconfirmed_sats: convertBtc(overview.rewards.unconfirmed, 'sats'),
+        today_reward_sats:
+          overview.rewards.today_reward !== undefined
+            ? convertBtc(overview.rewards.today_reward, 'sats')
+            : null,
+      } satisfies OverviewSnapshot);
+  }
+
+  /**
+   * Record the state of every worker of an account in one transaction
+   */
+  recordWorkers(
+    account: string,
+    workers: readonly Worker[],
+    recordedAt: number = Date.now()
+  ): void {
+    const insert = this.db.prepare(
+      `INSERT OR REPLACE INTO worker_snapshots VALUES (
+        @account, @recorded_at, @worker_id, @name, @status,
+        @hashrate_current, @hashrate_avg_24h, @shares_valid, @shares_invalid, @last_share_at
+      )`
+    );
+
+    this.db.transaction(() => {
+      for (const worker of workers) {
+        insert.run({
+          account,
+          recorded_at: recordedAt,
+          worker_id: worker.id,
+          name: worker.name,
+          status: worker.status,
+          hashrate_current: worker.hashrate.current,
+          hashrate_avg_24h: worker.hashrate.avg_24h,
+          shares_valid: worker.shares.valid,
+          shares_invalid: worker.shares.invalid,
+          last_share_at: worker.last_share_at !== null ? Date.parse(worker.last_share_at) : null,
+        } satisfies WorkerSnapshot);
+      }
+    })();
+  }
+
+  /**
+   * Record a pool stats snapshot
+   */
+  recordPoolStats(stats: GetPoolStatsResponse, recordedAt: number = Date.now()): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO pool_snapshots VALUES (
+          @recorded_at, @pool_hashrate, @workers_active, @luck, @fpps_rate, @last_block_height
+        )`
+      )
+      .run({
+        recorded_at: recordedAt,
+        pool_hashrate: stats.pool_hashrate,
+        workers_active: stats.workers_active,
+        luck: stats.luck?.value ?? null,
+        fpps_rate: stats.fpps_rate ?? null,
+        last_block_height: stats.last_block.height,
+      } satisfies PoolSnapshot);
+  }
+
+  /**
+   * Record a network stats snapshot
+   */
+  recordNetworkStats(stats: GetNetworkStatsResponse, recordedAt: number = Date.now()): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO network_snapshots VALUES (
+          @recorded_at, @difficulty, @hashrate_estimate, @block_time_avg
+        )`
+      )
+      .run({
+        recorded_at: recordedAt,
+        difficulty: stats.difficulty,
+        hashrate_estimate: stats.hashrate_estimate,
+        block_time_avg: stats.block_time_avg,
+      } satisfies NetworkSnapshot);
+  }
+
+  /**
+   * Overview snapshots of an account, oldest first
+   */
+  getOverviewHistory(account: string, range: HistoryRange, limit?: number): OverviewSnapshot[] {
+    return this.selectRange<OverviewSnapshot>(
+      'overview_snapshots',
+      'account = ?',
+      [account],
+      range,
+      limit
+    );
+  }
+
+  /**
+   * Snapshots of one worker, oldest first
+   */
+  getWorkerHistory(
+    account: string,
+    workerId: string,
+    range: HistoryRange,
+    limit?: number
+  ): WorkerSnapshot[] {
+    return this.selectRange<WorkerSnapshot>(
+      'worker_snapshots',
+      'account = ? AND worker_id = ?',
+      [account, workerId],
+      range,
+      limit
+    );
+  }
+
+  /**
+   * Pool stats snapshots, oldest first
+   */
+  getPoolHistory(range: HistoryRange, limit?: number): PoolSnapshot[] {
+    return this.selectRange<PoolSnapshot>('pool_snapshots', '1 = 1', [], range, limit);
+  }
+
+  /**
+   * Network stats snapshots, oldest first
+   */
+  getNetworkHistory(range: HistoryRange, limit?: number): NetworkSnapshot[] {
+    return this.selectRange<NetworkSnapshot>('network_snapshots', '1 = 1', [], range, limit);
+  }
+
+  /**
+   * Select rows of a snapshot table within a range, oldest first
+   *
+   * With a limit, the newest `limit` rows of the range are returned.
+   */
+  private selectRange<Row>(
+    table: string,
+    where: string,
+    params: string[],
+    range: HistoryRange,
+    limit: number = -1
+  ): Row[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM (
+          SELECT * FROM ${table}
+          WHERE ${where} AND recorded_at BETWEEN ? AND ?
+          ORDER BY recorded_at DESC LIMIT ?
+        ) ORDER BY recorded_at`
+      )
+      .all(...params, range.from, range.to, limit) as Row[];
+  }
+
+  /**
+   * Delete snapshots older than the retention period
+   *
+   * @param now - Reference time in epoch ms
+   */
+  prune(now: number = Date.now()): PruneResult {
+    const snapshotCutoff = now - this.retention.snapshotDays * DAY_MS;
+    const workerCutoff = now - this.retention.workerDays * DAY_MS;
+    const remove = (table: string, cutoff: number): number =>
+      this.db.prepare(`DELETE FROM ${table} WHERE recorded_at < ?`).run(cutoff).changes;
+
+    const result = this.db.transaction(
+      (): PruneResult => ({
+        overview: remove('overview_snapshots', snapshotCutoff),
+        workers: remove('worker_snapshots', workerCutoff),
+        pool: remove('pool_snapshots', snapshotCutoff),
+        network: remove('network_snapshots', snapshotCutoff),
+      })
+    )();
+
+    logger.debug('Pruned history snapshots', { ...result });
+    return result;
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Singleton instance of the history store
+ */
+let storeInstance: HistoryStore | null = null;
+
+/**
+ * Get the history store, opening it on first use
+ *
+ * @returns The store, or undefined when HISTORY_DB_PATH is not set
+ */
+export function getHistoryStore(): HistoryStore | undefined {
+  if (config.historyDbPath === undefined) {
+    return undefined;
+  }
+  if (!storeInstance) {
+    storeInstance = new HistoryStore(config.historyDbPath);
+    logger.info('History store opened', { path: config.historyDbPath });
+  }
+  return storeInstance;
+}
+
+/**
+ * Close and reset the history store (useful for testing)
+ */
+export function resetHistoryStore(): void {
+  if (storeInstance) {
+    storeInstance.close();
+    storeInstance = null;
+  }
+}
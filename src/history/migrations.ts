@@ -0,0 +1,150 @@
+/**
+ * History database schema migrations
+ *
+ * The schema version is kept in SQLite's `user_version` pragma. Each
+ * migration moves the database up one version and runs in its own
+ * transaction, so a failed migration leaves the previous version intact.
+ * Migrations are append-only: never edit one that has shipped, add a new
+ * version instead.
+ */
+
+import type Database from 'better-sqlite3';
+import { ConfigError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * One schema change
+ */
+export interface Migration {
+  /** Version the database is at after this migration (1, 2, ...) */
+  version: number;
+  description: string;
+  /** SQL statements applying the change */
+  up: string;
+}
+
+/**
+ * All migrations, in version order
+ *
+ * Timestamps are epoch milliseconds; BTC amounts are integer satoshis.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    description: 'Create snapshot tables',
+    up: `
+      CREATE TABLE overview_snapshots (
+        account TEXT NOT NULL,
+        recorded_at INTEGER NOT NULL,
+        hashrate_current REAL NOT NULL,
+        hashrate_avg_1h REAL NOT NULL,
+        hashrate_avg_24h REAL NOT NULL,
+        workers_active INTEGER NOT NULL,
+        workers_inactive INTEGER NOT NULL,
+        workers_total INTEGER NOT NULL,
+        workers_ok INTEGER,
+        workers_low INTEGER,
+        workers_off INTEGER,
+        workers_dis INTEGER,
+        confirmed_sats INTEGER NOT NULL,
+        unconfirmed_sats INTEGER NOT NULL,
+        today_reward_sats INTEGER,
+        PRIMARY KEY (account, recorded_at)
+      );
+
+      CREATE TABLE worker_snapshots (
+        account TEXT NOT NULL,
+        recorded_at INTEGER NOT NULL,
+        worker_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        hashrate_current REAL NOT NULL,
+        hashrate_avg_24h REAL NOT NULL,
+        shares_valid INTEGER NOT NULL,
+        shares_invalid INTEGER NOT NULL,
+        last_share_at INTEGER,
+        PRIMARY KEY (account, worker_id, recorded_at)
+      );
+      CREATE INDEX worker_snapshots_recorded_at ON worker_snapshots (recorded_at);
+
+      CREATE TABLE pool_snapshots (
+        recorded_at INTEGER PRIMARY KEY,
+        pool_hashrate REAL NOT NULL,
+        workers_active INTEGER NOT NULL,
+        luck REAL NOT NULL,
+        fpps_rate REAL,
+        last_block_height INTEGER NOT NULL
+      );
+
+      CREATE TABLE network_snapshots (
+        recorded_at INTEGER PRIMARY KEY,
+        difficulty REAL NOT NULL,
+        hashrate_estimate REAL NOT NULL,
+        block_time_avg REAL NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    description: 'Allow pool snapshots without active workers or luck',
+    up: `
+      CREATE TABLE pool_snapshots_v2 (
+        recorded_at INTEGER PRIMARY KEY,
+        pool_hashrate REAL NOT NULL,
+        workers_active INTEGER,
+        luck REAL,
+        fpps_rate REAL,
+        last_block_height INTEGER NOT NULL
+      );
+      INSERT INTO pool_snapshots_v2 SELECT * FROM pool_snapshots;
+      DROP TABLE pool_snapshots;
+      ALTER TABLE pool_snapshots_v2 RENAME TO pool_snapshots;
+    `,
+  },
+];
+
+/**
+ * Read the schema version of a database
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Bring a database up to the latest schema version
+ *
+ * @param db - Open database
+ * @param migrations - Migrations to apply, in version order
+ * @returns Schema version after migrating
+ * @throws ConfigError if the database was written by a newer version of the server
+ */
+export function migrate(
+  db: Database.Database,
+  migrations: readonly Migration[] = MIGRATIONS
+): number {
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  const current = getSchemaVersion(db);
+
+  if (current > latest) {
+    throw new ConfigError(
+      `History database schema version ${current} is newer than supported version ${latest}`,
+      { current, latest }
+    );
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+
+    logger.info('Applied history migration', {
+      version: migration.version,
+      description: migration.description,
+    });
+  }
+
+  return getSchemaVersion(db);
+}
@@ -0,0 +1,180 @@
+/**
+ * Periodic snapshot recorder
+ *
+ * Every HISTORY_SNAPSHOT_INTERVAL seconds, records the user overview and
+ * every worker of each configured account, plus pool and network stats
+ * (fetched once through the default account; network stats are skipped when
+ * it uses the native API, which does not expose them), into the history
+ * store, then prunes snapshots past their retention. Requests go through the cached
+ * client, so they share the rate limiter with tool calls.
+ *
+ * A failure to fetch one item is logged and does not stop the round.
+ */
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { walkAllWorkers } from '../api/workerWalk.js';
+import { getAccountRegistry } from '../config/accounts.js';
+import { config } from '../config/settings.js';
+import { GetUserOverviewResponseSchema } from '../schemas/getUserOverviewResponse.js';
+import { GetPoolStatsResponseSchema } from '../schemas/getPoolStatsResponse.js';
+import { GetNetworkStatsResponseSchema } from '../schemas/getNetworkStatsResponse.js';
+import { BraiinsError, ErrorCode } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import type { HistoryStore } from './historyStore.js';
+
+/**
+ * Outcome of one snapshot round
+ */
+export interface SnapshotRoundResult {
+  recordedAt: number;
+  /** Items recorded, e.g. "overview:main", "workers:main", "pool" */
+  recorded: string[];
+  /** Items that failed, with the error message */
+  failed: { item: string; error: string }[];
+}
+
+/**
+ * Validate an API response, throwing like the tool handlers do
+ */
+function parseResponse<T>(schema: ZodType<T, ZodTypeDef, unknown>, data: unknown, what: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    logger.error('API response validation failed', { what, issues: result.error.issues });
+    throw new BraiinsError(`Unexpected ${what} response format`, ErrorCode.API_ERROR, 502);
+  }
+  return result.data;
+}
+
+/**
+ * Records snapshots into a history store on a timer
+ */
+export class SnapshotRecorder {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<SnapshotRoundResult> | null = null;
+
+  /**
+   * @param store - Store receiving the snapshots
+   * @param intervalMs - Time between rounds
+   */
+  constructor(
+    private readonly store: HistoryStore,
+    private readonly intervalMs: number = config.historySnapshotInterval * 1000
+  ) {}
+
+  /**
+   * Record a first round now and then one every interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = (): void => {
+      void this.recordRound();
+    };
+    this.timer = setInterval(tick, this.intervalMs);
+    // Snapshots alone should not keep the process alive
+    this.timer.unref();
+    tick();
+
+    logger.info('Snapshot recorder started', { intervalMs: this.intervalMs });
+  }
+
+  /**
+   * Stop the timer and wait for a round in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  /**
+   * Record one round of snapshots
+   *
+   * Overlapping calls share the round already in progress.
+   */
+  recordRound(): Promise<SnapshotRoundResult> {
+    if (!this.running) {
+      this.running = this.record().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async record(): Promise<SnapshotRoundResult> {
+    const recordedAt = Date.now();
+    const result: SnapshotRoundResult = { recordedAt, recorded: [], failed: [] };
+
+    const attempt = async (item: string, work: () => Promise<void>): Promise<void> => {
+      try {
+        await work();
+        result.recorded.push(item);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.failed.push({ item, error: message });
+        logger.warn('Snapshot failed', { item, error: message });
+      }
+    };
+
+    for (const account of getAccountRegistry().list()) {
+      const client = getCachedBraiinsClient(account.name);
+
+      await attempt(`overview:${account.name}`, async () => {
+        const overview = parseResponse(
+          GetUserOverviewResponseSchema,
+          await client.getUserOverview(),
+          'user overview'
+        );
+        this.store.recordOverview(account.name, overview, recordedAt);
+      });
+
+      await attempt(`workers:${account.name}`, async () => {
+        const walk = await walkAllWorkers({ account: account.name });
+        this.store.recordWorkers(account.name, walk.workers, recordedAt);
+      });
+    }
+
+    // Pool and network stats are the same for every account
+    const client = getCachedBraiinsClient();
+
+    await attempt('pool', async () => {
+      const stats = parseResponse(
+        GetPoolStatsResponseSchema,
+        await client.getPoolStats(),
+        'pool stats'
+      );
+      this.store.recordPoolStats(stats, recordedAt);
+    });
+
+    if (getAccountRegistry().resolve().apiMode !== 'native') {
+      await attempt('network', async () => {
+        const stats = parseResponse(
+          GetNetworkStatsResponseSchema,
+          await client.getNetworkStats(),
+          'network stats'
+        );
+        this.store.recordNetworkStats(stats, recordedAt);
+      });
+    }
+
+    try {
+      this.store.prune(recordedAt);
+    } catch (error) {
+      logger.warn('History prune failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    logger.info('Snapshot round complete', {
+      recorded: result.recorded.length,
+      failed: result.failed.length,
+      durationMs: Date.now() - recordedAt,
+    });
+    return result;
+  }
+}
@@ -3,22 +3,146 @@
  *
  * Main entry point for the MCP server that provides tools for
  * monitoring Bitcoin mining operations via the Braiins Pool API.
+ * Serves the tool registry over stdio (default) or Streamable HTTP.
  *
  * @see https://modelcontextprotocol.io/
  * @see API.md for Braiins Pool API documentation
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  type CallToolResult,
-} from '@modelcontextprotocol/sdk/types.js';
 
 import { config, validateConfig } from './config/settings.js';
 import { logger } from './utils/logger.js';
-import { tools, handleToolCall } from './tools/index.js';
+import { createMcpServer, SERVER_INFO, waitForInFlightToolCalls } from './server.js';
+import { HttpTransportServer } from './transports/httpTransport.js';
+import { resolveHttpAuthenticator } from './auth/index.js';
+import { getAccountRegistry } from './config/accounts.js';
+import { CachePoller } from './api/cachePoller.js';
+import { getHistoryStore, resetHistoryStore } from './history/historyStore.js';
+import { SnapshotRecorder } from './history/snapshotRecorder.js';
+import { getAlertEngine } from './alerts/alertEngine.js';
+import { AlertMonitor } from './alerts/alertMonitor.js';
+import { getNotifier } from './notify/webhookNotifier.js';
+import { alertNotification } from './notify/notifications.js';
+import { PayoutWatcher } from './notify/payoutWatcher.js';
+
+/**
+ * Register SIGINT/SIGTERM handlers running a shutdown routine once
+ */
+function onShutdown(shutdown: () => Promise<void>): void {
+  let shuttingDown = false;
+
+  const handler = (signal: string): void => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info('Shutting down MCP server...', { signal });
+    shutdown()
+      .then(() => process.exit(0))
+      .catch((error: unknown) => {
+        logger.error('Shutdown failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
+      });
+  };
+
+  process.on('SIGINT', () => handler('SIGINT'));
+  process.on('SIGTERM', () => handler('SIGTERM'));
+}
+
+/**
+ * Start the background cache poller (POLL_ENABLED), history snapshot
+ * recorder (HISTORY_DB_PATH), alert monitor (ALERT_RULES_FILE) and
+ * notification delivery (NOTIFY_CONFIG_FILE) when configured
+ *
+ * @returns Routine stopping them and closing the history store
+ */
+function startBackgroundTasks(): () => Promise<void> {
+  const poller = config.pollEnabled ? new CachePoller() : undefined;
+  if (poller !== undefined) {
+    if (!config.redisEnabled) {
+      logger.warn('Cache poller enabled without Redis; refreshes are not cached');
+    }
+    poller.start();
+  }
+
+  const store = getHistoryStore();
+  const recorder = store !== undefined ? new SnapshotRecorder(store) : undefined;
+  recorder?.start();
+
+  const engine = getAlertEngine();
+  const monitor = engine !== undefined ? new AlertMonitor(engine) : undefined;
+  monitor?.start();
+
+  const notifier = getNotifier();
+  const unsubscribeAlerts =
+    notifier !== undefined && engine !== undefined
+      ? engine.onAlert((event) => {
+          void notifier.notify(alertNotification(event));
+        })
+      : undefined;
+  // Payouts are only read when some webhook wants them
+  const payoutWatcher =
+    notifier !== undefined &&
+    notifier.getWebhooks().some((webhook) => webhook.events.includes('payout.confirmed'))
+      ? new PayoutWatcher(notifier)
+      : undefined;
+  payoutWatcher?.start();
+
+  return async () => {
+    await poller?.stop();
+    await monitor?.stop();
+    unsubscribeAlerts?.();
+    await payoutWatcher?.stop();
+    if (recorder !== undefined) {
+      await recorder.stop();
+      resetHistoryStore();
+    }
+  };
+}
+
+/**
+ * Serve a single MCP server over stdio
+ */
+async function startStdio(stopBackgroundTasks: () => Promise<void>): Promise<void> {
+  const server = createMcpServer();
+
+  onShutdown(async () => {
+    await waitForInFlightToolCalls(config.shutdownTimeout);
+    await server.close();
+    await stopBackgroundTasks();
+  });
+
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
+
+/**
+ * Serve one MCP server per session over Streamable HTTP
+ */
+async function startHttp(stopBackgroundTasks: () => Promise<void>): Promise<void> {
+  const authenticator = resolveHttpAuthenticator({
+    host: config.httpHost,
+    authConfigFile: config.authConfigFile,
+    allowAnonymous: config.httpAllowAnonymous,
+  });
+
+  const httpServer = new HttpTransportServer({
+    host: config.httpHost,
+    port: config.httpPort,
+    createServer: createMcpServer,
+    authenticator,
+    sessionIdleTimeoutMs: config.httpSessionIdleTimeout,
+    maxSessions: config.httpMaxSessions,
+  });
+
+  onShutdown(async () => {
+    await httpServer.stop(config.shutdownTimeout);
+    await stopBackgroundTasks();
+  });
+
+  await httpServer.start();
+}
 
 /**
  * Initialize and start the MCP server
@@ -33,73 +157,24 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Load accounts up front so an invalid accounts file fails startup
+  const accounts = getAccountRegistry();
+
   logger.info('Starting Braiins Pool MCP Server', {
-    version: '0.1.0',
+    version: SERVER_INFO.version,
     environment: config.nodeEnv,
+    transport: config.mcpTransport,
+    accounts: accounts.list().length,
+    defaultAccount: accounts.defaultAccount,
   });
 
-  // Create MCP server instance
-  const server = new Server(
-    {
-      name: 'braiins-pool-mcp-server',
-      version: '0.1.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
-  );
-
-  // Register tool listing handler
-  server.setRequestHandler(ListToolsRequestSchema, () => {
-    logger.debug('Listing available tools');
-    return {
-      tools: tools.map((tool) => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-      })),
-    };
-  });
-
-  // Register tool execution handler
-  server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
-    const { name, arguments: args } = request.params;
-    logger.info('Tool call received', { tool: name });
-
-    try {
-      const result = await handleToolCall(name, args);
-      logger.info('Tool call completed', { tool: name, success: true });
-      return result;
-    } catch (error) {
-      logger.error('Tool call failed', {
-        tool: name,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-      throw error;
-    }
-  });
-
-  // Set up error handling
-  server.onerror = (error): void => {
-    logger.error('MCP Server error', { error });
-  };
-
-  // Handle graceful shutdown
-  process.on('SIGINT', () => {
-    logger.info('Shutting down MCP server...');
-    void server.close().then(() => process.exit(0));
-  });
-
-  process.on('SIGTERM', () => {
-    logger.info('Shutting down MCP server...');
-    void server.close().then(() => process.exit(0));
-  });
+  const stopBackgroundTasks = startBackgroundTasks();
 
-  // Start the server with stdio transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  if (config.mcpTransport === 'http') {
+    await startHttp(stopBackgroundTasks);
+  } else {
+    await startStdio(stopBackgroundTasks);
+  }
 
   logger.info('Braiins Pool MCP Server started successfully');
 }
@@ -0,0 +1,116 @@
+/**
+ * Notification events and message templates
+ *
+ * A notification carries flat `data` fields; its message text is rendered
+ * from a template where `{{field}}` is replaced by the data field, or by
+ * `event`, `account` or `timestamp`. Unknown placeholders are left as is.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import type { AlertEvent } from '../alerts/alertEngine.js';
+import type { Payout } from '../schemas/getPayoutsResponse.js';
+
+export const NotificationEventEnum = z.enum([
+  'alert.fired',
+  'alert.resolved',
+  'payout.confirmed',
+  'test',
+]);
+export type NotificationEventType = z.infer<typeof NotificationEventEnum>;
+
+/**
+ * Notification delivered to webhooks
+ */
+export interface Notification {
+  id: string;
+  event: NotificationEventType;
+  /** When the notification was created (ISO 8601) */
+  timestamp: string;
+  account: string | null;
+  data: Record<string, string | number | boolean | null>;
+}
+
+/**
+ * Default message templates
+ */
+export const DEFAULT_TEMPLATES: Record<NotificationEventType, string> = {
+  'alert.fired': '[{{severity}}] {{account}}/{{worker_name}}: {{message}}',
+  'alert.resolved': '[resolved] {{account}}/{{worker_name}}: {{rule_id}} cleared',
+  'payout.confirmed': 'Payout of {{amount_btc}} BTC confirmed for {{account}} ({{type}})',
+  test: 'Test notification from Braiins Pool MCP Server: {{message}}',
+};
+
+/**
+ * Render a template against a notification
+ */
+export function renderTemplate(template: string, notification: Notification): string {
+  const fields: Record<string, string | number | boolean | null> = {
+    ...notification.data,
+    event: notification.event,
+    account: notification.account,
+    timestamp: notification.timestamp,
+  };
+  return template.replace(/\{\{\s*([a-z0-9_]+)\s*\}\}/gi, (placeholder, name: string) => {
+    if (!(name in fields)) return placeholder;
+    const value = fields[name];
+    return value === null ? '' : String(value);
+  });
+}
+
+function createNotification(
+  event: NotificationEventType,
+  account: string | null,
+  data: Notification['data']
+): Notification {
+  return { id: randomUUID(), event, timestamp: new Date().toISOString(), account, data };
+}
+
+/**
+ * Notification for a fired or resolved alert
+ */
+export function alertNotification(event: AlertEvent): Notification {
+  const { alert } = event;
+  const toIso = (ms: number): string => new Date(ms).toISOString();
+  return createNotification(
+    event.type === 'fired' ? 'alert.fired' : 'alert.resolved',
+    alert.account,
+    {
+      alert_id: alert.id,
+      rule_id: alert.ruleId,
+      rule_type: alert.ruleType,
+      severity: alert.severity,
+      worker_id: alert.workerId,
+      worker_name: alert.workerName,
+      message: alert.message,
+      value: alert.value,
+      threshold: alert.threshold,
+      started_at: toIso(alert.startedAt),
+      fired_at: toIso(alert.firedAt),
+      resolved_at: alert.resolvedAt !== null ? toIso(alert.resolvedAt) : null,
+    }
+  );
+}
+
+/**
+ * Notification for a confirmed payout
+ */
+export function payoutNotification(account: string, payout: Payout): Notification {
+  return createNotification('payout.confirmed', account, {
+    type: payout.type,
+    amount_sats: payout.amount_sats,
+    amount_btc: (payout.amount_sats / 100000000).toFixed(8),
+    fee_sats: payout.fee_sats,
+    destination: payout.destination,
+    tx_id: payout.tx_id,
+    requested_at: payout.requested_at,
+    resolved_at: payout.resolved_at,
+  });
+}
+
+/**
+ * Notification sent by the testNotification tool
+ */
+export function testNotification(message: string): Notification {
+  return createNotification('test', null, { message });
+}
@@ -0,0 +1,163 @@
+/**
+ * Webhook notifier configuration
+ *
+ * Webhooks are loaded from the JSON file named by NOTIFY_CONFIG_FILE:
+ *
+ * ```json
+ * {
+ *   "deadLetterFile": "/var/lib/braiins-mcp/notifications-dead.jsonl",
+ *   "webhooks": [
+ *     {
+ *       "name": "pager",
+ *       "url": "https://pager.example.com/hooks/braiins",
+ *       "secretEnv": "PAGER_WEBHOOK_SECRET",
+ *       "events": ["alert.fired", "alert.resolved"]
+ *     },
+ *     {
+ *       "name": "chat",
+ *       "url": "https://chat.example.com/hooks/mining",
+ *       "templates": { "payout.confirmed": "💰 {{amount_btc}} BTC paid to {{account}}" }
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * Webhooks with a secret sign every request (see webhookNotifier.ts).
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { ConfigError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { NotificationEventEnum, type NotificationEventType } from './notifications.js';
+
+/**
+ * Webhook entry; at most one of secret or secretEnv
+ */
+const WebhookEntrySchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        /^[a-z0-9][a-z0-9_-]{0,63}$/,
+        'Webhook names must be lowercase letters, digits, "-" or "_" (max 64 characters)'
+      ),
+    url: z.string().url(),
+    secret: z.string().min(16, 'Webhook secrets must be at least 16 characters').optional(),
+    secretEnv: z
+      .string()
+      .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'secretEnv must be an environment variable name')
+      .optional(),
+    // Omitted means every event
+    events: z.array(NotificationEventEnum).min(1).optional(),
+    headers: z.record(z.string()).optional(),
+    templates: z.record(NotificationEventEnum, z.string().min(1)).optional(),
+    maxRetries: z.number().int().min(0).max(10).default(3),
+    retryBaseDelayMs: z.number().int().min(0).max(60000).default(1000),
+    timeoutMs: z.number().int().min(100).max(60000).default(5000),
+  })
+  .strict()
+  .refine((entry) => entry.secret === undefined || entry.secretEnv === undefined, {
+    message: 'Each webhook takes at most one of "secret" or "secretEnv"',
+  });
+
+/**
+ * Notifier file schema
+ */
+export const NotifierConfigSchema = z
+  .object({
+    deadLetterFile: z.string().min(1).optional(),
+    webhooks: z.array(WebhookEntrySchema).min(1, 'At least one webhook is required'),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const names = new Set<string>();
+    data.webhooks.forEach((webhook, index) => {
+      if (names.has(webhook.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate webhook name "${webhook.name}"`,
+          path: ['webhooks', index, 'name'],
+        });
+      }
+      names.add(webhook.name);
+    });
+  });
+
+/**
+ * Fully resolved webhook
+ */
+export interface Webhook {
+  name: string;
+  url: string;
+  /** HMAC key; unsigned when undefined */
+  secret?: string;
+  events: readonly NotificationEventType[];
+  headers: Record<string, string>;
+  templates: Partial<Record<NotificationEventType, string>>;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Resolved notifier configuration
+ */
+export interface NotifierConfig {
+  /** JSON lines file receiving notifications that could not be delivered */
+  deadLetterFile?: string;
+  webhooks: Webhook[];
+}
+
+/**
+ * Load webhooks from a JSON file
+ *
+ * @throws ConfigError if the file or a secretEnv variable is missing or invalid
+ */
+export function loadNotifierConfig(configFile: string): NotifierConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(configFile, 'utf8')) as unknown;
+  } catch (error) {
+    throw new ConfigError(`Cannot read notifier file: ${configFile}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const parsed = NotifierConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ConfigError('Invalid notifier file', {
+      issues: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+  }
+
+  const webhooks = parsed.data.webhooks.map((entry): Webhook => {
+    let secret = entry.secret;
+    if (entry.secretEnv !== undefined) {
+      secret = process.env[entry.secretEnv];
+      if (secret === undefined || secret === '') {
+        throw new ConfigError(
+          `Environment variable ${entry.secretEnv} for webhook "${entry.name}" is not set`
+        );
+      }
+    }
+
+    return {
+      name: entry.name,
+      url: entry.url,
+      secret,
+      events: entry.events ?? NotificationEventEnum.options,
+      headers: entry.headers ?? {},
+      templates: entry.templates ?? {},
+      maxRetries: entry.maxRetries,
+      retryBaseDelayMs: entry.retryBaseDelayMs,
+      timeoutMs: entry.timeoutMs,
+    };
+  });
+
+  logger.info('Loaded notification webhooks', {
+    webhooks: webhooks.map((webhook) => webhook.name),
+    deadLetterFile: parsed.data.deadLetterFile,
+  });
+  return { deadLetterFile: parsed.data.deadLetterFile, webhooks };
+}
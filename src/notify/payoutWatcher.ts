@@ -0,0 +1,140 @@
+/**
+ * Payout watcher
+ *
+ * Sends a payout.confirmed notification for each payout that becomes
+ * confirmed. Payouts are read every NOTIFY_PAYOUT_INTERVAL seconds for each
+ * configured account, and from every payouts response fetched from the API
+ * in between, via onCacheRefresh.
+ *
+ * The first payouts seen for an account only seed the watcher, so a
+ * restart does not announce old payouts again.
+ */
+
+import { getCachedBraiinsClient, onCacheRefresh } from '../api/cachedBraiinsClient.js';
+import { getAccountRegistry } from '../config/accounts.js';
+import { config } from '../config/settings.js';
+import { GetPayoutsResponseSchema, type Payout } from '../schemas/getPayoutsResponse.js';
+import { logger } from '../utils/logger.js';
+import { payoutNotification } from './notifications.js';
+import type { WebhookNotifier } from './webhookNotifier.js';
+
+/**
+ * Identity of a payout across responses
+ */
+function payoutKey(payout: Payout): string {
+  return payout.tx_id ?? payout.invoice ?? `${payout.type}:${payout.requested_at}`;
+}
+
+/**
+ * Notifies newly confirmed payouts
+ */
+export class PayoutWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  /** Confirmed payout keys per account */
+  private readonly confirmed = new Map<string, Set<string>>();
+
+  /**
+   * @param notifier - Notifier receiving payout.confirmed notifications
+   * @param intervalMs - Time between payout checks
+   */
+  constructor(
+    private readonly notifier: WebhookNotifier,
+    private readonly intervalMs: number = config.notifyPayoutInterval * 1000
+  ) {}
+
+  /**
+   * Subscribe to refreshes, check payouts now and then every interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.unsubscribe = onCacheRefresh((event) => {
+      if (event.resourceType !== 'payouts') return;
+      const parsed = GetPayoutsResponseSchema.safeParse(event.data);
+      if (parsed.success) {
+        this.observe(event.account, parsed.data.payouts);
+      }
+    });
+
+    const tick = (): void => {
+      void this.checkRound();
+    };
+    this.timer = setInterval(tick, this.intervalMs);
+    // Payout checks alone should not keep the process alive
+    this.timer.unref();
+    tick();
+
+    logger.info('Payout watcher started', { intervalMs: this.intervalMs });
+  }
+
+  /**
+   * Stop the timer and subscription and wait for a check in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  /**
+   * Read the payouts of every account
+   *
+   * Overlapping calls share the check already in progress.
+   */
+  checkRound(): Promise<void> {
+    if (!this.running) {
+      this.running = this.check().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Notify confirmed payouts not seen before
+   */
+  observe(account: string, payouts: readonly Payout[]): void {
+    const confirmed = payouts.filter((payout) => payout.status === 'confirmed');
+    const seen = this.confirmed.get(account);
+    if (seen === undefined) {
+      this.confirmed.set(account, new Set(confirmed.map(payoutKey)));
+      return;
+    }
+
+    for (const payout of confirmed) {
+      const key = payoutKey(payout);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      logger.info('Payout confirmed', { account, payout: key });
+      void this.notifier.notify(payoutNotification(account, payout));
+    }
+  }
+
+  private async check(): Promise<void> {
+    for (const account of getAccountRegistry().list()) {
+      try {
+        const parsed = GetPayoutsResponseSchema.safeParse(
+          await getCachedBraiinsClient(account.name).getPayouts()
+        );
+        if (parsed.success) {
+          this.observe(account.name, parsed.data.payouts);
+        } else {
+          logger.warn('Unexpected payouts response format', { account: account.name });
+        }
+      } catch (error) {
+        logger.warn('Payout check failed', {
+          account: account.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Webhook notifier
+ *
+ * Delivers notifications as JSON POST requests:
+ *
+ * ```json
+ * { "id": "…", "event": "alert.fired", "timestamp": "…", "account": "main",
+ *   "text": "[critical] main/Rig 01: Worker Rig 01 is off", "data": { … } }
+ * ```
+ *
+ * `text` is rendered from the webhook's template for the event, or the
+ * default one. When the webhook has a secret, the request carries
+ * X-Braiins-Timestamp (Unix seconds) and X-Braiins-Signature:
+ * `sha256=` + hex HMAC-SHA256 of `<timestamp>.<body>`, so receivers can
+ * verify the sender and reject replays.
+ *
+ * Network errors, 429 and 5xx responses are retried with exponential
+ * backoff, like API requests; other responses are final. Notifications that
+ * cannot be delivered are logged and appended to the dead-letter file.
+ */
+
+import { createHmac } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+import axios, { type AxiosInstance } from 'axios';
+import { config } from '../config/settings.js';
+import { logger } from '../utils/logger.js';
+import { loadNotifierConfig, type NotifierConfig, type Webhook } from './notifierConfig.js';
+import { DEFAULT_TEMPLATES, renderTemplate, type Notification } from './notifications.js';
+
+export const SIGNATURE_HEADER = 'X-Braiins-Signature';
+export const TIMESTAMP_HEADER = 'X-Braiins-Timestamp';
+export const EVENT_HEADER = 'X-Braiins-Event';
+
+/**
+ * Outcome of delivering one notification to one webhook
+ */
+export interface DeliveryResult {
+  webhook: string;
+  delivered: boolean;
+  attempts: number;
+  /** Last HTTP status, null when no response was received */
+  status: number | null;
+  error: string | null;
+}
+
+/**
+ * Options for one notification
+ */
+export interface NotifyOptions {
+  /**
+   * Deliver to these webhooks regardless of their event filters
+   * (default: every webhook subscribed to the event)
+   */
+  webhooks?: readonly string[];
+}
+
+/**
+ * Signature header value for a request body
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Sleep utility for retry delays
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delivers notifications to configured webhooks
+ */
+export class WebhookNotifier {
+  private readonly http: AxiosInstance;
+
+  constructor(private readonly notifierConfig: NotifierConfig) {
+    this.http = axios.create();
+  }
+
+  /**
+   * Configured webhooks
+   */
+  getWebhooks(): readonly Webhook[] {
+    return this.notifierConfig.webhooks;
+  }
+
+  /**
+   * Deliver a notification to every subscribed webhook
+   *
+   * Never rejects: failures are reported in the results and dead-lettered.
+   */
+  async notify(notification: Notification, options: NotifyOptions = {}): Promise<DeliveryResult[]> {
+    const targets =
+      options.webhooks !== undefined
+        ? this.notifierConfig.webhooks.filter((webhook) => options.webhooks?.includes(webhook.name))
+        : this.notifierConfig.webhooks.filter((webhook) =>
+            webhook.events.includes(notification.event)
+          );
+
+    return Promise.all(targets.map((webhook) => this.deliver(webhook, notification)));
+  }
+
+  private async deliver(webhook: Webhook, notification: Notification): Promise<DeliveryResult> {
+    const template = webhook.templates[notification.event] ?? DEFAULT_TEMPLATES[notification.event];
+    const payload = { ...notification, text: renderTemplate(template, notification) };
+    const body = JSON.stringify(payload);
+
+    const result = await this.postWithBackoff(webhook, notification, body);
+    if (result.delivered) {
+      logger.debug('Notification delivered', {
+        webhook: webhook.name,
+        event: notification.event,
+        attempts: result.attempts,
+      });
+      return result;
+    }
+
+    logger.error('Notification delivery failed', {
+      webhook: webhook.name,
+      event: notification.event,
+      attempts: result.attempts,
+      status: result.status,
+      error: result.error,
+    });
+    await this.deadLetter(webhook, payload, result);
+    return result;
+  }
+
+  /**
+   * POST with exponential backoff retry
+   *
+   * Every attempt is signed afresh, so retries carry a current timestamp.
+   */
+  private async postWithBackoff(
+    webhook: Webhook,
+    notification: Notification,
+    body: string,
+    retryCount = 0
+  ): Promise<DeliveryResult> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      ...webhook.headers,
+      'Content-Type': 'application/json',
+      [EVENT_HEADER]: notification.event,
+    };
+    if (webhook.secret !== undefined) {
+      headers[TIMESTAMP_HEADER] = timestamp;
+      headers[SIGNATURE_HEADER] = signPayload(webhook.secret, timestamp, body);
+    }
+
+    const result: DeliveryResult = {
+      webhook: webhook.name,
+      delivered: false,
+      attempts: retryCount + 1,
+      status: null,
+      error: null,
+    };
+
+    try {
+      const response = await this.http.post(webhook.url, body, {
+        headers,
+        timeout: webhook.timeoutMs,
+        validateStatus: () => true,
+      });
+      result.status = response.status;
+      if (response.status >= 200 && response.status < 300) {
+        result.delivered = true;
+        return result;
+      }
+      result.error = `Webhook responded with HTTP ${response.status}`;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    // Don't retry client errors (4xx other than 429) - these won't succeed on retry
+    const retryable = result.status === null || result.status >= 500 || result.status === 429;
+    if (!retryable || retryCount >= webhook.maxRetries) {
+      return result;
+    }
+
+    // Calculate delay with exponential backoff: 1s, 2s, 4s...
+    const delay = webhook.retryBaseDelayMs * Math.pow(2, retryCount);
+    logger.info('Retrying webhook delivery', {
+      webhook: webhook.name,
+      attempt: retryCount + 1,
+      maxRetries: webhook.maxRetries,
+      delayMs: delay,
+    });
+
+    await sleep(delay);
+    return this.postWithBackoff(webhook, notification, body, retryCount + 1);
+  }
+
+  /**
+   * Append an undeliverable notification to the dead-letter file
+   */
+  private async deadLetter(
+    webhook: Webhook,
+    payload: Notification & { text: string },
+    result: DeliveryResult
+  ): Promise<void> {
+    const file = this.notifierConfig.deadLetterFile;
+    if (file === undefined) return;
+
+    const entry = {
+      failed_at: new Date().toISOString(),
+      webhook: webhook.name,
+      url: webhook.url,
+      attempts: result.attempts,
+      status: result.status,
+      error: result.error,
+      payload,
+    };
+    try {
+      await appendFile(file, `${JSON.stringify(entry)}\n`, 'utf8');
+    } catch (error) {
+      logger.error('Cannot write notification dead-letter file', {
+        file,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Singleton notifier instance
+ */
+let notifierInstance: WebhookNotifier | null = null;
+
+/**
+ * Get the webhook notifier, loading NOTIFY_CONFIG_FILE on first use
+ *
+ * @returns undefined when notifications are disabled
+ * @throws ConfigError if the notifier file is missing or invalid
+ */
+export function getNotifier(): WebhookNotifier | undefined {
+  if (config.notifyConfigFile === undefined) {
+    return undefined;
+  }
+  if (!notifierInstance) {
+    notifierInstance = new WebhookNotifier(loadNotifierConfig(config.notifyConfigFile));
+  }
+  return notifierInstance;
+}
+
+/**
+ * Reset the notifier (useful for testing)
+ */
+export function resetNotifier(): void {
+  notifierInstance = null;
+}
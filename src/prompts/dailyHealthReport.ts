@@ -0,0 +1,71 @@
+/**
+ * daily-health-report MCP Prompt
+ *
+ * One-page status of an account over the last 24 hours: hashrate trend,
+ * workers that are down or hashing low, rewards earned and network context.
+ */
+
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors.js';
+import {
+  ACCOUNT_ARGUMENT,
+  AccountArgumentSchema,
+  accountScope,
+  hoursAgo,
+  toolCall,
+} from './promptText.js';
+import type { PromptDefinition } from './index.js';
+
+const DailyHealthReportArgsSchema = z
+  .object({
+    account: AccountArgumentSchema,
+  })
+  .strict();
+
+/**
+ * Render the prompt text
+ */
+function render(args: Record<string, string>, now: Date): string {
+  const parseResult = DailyHealthReportArgsSchema.safeParse(args);
+  if (!parseResult.success) {
+    throw new ValidationError('Invalid prompt arguments', { issues: parseResult.error.issues });
+  }
+  const { account } = parseResult.data;
+  const to = hoursAgo(now, 0);
+  const from = hoursAgo(now, 24);
+
+  return [
+    `Prepare a daily health report for ${accountScope(account)} covering ${from} to ${to}.`,
+    '',
+    'Gather the data with these tools:',
+    `1. ${toolCall('getUserOverview', { account })} for current, 1h and 24h hashrate, worker counts and balances.`,
+    `2. ${toolCall('listWorkers', { status: 'inactive', pageSize: 200, sortBy: 'last_share', account })} for workers that are down.`,
+    `3. ${toolCall('listWorkers', { status: 'low', pageSize: 200, sortBy: 'hashrate_asc', account })} for workers hashing below their normal rate.`,
+    `4. ${toolCall('getUserRewards', { from, to, granularity: 'hour', account })} for rewards earned in the period.`,
+    `5. ${toolCall('getNetworkStats', { account })} for difficulty and the next adjustment.`,
+    '',
+    'Then write the report with these sections:',
+    '- **Status**: 🟢 healthy, 🟡 degraded or 🔴 critical, with a one-line reason.',
+    '- **Hashrate**: current vs 1h and 24h averages, and the percentage change.',
+    '- **Workers**: active / low / offline counts, naming every offline or low worker.',
+    '- **Earnings**: rewards over the last 24 hours and the current balances.',
+    '- **Network**: difficulty and the expected change at the next adjustment.',
+    '- **Action Items**: concrete follow-ups, most urgent first (or "None").',
+    '',
+    'Keep it short enough to read at a glance. If a tool fails, say which data is missing instead of guessing.',
+  ].join('\n');
+}
+
+/**
+ * Prompt definition for registration
+ */
+export const dailyHealthReportPrompt: PromptDefinition = {
+  name: 'daily-health-report',
+  title: 'Daily health report',
+  description:
+    'Summarize the last 24 hours of an account: hashrate trend, down or low workers, ' +
+    'rewards earned, network difficulty and action items.',
+  arguments: [ACCOUNT_ARGUMENT],
+  tools: ['getUserOverview', 'listWorkers', 'getUserRewards', 'getNetworkStats'],
+  render,
+};
@@ -0,0 +1,99 @@
+/**
+ * earnings-drop-analysis MCP Prompt
+ *
+ * Compares rewards in the recent period with the period before it and
+ * attributes any drop to the account's own hashrate (offline or degraded
+ * workers), network difficulty, or pool-side variance.
+ */
+
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors.js';
+import {
+  ACCOUNT_ARGUMENT,
+  AccountArgumentSchema,
+  accountScope,
+  hoursAgo,
+  integerArgument,
+  toolCall,
+} from './promptText.js';
+import type { PromptDefinition } from './index.js';
+
+/**
+ * Workers whose hashrate history is fetched at most
+ */
+const MAX_WORKERS_TO_INSPECT = 5;
+
+const EarningsDropAnalysisArgsSchema = z
+  .object({
+    days: integerArgument('days', 1, 30, 7),
+    account: AccountArgumentSchema,
+  })
+  .strict();
+
+/**
+ * Render the prompt text
+ */
+function render(args: Record<string, string>, now: Date): string {
+  const parseResult = EarningsDropAnalysisArgsSchema.safeParse(args);
+  if (!parseResult.success) {
+    throw new ValidationError('Invalid prompt arguments', { issues: parseResult.error.issues });
+  }
+  const { days, account } = parseResult.data;
+  const to = hoursAgo(now, 0);
+  const split = hoursAgo(now, days * 24);
+  const from = hoursAgo(now, days * 48);
+  const granularity = days <= 2 ? 'hour' : 'day';
+
+  return [
+    `My earnings on ${accountScope(account)} look lower than usual. Find out why.`,
+    '',
+    `Compare the recent period (${split} to ${to}) with the ${days} day(s) before it (${from} to ${split}).`,
+    '',
+    'Gather the data with these tools:',
+    `1. ${toolCall('getUserRewards', { from, to, granularity, account })} and total the rewards of each period.`,
+    `2. ${toolCall('getUserOverview', { account })} for current vs 24h hashrate and worker counts.`,
+    `3. ${toolCall('getNetworkStats', { account })} for current difficulty and the last/next adjustment.`,
+    `4. ${toolCall('listWorkers', { status: 'inactive', pageSize: 200, sortBy: 'last_share', account })} for workers that went offline.`,
+    `5. ${toolCall('listWorkers', { status: 'active', pageSize: 20, sortBy: 'hashrate_asc', account })} for the weakest active workers.`,
+    `6. For up to ${MAX_WORKERS_TO_INSPECT} workers that look responsible, ` +
+      `${toolCall('getWorkerHashrate', { workerId: '<workerId>', from, to, granularity, account })} ` +
+      'to see when their hashrate fell.',
+    '',
+    'Then answer:',
+    '- **How big is the drop?** Rewards per day in each period and the percentage change.',
+    '- **Why?** Attribute the change to (a) lower hashrate from offline or degraded workers, ' +
+      '(b) higher network difficulty, or (c) pool luck / payout timing. ' +
+      'Estimate how much of the drop each factor explains.',
+    '- **Which workers?** Name the workers that lost the most hashrate and when it started.',
+    '- **What to do?** Specific fixes, most impactful first.',
+    '',
+    'If rewards did not actually drop, say so and show the numbers. If a tool fails, say which data is missing instead of guessing.',
+  ].join('\n');
+}
+
+/**
+ * Prompt definition for registration
+ */
+export const earningsDropAnalysisPrompt: PromptDefinition = {
+  name: 'earnings-drop-analysis',
+  title: 'Why did earnings drop?',
+  description:
+    'Compare recent rewards with the previous period and explain any drop: offline or ' +
+    'degraded workers, network difficulty, or pool variance.',
+  arguments: [
+    {
+      name: 'days',
+      description: 'Length of each compared period in days (1-30, default: 7)',
+      required: false,
+    },
+    ACCOUNT_ARGUMENT,
+  ],
+  tools: [
+    'getUserRewards',
+    'getUserOverview',
+    'getNetworkStats',
+    'listWorkers',
+    'getWorkerHashrate',
+  ],
+  render,
+};
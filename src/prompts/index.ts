@@ -0,0 +1,111 @@
+/**
+ * Prompt registry for Braiins Pool MCP Server
+ *
+ * Parameterized prompt templates for recurring mining-ops questions. Each
+ * prompt renders a user message telling the model which tools to call (with
+ * concrete arguments and time ranges) and how to structure the answer, so
+ * clients can offer them as slash commands. A prompt is only offered to
+ * callers allowed to use every tool it relies on.
+ */
+
+import type { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode as McpErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { isToolAllowed } from '../auth/index.js';
+import { getAccountRegistry } from '../config/accounts.js';
+import { toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { dailyHealthReportPrompt } from './dailyHealthReport.js';
+import { earningsDropAnalysisPrompt } from './earningsDropAnalysis.js';
+import { workersNeedingAttentionPrompt } from './workersNeedingAttention.js';
+
+/**
+ * Internal prompt definition with renderer
+ */
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Tools the prompt asks the model to call */
+  tools: readonly string[];
+  /**
+   * Render the user message
+   *
+   * @throws ValidationError for invalid arguments
+   */
+  render: (args: Record<string, string>, now: Date) => string;
+}
+
+/**
+ * All available prompts
+ */
+export const prompts: PromptDefinition[] = [
+  dailyHealthReportPrompt,
+  earningsDropAnalysisPrompt,
+  workersNeedingAttentionPrompt,
+];
+
+/**
+ * Check whether a caller may use every tool a prompt relies on
+ */
+function isPromptAllowed(
+  allowedTools: readonly string[] | undefined,
+  prompt: PromptDefinition
+): boolean {
+  return (
+    allowedTools === undefined || prompt.tools.every((tool) => isToolAllowed(allowedTools, tool))
+  );
+}
+
+/**
+ * List prompts available to a caller
+ *
+ * @param allowedTools - Caller's allowed tools (undefined when unauthenticated)
+ */
+export function listPrompts(allowedTools?: readonly string[]): Prompt[] {
+  return prompts
+    .filter((prompt) => isPromptAllowed(allowedTools, prompt))
+    .map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    }));
+}
+
+/**
+ * Render a prompt
+ *
+ * @param name - Prompt name
+ * @param args - Prompt arguments
+ * @param allowedTools - Caller's allowed tools (undefined when unauthenticated)
+ * @throws McpError (InvalidParams) for unknown or forbidden prompts and invalid arguments
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  allowedTools?: readonly string[]
+): GetPromptResult {
+  const prompt = prompts.find((p) => p.name === name);
+  if (prompt === undefined || !isPromptAllowed(allowedTools, prompt)) {
+    throw new McpError(McpErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  let text: string;
+  try {
+    text = prompt.render(args, new Date());
+    // Catch unknown accounts now rather than in every tool call the prompt makes
+    if (args.account !== undefined && args.account !== '') {
+      getAccountRegistry().resolve(args.account);
+    }
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.warn('Prompt rendering failed', { prompt: name, error: braiinsError.message });
+    throw new McpError(McpErrorCode.InvalidParams, braiinsError.message, braiinsError.toJSON());
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
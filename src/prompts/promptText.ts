@@ -0,0 +1,90 @@
+/**
+ * Prompt text helpers
+ *
+ * Shared building blocks for prompt templates: string argument parsing
+ * (MCP prompt arguments are always strings) and rendering of the tool calls
+ * a prompt asks the model to make.
+ */
+
+import { z } from 'zod';
+import { AccountNameSchema } from '../config/accounts.js';
+
+/**
+ * Optional account argument shared by all prompts (empty means the default)
+ */
+export const AccountArgumentSchema = z
+  .string()
+  .optional()
+  .transform((value) => (value === '' ? undefined : value))
+  .pipe(AccountNameSchema.optional());
+
+/**
+ * MCP description of the account argument
+ */
+export const ACCOUNT_ARGUMENT = {
+  name: 'account',
+  description: 'Account name from listAccounts (default: the default account)',
+  required: false,
+} as const;
+
+/**
+ * Optional whole-number argument within a range
+ *
+ * @param name - Argument name for error messages
+ * @param min - Smallest accepted value
+ * @param max - Largest accepted value
+ * @param fallback - Value used when the argument is omitted or empty
+ */
+export function integerArgument(
+  name: string,
+  min: number,
+  max: number,
+  fallback: number
+): z.ZodType<number, z.ZodTypeDef, string | undefined> {
+  return z
+    .string()
+    .optional()
+    .transform((value) => (value === undefined || value.trim() === '' ? String(fallback) : value))
+    .pipe(
+      z
+        .string()
+        .regex(/^\s*\d+\s*$/, `${name} must be a whole number`)
+        .transform(Number)
+        .pipe(
+          z
+            .number()
+            .min(min, `${name} must be at least ${min}`)
+            .max(max, `${name} cannot exceed ${max}`)
+        )
+    );
+}
+
+/**
+ * Render a tool call with its arguments, omitting an unset account
+ */
+export function toolCall(name: string, args: Record<string, unknown> = {}): string {
+  const defined = Object.fromEntries(
+    Object.entries(args).filter(([, value]) => value !== undefined)
+  );
+  return Object.keys(defined).length > 0
+    ? `\`${name}\` with \`${JSON.stringify(defined)}\``
+    : `\`${name}\``;
+}
+
+/**
+ * ISO 8601 timestamp a number of hours before now, truncated to the minute
+ */
+export function hoursAgo(now: Date, hours: number): string {
+  const timestamp = new Date(now.getTime() - hours * 60 * 60 * 1000);
+  timestamp.setUTCSeconds(0, 0);
+  return timestamp.toISOString();
+}
+
+/**
+ * Sentence naming the account a prompt is about
+ */
+export function accountScope(account: string | undefined): string {
+  return account !== undefined
+    ? `the Braiins Pool account "${account}"`
+    : 'my Braiins Pool account';
+}
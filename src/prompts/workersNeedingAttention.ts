@@ -0,0 +1,88 @@
+/**
+ * workers-needing-attention MCP Prompt
+ *
+ * Triage list of miners that are offline, hashing low or trending down,
+ * ranked by the hashrate they are losing, with a suggested next step each.
+ */
+
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors.js';
+import {
+  ACCOUNT_ARGUMENT,
+  AccountArgumentSchema,
+  accountScope,
+  hoursAgo,
+  integerArgument,
+  toolCall,
+} from './promptText.js';
+import type { PromptDefinition } from './index.js';
+
+const WorkersNeedingAttentionArgsSchema = z
+  .object({
+    limit: integerArgument('limit', 1, 50, 10),
+    hours: integerArgument('hours', 1, 168, 24),
+    account: AccountArgumentSchema,
+  })
+  .strict();
+
+/**
+ * Render the prompt text
+ */
+function render(args: Record<string, string>, now: Date): string {
+  const parseResult = WorkersNeedingAttentionArgsSchema.safeParse(args);
+  if (!parseResult.success) {
+    throw new ValidationError('Invalid prompt arguments', { issues: parseResult.error.issues });
+  }
+  const { limit, hours, account } = parseResult.data;
+  const to = hoursAgo(now, 0);
+  const from = hoursAgo(now, hours);
+
+  return [
+    `Which miners on ${accountScope(account)} need attention? Look at the last ${hours} hour(s).`,
+    '',
+    'Gather the data with these tools:',
+    `1. ${toolCall('getUserOverview', { account })} for the expected fleet hashrate and worker counts.`,
+    `2. ${toolCall('listWorkers', { status: 'inactive', pageSize: 200, sortBy: 'last_share', account })} for offline workers.`,
+    `3. ${toolCall('listWorkers', { status: 'low', pageSize: 200, sortBy: 'hashrate_asc', account })} for workers below their normal rate.`,
+    `4. ${toolCall('listWorkers', { status: 'active', pageSize: limit, sortBy: 'hashrate_asc', account })} for the weakest workers still reported as OK.`,
+    `5. For each of the top ${limit} candidates, ` +
+      `${toolCall('getWorkerHashrate', { workerId: '<workerId>', from, to, granularity: 'hour', account })} ` +
+      'to tell a sudden failure from a gradual decline or an intermittent dropout.',
+    '',
+    `Then list at most ${limit} workers, worst first, in a table with columns:`,
+    '| Worker | Status | Problem | Since | Hashrate lost | Suggested action |',
+    '',
+    'Rank by hashrate lost. Typical problems: offline (no shares), degraded (sustained low hashrate), ' +
+      'unstable (repeated dropouts), declining (steady downward trend). ' +
+      'Suggest checks such as power, network, cooling, fans, hashboards or pool configuration.',
+    '',
+    'End with the total hashrate at risk. If nothing needs attention, say so. ' +
+      'If a tool fails, say which data is missing instead of guessing.',
+  ].join('\n');
+}
+
+/**
+ * Prompt definition for registration
+ */
+export const workersNeedingAttentionPrompt: PromptDefinition = {
+  name: 'workers-needing-attention',
+  title: 'Which miners need attention?',
+  description:
+    'Triage offline, low and declining workers ranked by hashrate lost, with a suggested ' +
+    'action for each.',
+  arguments: [
+    {
+      name: 'limit',
+      description: 'Maximum number of workers to report (1-50, default: 10)',
+      required: false,
+    },
+    {
+      name: 'hours',
+      description: 'Hashrate history to inspect in hours (1-168, default: 24)',
+      required: false,
+    },
+    ACCOUNT_ARGUMENT,
+  ],
+  tools: ['getUserOverview', 'listWorkers', 'getWorkerHashrate'],
+  render,
+};
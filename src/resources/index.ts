@@ -0,0 +1,263 @@
+/**
+ * MCP resources for Braiins Pool MCP Server
+ *
+ * Exposes pool, network, account and worker snapshots as read-only JSON
+ * resources served from CachedBraiinsClient, so clients can attach them to
+ * context without a tool call. Each resource is gated by the tool returning
+ * the same data, so HTTP callers only see what their allowed tools permit.
+ */
+
+import type {
+  Resource,
+  ResourceTemplate,
+  ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode as McpErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodTypeAny } from 'zod';
+import { getCachedBraiinsClient, type CachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { accountSupportsTool, getAccountRegistry } from '../config/accounts.js';
+import { isToolAllowed } from '../auth/index.js';
+import { BraiinsError, ErrorCode, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { GetPoolStatsResponseSchema } from '../schemas/getPoolStatsResponse.js';
+import { GetNetworkStatsResponseSchema } from '../schemas/getNetworkStatsResponse.js';
+import { GetUserOverviewResponseSchema } from '../schemas/getUserOverviewResponse.js';
+import { GetWorkerDetailsResponseSchema } from '../schemas/getWorkerDetailsResponse.js';
+import {
+  WORKER_RESOURCE_TEMPLATE,
+  buildStaticResourceUri,
+  parseResourceUri,
+  type ParsedResourceUri,
+  type StaticResourcePath,
+} from './resourceUris.js';
+import { getResourceSubscriptions } from './subscriptions.js';
+
+export {
+  RESOURCE_SCHEME,
+  WORKER_RESOURCE_TEMPLATE,
+  buildStaticResourceUri,
+  buildWorkerResourceUri,
+  parseResourceUri,
+  canonicalResourceUri,
+  type ParsedResourceUri,
+  type StaticResourcePath,
+} from './resourceUris.js';
+export {
+  ResourceSubscriptions,
+  getResourceSubscriptions,
+  resetResourceSubscriptions,
+  type ResourceUpdateCallback,
+} from './subscriptions.js';
+
+/**
+ * JSON-RPC error code for unknown resources (MCP specification)
+ */
+export const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * MIME type of every resource
+ */
+const RESOURCE_MIME_TYPE = 'application/json';
+
+/**
+ * Static resource definition
+ */
+interface StaticResourceDefinition {
+  name: string;
+  description: string;
+  /** Tool returning the same data; callers need it to see the resource */
+  tool: string;
+  schema: ZodTypeAny;
+  fetch: (client: CachedBraiinsClient) => Promise<unknown>;
+}
+
+/**
+ * Static resources keyed by URI path
+ */
+const STATIC_RESOURCES: Record<StaticResourcePath, StaticResourceDefinition> = {
+  'pool/stats': {
+    name: 'Pool Stats',
+    description: 'Braiins Pool hashrate, active workers, blocks found and luck',
+    tool: 'getPoolStats',
+    schema: GetPoolStatsResponseSchema,
+    fetch: (client) => client.getPoolStats(),
+  },
+  'network/stats': {
+    name: 'Network Stats',
+    description: 'Bitcoin network difficulty, hashrate, block timing and next adjustment',
+    tool: 'getNetworkStats',
+    schema: GetNetworkStatsResponseSchema,
+    fetch: (client) => client.getNetworkStats(),
+  },
+  'account/overview': {
+    name: 'Account Overview',
+    description: 'Account hashrate, reward balances and worker counts',
+    tool: 'getUserOverview',
+    schema: GetUserOverviewResponseSchema,
+    fetch: (client) => client.getUserOverview(),
+  },
+};
+
+/**
+ * Tool gating the per-worker resources
+ */
+const WORKER_RESOURCE_TOOL = 'getWorkerDetails';
+
+/**
+ * Tool returning the same data as a resource
+ */
+function resourceTool(parsed: ParsedResourceUri): string {
+  return parsed.kind === 'worker' ? WORKER_RESOURCE_TOOL : STATIC_RESOURCES[parsed.path].tool;
+}
+
+/**
+ * Check whether a caller may see a resource backed by a tool
+ */
+function isAllowed(allowedTools: readonly string[] | undefined, tool: string): boolean {
+  return allowedTools === undefined || isToolAllowed(allowedTools, tool);
+}
+
+/**
+ * List the static resources of every configured account
+ *
+ * Resources an account's API cannot serve are left out.
+ *
+ * @param allowedTools - Caller's allowed tools (undefined when unauthenticated)
+ */
+export function listResources(allowedTools?: readonly string[]): Resource[] {
+  const registry = getAccountRegistry();
+  const accounts = registry.list();
+  const resources: Resource[] = [];
+
+  for (const account of accounts) {
+    for (const [path, definition] of Object.entries(STATIC_RESOURCES)) {
+      if (!isAllowed(allowedTools, definition.tool)) continue;
+      if (!accountSupportsTool(account, definition.tool)) continue;
+      resources.push({
+        uri: buildStaticResourceUri(
+          path as StaticResourcePath,
+          account.name,
+          registry.defaultAccount
+        ),
+        name: accounts.length > 1 ? `${definition.name} (${account.name})` : definition.name,
+        description: definition.description,
+        mimeType: RESOURCE_MIME_TYPE,
+      });
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * List resource templates
+ *
+ * @param allowedTools - Caller's allowed tools (undefined when unauthenticated)
+ */
+export function listResourceTemplates(allowedTools?: readonly string[]): ResourceTemplate[] {
+  if (!isAllowed(allowedTools, WORKER_RESOURCE_TOOL)) return [];
+  return [
+    {
+      uriTemplate: WORKER_RESOURCE_TEMPLATE,
+      name: 'Worker Details',
+      description:
+        'Status, hashrate, shares and hardware of one worker (IDs from listWorkers); ' +
+        'add ?account=<name> for a non-default account',
+      mimeType: RESOURCE_MIME_TYPE,
+    },
+  ];
+}
+
+/**
+ * Validate fetched resource data
+ *
+ * @throws BraiinsError (API_ERROR) if the data does not match the schema
+ */
+function parseResourceData(schema: ZodTypeAny, rawData: unknown, what: string): unknown {
+  const result = schema.safeParse(rawData);
+  if (!result.success) {
+    logger.error('API response validation failed', { resource: what, issues: result.error.issues });
+    throw new BraiinsError(`Unexpected ${what} response format`, ErrorCode.API_ERROR, 502);
+  }
+  return result.data as unknown;
+}
+
+/**
+ * Fetch the data behind a parsed resource URI
+ */
+async function fetchResource(parsed: ParsedResourceUri): Promise<unknown> {
+  const client = getCachedBraiinsClient(parsed.account);
+  if (parsed.kind === 'worker') {
+    const rawData = await client.getWorkerDetails(parsed.workerId);
+    return parseResourceData(GetWorkerDetailsResponseSchema, rawData, 'worker details');
+  }
+
+  const definition = STATIC_RESOURCES[parsed.path];
+  const rawData = await definition.fetch(client);
+  return parseResourceData(definition.schema, rawData, definition.name.toLowerCase());
+}
+
+/**
+ * Read a resource
+ *
+ * @param uri - Resource URI
+ * @param allowedTools - Caller's allowed tools (undefined when unauthenticated)
+ * @throws McpError for unknown or forbidden resources, invalid accounts and API failures
+ */
+export async function readResource(
+  uri: string,
+  allowedTools?: readonly string[]
+): Promise<ReadResourceResult> {
+  const parsed = parseResourceUri(uri);
+  if (parsed === null) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  if (!isAllowed(allowedTools, resourceTool(parsed))) {
+    // Same answer as an unknown resource so callers cannot probe for data
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  let data: unknown;
+  try {
+    data = await fetchResource(parsed);
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('Resource read failed', {
+      uri,
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+    const code =
+      braiinsError.code === ErrorCode.VALIDATION_ERROR
+        ? McpErrorCode.InvalidParams
+        : braiinsError.code === ErrorCode.NOT_FOUND
+          ? RESOURCE_NOT_FOUND
+          : McpErrorCode.InternalError;
+    throw new McpError(code, braiinsError.message, braiinsError.toJSON());
+  }
+
+  getResourceSubscriptions().observe(uri, data);
+
+  return {
+    contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+/**
+ * Check that a caller may subscribe to a resource URI
+ *
+ * @throws McpError for unknown or forbidden resources and unknown accounts
+ */
+export function assertSubscribable(uri: string, allowedTools?: readonly string[]): void {
+  const parsed = parseResourceUri(uri);
+  if (parsed === null || !isAllowed(allowedTools, resourceTool(parsed))) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+  try {
+    getAccountRegistry().resolve(parsed.account);
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    throw new McpError(McpErrorCode.InvalidParams, braiinsError.message, braiinsError.toJSON());
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Resource URIs
+ *
+ * Builds and parses the `braiins://` URIs of the MCP resources:
+ *
+ * - braiins://pool/stats
+ * - braiins://network/stats
+ * - braiins://account/overview
+ * - braiins://workers/{workerId}
+ *
+ * Any URI may carry `?account=<name>` to select a configured account; URIs
+ * for the default account are canonicalized without it.
+ */
+
+import type { ResourceType } from '../cache/index.js';
+import type { CacheRefreshEvent } from '../api/cachedBraiinsClient.js';
+
+/**
+ * URI scheme of all resources
+ */
+export const RESOURCE_SCHEME = 'braiins';
+
+/**
+ * Fixed resource paths and the cached data type backing each
+ */
+export const STATIC_RESOURCE_PATHS = {
+  'pool/stats': 'pool-stats',
+  'network/stats': 'network-stats',
+  'account/overview': 'user-overview',
+} as const satisfies Record<string, ResourceType>;
+
+export type StaticResourcePath = keyof typeof STATIC_RESOURCE_PATHS;
+
+/**
+ * RFC 6570 template for per-worker resources
+ */
+export const WORKER_RESOURCE_TEMPLATE = `${RESOURCE_SCHEME}://workers/{workerId}{?account}`;
+
+/**
+ * Parsed resource URI
+ */
+export type ParsedResourceUri =
+  | { kind: 'static'; path: StaticResourcePath; account?: string }
+  | { kind: 'worker'; workerId: string; account?: string };
+
+/**
+ * Build a resource URI
+ *
+ * @param path - Static path or `workers/<id>` (the worker ID is encoded here)
+ * @param account - Account name; omit or pass the default account for a bare URI
+ * @param defaultAccount - Name of the default account
+ */
+function buildUri(path: string, account?: string, defaultAccount?: string): string {
+  const base = `${RESOURCE_SCHEME}://${path}`;
+  return account !== undefined && account !== defaultAccount
+    ? `${base}?account=${encodeURIComponent(account)}`
+    : base;
+}
+
+/**
+ * Build the URI of a static resource
+ */
+export function buildStaticResourceUri(
+  path: StaticResourcePath,
+  account?: string,
+  defaultAccount?: string
+): string {
+  return buildUri(path, account, defaultAccount);
+}
+
+/**
+ * Build the URI of a worker resource
+ */
+export function buildWorkerResourceUri(
+  workerId: string,
+  account?: string,
+  defaultAccount?: string
+): string {
+  return buildUri(`workers/${encodeURIComponent(workerId)}`, account, defaultAccount);
+}
+
+/**
+ * Parse a resource URI
+ *
+ * @returns The parsed URI, or null if it is not a known resource
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | null {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== `${RESOURCE_SCHEME}:`) return null;
+
+  const accountParam = url.searchParams.get('account');
+  const account = accountParam !== null && accountParam !== '' ? accountParam : undefined;
+
+  const path = `${url.host}${url.pathname}`;
+  if (path in STATIC_RESOURCE_PATHS) {
+    return { kind: 'static', path: path as StaticResourcePath, account };
+  }
+
+  if (url.host === 'workers') {
+    const encoded = url.pathname.slice(1);
+    if (encoded === '' || encoded.includes('/')) return null;
+    try {
+      return { kind: 'worker', workerId: decodeURIComponent(encoded), account };
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Canonical form of a resource URI (default account without a query)
+ *
+ * @returns The canonical URI, or null if it is not a known resource
+ */
+export function canonicalResourceUri(uri: string, defaultAccount: string): string | null {
+  const parsed = parseResourceUri(uri);
+  if (parsed === null) return null;
+  return parsed.kind === 'static'
+    ? buildStaticResourceUri(parsed.path, parsed.account, defaultAccount)
+    : buildWorkerResourceUri(parsed.workerId, parsed.account, defaultAccount);
+}
+
+/**
+ * Canonical URI of the resource refreshed by a cache refresh event
+ *
+ * @returns The URI, or null if the refreshed data backs no resource
+ */
+export function resourceUriForRefresh(
+  event: CacheRefreshEvent,
+  defaultAccount: string
+): string | null {
+  if (event.resourceType === 'worker-details') {
+    return event.identifier !== undefined
+      ? buildWorkerResourceUri(event.identifier, event.account, defaultAccount)
+      : null;
+  }
+
+  for (const [path, resourceType] of Object.entries(STATIC_RESOURCE_PATHS)) {
+    if (resourceType === event.resourceType) {
+      return buildStaticResourceUri(path as StaticResourcePath, event.account, defaultAccount);
+    }
+  }
+  return null;
+}
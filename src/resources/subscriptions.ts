@@ -0,0 +1,160 @@
+/**
+ * Resource Subscriptions
+ *
+ * Tracks which resources MCP sessions subscribed to and tells them when the
+ * data behind a resource changes. Changes are detected from cache refreshes
+ * (API fetches after a cache miss): a subscriber is notified when the
+ * refreshed data differs from what was last served or refreshed for that URI.
+ * The first observation of a URI is only recorded, so a client re-reading a
+ * resource after a notification does not trigger another one.
+ */
+
+import { createHash } from 'node:crypto';
+import { onCacheRefresh, type CacheRefreshEvent } from '../api/cachedBraiinsClient.js';
+import { getAccountRegistry } from '../config/accounts.js';
+import { logger } from '../utils/logger.js';
+import { canonicalResourceUri, resourceUriForRefresh } from './resourceUris.js';
+
+/**
+ * Callback invoked with the canonical URI of an updated resource
+ */
+export type ResourceUpdateCallback = (uri: string) => void;
+
+/**
+ * Digest of resource data for change detection
+ */
+function digest(data: unknown): string {
+  return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+/**
+ * Subscription registry shared by all MCP sessions
+ */
+export class ResourceSubscriptions {
+  private readonly subscribers = new Map<string, Set<ResourceUpdateCallback>>();
+  private readonly digests = new Map<string, string>();
+  private detach: (() => void) | null = null;
+
+  /**
+   * Subscribe to updates of a resource
+   *
+   * @returns The canonical URI, or null if the URI is not a known resource
+   */
+  subscribe(uri: string, callback: ResourceUpdateCallback): string | null {
+    const canonical = this.canonicalize(uri);
+    if (canonical === null) return null;
+
+    let callbacks = this.subscribers.get(canonical);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.subscribers.set(canonical, callbacks);
+    }
+    callbacks.add(callback);
+
+    this.detach ??= onCacheRefresh((event) => this.handleRefresh(event));
+    return canonical;
+  }
+
+  /**
+   * Remove a subscription
+   */
+  unsubscribe(uri: string, callback: ResourceUpdateCallback): void {
+    const canonical = this.canonicalize(uri);
+    if (canonical === null) return;
+    this.remove(canonical, callback);
+  }
+
+  /**
+   * Remove every subscription of a callback (e.g., when its session closes)
+   */
+  unsubscribeAll(callback: ResourceUpdateCallback): void {
+    for (const uri of [...this.subscribers.keys()]) {
+      this.remove(uri, callback);
+    }
+  }
+
+  /**
+   * Record data served for a resource so later refreshes compare against it
+   */
+  observe(uri: string, data: unknown): void {
+    const canonical = this.canonicalize(uri);
+    if (canonical !== null && this.subscribers.has(canonical)) {
+      this.digests.set(canonical, digest(data));
+    }
+  }
+
+  /**
+   * Number of subscribed resources (for monitoring)
+   */
+  get size(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Drop all subscriptions and stop listening for refreshes
+   */
+  clear(): void {
+    this.subscribers.clear();
+    this.digests.clear();
+    this.detach?.();
+    this.detach = null;
+  }
+
+  private canonicalize(uri: string): string | null {
+    return canonicalResourceUri(uri, getAccountRegistry().defaultAccount);
+  }
+
+  private remove(uri: string, callback: ResourceUpdateCallback): void {
+    const callbacks = this.subscribers.get(uri);
+    if (!callbacks) return;
+    callbacks.delete(callback);
+    if (callbacks.size === 0) {
+      this.subscribers.delete(uri);
+      this.digests.delete(uri);
+    }
+    if (this.subscribers.size === 0 && this.detach !== null) {
+      this.detach();
+      this.detach = null;
+    }
+  }
+
+  private handleRefresh(event: CacheRefreshEvent): void {
+    const uri = resourceUriForRefresh(event, getAccountRegistry().defaultAccount);
+    if (uri === null) return;
+    const callbacks = this.subscribers.get(uri);
+    if (!callbacks) return;
+
+    const current = digest(event.data);
+    const previous = this.digests.get(uri);
+    this.digests.set(uri, current);
+    if (previous === undefined || previous === current) return;
+
+    logger.debug('Resource updated', { uri, subscribers: callbacks.size });
+    for (const callback of callbacks) {
+      callback(uri);
+    }
+  }
+}
+
+/**
+ * Singleton subscription registry
+ */
+let subscriptionsInstance: ResourceSubscriptions | null = null;
+
+/**
+ * Get the subscription registry (lazy initialization)
+ */
+export function getResourceSubscriptions(): ResourceSubscriptions {
+  if (!subscriptionsInstance) {
+    subscriptionsInstance = new ResourceSubscriptions();
+  }
+  return subscriptionsInstance;
+}
+
+/**
+ * Reset the subscription registry (useful for testing)
+ */
+export function resetResourceSubscriptions(): void {
+  subscriptionsInstance?.clear();
+  subscriptionsInstance = null;
+}
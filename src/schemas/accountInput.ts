@@ -0,0 +1,25 @@
+/**
+ * Shared account argument for tool inputs
+ *
+ * Every tool accepts an optional account name selecting which configured
+ * Braiins account to query.
+ *
+ * @see src/config/accounts.ts
+ */
+
+import { AccountNameSchema } from '../config/accounts.js';
+
+/**
+ * Optional account name; omitted means the default account
+ */
+export const AccountInputSchema = AccountNameSchema.optional().describe(
+  'Account name from listAccounts (default: the default account)'
+);
+
+/**
+ * JSON schema property for the account argument in tool definitions
+ */
+export const ACCOUNT_INPUT_PROPERTY = {
+  type: 'string',
+  description: 'Account name from listAccounts (default: the default account)',
+} as const;
@@ -0,0 +1,80 @@
+/**
+ * Input schema for calculateProfitability tool
+ *
+ * Market and power cost assumptions supplied by the caller, plus optional
+ * hardware efficiency overrides and worker selection.
+ *
+ * @see docs/API.md Pool Stats API (fpps_rate) and Worker Details API (hardware)
+ */
+
+import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Maximum number of workers evaluated in one call
+ *
+ * Each worker needs a details request for its hardware model.
+ */
+export const MAX_PROFITABILITY_WORKERS = 200;
+
+/**
+ * Input schema for calculateProfitability tool
+ *
+ * Electricity and BTC prices are required; everything else has defaults.
+ */
+export const CalculateProfitabilityInputSchema = z
+  .object({
+    electricityPrice: z
+      .number()
+      .nonnegative('electricityPrice cannot be negative')
+      .describe('Electricity price per kWh in the fiat currency'),
+
+    btcPrice: z
+      .number()
+      .positive('btcPrice must be positive')
+      .describe('BTC price in the fiat currency'),
+
+    currency: z
+      .string()
+      .min(1)
+      .max(5, 'Currency code too long')
+      .default('USD')
+      .describe('Fiat currency code used for prices (default: USD)'),
+
+    efficiencyTable: z
+      .record(z.string().min(1), z.number().positive('Efficiency must be positive'))
+      .optional()
+      .describe('Hardware efficiency in J/TH by model name, overriding built-in values'),
+
+    defaultEfficiency: z
+      .number()
+      .positive('defaultEfficiency must be positive')
+      .optional()
+      .describe('Efficiency in J/TH for workers with unknown hardware'),
+
+    workerIds: z
+      .array(z.string().min(1).max(100, 'Worker ID is too long'))
+      .min(1, 'Provide at least one worker ID')
+      .max(MAX_PROFITABILITY_WORKERS, `At most ${MAX_PROFITABILITY_WORKERS} worker IDs`)
+      .optional()
+      .describe('Workers to evaluate (default: active workers by hashrate)'),
+
+    maxWorkers: z
+      .number()
+      .int()
+      .min(1, 'maxWorkers must be at least 1')
+      .max(MAX_PROFITABILITY_WORKERS, `maxWorkers cannot exceed ${MAX_PROFITABILITY_WORKERS}`)
+      .default(50)
+      .describe('Number of active workers evaluated when workerIds is omitted'),
+
+    account: AccountInputSchema,
+
+    format: OutputFormatInputSchema,
+  })
+  .strict();
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type CalculateProfitabilityInput = z.infer<typeof CalculateProfitabilityInputSchema>;
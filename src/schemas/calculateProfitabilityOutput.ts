@@ -0,0 +1,66 @@
+/**
+ * Output schema for calculateProfitability tool
+ *
+ * Structured form of the profitability report. Hashrate is in TH/s, power
+ * in watts, BTC amounts are numbers and fiat amounts are in the input currency.
+ */
+
+import { z } from 'zod';
+
+const RevenueBasisSchema = z.object({
+  source: z
+    .enum(['fpps', 'subsidy'])
+    .describe('Pool FPPS rate, or block subsidy at current difficulty'),
+  btc_per_th_day: z.number().nonnegative().describe('BTC earned per TH/s per day'),
+  description: z.string().describe('Human-readable description of the basis'),
+});
+
+const FleetSchema = z.object({
+  workers_evaluated: z.number().int().nonnegative().describe('Workers with a known efficiency'),
+  hashrate_ths: z.number().nonnegative().describe('24h average hashrate in TH/s'),
+  power_watts: z.number().nonnegative().describe('Estimated power draw in W'),
+  efficiency: z.number().nonnegative().nullable().describe('Fleet efficiency in J/TH'),
+  revenue_btc: z.number().nonnegative().describe('Daily revenue (BTC)'),
+  revenue_fiat: z.number().nonnegative().describe('Daily revenue (fiat)'),
+  cost_fiat: z.number().nonnegative().describe('Daily power cost (fiat)'),
+  margin_fiat: z.number().describe('Daily margin (fiat)'),
+  monthly_margin_fiat: z.number().describe('30-day margin (fiat)'),
+  breakeven_btc_price: z.number().nullable().describe('BTC price where margin is zero (fiat)'),
+  breakeven_difficulty: z
+    .number()
+    .nullable()
+    .describe('Network difficulty where margin is zero at the current BTC price'),
+  unprofitable_workers: z.number().int().nonnegative().describe('Workers with negative margin'),
+});
+
+const WorkerSchema = z.object({
+  name: z.string().describe('Worker name'),
+  model: z.string().nullable().describe('Hardware model (null if unknown)'),
+  hashrate_ths: z.number().nonnegative().describe('24h average hashrate in TH/s'),
+  efficiency: z.number().nonnegative().nullable().describe('Efficiency in J/TH'),
+  efficiency_source: z
+    .enum(['input table', 'built-in', 'default'])
+    .nullable()
+    .describe('Where the efficiency figure came from'),
+  power_watts: z.number().nonnegative().nullable().describe('Estimated power draw in W'),
+  revenue_btc: z.number().nonnegative().describe('Daily revenue (BTC)'),
+  revenue_fiat: z.number().nonnegative().describe('Daily revenue (fiat)'),
+  cost_fiat: z.number().nonnegative().nullable().describe('Daily power cost (fiat)'),
+  margin_fiat: z.number().nullable().describe('Daily margin (fiat)'),
+  breakeven_btc_price: z.number().nullable().describe('BTC price where margin is zero (fiat)'),
+});
+
+export const CalculateProfitabilityOutputSchema = z.object({
+  currency: z.string().describe('Fiat currency code'),
+  btc_price: z.number().positive().describe('BTC price used (fiat)'),
+  electricity_price: z.number().nonnegative().describe('Electricity price per kWh (fiat)'),
+  revenue_basis: RevenueBasisSchema.describe('Revenue rate used for the calculation'),
+  difficulty: z.number().positive().nullable().describe('Network difficulty (null if unavailable)'),
+  fleet: FleetSchema.nullable().describe('Totals over workers with a known efficiency'),
+  workers: z.array(WorkerSchema).describe('Per-worker profitability'),
+  unavailable_workers: z
+    .array(z.string())
+    .describe('Requested worker IDs whose details could not be fetched'),
+});
+
+export type CalculateProfitabilityOutput = z.infer<typeof CalculateProfitabilityOutputSchema>;
@@ -0,0 +1,36 @@
+/**
+ * Input schema for estimateEarnings tool
+ *
+ * Optional hashrate override for projecting FPPS earnings.
+ *
+ * @see docs/API.md Pool Stats API (fpps_rate)
+ */
+
+import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Input schema for estimateEarnings tool
+ *
+ * Without a hashrate the account's 24h average hashrate is used.
+ */
+export const EstimateEarningsInputSchema = z
+  .object({
+    hashrateThs: z
+      .number()
+      .positive('hashrateThs must be positive')
+      .max(1e9, 'hashrateThs is unrealistically large')
+      .optional()
+      .describe('Hashrate to project in TH/s (default: account 24h average)'),
+
+    account: AccountInputSchema,
+
+    format: OutputFormatInputSchema,
+  })
+  .strict();
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type EstimateEarningsInput = z.infer<typeof EstimateEarningsInputSchema>;
@@ -0,0 +1,46 @@
+/**
+ * Output schema for estimateEarnings tool
+ *
+ * Structured form of the earnings estimate. BTC amounts are numbers.
+ */
+
+import { z } from 'zod';
+
+const ProjectionSchema = z.object({
+  days: z.number().int().positive().describe('Projection period in days'),
+  fpps: z.number().nonnegative().nullable().describe('FPPS earnings for the period (BTC)'),
+  subsidy_only: z
+    .number()
+    .nonnegative()
+    .nullable()
+    .describe('Block subsidy earnings for the period, excluding fees (BTC)'),
+});
+
+const TodaySchema = z.object({
+  elapsed_fraction: z.number().min(0).max(1).describe('Fraction of the UTC day elapsed'),
+  fpps_implied: z.number().nonnegative().describe('FPPS-implied reward so far today (BTC)'),
+  actual: z.number().nonnegative().describe('Reward actually accrued today (BTC)'),
+  gap: z.number().nullable().describe('actual / fpps_implied - 1 (null when nothing expected)'),
+});
+
+export const EstimateEarningsOutputSchema = z.object({
+  hashrate: z.number().nonnegative().describe('Hashrate used for the estimate in H/s'),
+  hashrate_source: z
+    .enum(['supplied', 'account_avg_24h'])
+    .describe('Whether the hashrate was supplied or is the account 24h average'),
+  fpps_rate: z
+    .number()
+    .nonnegative()
+    .nullable()
+    .describe('Pool FPPS rate in BTC per TH/s per day (null if not reported)'),
+  difficulty: z.number().positive().nullable().describe('Network difficulty (null if unavailable)'),
+  projections: z
+    .array(ProjectionSchema)
+    .describe('Daily, weekly and 30-day projections; empty when no rate or difficulty is known'),
+  today: TodaySchema.nullable().describe(
+    "Today's FPPS-implied vs actual reward (null when not reported)"
+  ),
+  calculated_at: z.string().datetime().describe('Calculation timestamp (ISO 8601, UTC)'),
+});
+
+export type EstimateEarningsOutput = z.infer<typeof EstimateEarningsOutputSchema>;
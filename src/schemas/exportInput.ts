@@ -0,0 +1,95 @@
+/**
+ * Shared export argument for tool inputs
+ *
+ * Timeseries and worker list tools accept an optional `export` object that
+ * returns the full result set as a CSV or NDJSON embedded resource instead
+ * of the truncated markdown table.
+ */
+
+import { z } from 'zod';
+
+export const ExportFileFormatEnum = z.enum(['csv', 'ndjson']);
+export type ExportFileFormat = z.infer<typeof ExportFileFormatEnum>;
+
+/**
+ * Units hashrate columns can be exported in
+ */
+export const HashrateUnitEnum = z.enum(['H/s', 'KH/s', 'MH/s', 'GH/s', 'TH/s', 'PH/s', 'EH/s']);
+export type HashrateUnit = z.infer<typeof HashrateUnitEnum>;
+
+/**
+ * Units BTC amount columns can be exported in
+ */
+export const BtcUnitEnum = z.enum(['btc', 'sats']);
+export type BtcUnit = z.infer<typeof BtcUnitEnum>;
+
+/**
+ * Parsed export argument
+ */
+export interface ExportInput<T extends string = string> {
+  format: ExportFileFormat;
+  columns?: T[];
+  hashrateUnit: HashrateUnit;
+  btcUnit: BtcUnit;
+}
+
+/**
+ * Build the export argument schema for a tool's columns
+ *
+ * @param columns - Columns the tool can export, in default order
+ */
+export function exportInputSchema<T extends string>(
+  columns: readonly [T, ...T[]]
+): z.ZodType<ExportInput<T> | undefined, z.ZodTypeDef, unknown> {
+  return z
+    .object({
+      format: ExportFileFormatEnum.describe('File format: csv or ndjson'),
+      columns: z
+        .array(z.enum(columns))
+        .min(1, 'columns cannot be empty')
+        .optional()
+        .describe('Columns to include, in order (default: all)'),
+      hashrateUnit: HashrateUnitEnum.default('H/s').describe('Unit of hashrate columns'),
+      btcUnit: BtcUnitEnum.default('btc').describe('Unit of BTC amount columns'),
+    })
+    .strict()
+    .optional()
+    .describe('Return the full result set as a CSV or NDJSON file');
+}
+
+/**
+ * JSON schema property for the export argument in tool definitions
+ *
+ * @param columns - Columns the tool can export, in default order
+ */
+export function exportInputProperty(columns: readonly string[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: {
+      format: {
+        type: 'string',
+        enum: ['csv', 'ndjson'],
+        description: 'File format: csv or ndjson',
+      },
+      columns: {
+        type: 'array',
+        items: { type: 'string', enum: [...columns] },
+        description: `Columns to include, in order (default: all of ${columns.join(', ')})`,
+      },
+      hashrateUnit: {
+        type: 'string',
+        enum: HashrateUnitEnum.options,
+        description: 'Unit of hashrate columns (default: H/s)',
+      },
+      btcUnit: {
+        type: 'string',
+        enum: BtcUnitEnum.options,
+        description: 'Unit of BTC amount columns: btc or sats (default: btc)',
+      },
+    },
+    required: ['format'],
+    description:
+      'Return the full result set (no truncation) as a CSV or NDJSON embedded resource ' +
+      'for spreadsheets and scripts',
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Input schema for getApiDiagnostics tool
+ *
+ * Filters the circuit breakers reported alongside the rate limiter.
+ *
+ * @see src/api/circuitBreaker.ts
+ */
+
+import { z } from 'zod';
+import { CircuitStateEnum } from '../api/circuitBreaker.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Input schema for getApiDiagnostics tool
+ */
+export const GetApiDiagnosticsInputSchema = z
+  .object({
+    state: CircuitStateEnum.optional().describe('Only circuits in this state'),
+
+    format: OutputFormatInputSchema,
+  })
+  .strict();
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type GetApiDiagnosticsInput = z.infer<typeof GetApiDiagnosticsInputSchema>;
@@ -0,0 +1,51 @@
+/**
+ * Output schema for getApiDiagnostics tool
+ *
+ * Client-side rate limiter and per-endpoint circuit breaker state.
+ * Timestamps are ISO 8601.
+ */
+
+import { z } from 'zod';
+import { CircuitStateEnum } from '../api/circuitBreaker.js';
+
+const CircuitSchema = z.object({
+  api: z.string().describe('API base URL'),
+  endpoint: z.string().describe('Endpoint path template'),
+  state: CircuitStateEnum.describe('Circuit state'),
+  consecutive_failures: z.number().int().nonnegative().describe('Failed attempts in a row'),
+  total_failures: z.number().int().nonnegative().describe('Failed attempts since startup'),
+  total_rejected: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe('Requests failed fast without contacting the API'),
+  opened_at: z.string().nullable().describe('When the circuit last opened (null when closed)'),
+  last_failure_at: z.string().nullable().describe('When the last attempt failed'),
+  last_error: z.string().nullable().describe('Error of the last failed attempt'),
+  retry_at: z
+    .string()
+    .nullable()
+    .describe('When an open circuit lets a probe request through (null unless open)'),
+});
+
+export const GetApiDiagnosticsOutputSchema = z.object({
+  rate_limiter: z
+    .object({
+      available_tokens: z.number().int().nonnegative().describe('Tokens available now'),
+      queue_depth: z.number().int().nonnegative().describe('Requests waiting for a token'),
+      total_admitted: z.number().int().nonnegative().describe('Requests admitted since startup'),
+      total_rejected: z
+        .number()
+        .int()
+        .nonnegative()
+        .describe('Requests rejected with RATE_LIMITED since startup'),
+    })
+    .describe('Client-side rate limiter'),
+  open_count: z.number().int().nonnegative().describe('Circuits currently open or half-open'),
+  circuits: z
+    .array(CircuitSchema)
+    .describe('Circuits of endpoints requested since startup, matching the filter'),
+});
+
+export type GetApiDiagnosticsOutput = z.infer<typeof GetApiDiagnosticsOutputSchema>;
+export type CircuitOutput = z.infer<typeof CircuitSchema>;
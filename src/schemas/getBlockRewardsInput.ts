@@ -0,0 +1,77 @@
+/**
+ * Input schema for getBlockRewards tool
+ *
+ * Validates optional date range for per-block reward details.
+ *
+ * @see docs/API.md Block Rewards API
+ */
+
+import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Input schema for getBlockRewards tool
+ *
+ * All parameters are optional - API returns sensible defaults.
+ */
+export const GetBlockRewardsInputSchema = z
+  .object({
+    from: z
+      .string()
+      .datetime({ offset: true, message: 'from must be ISO 8601 datetime' })
+      .optional()
+      .describe('Start timestamp (ISO 8601)'),
+
+    to: z
+      .string()
+      .datetime({ offset: true, message: 'to must be ISO 8601 datetime' })
+      .optional()
+      .describe('End timestamp (ISO 8601)'),
+
+    immatureOnly: z
+      .boolean()
+      .default(false)
+      .describe('Only list blocks whose rewards are still awaiting confirmations'),
+
+    account: AccountInputSchema,
+
+    format: OutputFormatInputSchema,
+  })
+  .refine(
+    (data) => {
+      // If both from and to are provided, from must be before to
+      if (data.from !== undefined && data.to !== undefined) {
+        return new Date(data.from).getTime() < new Date(data.to).getTime();
+      }
+      return true;
+    },
+    {
+      message: 'from timestamp must be before to timestamp',
+      path: ['from'],
+    }
+  );
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type GetBlockRewardsInput = z.infer<typeof GetBlockRewardsInputSchema>;
+
+/**
+ * Transform MCP input to API params
+ *
+ * Only the date range is sent to the API; immatureOnly is applied locally.
+ */
+export function toApiParams(input: GetBlockRewardsInput): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (input.from !== undefined) {
+    params.from = input.from;
+  }
+
+  if (input.to !== undefined) {
+    params.to = input.to;
+  }
+
+  return params;
+}
@@ -0,0 +1,91 @@
+/**
+ * Response schema for getBlockRewards tool
+ *
+ * Validates per-block reward details from GET /user/block-rewards.
+ * Amounts are strings to preserve BTC precision; hashrates are in H/s.
+ *
+ * @see docs/API.md Block Rewards API
+ */
+
+import { z } from 'zod';
+
+/**
+ * BTC amount pattern - string with up to 8 decimal places
+ */
+const BtcAmountSchema = z
+  .string()
+  .regex(/^\d+\.\d{1,8}$/, 'Invalid BTC amount format')
+  .describe('BTC amount as string (e.g., "0.00123456")');
+
+/**
+ * Reward credited to the user for a single pool block
+ */
+export const BlockRewardSchema = z.object({
+  block_height: z.number().int().nonnegative().describe('Bitcoin block height'),
+  found_at: z.string().datetime({ offset: true }).describe('Block found timestamp (ISO 8601)'),
+  pool_scoring_hashrate: z
+    .number()
+    .nonnegative()
+    .describe('Pool scoring hashrate at block-found time (H/s)'),
+  user_scoring_hashrate: z
+    .number()
+    .nonnegative()
+    .describe('User scoring hashrate at block-found time (H/s)'),
+  block_value: BtcAmountSchema.describe('Total block reward value'),
+  user_reward: BtcAmountSchema.describe('Total reward credited to the user'),
+  mining_reward: BtcAmountSchema.describe('Reward from standard mining shares'),
+  braiinsos_plus_mining_bonus: BtcAmountSchema.describe('Pool fee refund for Braiins OS devices'),
+  referral_reward: BtcAmountSchema.describe('Reward linked to referred hashrate'),
+  referral_bonus: BtcAmountSchema.describe('Bonus for Braiins OS referral code'),
+  confirmations_left: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe('Confirmations remaining before the reward matures'),
+});
+
+/**
+ * Type for single block reward
+ */
+export type BlockReward = z.infer<typeof BlockRewardSchema>;
+
+/**
+ * Complete block rewards response schema
+ */
+export const GetBlockRewardsResponseSchema = z.object({
+  currency: z.string().describe('Currency code (e.g., BTC)'),
+  block_rewards: z.array(BlockRewardSchema).describe('Per-block rewards, newest first'),
+});
+
+/**
+ * TypeScript type for complete response
+ */
+export type GetBlockRewardsResponse = z.infer<typeof GetBlockRewardsResponseSchema>;
+
+/**
+ * BTC amount in structured tool output
+ */
+const BtcValueSchema = z.number().nonnegative().describe('BTC amount');
+
+/**
+ * Structured tool output: block rewards with BTC amounts as numbers
+ * and timestamps in UTC
+ */
+export const GetBlockRewardsOutputSchema = GetBlockRewardsResponseSchema.extend({
+  block_rewards: z
+    .array(
+      BlockRewardSchema.extend({
+        block_value: BtcValueSchema.describe('Total block reward value (BTC)'),
+        user_reward: BtcValueSchema.describe('Total reward credited to the user (BTC)'),
+        mining_reward: BtcValueSchema.describe('Reward from standard mining shares (BTC)'),
+        braiinsos_plus_mining_bonus: BtcValueSchema.describe(
+          'Pool fee refund for Braiins OS devices (BTC)'
+        ),
+        referral_reward: BtcValueSchema.describe('Reward linked to referred hashrate (BTC)'),
+        referral_bonus: BtcValueSchema.describe('Bonus for Braiins OS referral code (BTC)'),
+      })
+    )
+    .describe('Per-block rewards, newest first'),
+});
+
+export type GetBlockRewardsOutput = z.infer<typeof GetBlockRewardsOutputSchema>;
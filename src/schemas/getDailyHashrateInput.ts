@@ -0,0 +1,45 @@
+/**
+ * Input schema for getDailyHashrate tool
+ *
+ * Validates scope (account or group) and how many days to report.
+ *
+ * @see docs/API.md Daily Hashrate API
+ */
+
+import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Scope of the daily hashrate series
+ */
+export const DailyHashrateScopeEnum = z.enum(['user', 'group']);
+export type DailyHashrateScope = z.infer<typeof DailyHashrateScopeEnum>;
+
+/**
+ * Input schema for getDailyHashrate tool
+ *
+ * The API always returns the full daily history; `days` trims it locally.
+ */
+export const GetDailyHashrateInputSchema = z.object({
+  scope: DailyHashrateScopeEnum.default('user').describe(
+    'user for the authenticated account, group for its user group'
+  ),
+
+  days: z
+    .number()
+    .int('days must be an integer')
+    .min(1, 'days must be at least 1')
+    .max(365, 'days cannot exceed 365')
+    .default(30)
+    .describe('Number of most recent days to include'),
+
+  account: AccountInputSchema,
+
+  format: OutputFormatInputSchema,
+});
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type GetDailyHashrateInput = z.infer<typeof GetDailyHashrateInputSchema>;
@@ -0,0 +1,43 @@
+/**
+ * Response schema for getDailyHashrate tool
+ *
+ * Validates daily hashrate history from GET /user/hashrate/daily.
+ *
+ * @see docs/API.md Daily Hashrate API
+ */
+
+import { z } from 'zod';
+
+/**
+ * Single day in the daily hashrate history
+ */
+export const DailyHashratePointSchema = z.object({
+  timestamp: z.string().datetime({ offset: true }).describe('Start of the day (ISO 8601, UTC)'),
+  hashrate_24h: z.number().nonnegative().describe('Average hashrate over the day in H/s'),
+  total_shares: z.number().nonnegative().describe('Total shares submitted during the day'),
+});
+
+/**
+ * Type for single daily hashrate point
+ */
+export type DailyHashratePoint = z.infer<typeof DailyHashratePointSchema>;
+
+/**
+ * Complete daily hashrate response schema
+ */
+export const GetDailyHashrateResponseSchema = z.object({
+  scope: z.enum(['user', 'group']).describe('Whether the series covers the account or its group'),
+  points: z.array(DailyHashratePointSchema).describe('Daily data points, oldest first'),
+});
+
+/**
+ * TypeScript type for complete response
+ */
+export type GetDailyHashrateResponse = z.infer<typeof GetDailyHashrateResponseSchema>;
+
+/**
+ * Structured tool output: the daily hashrate series with timestamps in UTC
+ */
+export const GetDailyHashrateOutputSchema = GetDailyHashrateResponseSchema;
+
+export type GetDailyHashrateOutput = z.infer<typeof GetDailyHashrateOutputSchema>;
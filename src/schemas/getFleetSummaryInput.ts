@@ -0,0 +1,33 @@
+/**
+ * Input schema for getFleetSummary tool
+ *
+ * Optionally restricts the rollup to a subset of the configured accounts.
+ *
+ * @see src/config/accounts.ts
+ */
+
+import { z } from 'zod';
+import { AccountNameSchema } from '../config/accounts.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Input schema for getFleetSummary tool
+ *
+ * Without accounts every configured account is included.
+ */
+export const GetFleetSummaryInputSchema = z
+  .object({
+    accounts: z
+      .array(AccountNameSchema)
+      .min(1, 'Provide at least one account')
+      .max(100, 'At most 100 accounts')
+      .optional()
+      .describe('Accounts to include (default: all configured accounts)'),
+    format: OutputFormatInputSchema,
+  })
+  .strict();
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type GetFleetSummaryInput = z.infer<typeof GetFleetSummaryInputSchema>;
@@ -0,0 +1,68 @@
+/**
+ * Output schema for getFleetSummary tool
+ *
+ * Structured form of the fleet rollup. Hashrates are in H/s and BTC
+ * amounts are numbers.
+ */
+
+import { z } from 'zod';
+
+const HashrateSchema = z.object({
+  current: z.number().nonnegative().describe('Current hashrate in H/s'),
+  avg_1h: z.number().nonnegative().describe('1-hour average hashrate in H/s'),
+  avg_24h: z.number().nonnegative().describe('24-hour average hashrate in H/s'),
+});
+
+const WorkerStatesSchema = z.object({
+  ok: z.number().int().nonnegative().describe('Workers hashing normally'),
+  low: z.number().int().nonnegative().describe('Workers below the alert threshold'),
+  off: z.number().int().nonnegative().describe('Workers not hashing'),
+  dis: z.number().int().nonnegative().describe('Disabled workers'),
+});
+
+const TotalsSchema = z.object({
+  hashrate: HashrateSchema.describe('Summed hashrate'),
+  workers_active: z.number().int().nonnegative().describe('Active workers'),
+  workers_inactive: z.number().int().nonnegative().describe('Inactive workers'),
+  workers_total: z.number().int().nonnegative().describe('Total workers'),
+  worker_states: WorkerStatesSchema.nullable().describe(
+    'Summed state counts of accounts reporting them (null if none do)'
+  ),
+  worker_states_missing: z.array(z.string()).describe('Accounts not reporting state counts'),
+  confirmed: z.number().nonnegative().describe('Confirmed balance (BTC)'),
+  unconfirmed: z.number().nonnegative().describe('Unconfirmed balance (BTC)'),
+  today_reward: z
+    .number()
+    .nonnegative()
+    .nullable()
+    .describe("Today's rewards of accounts reporting them (BTC, null if none do)"),
+  today_reward_missing: z.array(z.string()).describe("Accounts not reporting today's reward"),
+});
+
+const AccountSchema = z.object({
+  account: z.string().describe('Account name'),
+  username: z.string().describe('Braiins Pool username'),
+  hashrate: HashrateSchema.describe('Account hashrate'),
+  share: z.number().min(0).max(1).nullable().describe('Share of the fleet 24h hashrate (0-1)'),
+  workers_active: z.number().int().nonnegative().describe('Active workers'),
+  workers_total: z.number().int().nonnegative().describe('Total workers'),
+  confirmed: z.number().nonnegative().describe('Confirmed balance (BTC)'),
+  unconfirmed: z.number().nonnegative().describe('Unconfirmed balance (BTC)'),
+  today_reward: z.number().nonnegative().nullable().describe("Today's rewards (BTC)"),
+});
+
+const FailureSchema = z.object({
+  account: z.string().describe('Account name'),
+  code: z.string().describe('Error code'),
+  message: z.string().describe('Error message'),
+});
+
+export const GetFleetSummaryOutputSchema = z.object({
+  accounts_requested: z.number().int().nonnegative().describe('Accounts queried'),
+  accounts_responded: z.number().int().nonnegative().describe('Accounts that responded'),
+  totals: TotalsSchema.nullable().describe('Totals over responding accounts (null if none)'),
+  accounts: z.array(AccountSchema).describe('Responding accounts, largest 24h hashrate first'),
+  failures: z.array(FailureSchema).describe('Accounts that failed to respond'),
+});
+
+export type GetFleetSummaryOutput = z.infer<typeof GetFleetSummaryOutputSchema>;
@@ -33,3 +33,10 @@ export const GetNetworkStatsResponseSchema = z.object({
  * TypeScript type for complete response
  */
 export type GetNetworkStatsResponse = z.infer<typeof GetNetworkStatsResponseSchema>;
+
+/**
+ * Structured tool output: the network stats with timestamps in UTC
+ */
+export const GetNetworkStatsOutputSchema = GetNetworkStatsResponseSchema;
+
+export type GetNetworkStatsOutput = z.infer<typeof GetNetworkStatsOutputSchema>;
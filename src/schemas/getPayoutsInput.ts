@@ -0,0 +1,93 @@
+/**
+ * Input schema for getPayouts tool
+ *
+ * Validates optional date range and filters for payout transactions.
+ *
+ * @see docs/API.md Payouts API
+ */
+
+import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Payout status filter options
+ */
+export const PayoutStatusFilterEnum = z.enum(['queued', 'confirmed', 'failed', 'all']);
+export type PayoutStatusFilter = z.infer<typeof PayoutStatusFilterEnum>;
+
+/**
+ * Payout type filter options
+ */
+export const PayoutTypeFilterEnum = z.enum(['onchain', 'lightning', 'all']);
+export type PayoutTypeFilter = z.infer<typeof PayoutTypeFilterEnum>;
+
+/**
+ * Input schema for getPayouts tool
+ *
+ * All parameters are optional - API returns sensible defaults.
+ * Status and type filters are applied to the returned payouts.
+ */
+export const GetPayoutsInputSchema = z
+  .object({
+    from: z
+      .string()
+      .datetime({ offset: true, message: 'from must be ISO 8601 datetime' })
+      .optional()
+      .describe('Start timestamp (ISO 8601)'),
+
+    to: z
+      .string()
+      .datetime({ offset: true, message: 'to must be ISO 8601 datetime' })
+      .optional()
+      .describe('End timestamp (ISO 8601)'),
+
+    status: PayoutStatusFilterEnum.default('all').describe(
+      'Filter by payout status: queued, confirmed, failed, or all'
+    ),
+
+    type: PayoutTypeFilterEnum.default('all').describe(
+      'Filter by payout type: onchain, lightning, or all'
+    ),
+
+    account: AccountInputSchema,
+
+    format: OutputFormatInputSchema,
+  })
+  .refine(
+    (data) => {
+      // If both from and to are provided, from must be before to
+      if (data.from !== undefined && data.to !== undefined) {
+        return new Date(data.from).getTime() < new Date(data.to).getTime();
+      }
+      return true;
+    },
+    {
+      message: 'from timestamp must be before to timestamp',
+      path: ['from'],
+    }
+  );
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type GetPayoutsInput = z.infer<typeof GetPayoutsInputSchema>;
+
+/**
+ * Transform MCP input to API params
+ *
+ * Only the date range is sent to the API; filters are applied locally.
+ */
+export function toApiParams(input: GetPayoutsInput): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (input.from !== undefined) {
+    params.from = input.from;
+  }
+
+  if (input.to !== undefined) {
+    params.to = input.to;
+  }
+
+  return params;
+}
@@ -0,0 +1,62 @@
+/**
+ * Response schema for getPayouts tool
+ *
+ * Validates payout transactions from GET /user/payouts.
+ * Amounts are integer satoshis as reported by the Payouts API.
+ *
+ * @see docs/API.md Payouts API
+ */
+
+import { z } from 'zod';
+
+/**
+ * Payout status values reported by the pool
+ */
+export const PayoutStatusEnum = z.enum(['queued', 'confirmed', 'failed']);
+export type PayoutStatus = z.infer<typeof PayoutStatusEnum>;
+
+/**
+ * Single payout transaction (on-chain or Lightning)
+ */
+export const PayoutSchema = z.object({
+  type: z.enum(['onchain', 'lightning']).describe('Payout rail'),
+  status: PayoutStatusEnum.describe('Payout status'),
+  amount_sats: z.number().int().nonnegative().describe('Payout amount in satoshis'),
+  fee_sats: z.number().int().nonnegative().describe('Payout fee in satoshis'),
+  destination: z.string().describe('Bitcoin address or Lightning invoice'),
+  tx_id: z.string().nullable().describe('Transaction ID (on-chain only)'),
+  invoice: z.string().nullable().describe('Lightning invoice (Lightning only)'),
+  requested_at: z.string().datetime({ offset: true }).describe('Request timestamp (ISO 8601)'),
+  resolved_at: z
+    .string()
+    .datetime({ offset: true })
+    .nullable()
+    .describe('Confirmation/failure timestamp (ISO 8601)'),
+  trigger_type: z.string().optional().describe('How the payout was initiated (triggered, manual)'),
+  financial_account_name: z.string().optional().describe('Financial account name'),
+});
+
+/**
+ * Type for single payout
+ */
+export type Payout = z.infer<typeof PayoutSchema>;
+
+/**
+ * Complete payouts response schema
+ */
+export const GetPayoutsResponseSchema = z.object({
+  currency: z.string().describe('Currency code (e.g., BTC)'),
+  payouts: z.array(PayoutSchema).describe('Payout transactions'),
+});
+
+/**
+ * TypeScript type for complete response
+ */
+export type GetPayoutsResponse = z.infer<typeof GetPayoutsResponseSchema>;
+
+/**
+ * Structured tool output: the payouts (amounts already in satoshis) with timestamps in UTC
+ */
+export const GetPayoutsOutputSchema = GetPayoutsResponseSchema;
+
+export type GetPayoutsOutput = z.infer<typeof GetPayoutsOutputSchema>;
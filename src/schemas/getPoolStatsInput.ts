@@ -7,13 +7,17 @@
  */
 
 import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
 
 /**
  * Input schema for getPoolStats tool
  *
- * Empty object - no parameters needed.
+ * Only the optional account selector and output format.
  */
-export const GetPoolStatsInputSchema = z.object({}).strict();
+export const GetPoolStatsInputSchema = z
+  .object({ account: AccountInputSchema, format: OutputFormatInputSchema })
+  .strict();
 
 /**
  * TypeScript type inferred from schema
@@ -30,6 +30,29 @@ const LuckSchema = z.object({
   value: z.number().describe('Luck value (>1 = lucky, <1 = unlucky)'),
 });
 
+/**
+ * Recently found pool block with round details and the user's reward
+ */
+const PoolBlockSchema = z.object({
+  height: z.number().int().nonnegative().describe('Block height'),
+  found_at: z.string().datetime({ offset: true }).describe('When block was found (ISO 8601)'),
+  mining_duration: z.number().nonnegative().describe('Length of the round in seconds'),
+  total_shares: z.number().nonnegative().describe('Total shares submitted in the round'),
+  state: z.string().describe('Block state reported by the pool (e.g., new, confirmed)'),
+  confirmations_left: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe('Confirmations remaining before the block matures'),
+  value: z.string().describe('Block reward in BTC'),
+  user_reward: z.string().describe('Reward credited to the user for this block in BTC'),
+  pool_scoring_hashrate: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe('Pool scoring hashrate when the block was found in H/s'),
+});
+
 /**
  * Complete pool stats response schema
  */
@@ -40,9 +63,19 @@ export const GetPoolStatsResponseSchema = z.object({
     .number()
     .int()
     .nonnegative()
-    .describe('Number of active workers across all accounts'),
+    .nullable()
+    .describe('Number of active workers across all accounts (null when not reported)'),
   last_block: LastBlockSchema.describe('Most recently found block'),
-  luck: LuckSchema.describe('Pool luck statistics'),
+  luck: LuckSchema.nullable().describe('Pool luck statistics (null when not reported)'),
+  fpps_rate: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe('Current FPPS rate in BTC per TH/s per day'),
+  recent_blocks: z
+    .array(PoolBlockSchema)
+    .optional()
+    .describe('Most recent pool blocks, newest first (up to 15)'),
   updated_at: z.string().datetime({ offset: true }).describe('Last update timestamp'),
 });
 
@@ -56,7 +89,36 @@ export type GetPoolStatsResponse = z.infer<typeof GetPoolStatsResponseSchema>;
  */
 export type LastBlock = z.infer<typeof LastBlockSchema>;
 
+/**
+ * Type for a recent pool block
+ */
+export type PoolBlock = z.infer<typeof PoolBlockSchema>;
+
 /**
  * Type for luck data
  */
 export type Luck = z.infer<typeof LuckSchema>;
+
+/**
+ * Structured tool output: pool stats with BTC amounts as numbers
+ * and timestamps in UTC
+ */
+export const GetPoolStatsOutputSchema = GetPoolStatsResponseSchema.extend({
+  last_block: LastBlockSchema.extend({
+    reward: z.number().nonnegative().describe('Block reward (BTC)'),
+  }).describe('Most recently found block'),
+  recent_blocks: z
+    .array(
+      PoolBlockSchema.extend({
+        value: z.number().nonnegative().describe('Block reward (BTC)'),
+        user_reward: z
+          .number()
+          .nonnegative()
+          .describe('Reward credited to the user for this block (BTC)'),
+      })
+    )
+    .optional()
+    .describe('Most recent pool blocks, newest first (up to 15)'),
+});
+
+export type GetPoolStatsOutput = z.infer<typeof GetPoolStatsOutputSchema>;
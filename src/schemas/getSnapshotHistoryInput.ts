@@ -0,0 +1,90 @@
+/**
+ * Input schema for getSnapshotHistory tool
+ *
+ * Selects which recorded snapshots to read from the local history store
+ * and over what time range.
+ *
+ * @see src/history/historyStore.ts
+ */
+
+import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Snapshot series available in the history store
+ */
+export const SnapshotMetricEnum = z.enum(['overview', 'worker', 'pool', 'network']);
+export type SnapshotMetric = z.infer<typeof SnapshotMetricEnum>;
+
+/**
+ * Default lookback when from is omitted
+ */
+export const DEFAULT_HISTORY_DAYS = 7;
+
+/**
+ * Input schema for getSnapshotHistory tool
+ *
+ * workerId is required for the worker metric; the range defaults to the
+ * last DEFAULT_HISTORY_DAYS days.
+ */
+export const GetSnapshotHistoryInputSchema = z
+  .object({
+    metric: SnapshotMetricEnum.describe(
+      'Snapshot series: overview (account totals), worker (one worker), pool, or network'
+    ),
+
+    workerId: z
+      .string()
+      .min(1, 'Worker ID cannot be empty')
+      .max(100, 'Worker ID is too long')
+      .optional()
+      .describe('Worker identifier (required for the worker metric)'),
+
+    from: z
+      .string()
+      .datetime({ offset: true, message: 'from must be ISO 8601 datetime' })
+      .optional()
+      .describe('Start timestamp (ISO 8601, default: 7 days before to)'),
+
+    to: z
+      .string()
+      .datetime({ offset: true, message: 'to must be ISO 8601 datetime' })
+      .optional()
+      .describe('End timestamp (ISO 8601, default: now)'),
+
+    limit: z
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1')
+      .max(5000, 'Limit cannot exceed 5000')
+      .default(500)
+      .describe('Maximum snapshots returned; the newest in the range are kept'),
+
+    account: AccountInputSchema,
+
+    format: OutputFormatInputSchema,
+  })
+  .strict()
+  .refine((data) => data.metric !== 'worker' || data.workerId !== undefined, {
+    message: 'workerId is required for the worker metric',
+    path: ['workerId'],
+  })
+  .refine(
+    (data) => {
+      // If both from and to are provided, from must be before to
+      if (data.from !== undefined && data.to !== undefined) {
+        return new Date(data.from).getTime() < new Date(data.to).getTime();
+      }
+      return true;
+    },
+    {
+      message: 'from timestamp must be before to timestamp',
+      path: ['from'],
+    }
+  );
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type GetSnapshotHistoryInput = z.infer<typeof GetSnapshotHistoryInputSchema>;
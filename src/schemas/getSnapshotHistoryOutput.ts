@@ -0,0 +1,82 @@
+/**
+ * Output schema for getSnapshotHistory tool
+ *
+ * Snapshots read from the history store. Timestamps are ISO 8601,
+ * hashrates are in H/s and BTC amounts are numbers.
+ */
+
+import { z } from 'zod';
+import { SnapshotMetricEnum } from './getSnapshotHistoryInput.js';
+
+const OverviewSnapshotSchema = z.object({
+  recorded_at: z.string().describe('When the snapshot was recorded'),
+  hashrate_current: z.number().nonnegative().describe('Current hashrate in H/s'),
+  hashrate_avg_1h: z.number().nonnegative().describe('1-hour average hashrate in H/s'),
+  hashrate_avg_24h: z.number().nonnegative().describe('24-hour average hashrate in H/s'),
+  workers_active: z.number().int().nonnegative().describe('Active workers'),
+  workers_inactive: z.number().int().nonnegative().describe('Inactive workers'),
+  workers_total: z.number().int().nonnegative().describe('Total workers'),
+  workers_ok: z.number().int().nonnegative().nullable().describe('Workers hashing normally'),
+  workers_low: z.number().int().nonnegative().nullable().describe('Workers below threshold'),
+  workers_off: z.number().int().nonnegative().nullable().describe('Workers not hashing'),
+  workers_dis: z.number().int().nonnegative().nullable().describe('Disabled workers'),
+  confirmed: z.number().nonnegative().describe('Confirmed balance (BTC)'),
+  unconfirmed: z.number().nonnegative().describe('Unconfirmed balance (BTC)'),
+  today_reward: z.number().nonnegative().nullable().describe("Today's reward so far (BTC)"),
+});
+
+const WorkerSnapshotSchema = z.object({
+  recorded_at: z.string().describe('When the snapshot was recorded'),
+  name: z.string().describe('Worker name at the time'),
+  status: z.string().describe('Worker status at the time'),
+  hashrate_current: z.number().nonnegative().describe('Current hashrate in H/s'),
+  hashrate_avg_24h: z.number().nonnegative().describe('24-hour average hashrate in H/s'),
+  shares_valid: z.number().int().nonnegative().describe('Valid shares count'),
+  shares_invalid: z.number().int().nonnegative().describe('Invalid shares count'),
+  last_share_at: z.string().nullable().describe('Last share timestamp'),
+});
+
+const PoolSnapshotSchema = z.object({
+  recorded_at: z.string().describe('When the snapshot was recorded'),
+  pool_hashrate: z.number().nonnegative().describe('Total pool hashrate in H/s'),
+  workers_active: z
+    .number()
+    .int()
+    .nonnegative()
+    .nullable()
+    .describe('Active workers across the pool (null when not reported)'),
+  luck: z.number().nullable().describe('Pool luck value (null when not reported)'),
+  fpps_rate: z.number().nonnegative().nullable().describe('FPPS rate in BTC per TH/s per day'),
+  last_block_height: z.number().int().nonnegative().describe('Height of the last pool block'),
+});
+
+const NetworkSnapshotSchema = z.object({
+  recorded_at: z.string().describe('When the snapshot was recorded'),
+  difficulty: z.number().nonnegative().describe('Network difficulty'),
+  hashrate_estimate: z.number().nonnegative().describe('Estimated network hashrate in H/s'),
+  block_time_avg: z.number().nonnegative().describe('Average block time in seconds'),
+});
+
+export const GetSnapshotHistoryOutputSchema = z.object({
+  metric: SnapshotMetricEnum.describe('Snapshot series returned'),
+  account: z.string().nullable().describe('Account of overview and worker snapshots'),
+  worker_id: z.string().nullable().describe('Worker of worker snapshots'),
+  from: z.string().describe('Start of the queried range'),
+  to: z.string().describe('End of the queried range'),
+  count: z.number().int().nonnegative().describe('Snapshots returned'),
+  truncated: z.boolean().describe('Whether older snapshots in the range were left out by limit'),
+  snapshots: z
+    .union([
+      z.array(OverviewSnapshotSchema),
+      z.array(WorkerSnapshotSchema),
+      z.array(PoolSnapshotSchema),
+      z.array(NetworkSnapshotSchema),
+    ])
+    .describe('Snapshots, oldest first; fields depend on metric'),
+});
+
+export type GetSnapshotHistoryOutput = z.infer<typeof GetSnapshotHistoryOutputSchema>;
+export type OverviewSnapshotOutput = z.infer<typeof OverviewSnapshotSchema>;
+export type WorkerSnapshotOutput = z.infer<typeof WorkerSnapshotSchema>;
+export type PoolSnapshotOutput = z.infer<typeof PoolSnapshotSchema>;
+export type NetworkSnapshotOutput = z.infer<typeof NetworkSnapshotSchema>;
@@ -6,15 +6,17 @@
  */
 
 import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
 
 /**
- * Input schema - this endpoint has no parameters
- * The empty object schema validates that no unexpected params are passed
+ * Input schema - this endpoint has no parameters besides account and format
+ * The strict schema validates that no unexpected params are passed
  */
 export const GetUserOverviewInputSchema = z
-  .object({})
+  .object({ account: AccountInputSchema, format: OutputFormatInputSchema })
   .strict()
-  .describe('No input parameters required - uses authenticated user context');
+  .describe('Only the optional account and format - uses authenticated user context');
 
 /**
  * TypeScript type inferred from schema
@@ -30,15 +30,23 @@ const RewardsSchema = z.object({
     .datetime({ offset: true })
     .nullable()
     .describe('Last payout timestamp (ISO 8601)'),
+  today_reward: z.string().optional().describe('Reward accrued since 00:00 UTC today (BTC)'),
 });
 
 /**
  * Worker counts schema
+ *
+ * The per-state counts (ok, low, off, dis) are present when the API
+ * reports the pool's four-state model; active is ok + low.
  */
 const WorkersSchema = z.object({
   active: z.number().int().nonnegative().describe('Number of active workers'),
   inactive: z.number().int().nonnegative().describe('Number of inactive workers'),
   total: z.number().int().nonnegative().describe('Total worker count'),
+  ok: z.number().int().nonnegative().optional().describe('Workers hashing normally'),
+  low: z.number().int().nonnegative().optional().describe('Workers below the alert threshold'),
+  off: z.number().int().nonnegative().optional().describe('Workers not hashing'),
+  dis: z.number().int().nonnegative().optional().describe('Disabled workers'),
 });
 
 /**
@@ -64,3 +72,22 @@ export type GetUserOverviewResponse = z.infer<typeof GetUserOverviewResponseSche
 export type HashrateData = z.infer<typeof HashrateSchema>;
 export type RewardsData = z.infer<typeof RewardsSchema>;
 export type WorkersData = z.infer<typeof WorkersSchema>;
+
+/**
+ * Structured tool output: the response with BTC amounts as numbers
+ * and timestamps in UTC
+ */
+export const GetUserOverviewOutputSchema = GetUserOverviewResponseSchema.extend({
+  rewards: RewardsSchema.extend({
+    confirmed: z.number().nonnegative().describe('Confirmed rewards (BTC)'),
+    unconfirmed: z.number().nonnegative().describe('Unconfirmed/pending rewards (BTC)'),
+    last_payout: z.number().nonnegative().describe('Last payout amount (BTC)'),
+    today_reward: z
+      .number()
+      .nonnegative()
+      .optional()
+      .describe('Reward accrued since 00:00 UTC today (BTC)'),
+  }).describe('Reward balances and last payout'),
+});
+
+export type GetUserOverviewOutput = z.infer<typeof GetUserOverviewOutputSchema>;
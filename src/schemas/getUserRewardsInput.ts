@@ -8,6 +8,9 @@
  */
 
 import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+import { exportInputSchema } from './exportInput.js';
 
 /**
  * Granularity options for rewards timeseries
@@ -16,6 +19,20 @@ import { z } from 'zod';
 export const RewardsGranularityEnum = z.enum(['hour', 'day', 'week']);
 export type RewardsGranularity = z.infer<typeof RewardsGranularityEnum>;
 
+/**
+ * Columns available when exporting rewards points
+ */
+export const REWARDS_EXPORT_COLUMNS = [
+  'timestamp',
+  'confirmed',
+  'unconfirmed',
+  'payout',
+  'mining_reward',
+  'bos_plus_reward',
+  'referral_bonus',
+  'referral_reward',
+] as const;
+
 /**
  * Input schema for getUserRewards tool
  *
@@ -38,6 +55,12 @@ export const GetUserRewardsInputSchema = z
     granularity: RewardsGranularityEnum.optional().describe(
       'Data point granularity: hour, day, or week'
     ),
+
+    account: AccountInputSchema,
+
+    format: OutputFormatInputSchema,
+
+    export: exportInputSchema(REWARDS_EXPORT_COLUMNS),
   })
   .refine(
     (data) => {
@@ -19,12 +19,23 @@ const BtcAmountSchema = z
 
 /**
  * Single data point in rewards timeseries
+ *
+ * The reward components are reported by the Daily Reward API and sum
+ * to the period's total reward; they are absent when not broken out.
  */
 export const RewardsPointSchema = z.object({
   timestamp: z.string().datetime({ offset: true }).describe('Data point timestamp (ISO 8601)'),
   confirmed: BtcAmountSchema.describe('Confirmed rewards for this period'),
   unconfirmed: BtcAmountSchema.describe('Unconfirmed rewards for this period'),
   payout: BtcAmountSchema.describe('Payout amount for this period'),
+  mining_reward: BtcAmountSchema.optional().describe('Standard mining reward from shares'),
+  bos_plus_reward: BtcAmountSchema.optional().describe(
+    'Pool fee refund for mining with Braiins OS devices'
+  ),
+  referral_bonus: BtcAmountSchema.optional().describe('Bonus for being referred to Braiins OS'),
+  referral_reward: BtcAmountSchema.optional().describe(
+    'Reward for referred hashrate mining with Braiins OS'
+  ),
 });
 
 /**
@@ -44,3 +55,30 @@ export const GetUserRewardsResponseSchema = z.object({
  * TypeScript type for complete response
  */
 export type GetUserRewardsResponse = z.infer<typeof GetUserRewardsResponseSchema>;
+
+/**
+ * BTC amount in structured tool output
+ */
+const BtcValueSchema = z.number().nonnegative().describe('BTC amount');
+
+/**
+ * Structured tool output: rewards timeseries with BTC amounts as numbers
+ * and timestamps in UTC
+ */
+export const GetUserRewardsOutputSchema = GetUserRewardsResponseSchema.extend({
+  points: z
+    .array(
+      RewardsPointSchema.extend({
+        confirmed: BtcValueSchema.describe('Confirmed rewards for this period (BTC)'),
+        unconfirmed: BtcValueSchema.describe('Unconfirmed rewards for this period (BTC)'),
+        payout: BtcValueSchema.describe('Payout amount for this period (BTC)'),
+        mining_reward: BtcValueSchema.optional().describe('Standard mining reward (BTC)'),
+        bos_plus_reward: BtcValueSchema.optional().describe('Braiins OS pool fee refund (BTC)'),
+        referral_bonus: BtcValueSchema.optional().describe('Braiins OS referral bonus (BTC)'),
+        referral_reward: BtcValueSchema.optional().describe('Referred hashrate reward (BTC)'),
+      })
+    )
+    .describe('Timeseries data points'),
+});
+
+export type GetUserRewardsOutput = z.infer<typeof GetUserRewardsOutputSchema>;
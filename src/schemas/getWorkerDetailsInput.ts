@@ -7,6 +7,8 @@
  */
 
 import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
 
 /**
  * Input schema for getWorkerDetails tool
@@ -19,6 +21,10 @@ export const GetWorkerDetailsInputSchema = z.object({
     .min(1, 'Worker ID is required')
     .max(100, 'Worker ID is too long')
     .describe('Unique worker identifier'),
+
+  account: AccountInputSchema,
+
+  format: OutputFormatInputSchema,
 });
 
 /**
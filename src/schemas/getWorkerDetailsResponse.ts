@@ -8,6 +8,7 @@
  */
 
 import { z } from 'zod';
+import { WorkerStateEnum } from './listWorkersResponse.js';
 
 /**
  * Extended hashrate schema (includes 1h average)
@@ -58,7 +59,7 @@ const WorkerEnvironmentSchema = z.object({
 export const GetWorkerDetailsResponseSchema = z.object({
   id: z.string().min(1).describe('Unique worker identifier'),
   name: z.string().describe('Worker name/label'),
-  status: z.enum(['active', 'inactive', 'disabled']).describe('Worker status'),
+  status: WorkerStateEnum.describe('Worker status'),
   hashrate: WorkerHashrateDetailSchema.describe('Hashrate metrics'),
   shares: WorkerSharesDetailSchema.describe('Share statistics'),
   hardware: WorkerHardwareSchema.optional().describe('Hardware information'),
@@ -96,3 +97,10 @@ export type WorkerHardware = z.infer<typeof WorkerHardwareSchema>;
  * Type for environment info
  */
 export type WorkerEnvironment = z.infer<typeof WorkerEnvironmentSchema>;
+
+/**
+ * Structured tool output: the worker details with timestamps in UTC
+ */
+export const GetWorkerDetailsOutputSchema = GetWorkerDetailsResponseSchema;
+
+export type GetWorkerDetailsOutput = z.infer<typeof GetWorkerDetailsOutputSchema>;
@@ -8,6 +8,9 @@
  */
 
 import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+import { exportInputSchema } from './exportInput.js';
 
 /**
  * Granularity options for timeseries data
@@ -15,6 +18,11 @@ import { z } from 'zod';
 export const GranularityEnum = z.enum(['minute', 'hour', 'day']);
 export type Granularity = z.infer<typeof GranularityEnum>;
 
+/**
+ * Columns available when exporting hashrate points
+ */
+export const HASHRATE_EXPORT_COLUMNS = ['timestamp', 'hashrate', 'worker_id'] as const;
+
 /**
  * Input schema for getWorkerHashrate tool
  *
@@ -43,6 +51,12 @@ export const GetWorkerHashrateInputSchema = z
     granularity: GranularityEnum.optional().describe(
       'Data point granularity: minute, hour, or day'
     ),
+
+    account: AccountInputSchema,
+
+    format: OutputFormatInputSchema,
+
+    export: exportInputSchema(HASHRATE_EXPORT_COLUMNS),
   })
   .refine(
     (data) => {
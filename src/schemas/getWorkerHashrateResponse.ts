@@ -33,3 +33,10 @@ export const GetWorkerHashrateResponseSchema = z.object({
  * TypeScript type for complete response
  */
 export type GetWorkerHashrateResponse = z.infer<typeof GetWorkerHashrateResponseSchema>;
+
+/**
+ * Structured tool output: the worker hashrate timeseries with timestamps in UTC
+ */
+export const GetWorkerHashrateOutputSchema = GetWorkerHashrateResponseSchema;
+
+export type GetWorkerHashrateOutput = z.infer<typeof GetWorkerHashrateOutputSchema>;
@@ -0,0 +1,20 @@
+/**
+ * Input schema for listAccounts tool
+ *
+ * Only the output format - lists the configured Braiins accounts.
+ */
+
+import { z } from 'zod';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Input schema for listAccounts tool
+ *
+ * Only the optional output format.
+ */
+export const ListAccountsInputSchema = z.object({ format: OutputFormatInputSchema }).strict();
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type ListAccountsInput = z.infer<typeof ListAccountsInputSchema>;
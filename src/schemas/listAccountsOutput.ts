@@ -0,0 +1,23 @@
+/**
+ * Output schema for listAccounts tool
+ *
+ * Configured accounts without their tokens.
+ */
+
+import { z } from 'zod';
+
+const AccountSummarySchema = z.object({
+  name: z.string().describe('Account name'),
+  description: z.string().nullable().describe('Account description'),
+  api_mode: z.enum(['rest', 'native']).describe('API the account is queried through'),
+  base_url: z.string().describe('Base URL of that API'),
+  token_configured: z.boolean().describe('Whether an API token is configured'),
+  is_default: z.boolean().describe('Whether this is the default account'),
+});
+
+export const ListAccountsOutputSchema = z.object({
+  default_account: z.string().describe('Account used when none is given'),
+  accounts: z.array(AccountSummarySchema).describe('Configured accounts'),
+});
+
+export type ListAccountsOutput = z.infer<typeof ListAccountsOutputSchema>;
@@ -0,0 +1,36 @@
+/**
+ * Input schema for listActiveAlerts tool
+ *
+ * Filters the alerts tracked by the alert engine.
+ *
+ * @see src/alerts/alertEngine.ts
+ */
+
+import { z } from 'zod';
+import { AccountNameSchema } from '../config/accounts.js';
+import { AlertSeverityEnum } from '../alerts/alertRules.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Input schema for listActiveAlerts tool
+ *
+ * Unlike other tools, omitting account lists alerts of every account.
+ */
+export const ListActiveAlertsInputSchema = z
+  .object({
+    account: AccountNameSchema.optional().describe(
+      'Account name from listAccounts (default: every account)'
+    ),
+
+    severity: AlertSeverityEnum.optional().describe('Only alerts of this severity'),
+
+    includeResolved: z.boolean().default(false).describe('Also list recently resolved alerts'),
+
+    format: OutputFormatInputSchema,
+  })
+  .strict();
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type ListActiveAlertsInput = z.infer<typeof ListActiveAlertsInputSchema>;
@@ -0,0 +1,38 @@
+/**
+ * Output schema for listActiveAlerts tool
+ *
+ * Alerts tracked by the alert engine. Timestamps are ISO 8601.
+ */
+
+import { z } from 'zod';
+import { AlertRuleTypeEnum, AlertSeverityEnum } from '../alerts/alertRules.js';
+
+const AlertSchema = z.object({
+  id: z.string().describe('Alert identifier (rule:account:worker)'),
+  rule_id: z.string().describe('Rule that raised the alert'),
+  rule_type: AlertRuleTypeEnum.describe('Rule condition type'),
+  severity: AlertSeverityEnum.describe('Alert severity'),
+  account: z.string().describe('Account of the worker'),
+  worker_id: z.string().describe('Worker identifier'),
+  worker_name: z.string().describe('Worker name'),
+  message: z.string().describe('Latest description of the condition'),
+  value: z.number().describe('Latest observed value'),
+  threshold: z.number().describe('Rule threshold the value is compared to'),
+  started_at: z.string().describe('When the condition started'),
+  fired_at: z.string().describe('When the alert fired'),
+  last_seen_at: z.string().describe('When the condition was last observed'),
+  resolved_at: z.string().nullable().describe('When the condition cleared'),
+  notified: z.boolean().describe('Whether notifications were sent (false within cooldown)'),
+});
+
+export const ListActiveAlertsOutputSchema = z.object({
+  rules: z.number().int().nonnegative().describe('Alert rules configured'),
+  active_count: z.number().int().nonnegative().describe('Active alerts matching the filters'),
+  alerts: z.array(AlertSchema).describe('Active alerts, critical first, then oldest first'),
+  recently_resolved: z
+    .array(AlertSchema)
+    .describe('Recently resolved alerts, newest first (empty unless includeResolved)'),
+});
+
+export type ListActiveAlertsOutput = z.infer<typeof ListActiveAlertsOutputSchema>;
+export type AlertOutput = z.infer<typeof AlertSchema>;
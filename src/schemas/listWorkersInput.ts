@@ -8,13 +8,38 @@
  */
 
 import { z } from 'zod';
+import { AccountInputSchema } from './accountInput.js';
+import { OutputFormatInputSchema } from './outputFormat.js';
+import { exportInputSchema } from './exportInput.js';
+import type { WorkerState } from './listWorkersResponse.js';
 
 /**
  * Worker status filter options
+ *
+ * ok, low, off and dis select a single pool state; active (ok or low)
+ * and inactive (off) group them.
  */
-export const WorkerStatusEnum = z.enum(['active', 'inactive', 'all']);
+export const WorkerStatusEnum = z.enum(['ok', 'low', 'off', 'dis', 'active', 'inactive', 'all']);
 export type WorkerStatus = z.infer<typeof WorkerStatusEnum>;
 
+/**
+ * Worker states matched by each grouped status filter
+ */
+const GROUPED_STATUS_FILTERS: Partial<Record<WorkerStatus, WorkerState[]>> = {
+  active: ['ok', 'low', 'active'],
+  inactive: ['off', 'inactive'],
+  dis: ['dis', 'disabled'],
+};
+
+/**
+ * Check whether a worker status matches a status filter
+ */
+export function matchesStatusFilter(status: WorkerState, filter: string): boolean {
+  if (filter === 'all') return true;
+  const grouped = GROUPED_STATUS_FILTERS[filter as WorkerStatus];
+  return grouped !== undefined ? grouped.includes(status) : status === filter;
+}
+
 /**
  * Sort options for worker list
  */
@@ -27,6 +52,22 @@ export const WorkerSortEnum = z.enum([
 ]);
 export type WorkerSort = z.infer<typeof WorkerSortEnum>;
 
+/**
+ * Columns available when exporting workers
+ */
+export const WORKER_EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'status',
+  'hashrate_current',
+  'hashrate_avg_24h',
+  'shares_valid',
+  'shares_invalid',
+  'last_share_at',
+  'location',
+  'tags',
+] as const;
+
 /**
  * Input schema for listWorkers tool
  *
@@ -51,7 +92,7 @@ export const ListWorkersInputSchema = z.object({
 
   // Filters
   status: WorkerStatusEnum.default('all').describe(
-    'Filter by worker status: active, inactive, or all'
+    'Filter by worker status: ok, low, off, dis, active (ok + low), inactive, or all'
   ),
 
   search: z
@@ -61,6 +102,19 @@ export const ListWorkersInputSchema = z.object({
     .describe('Search by worker name (partial match)'),
 
   sortBy: WorkerSortEnum.optional().describe('Sort order for results'),
+
+  // Walk every page and summarize instead of returning one page
+  all: z
+    .boolean()
+    .default(false)
+    .describe('Walk every page and return fleet statistics instead of one page'),
+
+  account: AccountInputSchema,
+
+  format: OutputFormatInputSchema,
+
+  // Export every page instead of the requested one
+  export: exportInputSchema(WORKER_EXPORT_COLUMNS),
 });
 
 /**
@@ -71,7 +125,9 @@ export type ListWorkersInput = z.infer<typeof ListWorkersInputSchema>;
 /**
  * Transform MCP input (camelCase) to API params (snake_case)
  */
-export function toApiParams(input: ListWorkersInput): Record<string, string | number> {
+export function toApiParams(
+  input: Pick<ListWorkersInput, 'page' | 'pageSize' | 'status' | 'search' | 'sortBy'>
+): Record<string, string | number> {
   const params: Record<string, string | number> = {
     page: input.page,
     page_size: input.pageSize,
@@ -23,13 +23,31 @@ const WorkerSharesSchema = z.object({
   invalid: z.number().int().nonnegative().describe('Invalid/rejected shares count'),
 });
 
+/**
+ * Worker status values
+ *
+ * The pool reports four states: ok (hashing normally), low (hashing below
+ * the alert threshold), off (not hashing) and dis (disabled). The coarser
+ * active/inactive/disabled values are still accepted.
+ */
+export const WorkerStateEnum = z.enum([
+  'ok',
+  'low',
+  'off',
+  'dis',
+  'active',
+  'inactive',
+  'disabled',
+]);
+export type WorkerState = z.infer<typeof WorkerStateEnum>;
+
 /**
  * Individual worker in list response
  */
 export const WorkerSchema = z.object({
   id: z.string().min(1).describe('Unique worker identifier'),
   name: z.string().describe('Worker name/label'),
-  status: z.enum(['active', 'inactive', 'disabled']).describe('Worker status'),
+  status: WorkerStateEnum.describe('Worker status'),
   hashrate: WorkerHashrateSchema.describe('Hashrate metrics'),
   shares: WorkerSharesSchema.describe('Share statistics'),
   last_share_at: z
@@ -39,6 +57,10 @@ export const WorkerSchema = z.object({
     .describe('Last share timestamp (ISO 8601)'),
   location: z.string().optional().describe('Worker location/farm'),
   tags: z.array(z.string()).optional().describe('Worker tags/labels'),
+  hardware: z
+    .object({ model: z.string().describe('Hardware model (e.g., Antminer S19 Pro)') })
+    .optional()
+    .describe('Hardware summary, when the pool includes it in the list'),
 });
 
 /**
@@ -70,3 +92,64 @@ export type WorkerHashrate = z.infer<typeof WorkerHashrateSchema>;
  * Type for shares data
  */
 export type WorkerShares = z.infer<typeof WorkerSharesSchema>;
+
+/**
+ * Hashrate and worker count of one status across the fleet
+ */
+const StatusBreakdownSchema = z.object({
+  status: WorkerStateEnum.describe('Worker status'),
+  count: z.number().int().nonnegative().describe('Workers with this status'),
+  hashrate_current: z.number().nonnegative().describe('Summed current hashrate in H/s'),
+  hashrate_avg_24h: z.number().nonnegative().describe('Summed 24-hour average hashrate in H/s'),
+});
+
+/**
+ * Fleet statistics returned when every page is walked (`all` mode)
+ */
+export const WorkerFleetSummarySchema = z.object({
+  workers_retrieved: z.number().int().nonnegative().describe('Unique workers retrieved'),
+  pages_fetched: z.number().int().nonnegative().describe('Pages requested from the API'),
+  duplicates_skipped: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe('Workers seen again on a later page and skipped'),
+  capped: z.boolean().describe('Whether the walk stopped at the page cap before the end'),
+  by_status: z.array(StatusBreakdownSchema).describe('Breakdown by worker status'),
+  hashrate: z
+    .object({
+      current: z.number().nonnegative().describe('Summed current hashrate in H/s'),
+      avg_24h: z.number().nonnegative().describe('Summed 24-hour average hashrate in H/s'),
+      mean_24h_per_active: z
+        .number()
+        .nonnegative()
+        .describe('Mean 24-hour hashrate of active workers in H/s'),
+      median_24h_per_active: z
+        .number()
+        .nonnegative()
+        .describe('Median 24-hour hashrate of active workers in H/s'),
+    })
+    .describe('Fleet hashrate'),
+  shares: z
+    .object({
+      valid: z.number().int().nonnegative().describe('Valid shares'),
+      invalid: z.number().int().nonnegative().describe('Invalid/rejected shares'),
+      reject_rate: z.number().min(0).max(1).nullable().describe('Invalid share fraction (0-1)'),
+    })
+    .describe('Fleet share statistics'),
+  lowest_active: z.array(z.string()).describe('IDs of the lowest-hashrate active workers'),
+  longest_offline: z.array(z.string()).describe('IDs of the workers offline the longest'),
+});
+
+export type WorkerFleetSummary = z.infer<typeof WorkerFleetSummarySchema>;
+
+/**
+ * Structured tool output: the worker page with timestamps in UTC
+ *
+ * In `all` mode, workers holds only the workers named in the summary.
+ */
+export const ListWorkersOutputSchema = ListWorkersResponseSchema.extend({
+  summary: WorkerFleetSummarySchema.optional().describe('Fleet statistics (all mode only)'),
+});
+
+export type ListWorkersOutput = z.infer<typeof ListWorkersOutputSchema>;
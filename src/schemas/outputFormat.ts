@@ -0,0 +1,28 @@
+/**
+ * Shared output format argument for tool inputs
+ *
+ * Every tool returns structured JSON in `structuredContent`; the format
+ * selects which text content accompanies it.
+ */
+
+import { z } from 'zod';
+
+export const OutputFormatEnum = z.enum(['markdown', 'json', 'both']);
+export type OutputFormat = z.infer<typeof OutputFormatEnum>;
+
+/**
+ * Optional output format; omitted means markdown
+ */
+export const OutputFormatInputSchema = OutputFormatEnum.default('markdown').describe(
+  'Text output: markdown (default), json, or both'
+);
+
+/**
+ * JSON schema property for the format argument in tool definitions
+ */
+export const OUTPUT_FORMAT_PROPERTY = {
+  type: 'string',
+  enum: ['markdown', 'json', 'both'],
+  description:
+    'Text output: markdown (default), json, or both. Structured JSON is always returned in structuredContent',
+} as const;
@@ -0,0 +1,42 @@
+/**
+ * Input schema for testNotification tool
+ *
+ * Sends a test notification to configured webhooks.
+ *
+ * @see src/notify/webhookNotifier.ts
+ */
+
+import { z } from 'zod';
+import { OutputFormatInputSchema } from './outputFormat.js';
+
+/**
+ * Default test message
+ */
+export const DEFAULT_TEST_MESSAGE = 'webhook delivery check';
+
+/**
+ * Input schema for testNotification tool
+ */
+export const TestNotificationInputSchema = z
+  .object({
+    webhook: z
+      .string()
+      .min(1, 'Webhook name cannot be empty')
+      .optional()
+      .describe('Webhook name from the notifier file (default: every webhook)'),
+
+    message: z
+      .string()
+      .min(1, 'Message cannot be empty')
+      .max(500, 'Message cannot exceed 500 characters')
+      .default(DEFAULT_TEST_MESSAGE)
+      .describe('Text included in the test notification'),
+
+    format: OutputFormatInputSchema,
+  })
+  .strict();
+
+/**
+ * TypeScript type inferred from schema
+ */
+export type TestNotificationInput = z.infer<typeof TestNotificationInputSchema>;
@@ -0,0 +1,24 @@
+/**
+ * Output schema for testNotification tool
+ *
+ * Delivery outcome of a test notification per webhook.
+ */
+
+import { z } from 'zod';
+
+const DeliveryResultSchema = z.object({
+  webhook: z.string().describe('Webhook name'),
+  delivered: z.boolean().describe('Whether the webhook accepted the notification'),
+  attempts: z.number().int().min(1).describe('Requests made, including retries'),
+  status: z.number().int().nullable().describe('Last HTTP status (null: no response)'),
+  error: z.string().nullable().describe('Why delivery failed'),
+});
+
+export const TestNotificationOutputSchema = z.object({
+  notification_id: z.string().describe('Identifier sent in the notification payload'),
+  delivered: z.number().int().nonnegative().describe('Webhooks that accepted the notification'),
+  failed: z.number().int().nonnegative().describe('Webhooks that did not'),
+  results: z.array(DeliveryResultSchema).describe('Outcome per webhook'),
+});
+
+export type TestNotificationOutput = z.infer<typeof TestNotificationOutputSchema>;
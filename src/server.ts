@@ -0,0 +1,251 @@
+/**
+ * MCP server factory for Braiins Pool MCP Server
+ *
+ * Builds an MCP server instance wired to the shared tool registry. The stdio
+ * transport uses a single instance; the HTTP transport creates one per session.
+ * Tool calls are counted across all instances so shutdown can drain them, and
+ * report progress when the client supplies a progress token.
+ * When the transport supplies auth info, tools, resources and prompts are
+ * limited to the caller's allowed list. Tools no configured account can serve
+ * are not listed. Resource subscriptions are shared across
+ * instances and dropped when an instance closes.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type TextContent,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { logger } from './utils/logger.js';
+import { tools, handleToolCall, type ProgressReporter } from './tools/index.js';
+import { isToolAllowed, forbiddenToolError } from './auth/index.js';
+import { getAccountRegistry } from './config/accounts.js';
+import {
+  assertSubscribable,
+  getResourceSubscriptions,
+  listResourceTemplates,
+  listResources,
+  readResource,
+  type ResourceUpdateCallback,
+} from './resources/index.js';
+import { getPrompt, listPrompts } from './prompts/index.js';
+
+/**
+ * Server identity reported to MCP clients
+ */
+export const SERVER_INFO = {
+  name: 'braiins-pool-mcp-server',
+  version: '0.1.0',
+} as const;
+
+/**
+ * Number of tool calls currently executing
+ */
+let inFlightToolCalls = 0;
+
+/**
+ * Callbacks waiting for in-flight tool calls to finish
+ */
+const idleWaiters = new Set<() => void>();
+
+/**
+ * Get the number of tool calls currently executing
+ */
+export function getInFlightToolCalls(): number {
+  return inFlightToolCalls;
+}
+
+/**
+ * Wait until no tool calls are executing
+ *
+ * @param timeoutMs - Maximum time to wait
+ * @returns true if drained, false if the timeout elapsed first
+ */
+export function waitForInFlightToolCalls(timeoutMs: number): Promise<boolean> {
+  if (inFlightToolCalls === 0) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const onIdle = (): void => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    const timer = setTimeout(() => {
+      idleWaiters.delete(onIdle);
+      resolve(false);
+    }, timeoutMs);
+    idleWaiters.add(onIdle);
+  });
+}
+
+/**
+ * Track a tool call for the duration of its promise
+ */
+async function trackToolCall<T>(fn: () => Promise<T>): Promise<T> {
+  inFlightToolCalls++;
+  try {
+    return await fn();
+  } finally {
+    inFlightToolCalls--;
+    if (inFlightToolCalls === 0) {
+      // Defer so the result is handed to the transport before shutdown closes it
+      setImmediate(() => {
+        if (inFlightToolCalls > 0) return;
+        for (const onIdle of idleWaiters) onIdle();
+        idleWaiters.clear();
+      });
+    }
+  }
+}
+
+/**
+ * Create an MCP server instance serving the registered tools
+ */
+export function createMcpServer(): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      resources: { subscribe: true },
+      prompts: {},
+    },
+  });
+
+  // Register tool listing handler, limited to the tools the caller may use and
+  // at least one configured account can serve
+  server.setRequestHandler(ListToolsRequestSchema, (_request, extra) => {
+    logger.debug('Listing available tools');
+    const allowedTools = extra.authInfo?.scopes;
+    const registry = getAccountRegistry();
+    return {
+      tools: tools
+        .filter((tool) => allowedTools === undefined || isToolAllowed(allowedTools, tool.name))
+        .filter((tool) => registry.supportsTool(tool.name))
+        .map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+          outputSchema: tool.outputSchema,
+        })),
+    };
+  });
+
+  // Register tool execution handler
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    async (request, extra): Promise<CallToolResult> => {
+      const { name, arguments: args } = request.params;
+      const { authInfo } = extra;
+      logger.info('Tool call received', { tool: name, principal: authInfo?.clientId });
+
+      // Authenticated callers may only use their allowed tools
+      if (authInfo !== undefined && !isToolAllowed(authInfo.scopes, name)) {
+        const error = forbiddenToolError(authInfo.clientId, name);
+        logger.warn('Tool call forbidden', { tool: name, principal: authInfo.clientId });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+          isError: true,
+        };
+      }
+
+      // Long-running tools report progress when the client supplied a token
+      const progressToken = request.params._meta?.progressToken;
+      const reportProgress: ProgressReporter | undefined =
+        progressToken !== undefined
+          ? (progress, total, message) =>
+              extra
+                .sendNotification({
+                  method: 'notifications/progress',
+                  params: { progressToken, progress, total, message },
+                })
+                .catch((error: Error) => {
+                  logger.debug('Failed to send progress notification', { error: error.message });
+                })
+          : undefined;
+
+      try {
+        const result = await trackToolCall(() => handleToolCall(name, args, reportProgress));
+        logger.info('Tool call completed', { tool: name, success: true });
+        return result;
+      } catch (error) {
+        logger.error('Tool call failed', {
+          tool: name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw error;
+      }
+    }
+  );
+
+  // Register resource handlers, limited to resources backed by allowed tools
+  server.setRequestHandler(ListResourcesRequestSchema, (_request, extra) => {
+    logger.debug('Listing available resources');
+    return { resources: listResources(extra.authInfo?.scopes) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, (_request, extra) => {
+    return { resourceTemplates: listResourceTemplates(extra.authInfo?.scopes) };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, (request, extra) => {
+    const { uri } = request.params;
+    logger.info('Resource read received', { uri, principal: extra.authInfo?.clientId });
+    return readResource(uri, extra.authInfo?.scopes);
+  });
+
+  // Subscriptions notify this instance when a subscribed resource's data changes
+  const notifyUpdated: ResourceUpdateCallback = (uri) => {
+    server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+      logger.warn('Failed to send resource update', {
+        uri,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+  };
+
+  server.setRequestHandler(SubscribeRequestSchema, (request, extra) => {
+    const { uri } = request.params;
+    assertSubscribable(uri, extra.authInfo?.scopes);
+    getResourceSubscriptions().subscribe(uri, notifyUpdated);
+    logger.debug('Resource subscribed', { uri, principal: extra.authInfo?.clientId });
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    getResourceSubscriptions().unsubscribe(request.params.uri, notifyUpdated);
+    return {};
+  });
+
+  // Register prompt handlers, limited to prompts whose tools the caller may use
+  server.setRequestHandler(ListPromptsRequestSchema, (_request, extra) => {
+    logger.debug('Listing available prompts');
+    return { prompts: listPrompts(extra.authInfo?.scopes) };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, (request, extra) => {
+    const { name, arguments: args } = request.params;
+    logger.info('Prompt requested', { prompt: name, principal: extra.authInfo?.clientId });
+    return getPrompt(name, args, extra.authInfo?.scopes);
+  });
+
+  server.onclose = (): void => {
+    getResourceSubscriptions().unsubscribeAll(notifyUpdated);
+  };
+
+  // Set up error handling
+  server.onerror = (error): void => {
+    logger.error('MCP Server error', { error });
+  };
+
+  return server;
+}
@@ -0,0 +1,724 @@
+/**
+ * calculateProfitability MCP Tool
+ *
+ * Combines the pool FPPS rate (or network difficulty), per-worker hardware
+ * models and caller-supplied power and BTC prices into per-worker and fleet
+ * margins, breakeven BTC price and breakeven difficulty.
+ *
+ * @see docs/API.md Pool Stats API (fpps_rate) and Worker Details API (hardware)
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CalculateProfitabilityInputSchema,
+  type CalculateProfitabilityInput,
+} from '../schemas/calculateProfitabilityInput.js';
+import {
+  CalculateProfitabilityOutputSchema,
+  type CalculateProfitabilityOutput,
+} from '../schemas/calculateProfitabilityOutput.js';
+import type { Worker } from '../schemas/listWorkersResponse.js';
+import type { GetWorkerDetailsResponse } from '../schemas/getWorkerDetailsResponse.js';
+import { getCachedBraiinsClient, type CachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, roundBtc, toOutputSchema } from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Seconds in a day
+ */
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Expected hashes to find a block at difficulty 1
+ */
+const HASHES_PER_DIFFICULTY = 2 ** 32;
+
+/**
+ * Current block subsidy in BTC (since the April 2024 halving)
+ */
+const BLOCK_SUBSIDY_BTC = 3.125;
+
+/**
+ * Worker details requested at a time
+ */
+const DETAILS_CONCURRENCY = 5;
+
+/**
+ * Days used for the monthly projection
+ */
+const DAYS_PER_MONTH = 30;
+
+/**
+ * Nameplate efficiency in J/TH for common ASIC models
+ *
+ * Keys are matched against the reported hardware model ignoring case,
+ * spaces and punctuation; the longest matching key wins.
+ */
+const BUILT_IN_EFFICIENCY: Record<string, number> = {
+  S9: 98,
+  'S17 Pro': 40,
+  S19: 34.5,
+  'S19 Pro': 29.5,
+  'S19j Pro': 30.5,
+  'S19k Pro': 23,
+  'S19 XP': 21.5,
+  S21: 17.5,
+  'S21 Pro': 15,
+  'S21 XP': 13.5,
+  T21: 19,
+  'M30S++': 31,
+  M50S: 26,
+  M60S: 18.5,
+  A1366: 25,
+};
+
+/**
+ * Source of a worker's efficiency figure
+ */
+type EfficiencySource = 'input table' | 'built-in' | 'default';
+
+/**
+ * Revenue basis for the calculation
+ */
+interface RevenueBasis {
+  source: 'fpps' | 'subsidy';
+  /** BTC earned per TH/s per day */
+  btcPerThDay: number;
+  /** Human-readable description of where the rate comes from */
+  description: string;
+}
+
+/**
+ * Worker hashrate and hardware model used in the calculation
+ */
+interface WorkerInput {
+  name: string;
+  hashrate24h: number;
+  model: string | null;
+}
+
+/**
+ * Profitability of a single worker
+ */
+interface WorkerProfitability {
+  name: string;
+  model: string | null;
+  hashrateThs: number;
+  efficiency: number | null;
+  efficiencySource: EfficiencySource | null;
+  powerWatts: number | null;
+  revenueBtc: number;
+  revenueFiat: number;
+  costFiat: number | null;
+  marginFiat: number | null;
+  breakevenPrice: number | null;
+}
+
+/**
+ * Totals over workers with a known efficiency
+ */
+interface FleetProfitability {
+  workers: number;
+  hashrateThs: number;
+  powerWatts: number;
+  revenueBtc: number;
+  revenueFiat: number;
+  costFiat: number;
+  marginFiat: number;
+  breakevenPrice: number | null;
+  breakevenDifficulty: number | null;
+  unprofitable: number;
+}
+
+/**
+ * Normalize a model name for matching
+ */
+function normalizeModel(model: string): string {
+  return model.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the efficiency for a model in a table, exact match first then longest contained key
+ */
+function lookupEfficiency(model: string, table: Record<string, number>): number | null {
+  const normalized = normalizeModel(model);
+  let best: { length: number; value: number } | null = null;
+
+  for (const [key, value] of Object.entries(table)) {
+    const normalizedKey = normalizeModel(key);
+    if (normalizedKey === '') continue;
+    if (normalizedKey === normalized) return value;
+    if (
+      normalized.includes(normalizedKey) &&
+      (best === null || normalizedKey.length > best.length)
+    ) {
+      best = { length: normalizedKey.length, value };
+    }
+  }
+
+  return best?.value ?? null;
+}
+
+/**
+ * Resolve a worker's efficiency from the input table, built-in table or default
+ */
+function resolveEfficiency(
+  model: string | null,
+  input: CalculateProfitabilityInput
+): { efficiency: number; source: EfficiencySource } | null {
+  if (model !== null) {
+    if (input.efficiencyTable !== undefined) {
+      const fromInput = lookupEfficiency(model, input.efficiencyTable);
+      if (fromInput !== null) return { efficiency: fromInput, source: 'input table' };
+    }
+    const builtIn = lookupEfficiency(model, BUILT_IN_EFFICIENCY);
+    if (builtIn !== null) return { efficiency: builtIn, source: 'built-in' };
+  }
+
+  if (input.defaultEfficiency !== undefined) {
+    return { efficiency: input.defaultEfficiency, source: 'default' };
+  }
+
+  return null;
+}
+
+/**
+ * Calculate profitability for one worker
+ */
+function calculateWorker(
+  worker: WorkerInput,
+  basis: RevenueBasis,
+  input: CalculateProfitabilityInput
+): WorkerProfitability {
+  const { model } = worker;
+  const hashrateThs = worker.hashrate24h / 1e12;
+  const revenueBtc = basis.btcPerThDay * hashrateThs;
+  const revenueFiat = revenueBtc * input.btcPrice;
+  const resolved = resolveEfficiency(model, input);
+
+  if (resolved === null) {
+    return {
+      name: worker.name,
+      model,
+      hashrateThs,
+      efficiency: null,
+      efficiencySource: null,
+      powerWatts: null,
+      revenueBtc,
+      revenueFiat,
+      costFiat: null,
+      marginFiat: null,
+      breakevenPrice: null,
+    };
+  }
+
+  const powerWatts = resolved.efficiency * hashrateThs;
+  const costFiat = ((powerWatts * 24) / 1000) * input.electricityPrice;
+
+  return {
+    name: worker.name,
+    model,
+    hashrateThs,
+    efficiency: resolved.efficiency,
+    efficiencySource: resolved.source,
+    powerWatts,
+    revenueBtc,
+    revenueFiat,
+    costFiat,
+    marginFiat: revenueFiat - costFiat,
+    breakevenPrice: revenueBtc > 0 ? costFiat / revenueBtc : null,
+  };
+}
+
+/**
+ * Add up workers with a known efficiency, or null if there are none
+ */
+function calculateFleet(
+  workers: WorkerProfitability[],
+  difficulty: number | null
+): FleetProfitability | null {
+  const costed = workers.filter((worker) => worker.costFiat !== null);
+  if (costed.length === 0) return null;
+
+  const revenueBtc = costed.reduce((sum, w) => sum + w.revenueBtc, 0);
+  const revenueFiat = costed.reduce((sum, w) => sum + w.revenueFiat, 0);
+  const costFiat = costed.reduce((sum, w) => sum + (w.costFiat ?? 0), 0);
+
+  return {
+    workers: costed.length,
+    hashrateThs: costed.reduce((sum, w) => sum + w.hashrateThs, 0),
+    powerWatts: costed.reduce((sum, w) => sum + (w.powerWatts ?? 0), 0),
+    revenueBtc,
+    revenueFiat,
+    costFiat,
+    marginFiat: revenueFiat - costFiat,
+    breakevenPrice: revenueBtc > 0 ? costFiat / revenueBtc : null,
+    // Revenue scales inversely with difficulty at a fixed BTC price
+    breakevenDifficulty:
+      difficulty !== null && costFiat > 0 ? (difficulty * revenueFiat) / costFiat : null,
+    unprofitable: costed.filter((w) => (w.marginFiat ?? 0) < 0).length,
+  };
+}
+
+/**
+ * Subsidy-only BTC per TH/s per day at a difficulty
+ */
+function subsidyPerThDay(difficulty: number): number {
+  return ((1e12 * SECONDS_PER_DAY) / (difficulty * HASHES_PER_DIFFICULTY)) * BLOCK_SUBSIDY_BTC;
+}
+
+/**
+ * Fetch the network difficulty, or null if unavailable
+ */
+async function fetchDifficulty(client: CachedBraiinsClient): Promise<number | null> {
+  try {
+    const networkStats = await client.getNetworkStats();
+    return typeof networkStats.difficulty === 'number' && networkStats.difficulty > 0
+      ? networkStats.difficulty
+      : null;
+  } catch (error) {
+    logger.debug('Network difficulty unavailable for profitability', {
+      error: toBraiinsError(error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Workers to evaluate, with requested workers whose details failed
+ */
+interface FetchedWorkers {
+  workers: WorkerInput[];
+  unavailable: string[];
+}
+
+/**
+ * Run a request for each item, at most DETAILS_CONCURRENCY at a time
+ */
+async function settleInBatches<T, R>(
+  items: readonly T[],
+  request: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = [];
+  for (let i = 0; i < items.length; i += DETAILS_CONCURRENCY) {
+    results.push(
+      ...(await Promise.allSettled(items.slice(i, i + DETAILS_CONCURRENCY).map(request)))
+    );
+  }
+  return results;
+}
+
+/**
+ * Fetch the workers to evaluate, with hardware details where available
+ *
+ * Listed workers that already carry a hardware model skip the details request,
+ * and a failed details request falls back to the list entry without hardware.
+ * Requested workers whose details fail are reported as unavailable; the
+ * calculation only fails when none of them can be fetched.
+ */
+async function fetchWorkers(
+  client: CachedBraiinsClient,
+  input: CalculateProfitabilityInput
+): Promise<FetchedWorkers> {
+  if (input.workerIds !== undefined) {
+    const workerIds = input.workerIds;
+    const settled = await settleInBatches(workerIds, (workerId) =>
+      client.getWorkerDetails(workerId)
+    );
+
+    const workers: WorkerInput[] = [];
+    const unavailable: string[] = [];
+    let firstError: unknown;
+    settled.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        workers.push(toWorkerInput(result.value));
+        return;
+      }
+      logger.debug('Worker details unavailable for profitability', {
+        workerId: workerIds[i],
+        error: toBraiinsError(result.reason).message,
+      });
+      unavailable.push(workerIds[i]);
+      firstError ??= result.reason;
+    });
+
+    if (workers.length === 0 && firstError !== undefined) {
+      throw firstError;
+    }
+    return { workers, unavailable };
+  }
+
+  const list = await client.listWorkers({
+    page: 1,
+    page_size: input.maxWorkers,
+    status: 'active',
+    sort_by: 'hashrate_desc',
+  });
+
+  const settled = await settleInBatches(list.workers, (worker) =>
+    worker.hardware !== undefined
+      ? Promise.resolve(toListedWorkerInput(worker, worker.hardware.model))
+      : fetchWorkerHardware(client, worker)
+  );
+  return {
+    // fetchWorkerHardware never rejects
+    workers: settled.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : [])),
+    unavailable: [],
+  };
+}
+
+/**
+ * Extract the calculation inputs from worker details
+ */
+function toWorkerInput(details: GetWorkerDetailsResponse): WorkerInput {
+  return {
+    name: details.name,
+    hashrate24h: details.hashrate.avg_24h,
+    model: details.hardware?.model ?? null,
+  };
+}
+
+/**
+ * Extract the calculation inputs from a listed worker
+ */
+function toListedWorkerInput(worker: Worker, model: string | null): WorkerInput {
+  return { name: worker.name, hashrate24h: worker.hashrate.avg_24h, model };
+}
+
+/**
+ * Attach hardware details to a listed worker
+ */
+async function fetchWorkerHardware(
+  client: CachedBraiinsClient,
+  worker: Worker
+): Promise<WorkerInput> {
+  try {
+    return toWorkerInput(await client.getWorkerDetails(worker.id));
+  } catch (error) {
+    logger.debug('Worker details unavailable for profitability', {
+      workerId: worker.id,
+      error: toBraiinsError(error).message,
+    });
+    return toListedWorkerInput(worker, null);
+  }
+}
+
+/**
+ * Format a fiat amount
+ */
+function formatFiat(amount: number, currency: string): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}${Math.abs(amount).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} ${currency}`;
+}
+
+/**
+ * Format a margin with its share of revenue
+ */
+function formatMargin(margin: number, revenue: number, currency: string): string {
+  const marker = margin < 0 ? '🔴 ' : '';
+  const percent = revenue > 0 ? ` (${((margin / revenue) * 100).toFixed(1)}%)` : '';
+  return `${marker}${formatFiat(margin, currency)}${percent}`;
+}
+
+/**
+ * Format hashrate in TH/s
+ */
+function formatThs(ths: number): string {
+  return `${ths.toFixed(2)} TH/s`;
+}
+
+/**
+ * Format the complete profitability report for MCP output
+ */
+function formatResponse(
+  workers: WorkerProfitability[],
+  unavailable: string[],
+  basis: RevenueBasis,
+  difficulty: number | null,
+  input: CalculateProfitabilityInput
+): string {
+  const { currency } = input;
+  const lines: string[] = [`## Mining Profitability (${currency})`, ''];
+
+  lines.push(`**BTC Price**: ${formatFiat(input.btcPrice, currency)}`);
+  lines.push(`**Electricity**: ${formatFiat(input.electricityPrice, currency)}/kWh`);
+  lines.push(`**Revenue Basis**: ${basis.description}`);
+  if (difficulty !== null) {
+    lines.push(`**Network Difficulty**: ${difficulty.toExponential(3)}`);
+  }
+  lines.push('');
+
+  if (workers.length === 0) {
+    lines.push('*No workers to evaluate.*');
+    return lines.join('\n');
+  }
+
+  const fleet = calculateFleet(workers, difficulty);
+  const uncosted = workers.filter((worker) => worker.costFiat === null);
+
+  // Fleet summary over workers with a known efficiency
+  if (fleet !== null) {
+    lines.push('### Fleet Summary');
+    lines.push('| Metric | Value |');
+    lines.push('|--------|-------|');
+    lines.push(`| Workers Evaluated | ${fleet.workers} |`);
+    lines.push(`| Hashrate (24h avg) | ${formatThs(fleet.hashrateThs)} |`);
+    lines.push(`| Power Draw | ${(fleet.powerWatts / 1000).toFixed(2)} kW |`);
+    if (fleet.hashrateThs > 0) {
+      lines.push(
+        `| Fleet Efficiency | ${(fleet.powerWatts / fleet.hashrateThs).toFixed(1)} J/TH |`
+      );
+    }
+    lines.push(
+      `| Daily Revenue | ${fleet.revenueBtc.toFixed(8)} BTC (${formatFiat(fleet.revenueFiat, currency)}) |`
+    );
+    lines.push(`| Daily Power Cost | ${formatFiat(fleet.costFiat, currency)} |`);
+    lines.push(`| Daily Margin | ${formatMargin(fleet.marginFiat, fleet.revenueFiat, currency)} |`);
+    lines.push(
+      `| Monthly Margin (${DAYS_PER_MONTH}d) | ${formatFiat(fleet.marginFiat * DAYS_PER_MONTH, currency)} |`
+    );
+    if (fleet.breakevenPrice !== null) {
+      lines.push(`| Breakeven BTC Price | ${formatFiat(fleet.breakevenPrice, currency)} |`);
+    }
+    if (fleet.breakevenDifficulty !== null) {
+      lines.push(`| Breakeven Difficulty | ${fleet.breakevenDifficulty.toExponential(3)} |`);
+    }
+    if (fleet.unprofitable > 0) {
+      lines.push(`| Unprofitable Workers | 🔴 ${fleet.unprofitable} |`);
+    }
+    lines.push('');
+  }
+
+  // Per-worker breakdown
+  lines.push('### Per-Worker');
+  lines.push(
+    '| Worker | Model | Hashrate | J/TH | Power | Revenue/day | Cost/day | Margin/day | Breakeven Price |'
+  );
+  lines.push(
+    '|--------|-------|----------|------|-------|-------------|----------|------------|-----------------|'
+  );
+  for (const worker of workers) {
+    const efficiency =
+      worker.efficiency !== null
+        ? `${worker.efficiency}${worker.efficiencySource === 'built-in' ? '' : ` (${worker.efficiencySource})`}`
+        : '-';
+    lines.push(
+      `| ${worker.name} | ${worker.model ?? 'unknown'} | ${formatThs(worker.hashrateThs)} | ` +
+        `${efficiency} | ${worker.powerWatts !== null ? `${Math.round(worker.powerWatts)} W` : '-'} | ` +
+        `${formatFiat(worker.revenueFiat, currency)} | ` +
+        `${worker.costFiat !== null ? formatFiat(worker.costFiat, currency) : '-'} | ` +
+        `${worker.marginFiat !== null ? formatMargin(worker.marginFiat, worker.revenueFiat, currency) : '-'} | ` +
+        `${worker.breakevenPrice !== null ? formatFiat(worker.breakevenPrice, currency) : '-'} |`
+    );
+  }
+
+  if (uncosted.length > 0) {
+    lines.push('');
+    lines.push(
+      `*${uncosted.length} worker(s) have no known efficiency and are excluded from fleet costs. ` +
+        'Add their model to efficiencyTable or set defaultEfficiency.*'
+    );
+  }
+
+  if (unavailable.length > 0) {
+    lines.push('');
+    lines.push(`*Details unavailable for ${unavailable.join(', ')}; not evaluated.*`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build the structured output of the report
+ */
+function toStructuredOutput(
+  workers: WorkerProfitability[],
+  unavailable: string[],
+  basis: RevenueBasis,
+  difficulty: number | null,
+  input: CalculateProfitabilityInput
+): CalculateProfitabilityOutput {
+  const fleet = calculateFleet(workers, difficulty);
+  return {
+    currency: input.currency,
+    btc_price: input.btcPrice,
+    electricity_price: input.electricityPrice,
+    revenue_basis: {
+      source: basis.source,
+      btc_per_th_day: basis.btcPerThDay,
+      description: basis.description,
+    },
+    difficulty,
+    fleet:
+      fleet !== null
+        ? {
+            workers_evaluated: fleet.workers,
+            hashrate_ths: fleet.hashrateThs,
+            power_watts: fleet.powerWatts,
+            efficiency: fleet.hashrateThs > 0 ? fleet.powerWatts / fleet.hashrateThs : null,
+            revenue_btc: roundBtc(fleet.revenueBtc),
+            revenue_fiat: fleet.revenueFiat,
+            cost_fiat: fleet.costFiat,
+            margin_fiat: fleet.marginFiat,
+            monthly_margin_fiat: fleet.marginFiat * DAYS_PER_MONTH,
+            breakeven_btc_price: fleet.breakevenPrice,
+            breakeven_difficulty: fleet.breakevenDifficulty,
+            unprofitable_workers: fleet.unprofitable,
+          }
+        : null,
+    workers: workers.map((worker) => ({
+      name: worker.name,
+      model: worker.model,
+      hashrate_ths: worker.hashrateThs,
+      efficiency: worker.efficiency,
+      efficiency_source: worker.efficiencySource,
+      power_watts: worker.powerWatts,
+      revenue_btc: roundBtc(worker.revenueBtc),
+      revenue_fiat: worker.revenueFiat,
+      cost_fiat: worker.costFiat,
+      margin_fiat: worker.marginFiat,
+      breakeven_btc_price: worker.breakevenPrice,
+    })),
+    unavailable_workers: unavailable,
+  };
+}
+
+/**
+ * Tool handler implementation
+ */
+async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  // Step 1: Validate and parse input
+  const parseResult = CalculateProfitabilityInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Determine the revenue basis from FPPS, falling back to difficulty
+    logger.debug('Calculating profitability', {
+      workerIds: input.workerIds,
+      maxWorkers: input.maxWorkers,
+    });
+
+    const client = getCachedBraiinsClient(input.account);
+    const poolStats = await client.getPoolStats();
+    const difficulty = await fetchDifficulty(client);
+
+    let basis: RevenueBasis;
+    if (poolStats.fpps_rate !== undefined) {
+      basis = {
+        source: 'fpps',
+        btcPerThDay: poolStats.fpps_rate,
+        description: `pool FPPS rate ${poolStats.fpps_rate.toFixed(8)} BTC/TH/day`,
+      };
+    } else if (difficulty !== null) {
+      basis = {
+        source: 'subsidy',
+        btcPerThDay: subsidyPerThDay(difficulty),
+        description: 'block subsidy at current difficulty (excludes transaction fees and pool fee)',
+      };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '*Cannot calculate profitability: neither the FPPS rate nor network difficulty is available.*',
+          } as TextContent,
+        ],
+        isError: true,
+      };
+    }
+
+    // Step 3: Fetch workers with hardware models
+    const { workers, unavailable } = await fetchWorkers(client, input);
+
+    // Step 4: Calculate and format
+    const results = workers.map((worker) => calculateWorker(worker, basis, input));
+    const formattedResponse = formatResponse(results, unavailable, basis, difficulty, input);
+
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(results, unavailable, basis, difficulty, input),
+      input.format
+    );
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('calculateProfitability failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool definition for registration
+ */
+export const calculateProfitabilityTool: ToolDefinition = {
+  name: 'calculateProfitability',
+  description:
+    'Calculate mining profitability per worker and for the fleet from the pool FPPS rate ' +
+    "(or network difficulty), each worker's hardware model and your electricity and BTC prices. " +
+    'Returns daily revenue, power cost, margin, breakeven BTC price and breakeven difficulty.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      electricityPrice: {
+        type: 'number',
+        description: 'Electricity price per kWh in your currency (required)',
+      },
+      btcPrice: {
+        type: 'number',
+        description: 'BTC price in your currency (required)',
+      },
+      currency: {
+        type: 'string',
+        description: 'Fiat currency code for prices (default: USD)',
+      },
+      efficiencyTable: {
+        type: 'object',
+        additionalProperties: { type: 'number' },
+        description:
+          'Efficiency in J/TH by hardware model (e.g., {"S19 Pro": 29.5}), overriding built-in values',
+      },
+      defaultEfficiency: {
+        type: 'number',
+        description: 'Efficiency in J/TH for workers with unknown hardware',
+      },
+      workerIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Workers to evaluate (default: active workers by hashrate)',
+      },
+      maxWorkers: {
+        type: 'number',
+        description: 'Active workers evaluated when workerIds is omitted (default: 50, max 200)',
+      },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ['electricityPrice', 'btcPrice'],
+  },
+  outputSchema: toOutputSchema(CalculateProfitabilityOutputSchema),
+  handler,
+};
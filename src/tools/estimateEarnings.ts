@@ -0,0 +1,358 @@
+/**
+ * estimateEarnings MCP Tool
+ *
+ * Projects daily, weekly and monthly BTC earnings from the pool's FPPS rate
+ * and the account's (or a supplied) hashrate, and compares the FPPS-implied
+ * reward for today with the reward actually accrued so far.
+ *
+ * @see docs/API.md Pool Stats API (fpps_rate) and User Profile API (today_reward)
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { EstimateEarningsInputSchema } from '../schemas/estimateEarningsInput.js';
+import type { GetUserOverviewResponse } from '../schemas/getUserOverviewResponse.js';
+import {
+  EstimateEarningsOutputSchema,
+  type EstimateEarningsOutput,
+} from '../schemas/estimateEarningsOutput.js';
+import { getCachedBraiinsClient, type CachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, roundBtc, toOutputSchema } from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Seconds in a day
+ */
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Expected hashes to find a block at difficulty 1
+ */
+const HASHES_PER_DIFFICULTY = 2 ** 32;
+
+/**
+ * Current block subsidy in BTC (since the April 2024 halving)
+ */
+const BLOCK_SUBSIDY_BTC = 3.125;
+
+/**
+ * Relative difference treated as a meaningful gap
+ */
+const GAP_THRESHOLD = 0.05;
+
+/**
+ * Projection periods in days
+ */
+const PERIODS = [
+  { label: 'Daily', days: 1 },
+  { label: 'Weekly', days: 7 },
+  { label: 'Monthly (30d)', days: 30 },
+] as const;
+
+/**
+ * Format hashrate for human readability
+ * Converts H/s to appropriate unit (TH/s, PH/s, EH/s)
+ */
+function formatHashrate(hashrate: number): string {
+  const units = ['H/s', 'KH/s', 'MH/s', 'GH/s', 'TH/s', 'PH/s', 'EH/s'];
+  let unitIndex = 0;
+  let value = hashrate;
+
+  while (value >= 1000 && unitIndex < units.length - 1) {
+    value /= 1000;
+    unitIndex++;
+  }
+
+  return `${value.toFixed(2)} ${units[unitIndex]}`;
+}
+
+/**
+ * Format BTC amount with satoshis
+ */
+function formatBtc(amount: number): string {
+  return `${amount.toFixed(8)} BTC (${Math.round(amount * 100000000).toLocaleString()} sats)`;
+}
+
+/**
+ * Format a signed percentage
+ */
+function formatPercent(ratio: number): string {
+  const percent = (ratio * 100).toFixed(1);
+  const sign = Number(percent) > 0 ? '+' : '';
+  return `${sign}${percent === '-0.0' ? '0.0' : percent}%`;
+}
+
+/**
+ * Expected subsidy-only earnings per day for a hashrate at a difficulty
+ */
+function subsidyPerDay(hashrate: number, difficulty: number): number {
+  return ((hashrate * SECONDS_PER_DAY) / (difficulty * HASHES_PER_DIFFICULTY)) * BLOCK_SUBSIDY_BTC;
+}
+
+/**
+ * Fraction of the current UTC day that has elapsed
+ */
+function elapsedDayFraction(now: Date): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return (now.getTime() - midnight) / (SECONDS_PER_DAY * 1000);
+}
+
+/**
+ * Fetch the network difficulty, or null if unavailable
+ */
+async function fetchDifficulty(client: CachedBraiinsClient): Promise<number | null> {
+  try {
+    const networkStats = await client.getNetworkStats();
+    return typeof networkStats.difficulty === 'number' && networkStats.difficulty > 0
+      ? networkStats.difficulty
+      : null;
+  } catch (error) {
+    logger.debug('Network difficulty unavailable for earnings estimate', {
+      error: toBraiinsError(error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Explain the gap between FPPS-implied and actual reward for today
+ */
+function explainGap(gap: number, dayFraction: number, overview: GetUserOverviewResponse): string[] {
+  const reasons: string[] = [];
+  const hoursElapsed = (dayFraction * 24).toFixed(1);
+
+  reasons.push(
+    `- Today's reward covers ${hoursElapsed}h since 00:00 UTC, so the FPPS projection is prorated.`
+  );
+
+  const { current, avg_24h: avg24h } = overview.hashrate;
+  if (avg24h > 0 && Math.abs(current - avg24h) / avg24h > 0.1) {
+    reasons.push(
+      `- Current hashrate (${formatHashrate(current)}) differs from the 24h average ` +
+        `(${formatHashrate(avg24h)}), so today's hashing may not match the average used here.`
+    );
+  }
+
+  if (gap > GAP_THRESHOLD) {
+    reasons.push(
+      '- Actual exceeds FPPS: Braiins OS+ fee refunds and referral rewards are paid on top of FPPS, ' +
+        'and transaction fees may have been higher than when the rate was published.'
+    );
+  } else if (gap < -GAP_THRESHOLD) {
+    reasons.push(
+      '- Actual trails FPPS: check for workers in the low/off state, rejected or stale shares, ' +
+        'and whether the FPPS rate moved with transaction fees since midnight.'
+    );
+  } else {
+    reasons.push('- Actual reward is within 5% of the FPPS projection.');
+  }
+
+  return reasons;
+}
+
+/**
+ * Calculate projections and today's FPPS comparison
+ */
+function calculateEstimate(params: {
+  hashrate: number;
+  supplied: boolean;
+  fppsRate: number | undefined;
+  difficulty: number | null;
+  overview: GetUserOverviewResponse;
+  now: Date;
+}): EstimateEarningsOutput {
+  const { hashrate, supplied, fppsRate, difficulty, overview, now } = params;
+  const fppsDaily = fppsRate !== undefined ? fppsRate * (hashrate / 1e12) : null;
+  const subsidyDaily = difficulty !== null ? subsidyPerDay(hashrate, difficulty) : null;
+
+  const projections =
+    fppsDaily === null && subsidyDaily === null
+      ? []
+      : PERIODS.map((period) => ({
+          days: period.days,
+          fpps: fppsDaily !== null ? roundBtc(fppsDaily * period.days) : null,
+          subsidy_only: subsidyDaily !== null ? roundBtc(subsidyDaily * period.days) : null,
+        }));
+
+  let today: EstimateEarningsOutput['today'] = null;
+  const todayReward = overview.rewards.today_reward;
+  if (fppsRate !== undefined && todayReward !== undefined) {
+    const dayFraction = elapsedDayFraction(now);
+    const expected = fppsRate * (overview.hashrate.avg_24h / 1e12) * dayFraction;
+    const actual = parseFloat(todayReward);
+    today = {
+      elapsed_fraction: dayFraction,
+      fpps_implied: roundBtc(expected),
+      actual: roundBtc(actual),
+      gap: expected > 0 ? actual / expected - 1 : null,
+    };
+  }
+
+  return {
+    hashrate,
+    hashrate_source: supplied ? 'supplied' : 'account_avg_24h',
+    fpps_rate: fppsRate ?? null,
+    difficulty,
+    projections,
+    today,
+    calculated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Format the complete estimate for MCP output
+ */
+function formatResponse(
+  estimate: EstimateEarningsOutput,
+  overview: GetUserOverviewResponse
+): string {
+  const { hashrate, fpps_rate: fppsRate, difficulty, projections, today } = estimate;
+  const lines: string[] = ['## Earnings Estimate', ''];
+  const hashrateSource =
+    estimate.hashrate_source === 'supplied' ? 'supplied' : 'account 24h average';
+
+  lines.push(`**Hashrate**: ${formatHashrate(hashrate)} (${hashrateSource})`);
+  if (fppsRate !== null) {
+    lines.push(`**FPPS Rate**: ${fppsRate.toFixed(8)} BTC/TH/day`);
+  }
+  if (difficulty !== null) {
+    lines.push(`**Network Difficulty**: ${difficulty.toExponential(3)}`);
+  }
+  lines.push('');
+
+  if (projections.length === 0) {
+    lines.push(
+      '*Cannot estimate earnings: neither the FPPS rate nor network difficulty is available.*'
+    );
+    return lines.join('\n');
+  }
+
+  // Projections
+  const { fpps: fppsDaily, subsidy_only: subsidyDaily } = projections[0];
+  lines.push('### Projected Earnings');
+  const header = ['| Period |'];
+  const divider = ['|--------|'];
+  if (fppsDaily !== null) {
+    header.push(' FPPS |');
+    divider.push('------|');
+  }
+  if (subsidyDaily !== null) {
+    header.push(' Subsidy Only |');
+    divider.push('--------------|');
+  }
+  lines.push(header.join(''), divider.join(''));
+  projections.forEach((projection, i) => {
+    const row = [`| ${PERIODS[i].label} |`];
+    if (projection.fpps !== null) row.push(` ${formatBtc(projection.fpps)} |`);
+    if (projection.subsidy_only !== null) row.push(` ${formatBtc(projection.subsidy_only)} |`);
+    lines.push(row.join(''));
+  });
+  lines.push('');
+
+  if (fppsDaily !== null && subsidyDaily !== null && subsidyDaily > 0) {
+    lines.push(
+      `*FPPS pays ${formatPercent(fppsDaily / subsidyDaily - 1)} vs. the subsidy-only estimate; ` +
+        'the difference is transaction fees less the pool fee.*'
+    );
+    lines.push('');
+  }
+
+  // Today: FPPS-implied vs actual
+  if (today !== null) {
+    lines.push('### Today vs FPPS');
+    lines.push('| Metric | Value |');
+    lines.push('|--------|-------|');
+    lines.push(`| FPPS-Implied So Far | ${formatBtc(today.fpps_implied)} |`);
+    lines.push(`| Actual Today | ${formatBtc(today.actual)} |`);
+    lines.push(`| Gap | ${today.gap !== null ? formatPercent(today.gap) : '-'} |`);
+    lines.push('');
+    lines.push(...explainGap(today.gap ?? 0, today.elapsed_fraction, overview));
+  } else {
+    lines.push("*Today's accrued reward is not reported by the API; comparison skipped.*");
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Tool handler implementation
+ */
+async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  // Step 1: Validate and parse input
+  const parseResult = EstimateEarningsInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Fetch account, pool and network data
+    logger.debug('Estimating earnings', { hashrateThs: input.hashrateThs });
+
+    const client = getCachedBraiinsClient(input.account);
+    const overview = await client.getUserOverview();
+    const poolStats = await client.getPoolStats();
+    const difficulty = await fetchDifficulty(client);
+
+    // Step 3: Calculate, format and return estimate
+    const estimate = calculateEstimate({
+      hashrate:
+        input.hashrateThs !== undefined ? input.hashrateThs * 1e12 : overview.hashrate.avg_24h,
+      supplied: input.hashrateThs !== undefined,
+      fppsRate: poolStats.fpps_rate,
+      difficulty,
+      overview,
+      now: new Date(),
+    });
+    const formattedResponse = formatResponse(estimate, overview);
+
+    return buildToolResult(formattedResponse, estimate, input.format);
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('estimateEarnings failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool definition for registration
+ */
+export const estimateEarningsTool: ToolDefinition = {
+  name: 'estimateEarnings',
+  description:
+    'Project daily, weekly and monthly BTC earnings from the pool FPPS rate and your ' +
+    'current (or a supplied) hashrate, with a subsidy-only estimate from network difficulty. ' +
+    "Compares the FPPS-implied reward for today with today's actual reward and explains the gap.",
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      hashrateThs: {
+        type: 'number',
+        description: 'Hashrate to project in TH/s (default: your 24h average hashrate)',
+      },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(EstimateEarningsOutputSchema),
+  handler,
+};
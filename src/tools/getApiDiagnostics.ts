@@ -0,0 +1,181 @@
+/**
+ * getApiDiagnostics MCP Tool
+ *
+ * Reports the health of outbound Braiins API traffic: the client-side rate
+ * limiter and the circuit breaker of every endpoint requested since startup,
+ * so an agent can tell an API outage (open circuits) from throttling.
+ *
+ * @see src/api/circuitBreaker.ts
+ * @see src/api/rateLimiter.ts
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { GetApiDiagnosticsInputSchema } from '../schemas/getApiDiagnosticsInput.js';
+import {
+  GetApiDiagnosticsOutputSchema,
+  type CircuitOutput,
+  type GetApiDiagnosticsOutput,
+} from '../schemas/getApiDiagnosticsOutput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import {
+  CircuitStateEnum,
+  getCircuitBreakers,
+  type CircuitState,
+  type CircuitStatus,
+} from '../api/circuitBreaker.js';
+import { getRateLimiter } from '../api/rateLimiter.js';
+import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, toOutputSchema } from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+const STATE_LABELS: Record<CircuitState, string> = {
+  closed: '🟢 closed',
+  'half-open': '🟡 half-open',
+  open: '🔴 open',
+};
+
+/**
+ * Convert a breaker status to output shape
+ */
+function toOutput(status: CircuitStatus): CircuitOutput {
+  const toIso = (ms: number | null): string | null =>
+    ms !== null ? new Date(ms).toISOString() : null;
+  return {
+    api: status.api,
+    endpoint: status.endpoint,
+    state: status.state,
+    consecutive_failures: status.consecutiveFailures,
+    total_failures: status.totalFailures,
+    total_rejected: status.totalRejected,
+    opened_at: toIso(status.openedAt),
+    last_failure_at: toIso(status.lastFailureAt),
+    last_error: status.lastError,
+    retry_at: toIso(status.retryAt),
+  };
+}
+
+/**
+ * Format diagnostics for MCP output
+ */
+function formatResponse(output: GetApiDiagnosticsOutput): string {
+  const lines: string[] = ['## API Diagnostics', ''];
+
+  const limiter = output.rate_limiter;
+  lines.push('### Rate Limiter');
+  lines.push(
+    `**Available Tokens**: ${limiter.available_tokens} | **Queued**: ${limiter.queue_depth} | ` +
+      `**Admitted**: ${limiter.total_admitted} | **Rejected**: ${limiter.total_rejected}`
+  );
+  lines.push('');
+
+  lines.push('### Circuit Breakers');
+  lines.push(`**Open**: ${output.open_count}`);
+  lines.push('');
+
+  if (output.circuits.length === 0) {
+    lines.push('*No API requests made yet.*');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    '| Endpoint | State | Failures (in a row / total) | Fast-failed | Last Error | Retry At |'
+  );
+  lines.push(
+    '|----------|-------|-----------------------------|-------------|------------|----------|'
+  );
+  for (const circuit of output.circuits) {
+    lines.push(
+      `| ${circuit.endpoint} | ${STATE_LABELS[circuit.state]} | ` +
+        `${circuit.consecutive_failures} / ${circuit.total_failures} | ${circuit.total_rejected} | ` +
+        `${circuit.last_error ?? '-'} | ${circuit.retry_at ?? '-'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Report diagnostics (synchronous: state is held in memory)
+ */
+function getApiDiagnostics(args: Record<string, unknown>): CallToolResult {
+  // Step 1: Validate input
+  const parseResult = GetApiDiagnosticsInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Read limiter and breaker state
+    const stats = getRateLimiter().getStats();
+    const circuits = getCircuitBreakers().list();
+
+    // Step 3: Format and return response
+    const output: GetApiDiagnosticsOutput = {
+      rate_limiter: {
+        available_tokens: stats.availableTokens,
+        queue_depth: stats.queueDepth,
+        total_admitted: stats.totalAdmitted,
+        total_rejected: stats.totalRejected,
+      },
+      open_count: circuits.filter((circuit) => circuit.state !== 'closed').length,
+      circuits: circuits
+        .filter((circuit) => input.state === undefined || circuit.state === input.state)
+        .map(toOutput),
+    };
+
+    return buildToolResult(formatResponse(output), output, input.format);
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('getApiDiagnostics failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool handler implementation
+ */
+function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  return Promise.resolve(getApiDiagnostics(args));
+}
+
+/**
+ * Tool definition for registration
+ */
+export const getApiDiagnosticsTool: ToolDefinition = {
+  name: 'getApiDiagnostics',
+  description:
+    'Show the health of Braiins API access: the client-side rate limiter and the circuit ' +
+    'breaker state of each endpoint. Use when tools fail with CIRCUIT_OPEN, RATE_LIMITED ' +
+    'or network errors to see which endpoints are failing and when they will be retried.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      state: {
+        type: 'string',
+        enum: CircuitStateEnum.options,
+        description: 'Only circuits in this state',
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(GetApiDiagnosticsOutputSchema),
+  handler,
+};
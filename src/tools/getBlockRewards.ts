@@ -0,0 +1,371 @@
+/**
+ * getBlockRewards MCP Tool
+ *
+ * Retrieves the account's reward for each block found by the pool.
+ * Useful for auditing reward shares, checking the reward component
+ * breakdown, and tracking rewards that are still maturing.
+ *
+ * @see docs/API.md Block Rewards API
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import {
+  GetBlockRewardsInputSchema,
+  toApiParams,
+  type GetBlockRewardsInput,
+} from '../schemas/getBlockRewardsInput.js';
+import {
+  GetBlockRewardsResponseSchema,
+  type GetBlockRewardsResponse,
+  type BlockReward,
+  GetBlockRewardsOutputSchema,
+  type GetBlockRewardsOutput,
+} from '../schemas/getBlockRewardsResponse.js';
+import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import {
+  btcToNumber,
+  buildToolResult,
+  toIsoTimestamp,
+  toOutputSchema,
+} from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Maximum number of blocks listed in the table
+ */
+const MAX_LISTED_BLOCKS = 25;
+
+/**
+ * Format BTC amount for display
+ */
+function formatBtc(amount: number): string {
+  if (amount === 0) return '0 BTC';
+  if (amount < 0.00001) return `${amount.toFixed(8)} BTC (${Math.round(amount * 100000000)} sats)`;
+  return `${amount.toFixed(8)} BTC`;
+}
+
+/**
+ * Format hashrate with appropriate units
+ */
+function formatHashrate(hashrate: number): string {
+  const units = ['H/s', 'KH/s', 'MH/s', 'GH/s', 'TH/s', 'PH/s', 'EH/s', 'ZH/s'];
+  let unitIndex = 0;
+  let value = hashrate;
+
+  while (value >= 1000 && unitIndex < units.length - 1) {
+    value /= 1000;
+    unitIndex++;
+  }
+
+  return `${value.toFixed(2)} ${units[unitIndex]}`;
+}
+
+/**
+ * Format timestamp for display
+ */
+function formatTimestamp(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Format a ratio as a percentage, keeping precision for tiny shares
+ */
+function formatPercent(ratio: number): string {
+  const percent = ratio * 100;
+  if (percent === 0) return '0%';
+  if (percent < 0.01) return `${percent.toPrecision(2)}%`;
+  return `${percent.toFixed(2)}%`;
+}
+
+/**
+ * Ratio of user scoring hashrate to pool scoring hashrate for a block
+ */
+function scoringRatio(block: BlockReward): number {
+  if (block.pool_scoring_hashrate === 0) return 0;
+  return block.user_scoring_hashrate / block.pool_scoring_hashrate;
+}
+
+/**
+ * Format maturity state of a block reward
+ */
+function formatMaturity(confirmationsLeft: number): string {
+  if (confirmationsLeft === 0) return '✅ mature';
+  return `⏳ ${confirmationsLeft} left`;
+}
+
+/**
+ * Calculate summary totals from block rewards
+ */
+function calculateTotals(blocks: BlockReward[]): {
+  userReward: number;
+  miningReward: number;
+  bosPlusBonus: number;
+  referralReward: number;
+  referralBonus: number;
+  immatureReward: number;
+  immatureBlocks: number;
+  averageRatio: number;
+} {
+  const totals = blocks.reduce(
+    (acc, block) => {
+      const reward = parseFloat(block.user_reward);
+      acc.userReward += reward;
+      acc.miningReward += parseFloat(block.mining_reward);
+      acc.bosPlusBonus += parseFloat(block.braiinsos_plus_mining_bonus);
+      acc.referralReward += parseFloat(block.referral_reward);
+      acc.referralBonus += parseFloat(block.referral_bonus);
+      acc.ratioSum += scoringRatio(block);
+      if (block.confirmations_left > 0) {
+        acc.immatureReward += reward;
+        acc.immatureBlocks++;
+      }
+      return acc;
+    },
+    {
+      userReward: 0,
+      miningReward: 0,
+      bosPlusBonus: 0,
+      referralReward: 0,
+      referralBonus: 0,
+      immatureReward: 0,
+      immatureBlocks: 0,
+      ratioSum: 0,
+    }
+  );
+
+  const { ratioSum, ...rest } = totals;
+  return { ...rest, averageRatio: blocks.length > 0 ? ratioSum / blocks.length : 0 };
+}
+
+/**
+ * Format a single block as a markdown table row
+ */
+function formatBlock(block: BlockReward): string {
+  return (
+    `| ${block.block_height.toLocaleString()} | ${formatTimestamp(block.found_at)} | ` +
+    `${block.user_reward} | ${block.mining_reward} | ${block.braiinsos_plus_mining_bonus} | ` +
+    `${(parseFloat(block.referral_reward) + parseFloat(block.referral_bonus)).toFixed(8)} | ` +
+    `${formatPercent(scoringRatio(block))} | ${formatMaturity(block.confirmations_left)} |`
+  );
+}
+
+/**
+ * Blocks selected by the tool input (all, or only those still maturing)
+ */
+function selectBlocks(data: GetBlockRewardsResponse, input: GetBlockRewardsInput): BlockReward[] {
+  return input.immatureOnly
+    ? data.block_rewards.filter((block) => block.confirmations_left > 0)
+    : data.block_rewards;
+}
+
+/**
+ * Format the complete API response for MCP output
+ */
+function formatResponse(data: GetBlockRewardsResponse, input: GetBlockRewardsInput): string {
+  const lines: string[] = [`## Block Rewards (${data.currency})`, ''];
+
+  const blocks = selectBlocks(data, input);
+
+  if (blocks.length === 0) {
+    lines.push(
+      input.immatureOnly
+        ? '*No immature block rewards — all rewards in this range have matured.*'
+        : '*No block rewards found for the specified time range.*'
+    );
+    return lines.join('\n');
+  }
+
+  // Period info (blocks are listed newest first)
+  const newest = blocks[0];
+  const oldest = blocks[blocks.length - 1];
+  lines.push(
+    `**Blocks**: ${blocks.length} (#${oldest.block_height.toLocaleString()} → ` +
+      `#${newest.block_height.toLocaleString()})`
+  );
+  lines.push(
+    `**Period**: ${formatTimestamp(oldest.found_at)} → ${formatTimestamp(newest.found_at)}`
+  );
+  lines.push('');
+
+  // Reward share breakdown
+  const totals = calculateTotals(blocks);
+  const shareOf = (amount: number): string =>
+    totals.userReward > 0 ? formatPercent(amount / totals.userReward) : '-';
+
+  lines.push('### Reward Breakdown');
+  lines.push('| Component | Amount | Share |');
+  lines.push('|-----------|--------|-------|');
+  lines.push(`| Mining | ${formatBtc(totals.miningReward)} | ${shareOf(totals.miningReward)} |`);
+  lines.push(
+    `| Braiins OS+ Bonus | ${formatBtc(totals.bosPlusBonus)} | ${shareOf(totals.bosPlusBonus)} |`
+  );
+  lines.push(
+    `| Referral Reward | ${formatBtc(totals.referralReward)} | ${shareOf(totals.referralReward)} |`
+  );
+  lines.push(
+    `| Referral Bonus | ${formatBtc(totals.referralBonus)} | ${shareOf(totals.referralBonus)} |`
+  );
+  lines.push(`| **Total** | **${formatBtc(totals.userReward)}** | 100% |`);
+  lines.push('');
+
+  // Maturity and scoring share
+  lines.push('### Summary');
+  lines.push('| Metric | Value |');
+  lines.push('|--------|-------|');
+  lines.push(
+    `| Immature Rewards | ${formatBtc(totals.immatureReward)} (${totals.immatureBlocks} blocks) |`
+  );
+  lines.push(
+    `| Matured Rewards | ${formatBtc(totals.userReward - totals.immatureReward)} ` +
+      `(${blocks.length - totals.immatureBlocks} blocks) |`
+  );
+  lines.push(`| Avg Scoring Hashrate Share | ${formatPercent(totals.averageRatio)} |`);
+  lines.push(
+    `| Latest Scoring Hashrate | ${formatHashrate(newest.user_scoring_hashrate)} of ` +
+      `${formatHashrate(newest.pool_scoring_hashrate)} |`
+  );
+  lines.push('');
+
+  // Per-block list (newest first)
+  const listed = blocks.slice(0, MAX_LISTED_BLOCKS);
+  lines.push('### Blocks');
+  lines.push(
+    '| Height | Found | Reward (BTC) | Mining | BOS+ Bonus | Referral | Scoring Share | Maturity |'
+  );
+  lines.push(
+    '|--------|-------|--------------|--------|------------|----------|---------------|----------|'
+  );
+  for (const block of listed) {
+    lines.push(formatBlock(block));
+  }
+
+  if (blocks.length > MAX_LISTED_BLOCKS) {
+    lines.push(`*Showing latest ${MAX_LISTED_BLOCKS} of ${blocks.length} blocks*`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Normalize the selected blocks for structured output
+ */
+function toStructuredOutput(
+  data: GetBlockRewardsResponse,
+  input: GetBlockRewardsInput
+): GetBlockRewardsOutput {
+  return {
+    ...data,
+    block_rewards: selectBlocks(data, input).map((block) => ({
+      ...block,
+      found_at: toIsoTimestamp(block.found_at),
+      block_value: btcToNumber(block.block_value),
+      user_reward: btcToNumber(block.user_reward),
+      mining_reward: btcToNumber(block.mining_reward),
+      braiinsos_plus_mining_bonus: btcToNumber(block.braiinsos_plus_mining_bonus),
+      referral_reward: btcToNumber(block.referral_reward),
+      referral_bonus: btcToNumber(block.referral_bonus),
+    })),
+  };
+}
+
+/**
+ * Tool handler implementation
+ */
+async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  // Step 1: Validate and parse input
+  const parseResult = GetBlockRewardsInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Transform to API params and call API
+    const apiParams = toApiParams(input);
+    logger.debug('Fetching block rewards from API', { params: apiParams });
+
+    const client = getCachedBraiinsClient(input.account);
+    const rawData = await client.getBlockRewards(apiParams);
+
+    // Step 3: Validate response matches expected schema
+    const validationResult = GetBlockRewardsResponseSchema.safeParse(rawData);
+    if (!validationResult.success) {
+      logger.error('API response validation failed', {
+        issues: validationResult.error.issues,
+      });
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected block rewards response format', ErrorCode.API_ERROR, 502);
+    }
+
+    // Step 4: Format and return response
+    const formattedResponse = formatResponse(validationResult.data, input);
+
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data, input),
+      input.format
+    );
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('getBlockRewards failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool definition for registration
+ */
+export const getBlockRewardsTool: ToolDefinition = {
+  name: 'getBlockRewards',
+  description:
+    'Get your reward for each block found by Braiins Pool in a date range. ' +
+    'Shows the reward breakdown (mining, Braiins OS+ bonus, referral), your share of the ' +
+    "pool's scoring hashrate at each block, and which rewards are still immature.",
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      from: {
+        type: 'string',
+        description: 'Start timestamp (ISO 8601, e.g., 2025-01-01T00:00:00Z)',
+      },
+      to: {
+        type: 'string',
+        description: 'End timestamp (ISO 8601, e.g., 2025-01-07T00:00:00Z)',
+      },
+      immatureOnly: {
+        type: 'boolean',
+        description: 'Only list blocks whose rewards still await confirmations (default: false)',
+      },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(GetBlockRewardsOutputSchema),
+  handler,
+};
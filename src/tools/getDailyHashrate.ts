@@ -0,0 +1,238 @@
+/**
+ * getDailyHashrate MCP Tool
+ *
+ * Retrieves daily average hashrate and share counts for the authenticated
+ * account or its user group. Useful for reviewing long-term capacity trends
+ * beyond the short windows of the worker hashrate timeseries.
+ *
+ * @see docs/API.md Daily Hashrate API
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { GetDailyHashrateInputSchema } from '../schemas/getDailyHashrateInput.js';
+import {
+  GetDailyHashrateResponseSchema,
+  type GetDailyHashrateResponse,
+  GetDailyHashrateOutputSchema,
+  type GetDailyHashrateOutput,
+} from '../schemas/getDailyHashrateResponse.js';
+import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, toIsoTimestamp, toOutputSchema } from '../utils/structuredOutput.js';
+import { calculateStats, generateSparkline } from '../utils/timeseries.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Maximum number of days listed in the breakdown table
+ */
+const MAX_LISTED_DAYS = 14;
+
+/**
+ * Format hashrate for human readability
+ * Converts H/s to appropriate unit (TH/s, PH/s, EH/s)
+ */
+function formatHashrate(hashrate: number): string {
+  const units = ['H/s', 'KH/s', 'MH/s', 'GH/s', 'TH/s', 'PH/s', 'EH/s'];
+  let unitIndex = 0;
+  let value = hashrate;
+
+  while (value >= 1000 && unitIndex < units.length - 1) {
+    value /= 1000;
+    unitIndex++;
+  }
+
+  return `${value.toFixed(2)} ${units[unitIndex]}`;
+}
+
+/**
+ * Format date only
+ */
+function formatDate(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Format relative change between two values
+ */
+function formatChange(from: number, to: number): string {
+  if (from === 0) return '-';
+  const change = ((to - from) / from) * 100;
+  const sign = change > 0 ? '+' : '';
+  return `${sign}${change.toFixed(1)}%`;
+}
+
+/**
+ * Format the complete API response for MCP output
+ */
+function formatResponse(data: GetDailyHashrateResponse, days: number): string {
+  const title = data.scope === 'group' ? 'User Group' : 'Account';
+  const lines: string[] = [`## Daily Hashrate: ${title}`, ''];
+
+  const points = data.points.slice(-days);
+
+  if (points.length === 0) {
+    lines.push('*No daily hashrate data available.*');
+    return lines.join('\n');
+  }
+
+  // Time range info
+  const firstPoint = points[0];
+  const lastPoint = points[points.length - 1];
+  lines.push(
+    `**Period**: ${formatDate(firstPoint.timestamp)} → ${formatDate(lastPoint.timestamp)}`
+  );
+  lines.push(`**Days**: ${points.length}`);
+  lines.push('');
+
+  // Statistics
+  const hashrates = points.map((p) => p.hashrate_24h);
+  const stats = calculateStats(hashrates);
+  const totalShares = points.reduce((sum, p) => sum + p.total_shares, 0);
+  lines.push('### Statistics');
+  lines.push(`| Metric | Value |`);
+  lines.push(`|--------|-------|`);
+  lines.push(`| Latest Day | ${formatHashrate(stats.latest)} |`);
+  lines.push(`| Average | ${formatHashrate(stats.avg)} |`);
+  lines.push(`| Minimum | ${formatHashrate(stats.min)} |`);
+  lines.push(`| Maximum | ${formatHashrate(stats.max)} |`);
+  lines.push(`| Change (first → latest) | ${formatChange(hashrates[0], stats.latest)} |`);
+  lines.push(`| Total Shares | ${totalShares.toLocaleString()} |`);
+  lines.push('');
+
+  // Sparkline visualization
+  const sparkline = generateSparkline(hashrates, 30);
+  if (sparkline) {
+    lines.push('### Trend');
+    lines.push('```');
+    lines.push(sparkline);
+    lines.push('```');
+    lines.push('');
+  }
+
+  // Recent days
+  const recentPoints = points.slice(-MAX_LISTED_DAYS);
+  lines.push('### Daily Breakdown');
+  lines.push(`| Date | Avg Hashrate | Shares |`);
+  lines.push(`|------|--------------|--------|`);
+  for (const point of recentPoints) {
+    lines.push(
+      `| ${formatDate(point.timestamp)} | ${formatHashrate(point.hashrate_24h)} | ` +
+        `${point.total_shares.toLocaleString()} |`
+    );
+  }
+
+  if (points.length > MAX_LISTED_DAYS) {
+    lines.push(`*Showing last ${MAX_LISTED_DAYS} of ${points.length} days*`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Normalize the requested days of the response for structured output
+ */
+function toStructuredOutput(data: GetDailyHashrateResponse, days: number): GetDailyHashrateOutput {
+  return {
+    ...data,
+    points: data.points
+      .slice(-days)
+      .map((point) => ({ ...point, timestamp: toIsoTimestamp(point.timestamp) })),
+  };
+}
+
+/**
+ * Tool handler implementation
+ */
+async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  // Step 1: Validate and parse input
+  const parseResult = GetDailyHashrateInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Call API
+    logger.debug('Fetching daily hashrate from API', { scope: input.scope });
+
+    const client = getCachedBraiinsClient(input.account);
+    const rawData = await client.getDailyHashrate(input.scope);
+
+    // Step 3: Validate response matches expected schema
+    const validationResult = GetDailyHashrateResponseSchema.safeParse(rawData);
+    if (!validationResult.success) {
+      logger.error('API response validation failed', {
+        issues: validationResult.error.issues,
+      });
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected daily hashrate response format', ErrorCode.API_ERROR, 502);
+    }
+
+    // Step 4: Format and return response
+    const formattedResponse = formatResponse(validationResult.data, input.days);
+
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data, input.days),
+      input.format
+    );
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('getDailyHashrate failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool definition for registration
+ */
+export const getDailyHashrateTool: ToolDefinition = {
+  name: 'getDailyHashrate',
+  description:
+    'Get daily average hashrate and total shares for your Braiins Pool account or its user group. ' +
+    'Shows long-term statistics, a trend sparkline, and a day-by-day breakdown ' +
+    'for capacity planning beyond the short worker hashrate windows.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      scope: {
+        type: 'string',
+        enum: ['user', 'group'],
+        description: 'user for your account, group for your user group (default: user)',
+      },
+      days: {
+        type: 'number',
+        description: 'Number of most recent days to include, max 365 (default: 30)',
+      },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(GetDailyHashrateOutputSchema),
+  handler,
+};
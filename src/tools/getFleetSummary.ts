@@ -0,0 +1,445 @@
+/**
+ * getFleetSummary MCP Tool
+ *
+ * Rolls up the user overview of every configured Braiins account: total
+ * hashrate, worker state counts, balances and today's rewards, with each
+ * account's contribution and a list of accounts that failed to respond.
+ *
+ * Accounts are queried in parallel. Every request still passes through the
+ * shared rate limiter, so large fleets queue rather than burst past
+ * RATE_LIMIT_RPS; requests the limiter rejects are reported as failures.
+ *
+ * @see API.md Section 5.1
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { GetFleetSummaryInputSchema } from '../schemas/getFleetSummaryInput.js';
+import {
+  GetUserOverviewResponseSchema,
+  type GetUserOverviewResponse,
+} from '../schemas/getUserOverviewResponse.js';
+import {
+  GetFleetSummaryOutputSchema,
+  type GetFleetSummaryOutput,
+} from '../schemas/getFleetSummaryOutput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { getAccountRegistry, type Account } from '../config/accounts.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { btcToNumber, buildToolResult, toOutputSchema } from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Overview fetched for one account
+ */
+interface AccountOverview {
+  account: string;
+  overview: GetUserOverviewResponse;
+}
+
+/**
+ * Account that could not be summarized
+ */
+interface AccountFailure {
+  account: string;
+  error: BraiinsError;
+}
+
+/**
+ * Fleet-wide totals (BTC amounts in satoshis)
+ */
+interface FleetTotals {
+  hashrateCurrent: number;
+  hashrate1h: number;
+  hashrate24h: number;
+  workersActive: number;
+  workersInactive: number;
+  workersTotal: number;
+  workersOk: number;
+  workersLow: number;
+  workersOff: number;
+  workersDis: number;
+  withoutStates: string[];
+  confirmedSats: number;
+  unconfirmedSats: number;
+  todaySats: number;
+  withoutToday: string[];
+}
+
+/**
+ * Format hashrate for human readability
+ * Converts H/s to appropriate unit (TH/s, PH/s, EH/s)
+ */
+function formatHashrate(hashrate: number): string {
+  const units = ['H/s', 'KH/s', 'MH/s', 'GH/s', 'TH/s', 'PH/s', 'EH/s'];
+  let unitIndex = 0;
+  let value = hashrate;
+
+  while (value >= 1000 && unitIndex < units.length - 1) {
+    value /= 1000;
+    unitIndex++;
+  }
+
+  return `${value.toFixed(2)} ${units[unitIndex]}`;
+}
+
+/**
+ * Convert a BTC amount string to satoshis so totals add up exactly
+ */
+function toSats(btc: string): number {
+  const value = parseFloat(btc);
+  return Number.isFinite(value) ? Math.round(value * 100000000) : 0;
+}
+
+/**
+ * Format satoshis as BTC
+ */
+function formatBtc(sats: number): string {
+  return `${(sats / 100000000).toFixed(8)} BTC`;
+}
+
+/**
+ * Add up hashrate, workers and balances across accounts
+ */
+function calculateTotals(results: AccountOverview[]): FleetTotals {
+  const totals: FleetTotals = {
+    hashrateCurrent: 0,
+    hashrate1h: 0,
+    hashrate24h: 0,
+    workersActive: 0,
+    workersInactive: 0,
+    workersTotal: 0,
+    workersOk: 0,
+    workersLow: 0,
+    workersOff: 0,
+    workersDis: 0,
+    withoutStates: [],
+    confirmedSats: 0,
+    unconfirmedSats: 0,
+    todaySats: 0,
+    withoutToday: [],
+  };
+
+  for (const { account, overview } of results) {
+    const { hashrate, workers, rewards } = overview;
+    totals.hashrateCurrent += hashrate.current;
+    totals.hashrate1h += hashrate.avg_1h;
+    totals.hashrate24h += hashrate.avg_24h;
+
+    totals.workersActive += workers.active;
+    totals.workersInactive += workers.inactive;
+    totals.workersTotal += workers.total;
+    if (
+      workers.ok !== undefined &&
+      workers.low !== undefined &&
+      workers.off !== undefined &&
+      workers.dis !== undefined
+    ) {
+      totals.workersOk += workers.ok;
+      totals.workersLow += workers.low;
+      totals.workersOff += workers.off;
+      totals.workersDis += workers.dis;
+    } else {
+      totals.withoutStates.push(account);
+    }
+
+    totals.confirmedSats += toSats(rewards.confirmed);
+    totals.unconfirmedSats += toSats(rewards.unconfirmed);
+    if (rewards.today_reward !== undefined) {
+      totals.todaySats += toSats(rewards.today_reward);
+    } else {
+      totals.withoutToday.push(account);
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Format a share of the fleet total as a percentage
+ */
+function formatShare(value: number, total: number): string {
+  return total > 0 ? `${((value / total) * 100).toFixed(1)}%` : '-';
+}
+
+/**
+ * Format the fleet rollup for MCP output
+ */
+function formatResponse(
+  results: AccountOverview[],
+  failures: AccountFailure[],
+  requested: number
+): string {
+  const lines: string[] = ['## Fleet Summary', ''];
+  lines.push(`**Accounts**: ${results.length} of ${requested} responded`);
+  lines.push('');
+
+  if (results.length > 0) {
+    const totals = calculateTotals(results);
+
+    lines.push('### Totals');
+    lines.push('| Metric | Value |');
+    lines.push('|--------|-------|');
+    lines.push(`| Hashrate (current) | ${formatHashrate(totals.hashrateCurrent)} |`);
+    lines.push(`| Hashrate (1h avg) | ${formatHashrate(totals.hashrate1h)} |`);
+    lines.push(`| Hashrate (24h avg) | ${formatHashrate(totals.hashrate24h)} |`);
+    lines.push(
+      `| Workers | ${totals.workersActive} active / ${totals.workersInactive} inactive ` +
+        `/ ${totals.workersTotal} total |`
+    );
+    if (totals.withoutStates.length < results.length) {
+      lines.push(
+        `| Worker States | 🟢 ${totals.workersOk} OK · 🟡 ${totals.workersLow} Low · ` +
+          `🔴 ${totals.workersOff} Off · ⚫ ${totals.workersDis} Disabled |`
+      );
+    }
+    lines.push(`| Confirmed Balance | ${formatBtc(totals.confirmedSats)} |`);
+    lines.push(`| Unconfirmed Balance | ${formatBtc(totals.unconfirmedSats)} |`);
+    if (totals.withoutToday.length < results.length) {
+      lines.push(`| Today's Rewards | ${formatBtc(totals.todaySats)} |`);
+    }
+    lines.push('');
+
+    if (totals.withoutStates.length > 0 && totals.withoutStates.length < results.length) {
+      lines.push(`*Worker states exclude ${totals.withoutStates.join(', ')} (not reported).*`);
+    }
+    if (totals.withoutToday.length > 0 && totals.withoutToday.length < results.length) {
+      lines.push(`*Today's rewards exclude ${totals.withoutToday.join(', ')} (not reported).*`);
+    }
+    if (totals.workersLow > 0) {
+      lines.push(`⚠️ ${totals.workersLow} worker(s) are hashing below the alert threshold.`);
+    }
+    if (lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+
+    // Per-account contribution, largest first
+    const sorted = [...results].sort(
+      (a, b) => b.overview.hashrate.avg_24h - a.overview.hashrate.avg_24h
+    );
+    lines.push('### By Account');
+    lines.push(
+      '| Account | User | Hashrate (24h) | Share | Workers (active/total) | Confirmed | Unconfirmed | Today |'
+    );
+    lines.push(
+      '|---------|------|----------------|-------|------------------------|-----------|-------------|-------|'
+    );
+    for (const { account, overview } of sorted) {
+      const today = overview.rewards.today_reward;
+      lines.push(
+        `| ${account} | ${overview.username} | ${formatHashrate(overview.hashrate.avg_24h)} | ` +
+          `${formatShare(overview.hashrate.avg_24h, totals.hashrate24h)} | ` +
+          `${overview.workers.active}/${overview.workers.total} | ` +
+          `${formatBtc(toSats(overview.rewards.confirmed))} | ` +
+          `${formatBtc(toSats(overview.rewards.unconfirmed))} | ` +
+          `${today !== undefined ? formatBtc(toSats(today)) : '-'} |`
+      );
+    }
+    lines.push('');
+  }
+
+  if (failures.length > 0) {
+    lines.push('### ⚠️ Failed Accounts');
+    lines.push('| Account | Error | Message |');
+    lines.push('|---------|-------|---------|');
+    for (const { account, error } of failures) {
+      lines.push(`| ${account} | ${error.code} | ${error.message} |`);
+    }
+    lines.push('');
+    if (failures.some(({ error }) => error.code === ErrorCode.RATE_LIMITED)) {
+      lines.push('*Some accounts were rate limited; retry shortly or raise RATE_LIMIT_BURST.*');
+      lines.push('');
+    }
+    lines.push('*Totals only include accounts that responded.*');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Build the structured output of the fleet rollup
+ */
+function toStructuredOutput(
+  results: AccountOverview[],
+  failures: AccountFailure[],
+  requested: number
+): GetFleetSummaryOutput {
+  const totals = results.length > 0 ? calculateTotals(results) : undefined;
+  const sorted = [...results].sort(
+    (a, b) => b.overview.hashrate.avg_24h - a.overview.hashrate.avg_24h
+  );
+
+  return {
+    accounts_requested: requested,
+    accounts_responded: results.length,
+    totals:
+      totals !== undefined
+        ? {
+            hashrate: {
+              current: totals.hashrateCurrent,
+              avg_1h: totals.hashrate1h,
+              avg_24h: totals.hashrate24h,
+            },
+            workers_active: totals.workersActive,
+            workers_inactive: totals.workersInactive,
+            workers_total: totals.workersTotal,
+            worker_states:
+              totals.withoutStates.length < results.length
+                ? {
+                    ok: totals.workersOk,
+                    low: totals.workersLow,
+                    off: totals.workersOff,
+                    dis: totals.workersDis,
+                  }
+                : null,
+            worker_states_missing: totals.withoutStates,
+            confirmed: totals.confirmedSats / 100000000,
+            unconfirmed: totals.unconfirmedSats / 100000000,
+            today_reward:
+              totals.withoutToday.length < results.length ? totals.todaySats / 100000000 : null,
+            today_reward_missing: totals.withoutToday,
+          }
+        : null,
+    accounts: sorted.map(({ account, overview }) => ({
+      account,
+      username: overview.username,
+      hashrate: {
+        current: overview.hashrate.current,
+        avg_1h: overview.hashrate.avg_1h,
+        avg_24h: overview.hashrate.avg_24h,
+      },
+      share:
+        totals !== undefined && totals.hashrate24h > 0
+          ? overview.hashrate.avg_24h / totals.hashrate24h
+          : null,
+      workers_active: overview.workers.active,
+      workers_total: overview.workers.total,
+      confirmed: btcToNumber(overview.rewards.confirmed),
+      unconfirmed: btcToNumber(overview.rewards.unconfirmed),
+      today_reward:
+        overview.rewards.today_reward !== undefined
+          ? btcToNumber(overview.rewards.today_reward)
+          : null,
+    })),
+    failures: failures.map(({ account, error }) => ({
+      account,
+      code: error.code,
+      message: error.message,
+    })),
+  };
+}
+
+/**
+ * Fetch and validate the overview of one account
+ */
+async function fetchOverview(account: Account): Promise<GetUserOverviewResponse> {
+  const rawData = await getCachedBraiinsClient(account.name).getUserOverview();
+  const validationResult = GetUserOverviewResponseSchema.safeParse(rawData);
+  if (!validationResult.success) {
+    logger.error('API response validation failed', {
+      account: account.name,
+      issues: validationResult.error.issues,
+    });
+    throw new BraiinsError('Unexpected user overview response format', ErrorCode.API_ERROR, 502);
+  }
+  return validationResult.data;
+}
+
+/**
+ * Tool handler implementation
+ */
+async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  // Step 1: Validate and parse input
+  const parseResult = GetFleetSummaryInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Resolve accounts (unknown names fail the whole call)
+    const registry = getAccountRegistry();
+    const accounts =
+      input.accounts !== undefined
+        ? [...new Set(input.accounts)].map((name) => registry.resolve(name))
+        : registry.list();
+
+    // Step 3: Fan out in parallel; the shared rate limiter paces the requests
+    logger.debug('Fetching fleet summary', { accounts: accounts.map((a) => a.name) });
+    const settled = await Promise.allSettled(accounts.map((account) => fetchOverview(account)));
+
+    const results: AccountOverview[] = [];
+    const failures: AccountFailure[] = [];
+    settled.forEach((outcome, index) => {
+      const account = accounts[index].name;
+      if (outcome.status === 'fulfilled') {
+        results.push({ account, overview: outcome.value });
+      } else {
+        const error = toBraiinsError(outcome.reason);
+        logger.warn('Fleet summary account failed', {
+          account,
+          code: error.code,
+          message: error.message,
+        });
+        failures.push({ account, error });
+      }
+    });
+
+    // Step 4: Format and return response
+    const formattedResponse = formatResponse(results, failures, accounts.length);
+
+    return {
+      ...buildToolResult(
+        formattedResponse,
+        toStructuredOutput(results, failures, accounts.length),
+        input.format
+      ),
+      ...(results.length === 0 && { isError: true }),
+    };
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('getFleetSummary failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool definition for registration
+ */
+export const getFleetSummaryTool: ToolDefinition = {
+  name: 'getFleetSummary',
+  description:
+    'Roll up all configured Braiins Pool accounts in one call: total hashrate, worker state ' +
+    "counts, confirmed and unconfirmed balances, and today's rewards, with each account's " +
+    'share and any accounts that failed to respond. Accounts are queried in parallel.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      accounts: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Accounts to include (default: all accounts from listAccounts)',
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(GetFleetSummaryOutputSchema),
+  handler,
+};
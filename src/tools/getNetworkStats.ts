@@ -12,10 +12,15 @@ import { GetNetworkStatsInputSchema } from '../schemas/getNetworkStatsInput.js';
 import {
   GetNetworkStatsResponseSchema,
   type GetNetworkStatsResponse,
+  GetNetworkStatsOutputSchema,
+  type GetNetworkStatsOutput,
 } from '../schemas/getNetworkStatsResponse.js';
 import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
-import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { buildToolResult, toIsoTimestamp, toOutputSchema } from '../utils/structuredOutput.js';
 import type { ToolDefinition } from './index.js';
 
 /**
@@ -139,11 +144,21 @@ function formatResponse(data: GetNetworkStatsResponse): string {
   return lines.join('\n');
 }
 
+/**
+ * Normalize the response for structured output
+ */
+function toStructuredOutput(data: GetNetworkStatsResponse): GetNetworkStatsOutput {
+  return {
+    ...data,
+    next_difficulty_change_eta: toIsoTimestamp(data.next_difficulty_change_eta),
+  };
+}
+
 /**
  * Tool handler implementation
  */
 async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
-  // Step 1: Validate input (should be empty object)
+  // Step 1: Validate input (only the optional account)
   const parseResult = GetNetworkStatsInputSchema.safeParse(args);
   if (!parseResult.success) {
     const error = new ValidationError('Invalid input parameters', {
@@ -159,7 +174,7 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
   try {
     // Step 2: Call API
     logger.debug('Fetching network stats from API');
-    const client = getCachedBraiinsClient();
+    const client = getCachedBraiinsClient(parseResult.data.account);
     const rawData = await client.getNetworkStats();
 
     // Step 3: Validate response matches expected schema
@@ -168,18 +183,18 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       logger.error('API response validation failed', {
         issues: validationResult.error.issues,
       });
-      // Return raw data if validation fails
-      return {
-        content: [{ type: 'text', text: JSON.stringify(rawData, null, 2) } as TextContent],
-      };
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected network stats response format', ErrorCode.API_ERROR, 502);
     }
 
     // Step 4: Format and return response
     const formattedResponse = formatResponse(validationResult.data);
 
-    return {
-      content: [{ type: 'text', text: formattedResponse } as TextContent],
-    };
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data),
+      parseResult.data.format
+    );
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('getNetworkStats failed', {
@@ -204,8 +219,12 @@ export const getNetworkStatsTool: ToolDefinition = {
     'estimated network hashrate, block timing metrics, and next difficulty adjustment ETA.',
   inputSchema: {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [],
   },
+  outputSchema: toOutputSchema(GetNetworkStatsOutputSchema),
   handler,
 };
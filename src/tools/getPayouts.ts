@@ -0,0 +1,311 @@
+/**
+ * getPayouts MCP Tool
+ *
+ * Retrieves on-chain and Lightning payout transactions for the authenticated
+ * account. Useful for reconciling payouts, spotting failed or stuck payouts,
+ * and tracking payout fees.
+ *
+ * @see docs/API.md Payouts API
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import {
+  GetPayoutsInputSchema,
+  toApiParams,
+  type GetPayoutsInput,
+} from '../schemas/getPayoutsInput.js';
+import {
+  GetPayoutsResponseSchema,
+  type GetPayoutsResponse,
+  type Payout,
+  GetPayoutsOutputSchema,
+  type GetPayoutsOutput,
+} from '../schemas/getPayoutsResponse.js';
+import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import {
+  buildToolResult,
+  toIsoTimestamp,
+  toIsoTimestampOrNull,
+  toOutputSchema,
+} from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Maximum number of payouts listed in the table
+ */
+const MAX_LISTED_PAYOUTS = 20;
+
+/**
+ * Format satoshi amount as BTC with sats in parentheses
+ */
+function formatSats(sats: number): string {
+  if (sats === 0) return '0 BTC';
+  return `${(sats / 100000000).toFixed(8)} BTC (${sats.toLocaleString()} sats)`;
+}
+
+/**
+ * Format date only
+ */
+function formatDate(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Shorten long addresses, invoices and tx ids for table display
+ */
+function truncateMiddle(value: string, keep: number = 8): string {
+  if (value.length <= keep * 2 + 1) return value;
+  return `${value.slice(0, keep)}…${value.slice(-keep)}`;
+}
+
+/**
+ * Format status with visual indicator
+ */
+function formatStatus(status: string): string {
+  switch (status) {
+    case 'confirmed':
+      return '✅ confirmed';
+    case 'queued':
+      return '⏳ queued';
+    case 'failed':
+      return '❌ failed';
+    default:
+      return status;
+  }
+}
+
+/**
+ * Format payout type
+ */
+function formatType(type: string): string {
+  return type === 'lightning' ? '⚡ Lightning' : '⛓️ On-chain';
+}
+
+/**
+ * Apply status and type filters from the tool input
+ */
+function filterPayouts(payouts: Payout[], input: GetPayoutsInput): Payout[] {
+  return payouts.filter(
+    (payout) =>
+      (input.status === 'all' || payout.status === input.status) &&
+      (input.type === 'all' || payout.type === input.type)
+  );
+}
+
+/**
+ * Calculate summary totals from payouts
+ */
+function calculateTotals(payouts: Payout[]): {
+  totalAmount: number;
+  totalFees: number;
+  confirmedAmount: number;
+  queuedAmount: number;
+  failedAmount: number;
+  counts: Record<Payout['status'], number>;
+} {
+  return payouts.reduce(
+    (acc, payout) => {
+      acc.totalAmount += payout.amount_sats;
+      acc.totalFees += payout.fee_sats;
+      acc.counts[payout.status]++;
+      if (payout.status === 'confirmed') acc.confirmedAmount += payout.amount_sats;
+      if (payout.status === 'queued') acc.queuedAmount += payout.amount_sats;
+      if (payout.status === 'failed') acc.failedAmount += payout.amount_sats;
+      return acc;
+    },
+    {
+      totalAmount: 0,
+      totalFees: 0,
+      confirmedAmount: 0,
+      queuedAmount: 0,
+      failedAmount: 0,
+      counts: { queued: 0, confirmed: 0, failed: 0 },
+    }
+  );
+}
+
+/**
+ * Format a single payout as a markdown table row
+ */
+function formatPayout(payout: Payout): string {
+  const reference = payout.tx_id ?? payout.invoice;
+  return (
+    `| ${formatDate(payout.requested_at)} | ${formatType(payout.type)} | ` +
+    `${formatStatus(payout.status)} | ${payout.amount_sats.toLocaleString()} | ` +
+    `${payout.fee_sats.toLocaleString()} | ${truncateMiddle(payout.destination)} | ` +
+    `${reference !== null ? `\`${truncateMiddle(reference)}\`` : '-'} |`
+  );
+}
+
+/**
+ * Format the complete API response for MCP output
+ */
+function formatResponse(data: GetPayoutsResponse, input: GetPayoutsInput): string {
+  const lines: string[] = [`## Payouts (${data.currency})`, ''];
+
+  const payouts = filterPayouts(data.payouts, input);
+
+  if (payouts.length === 0) {
+    lines.push('*No payouts found for the specified time range and filters.*');
+    return lines.join('\n');
+  }
+
+  // Period info (payouts are listed newest first)
+  const newest = payouts[0];
+  const oldest = payouts[payouts.length - 1];
+  lines.push(`**Period**: ${formatDate(oldest.requested_at)} → ${formatDate(newest.requested_at)}`);
+  lines.push(`**Payouts**: ${payouts.length}`);
+  lines.push('');
+
+  // Summary totals
+  const totals = calculateTotals(payouts);
+  lines.push('### Summary');
+  lines.push(`| Metric | Value |`);
+  lines.push(`|--------|-------|`);
+  lines.push(`| Total Paid Out | ${formatSats(totals.totalAmount)} |`);
+  lines.push(`| Total Fees | ${formatSats(totals.totalFees)} |`);
+  lines.push(`| Confirmed | ${totals.counts.confirmed} (${formatSats(totals.confirmedAmount)}) |`);
+  lines.push(`| Queued | ${totals.counts.queued} (${formatSats(totals.queuedAmount)}) |`);
+  lines.push(`| Failed | ${totals.counts.failed} (${formatSats(totals.failedAmount)}) |`);
+  lines.push('');
+
+  // Payout list (newest first)
+  const listed = payouts.slice(0, MAX_LISTED_PAYOUTS);
+  lines.push('### Transactions');
+  lines.push(
+    '| Requested | Type | Status | Amount (sats) | Fee (sats) | Destination | Tx / Invoice |'
+  );
+  lines.push(
+    '|-----------|------|--------|---------------|------------|-------------|--------------|'
+  );
+  for (const payout of listed) {
+    lines.push(formatPayout(payout));
+  }
+
+  if (payouts.length > MAX_LISTED_PAYOUTS) {
+    lines.push(`*Showing latest ${MAX_LISTED_PAYOUTS} of ${payouts.length} payouts*`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Normalize the filtered payouts for structured output
+ */
+function toStructuredOutput(data: GetPayoutsResponse, input: GetPayoutsInput): GetPayoutsOutput {
+  return {
+    ...data,
+    payouts: filterPayouts(data.payouts, input).map((payout) => ({
+      ...payout,
+      requested_at: toIsoTimestamp(payout.requested_at),
+      resolved_at: toIsoTimestampOrNull(payout.resolved_at),
+    })),
+  };
+}
+
+/**
+ * Tool handler implementation
+ */
+async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  // Step 1: Validate and parse input
+  const parseResult = GetPayoutsInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Transform to API params and call API
+    const apiParams = toApiParams(input);
+    logger.debug('Fetching payouts from API', { params: apiParams });
+
+    const client = getCachedBraiinsClient(input.account);
+    const rawData = await client.getPayouts(apiParams);
+
+    // Step 3: Validate response matches expected schema
+    const validationResult = GetPayoutsResponseSchema.safeParse(rawData);
+    if (!validationResult.success) {
+      logger.error('API response validation failed', {
+        issues: validationResult.error.issues,
+      });
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected payouts response format', ErrorCode.API_ERROR, 502);
+    }
+
+    // Step 4: Format and return response
+    const formattedResponse = formatResponse(validationResult.data, input);
+
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data, input),
+      input.format
+    );
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('getPayouts failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool definition for registration
+ */
+export const getPayoutsTool: ToolDefinition = {
+  name: 'getPayouts',
+  description:
+    'List on-chain and Lightning payout transactions for your Braiins Pool account. ' +
+    'Shows status (queued, confirmed, failed), amount and fee in sats, destination, ' +
+    'and transaction ID or invoice, with summary totals. Supports date range and status filters.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      from: {
+        type: 'string',
+        description: 'Start timestamp (ISO 8601, e.g., 2025-01-01T00:00:00Z)',
+      },
+      to: {
+        type: 'string',
+        description: 'End timestamp (ISO 8601, e.g., 2025-01-10T00:00:00Z)',
+      },
+      status: {
+        type: 'string',
+        enum: ['queued', 'confirmed', 'failed', 'all'],
+        description: 'Filter by payout status (default: all)',
+      },
+      type: {
+        type: 'string',
+        enum: ['onchain', 'lightning', 'all'],
+        description: 'Filter by payout type (default: all)',
+      },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(GetPayoutsOutputSchema),
+  handler,
+};
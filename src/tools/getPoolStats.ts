@@ -2,7 +2,8 @@
  * getPoolStats MCP Tool
  *
  * Retrieves global Braiins Pool statistics including total hashrate,
- * active workers, last block found, and luck metrics.
+ * active workers, last block found, luck metrics, and the most recent
+ * blocks with per-block luck and the user's reward.
  *
  * @see API.md Section 7.1
  */
@@ -12,10 +13,21 @@ import { GetPoolStatsInputSchema } from '../schemas/getPoolStatsInput.js';
 import {
   GetPoolStatsResponseSchema,
   type GetPoolStatsResponse,
+  type PoolBlock,
+  GetPoolStatsOutputSchema,
+  type GetPoolStatsOutput,
 } from '../schemas/getPoolStatsResponse.js';
-import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
-import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { getCachedBraiinsClient, type CachedBraiinsClient } from '../api/cachedBraiinsClient.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import {
+  btcToNumber,
+  buildToolResult,
+  toIsoTimestamp,
+  toOutputSchema,
+} from '../utils/structuredOutput.js';
 import type { ToolDefinition } from './index.js';
 
 /**
@@ -76,10 +88,124 @@ function formatNumber(num: number): string {
   return num.toLocaleString();
 }
 
+/**
+ * Format a round duration in seconds as hours and minutes
+ */
+function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${minutes}m`;
+}
+
+/**
+ * Expected hashes to find a block at the given difficulty
+ */
+const HASHES_PER_DIFFICULTY = 2 ** 32;
+
+/**
+ * Calculate per-block luck as expected round duration / actual duration
+ *
+ * With the network difficulty, the expected duration is difficulty * 2^32
+ * divided by the pool's scoring hashrate at the block (falling back to the
+ * current pool hashrate). Without it, the window's mean round duration is
+ * used, so luck is relative to the other listed blocks.
+ */
+function calculateBlockLuck(
+  blocks: PoolBlock[],
+  poolHashrate: number,
+  difficulty: number | null
+): (number | null)[] {
+  const meanDuration =
+    blocks.reduce((sum, block) => sum + block.mining_duration, 0) / Math.max(blocks.length, 1);
+
+  return blocks.map((block) => {
+    if (block.mining_duration <= 0) return null;
+    const hashrate = block.pool_scoring_hashrate ?? poolHashrate;
+    const expected =
+      difficulty !== null && hashrate > 0
+        ? (difficulty * HASHES_PER_DIFFICULTY) / hashrate
+        : meanDuration;
+    return expected / block.mining_duration;
+  });
+}
+
+/**
+ * Format the recent blocks section
+ */
+function formatRecentBlocks(
+  blocks: PoolBlock[],
+  poolHashrate: number,
+  difficulty: number | null
+): string[] {
+  const luck = calculateBlockLuck(blocks, poolHashrate, difficulty);
+  const lines: string[] = [
+    `### Recent Blocks (${blocks.length})`,
+    '| Height | Found | Round | Luck | Shares | State | Value (BTC) | Your Reward (BTC) |',
+    '|--------|-------|-------|------|--------|-------|-------------|-------------------|',
+  ];
+
+  blocks.forEach((block, i) => {
+    const blockLuck = luck[i];
+    const state =
+      block.confirmations_left > 0
+        ? `${block.state} (${block.confirmations_left} left)`
+        : block.state;
+    lines.push(
+      `| ${formatNumber(block.height)} | ${formatRelativeTime(block.found_at)} | ` +
+        `${formatDuration(block.mining_duration)} | ` +
+        `${blockLuck !== null ? `${(blockLuck * 100).toFixed(0)}%` : '-'} | ` +
+        `${formatNumber(block.total_shares)} | ${state} | ${block.value} | ${block.user_reward} |`
+    );
+  });
+
+  // Window luck and personal reward across the listed blocks
+  const totalDuration = blocks.reduce((sum, block) => sum + block.mining_duration, 0);
+  const expectedDuration = luck.reduce<number>(
+    (sum, blockLuck, i) => sum + (blockLuck ?? 0) * blocks[i].mining_duration,
+    0
+  );
+  const totalReward = blocks.reduce((sum, block) => sum + parseFloat(block.user_reward), 0);
+  const rewardedBlocks = blocks.filter((block) => parseFloat(block.user_reward) > 0).length;
+
+  lines.push('');
+  if (difficulty !== null && totalDuration > 0) {
+    lines.push(`**Luck over these blocks**: ${formatLuck(expectedDuration / totalDuration)}`);
+  } else {
+    lines.push('*Luck is relative to the average round in this window (difficulty unavailable).*');
+  }
+  lines.push(
+    `**Your reward**: ${totalReward.toFixed(8)} BTC from ${rewardedBlocks} of ${blocks.length} blocks`
+  );
+  lines.push('');
+
+  return lines;
+}
+
+/**
+ * Fetch the network difficulty for block luck, or null if unavailable
+ */
+async function fetchDifficulty(client: CachedBraiinsClient): Promise<number | null> {
+  try {
+    const networkStats = await client.getNetworkStats();
+    return typeof networkStats.difficulty === 'number' && networkStats.difficulty > 0
+      ? networkStats.difficulty
+      : null;
+  } catch (error) {
+    logger.debug('Network difficulty unavailable for block luck', {
+      error: toBraiinsError(error).message,
+    });
+    return null;
+  }
+}
+
 /**
  * Format the complete API response for MCP output
  */
-function formatResponse(data: GetPoolStatsResponse): string {
+function formatResponse(data: GetPoolStatsResponse, difficulty: number | null = null): string {
+  const workersActive =
+    data.workers_active !== null ? formatNumber(data.workers_active) : 'unavailable';
   const lines: string[] = [
     `## Braiins Pool Statistics (${data.coin})`,
     '',
@@ -87,7 +213,10 @@ function formatResponse(data: GetPoolStatsResponse): string {
     `| Metric | Value |`,
     `|--------|-------|`,
     `| Total Hashrate | ${formatHashrate(data.pool_hashrate)} |`,
-    `| Active Workers | ${formatNumber(data.workers_active)} |`,
+    `| Active Workers | ${workersActive} |`,
+    ...(data.fpps_rate !== undefined
+      ? [`| FPPS Rate | ${data.fpps_rate.toFixed(8)} BTC/TH/day |`]
+      : []),
     '',
     '### Last Block Found',
     `| Metric | Value |`,
@@ -99,20 +228,47 @@ function formatResponse(data: GetPoolStatsResponse): string {
     '### Pool Luck',
     `| Metric | Value |`,
     `|--------|-------|`,
-    `| Luck (${data.luck.window_blocks} blocks) | ${formatLuck(data.luck.value)} |`,
+    data.luck !== null
+      ? `| Luck (${data.luck.window_blocks} blocks) | ${formatLuck(data.luck.value)} |`
+      : '| Luck | unavailable |',
     '',
-    '---',
-    `*Last updated: ${new Date(data.updated_at).toLocaleString()}*`,
   ];
 
+  if (data.recent_blocks !== undefined && data.recent_blocks.length > 0) {
+    lines.push(...formatRecentBlocks(data.recent_blocks, data.pool_hashrate, difficulty));
+  }
+
+  lines.push('---', `*Last updated: ${new Date(data.updated_at).toLocaleString()}*`);
+
   return lines.join('\n');
 }
 
+/**
+ * Normalize the response for structured output
+ */
+function toStructuredOutput(data: GetPoolStatsResponse): GetPoolStatsOutput {
+  return {
+    ...data,
+    last_block: {
+      ...data.last_block,
+      found_at: toIsoTimestamp(data.last_block.found_at),
+      reward: btcToNumber(data.last_block.reward),
+    },
+    recent_blocks: data.recent_blocks?.map((block) => ({
+      ...block,
+      found_at: toIsoTimestamp(block.found_at),
+      value: btcToNumber(block.value),
+      user_reward: btcToNumber(block.user_reward),
+    })),
+    updated_at: toIsoTimestamp(data.updated_at),
+  };
+}
+
 /**
  * Tool handler implementation
  */
 async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
-  // Step 1: Validate input (should be empty object)
+  // Step 1: Validate input (only the optional account and format)
   const parseResult = GetPoolStatsInputSchema.safeParse(args);
   if (!parseResult.success) {
     const error = new ValidationError('Invalid input parameters', {
@@ -128,7 +284,7 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
   try {
     // Step 2: Call API
     logger.debug('Fetching pool stats from API');
-    const client = getCachedBraiinsClient();
+    const client = getCachedBraiinsClient(parseResult.data.account);
     const rawData = await client.getPoolStats();
 
     // Step 3: Validate response matches expected schema
@@ -137,18 +293,22 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       logger.error('API response validation failed', {
         issues: validationResult.error.issues,
       });
-      // Return raw data if validation fails
-      return {
-        content: [{ type: 'text', text: JSON.stringify(rawData, null, 2) } as TextContent],
-      };
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected pool stats response format', ErrorCode.API_ERROR, 502);
     }
 
-    // Step 4: Format and return response
-    const formattedResponse = formatResponse(validationResult.data);
+    // Step 4: Network difficulty for per-block luck (optional)
+    const hasBlocks = (validationResult.data.recent_blocks?.length ?? 0) > 0;
+    const difficulty = hasBlocks ? await fetchDifficulty(client) : null;
 
-    return {
-      content: [{ type: 'text', text: formattedResponse } as TextContent],
-    };
+    // Step 5: Format and return response
+    const formattedResponse = formatResponse(validationResult.data, difficulty);
+
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data),
+      parseResult.data.format
+    );
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('getPoolStats failed', {
@@ -170,11 +330,17 @@ export const getPoolStatsTool: ToolDefinition = {
   name: 'getPoolStats',
   description:
     'Get global Braiins Pool statistics including total pool hashrate, ' +
-    'number of active workers, last block found, and pool luck metrics.',
+    'number of active workers, last block found, and pool luck metrics. ' +
+    'Includes the most recent pool blocks with round duration, per-block luck, ' +
+    'confirmation state, and your reward from each block.',
   inputSchema: {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [],
   },
+  outputSchema: toOutputSchema(GetPoolStatsOutputSchema),
   handler,
 };
@@ -0,0 +1,404 @@
+/**
+ * getSnapshotHistory MCP Tool
+ *
+ * Reads snapshots recorded by the background snapshot recorder from the
+ * local history store: account overview totals, one worker's state, pool
+ * stats or network stats, over ranges reaching back as far as the
+ * retention allows. Requires HISTORY_DB_PATH.
+ *
+ * @see src/history/historyStore.ts
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DEFAULT_HISTORY_DAYS,
+  GetSnapshotHistoryInputSchema,
+  SnapshotMetricEnum,
+  type GetSnapshotHistoryInput,
+  type SnapshotMetric,
+} from '../schemas/getSnapshotHistoryInput.js';
+import {
+  GetSnapshotHistoryOutputSchema,
+  type GetSnapshotHistoryOutput,
+} from '../schemas/getSnapshotHistoryOutput.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { getAccountRegistry } from '../config/accounts.js';
+import { getHistoryStore, type HistoryRange } from '../history/historyStore.js';
+import { ConfigError, ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, roundBtc, toOutputSchema } from '../utils/structuredOutput.js';
+import { calculateStats, generateSparkline } from '../utils/timeseries.js';
+import type { ToolDefinition } from './index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Snapshots listed in the markdown table
+ */
+const RECENT_ROWS = 10;
+
+const METRIC_TITLES: Record<SnapshotMetric, string> = {
+  overview: 'Overview',
+  worker: 'Worker',
+  pool: 'Pool',
+  network: 'Network',
+};
+
+/**
+ * Snapshots of one metric, with how to chart and tabulate them
+ */
+interface SnapshotSeries {
+  snapshots: GetSnapshotHistoryOutput['snapshots'];
+  /** Value summarized in the statistics table and sparkline */
+  chartLabel: string;
+  chartValues: number[];
+  formatChartValue: (value: number) => string;
+  /** Recent snapshots table */
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Format hashrate for human readability
+ */
+function formatHashrate(hashrate: number): string {
+  const units = ['H/s', 'KH/s', 'MH/s', 'GH/s', 'TH/s', 'PH/s', 'EH/s', 'ZH/s'];
+  let unitIndex = 0;
+  let value = hashrate;
+
+  while (value >= 1000 && unitIndex < units.length - 1) {
+    value /= 1000;
+    unitIndex++;
+  }
+
+  return `${value.toFixed(2)} ${units[unitIndex]}`;
+}
+
+/**
+ * Format timestamp for display
+ */
+function formatTimestamp(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Convert an integer satoshi amount to BTC
+ */
+function satsToBtc(sats: number): number {
+  return roundBtc(sats / 100000000);
+}
+
+/**
+ * Convert epoch ms to ISO 8601
+ */
+function toIso(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Read one metric's snapshots from the store
+ *
+ * @param limit - Rows to read (newest in the range)
+ */
+function readSeries(
+  input: GetSnapshotHistoryInput,
+  account: string,
+  range: HistoryRange,
+  limit: number
+): SnapshotSeries {
+  const store = getHistoryStore();
+  if (store === undefined) {
+    throw new ConfigError('History is disabled; set HISTORY_DB_PATH to record snapshots');
+  }
+
+  switch (input.metric) {
+    case 'overview': {
+      const snapshots = store.getOverviewHistory(account, range, limit).map((row) => ({
+        recorded_at: toIso(row.recorded_at),
+        hashrate_current: row.hashrate_current,
+        hashrate_avg_1h: row.hashrate_avg_1h,
+        hashrate_avg_24h: row.hashrate_avg_24h,
+        workers_active: row.workers_active,
+        workers_inactive: row.workers_inactive,
+        workers_total: row.workers_total,
+        workers_ok: row.workers_ok,
+        workers_low: row.workers_low,
+        workers_off: row.workers_off,
+        workers_dis: row.workers_dis,
+        confirmed: satsToBtc(row.confirmed_sats),
+        unconfirmed: satsToBtc(row.unconfirmed_sats),
+        today_reward: row.today_reward_sats !== null ? satsToBtc(row.today_reward_sats) : null,
+      }));
+      return {
+        snapshots,
+        chartLabel: 'Hashrate (1h avg)',
+        chartValues: snapshots.map((s) => s.hashrate_avg_1h),
+        formatChartValue: formatHashrate,
+        columns: ['Time', 'Hashrate (1h)', 'Active', 'Inactive', 'Confirmed'],
+        rows: snapshots.map((s) => [
+          formatTimestamp(s.recorded_at),
+          formatHashrate(s.hashrate_avg_1h),
+          String(s.workers_active),
+          String(s.workers_inactive),
+          `${s.confirmed.toFixed(8)} BTC`,
+        ]),
+      };
+    }
+
+    case 'worker': {
+      const snapshots = store
+        .getWorkerHistory(account, input.workerId ?? '', range, limit)
+        .map((row) => ({
+          recorded_at: toIso(row.recorded_at),
+          name: row.name,
+          status: row.status,
+          hashrate_current: row.hashrate_current,
+          hashrate_avg_24h: row.hashrate_avg_24h,
+          shares_valid: row.shares_valid,
+          shares_invalid: row.shares_invalid,
+          last_share_at: row.last_share_at !== null ? toIso(row.last_share_at) : null,
+        }));
+      return {
+        snapshots,
+        chartLabel: 'Hashrate',
+        chartValues: snapshots.map((s) => s.hashrate_current),
+        formatChartValue: formatHashrate,
+        columns: ['Time', 'Status', 'Hashrate', '24h Avg'],
+        rows: snapshots.map((s) => [
+          formatTimestamp(s.recorded_at),
+          s.status,
+          formatHashrate(s.hashrate_current),
+          formatHashrate(s.hashrate_avg_24h),
+        ]),
+      };
+    }
+
+    case 'pool': {
+      const snapshots = store.getPoolHistory(range, limit).map((row) => ({
+        recorded_at: toIso(row.recorded_at),
+        pool_hashrate: row.pool_hashrate,
+        workers_active: row.workers_active,
+        luck: row.luck,
+        fpps_rate: row.fpps_rate,
+        last_block_height: row.last_block_height,
+      }));
+      return {
+        snapshots,
+        chartLabel: 'Pool Hashrate',
+        chartValues: snapshots.map((s) => s.pool_hashrate),
+        formatChartValue: formatHashrate,
+        columns: ['Time', 'Pool Hashrate', 'Luck', 'Last Block'],
+        rows: snapshots.map((s) => [
+          formatTimestamp(s.recorded_at),
+          formatHashrate(s.pool_hashrate),
+          s.luck !== null ? s.luck.toFixed(2) : '-',
+          String(s.last_block_height),
+        ]),
+      };
+    }
+
+    case 'network': {
+      const snapshots = store.getNetworkHistory(range, limit).map((row) => ({
+        recorded_at: toIso(row.recorded_at),
+        difficulty: row.difficulty,
+        hashrate_estimate: row.hashrate_estimate,
+        block_time_avg: row.block_time_avg,
+      }));
+      return {
+        snapshots,
+        chartLabel: 'Network Hashrate',
+        chartValues: snapshots.map((s) => s.hashrate_estimate),
+        formatChartValue: formatHashrate,
+        columns: ['Time', 'Network Hashrate', 'Difficulty', 'Block Time'],
+        rows: snapshots.map((s) => [
+          formatTimestamp(s.recorded_at),
+          formatHashrate(s.hashrate_estimate),
+          `${(s.difficulty / 1e12).toFixed(2)} T`,
+          `${Math.round(s.block_time_avg)}s`,
+        ]),
+      };
+    }
+  }
+}
+
+/**
+ * Format the snapshots for MCP output
+ */
+function formatResponse(output: GetSnapshotHistoryOutput, series: SnapshotSeries): string {
+  const subject = output.worker_id !== null ? output.worker_id : (output.account ?? 'Braiins Pool');
+  const lines: string[] = [`## Snapshot History: ${METRIC_TITLES[output.metric]} (${subject})`, ''];
+
+  lines.push(`**Period**: ${formatTimestamp(output.from)} → ${formatTimestamp(output.to)}`);
+
+  if (output.count === 0) {
+    lines.push('');
+    lines.push('*No snapshots recorded in this range.*');
+    return lines.join('\n');
+  }
+
+  lines.push(`**Snapshots**: ${output.count}`);
+  if (output.truncated) {
+    lines.push(`*Only the newest ${output.count} snapshots in the range are included.*`);
+  }
+  lines.push('');
+
+  // Statistics
+  const stats = calculateStats(series.chartValues);
+  lines.push(`### ${series.chartLabel}`);
+  lines.push(`| Metric | Value |`);
+  lines.push(`|--------|-------|`);
+  lines.push(`| Latest | ${series.formatChartValue(stats.latest)} |`);
+  lines.push(`| Average | ${series.formatChartValue(stats.avg)} |`);
+  lines.push(`| Minimum | ${series.formatChartValue(stats.min)} |`);
+  lines.push(`| Maximum | ${series.formatChartValue(stats.max)} |`);
+  lines.push('');
+
+  // Sparkline visualization
+  const sparkline = generateSparkline(series.chartValues);
+  if (sparkline) {
+    lines.push('### Trend');
+    lines.push('```');
+    lines.push(sparkline);
+    lines.push('```');
+    lines.push('');
+  }
+
+  // Recent snapshots
+  lines.push('### Recent Snapshots');
+  lines.push(`| ${series.columns.join(' | ')} |`);
+  lines.push(`|${series.columns.map(() => '------').join('|')}|`);
+  for (const row of series.rows.slice(-RECENT_ROWS)) {
+    lines.push(`| ${row.join(' | ')} |`);
+  }
+  if (series.rows.length > RECENT_ROWS) {
+    lines.push(`*Showing last ${RECENT_ROWS} of ${series.rows.length} snapshots*`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Read snapshot history (synchronous: the store is a local SQLite file)
+ */
+function getSnapshotHistory(args: Record<string, unknown>): CallToolResult {
+  // Step 1: Validate input
+  const parseResult = GetSnapshotHistoryInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Resolve the range and account
+    const to = input.to !== undefined ? new Date(input.to).getTime() : Date.now();
+    const from =
+      input.from !== undefined
+        ? new Date(input.from).getTime()
+        : to - DEFAULT_HISTORY_DAYS * DAY_MS;
+    const perAccount = input.metric === 'overview' || input.metric === 'worker';
+    const account = getAccountRegistry().resolve(input.account).name;
+
+    // Step 3: Read one more row than the limit to tell whether the range was cut
+    logger.debug('Reading snapshot history', { metric: input.metric, account, from, to });
+    const series = readSeries(input, account, { from, to }, input.limit + 1);
+    const truncated = series.snapshots.length > input.limit;
+    if (truncated) {
+      series.snapshots = series.snapshots.slice(1);
+      series.chartValues = series.chartValues.slice(1);
+      series.rows = series.rows.slice(1);
+    }
+
+    // Step 4: Format and return response
+    const output: GetSnapshotHistoryOutput = {
+      metric: input.metric,
+      account: perAccount ? account : null,
+      worker_id: input.metric === 'worker' ? (input.workerId ?? null) : null,
+      from: toIso(from),
+      to: toIso(to),
+      count: series.snapshots.length,
+      truncated,
+      snapshots: series.snapshots,
+    };
+
+    return buildToolResult(formatResponse(output, series), output, input.format);
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('getSnapshotHistory failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool handler implementation
+ */
+function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  return Promise.resolve(getSnapshotHistory(args));
+}
+
+/**
+ * Tool definition for registration
+ */
+export const getSnapshotHistoryTool: ToolDefinition = {
+  name: 'getSnapshotHistory',
+  description:
+    'Get locally recorded history of account overview totals, a single worker, pool stats, ' +
+    'or network stats over weeks or months, beyond the API history windows. ' +
+    'Requires the server to record snapshots (HISTORY_DB_PATH).',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      metric: {
+        type: 'string',
+        enum: SnapshotMetricEnum.options,
+        description:
+          'Snapshot series: overview (account totals), worker (one worker), pool, or network',
+      },
+      workerId: {
+        type: 'string',
+        description: 'Worker identifier (required for the worker metric)',
+      },
+      from: {
+        type: 'string',
+        description: `Start timestamp (ISO 8601, default: ${DEFAULT_HISTORY_DAYS} days before to)`,
+      },
+      to: {
+        type: 'string',
+        description: 'End timestamp (ISO 8601, default: now)',
+      },
+      limit: {
+        type: 'number',
+        minimum: 1,
+        maximum: 5000,
+        default: 500,
+        description: 'Maximum snapshots returned; the newest in the range are kept',
+      },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: ['metric'],
+  },
+  outputSchema: toOutputSchema(GetSnapshotHistoryOutputSchema),
+  handler,
+};
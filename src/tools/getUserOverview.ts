@@ -10,12 +10,24 @@
 import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
 import { GetUserOverviewInputSchema } from '../schemas/getUserOverviewInput.js';
 import {
+  GetUserOverviewOutputSchema,
   GetUserOverviewResponseSchema,
+  type GetUserOverviewOutput,
   type GetUserOverviewResponse,
+  type WorkersData,
 } from '../schemas/getUserOverviewResponse.js';
 import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
-import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import {
+  btcToNumber,
+  buildToolResult,
+  toIsoTimestamp,
+  toIsoTimestampOrNull,
+  toOutputSchema,
+} from '../utils/structuredOutput.js';
 import type { ToolDefinition } from './index.js';
 
 /**
@@ -35,6 +47,37 @@ function formatHashrate(hashrate: number): string {
   return `${value.toFixed(2)} ${units[unitIndex]}`;
 }
 
+/**
+ * Format worker counts, using the four-state breakdown when available
+ */
+function formatWorkers(workers: WorkersData): string[] {
+  if (
+    workers.ok === undefined ||
+    workers.low === undefined ||
+    workers.off === undefined ||
+    workers.dis === undefined
+  ) {
+    return [
+      `- **Active**: ${workers.active}`,
+      `- **Inactive**: ${workers.inactive}`,
+      `- **Total**: ${workers.total}`,
+    ];
+  }
+
+  const lines = [
+    `- **🟢 OK**: ${workers.ok}`,
+    `- **🟡 Low**: ${workers.low}`,
+    `- **🔴 Off**: ${workers.off}`,
+    `- **⚫ Disabled**: ${workers.dis}`,
+    `- **Total**: ${workers.total}`,
+  ];
+  if (workers.low > 0) {
+    const subject = workers.low === 1 ? '1 worker is' : `${workers.low} workers are`;
+    lines.push(`- ⚠️ ${subject} hashing below the alert threshold`);
+  }
+  return lines;
+}
+
 /**
  * Format the API response for MCP output
  * Creates a human-readable summary with key metrics
@@ -57,9 +100,7 @@ function formatResponse(data: GetUserOverviewResponse): string {
       : '- **Last Payout At**: Never',
     '',
     '### Workers',
-    `- **Active**: ${data.workers.active}`,
-    `- **Inactive**: ${data.workers.inactive}`,
-    `- **Total**: ${data.workers.total}`,
+    ...formatWorkers(data.workers),
     '',
     `*Last updated: ${new Date(data.updated_at).toLocaleString()}*`,
   ];
@@ -67,11 +108,31 @@ function formatResponse(data: GetUserOverviewResponse): string {
   return lines.join('\n');
 }
 
+/**
+ * Normalize the response for structured output
+ */
+function toStructuredOutput(data: GetUserOverviewResponse): GetUserOverviewOutput {
+  const { rewards } = data;
+  return {
+    ...data,
+    rewards: {
+      confirmed: btcToNumber(rewards.confirmed),
+      unconfirmed: btcToNumber(rewards.unconfirmed),
+      last_payout: btcToNumber(rewards.last_payout),
+      last_payout_at: toIsoTimestampOrNull(rewards.last_payout_at),
+      ...(rewards.today_reward !== undefined && {
+        today_reward: btcToNumber(rewards.today_reward),
+      }),
+    },
+    updated_at: toIsoTimestamp(data.updated_at),
+  };
+}
+
 /**
  * Tool handler implementation
  */
 async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
-  // Step 1: Validate input (even though this endpoint has no params)
+  // Step 1: Validate input (only the optional account and format)
   const parseResult = GetUserOverviewInputSchema.safeParse(args);
   if (!parseResult.success) {
     const error = new ValidationError('Invalid input parameters', {
@@ -87,7 +148,7 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
   try {
     // Step 2: Call API (TODO: Add cache lookup before this)
     logger.debug('Fetching user overview from API');
-    const client = getCachedBraiinsClient();
+    const client = getCachedBraiinsClient(parseResult.data.account);
     const rawData = await client.getUserOverview();
 
     // Step 3: Validate response matches expected schema
@@ -96,20 +157,19 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       logger.error('API response validation failed', {
         issues: validationResult.error.issues,
       });
-      // If validation fails, we can't safely format the response
-      // Return raw data as JSON instead
-      return {
-        content: [{ type: 'text', text: JSON.stringify(rawData, null, 2) } as TextContent],
-      };
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected user overview response format', ErrorCode.API_ERROR, 502);
     }
 
     // Step 4: Format and return response
     // TODO: Cache the result with 30s TTL
     const formattedResponse = formatResponse(validationResult.data);
 
-    return {
-      content: [{ type: 'text', text: formattedResponse } as TextContent],
-    };
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data),
+      parseResult.data.format
+    );
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('getUserOverview failed', {
@@ -133,8 +193,12 @@ export const getUserOverviewTool: ToolDefinition = {
     'Get a high-level summary of your Braiins Pool mining account including current hashrate, rewards balance, and worker status.',
   inputSchema: {
     type: 'object' as const,
-    properties: {},
+    properties: {
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
     required: [],
   },
+  outputSchema: toOutputSchema(GetUserOverviewOutputSchema),
   handler,
 };
@@ -8,15 +8,32 @@
  */
 
 import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
-import { GetUserRewardsInputSchema, toApiParams } from '../schemas/getUserRewardsInput.js';
+import {
+  GetUserRewardsInputSchema,
+  REWARDS_EXPORT_COLUMNS,
+  toApiParams,
+} from '../schemas/getUserRewardsInput.js';
 import {
   GetUserRewardsResponseSchema,
   type GetUserRewardsResponse,
   type RewardsPoint,
+  GetUserRewardsOutputSchema,
+  type GetUserRewardsOutput,
 } from '../schemas/getUserRewardsResponse.js';
 import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
-import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { exportInputProperty, type BtcUnit } from '../schemas/exportInput.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { buildExportResult, convertBtc, type ExportColumn } from '../utils/export.js';
+import {
+  btcToNumber,
+  buildToolResult,
+  toIsoTimestamp,
+  toOutputSchema,
+} from '../utils/structuredOutput.js';
+import { generateSparkline } from '../utils/timeseries.js';
 import type { ToolDefinition } from './index.js';
 
 /**
@@ -55,61 +72,56 @@ function formatDate(isoTimestamp: string): string {
   });
 }
 
+/**
+ * Reward components reported by the Daily Reward API, in display order
+ */
+const REWARD_COMPONENTS = [
+  { key: 'mining_reward', label: 'Mining Reward' },
+  { key: 'bos_plus_reward', label: 'Braiins OS+ Fee Refund' },
+  { key: 'referral_bonus', label: 'Referral Bonus' },
+  { key: 'referral_reward', label: 'Referral Reward' },
+] as const;
+
+type RewardComponent = (typeof REWARD_COMPONENTS)[number]['key'];
+
 /**
  * Calculate total rewards from points
+ *
+ * Component totals are null when no point reports that component.
  */
 function calculateTotals(points: RewardsPoint[]): {
   totalConfirmed: number;
   totalUnconfirmed: number;
   totalPayout: number;
+  components: Record<RewardComponent, number | null>;
 } {
   return points.reduce(
-    (acc, point) => ({
-      totalConfirmed: acc.totalConfirmed + parseFloat(point.confirmed),
-      totalUnconfirmed: acc.totalUnconfirmed + parseFloat(point.unconfirmed),
-      totalPayout: acc.totalPayout + parseFloat(point.payout),
-    }),
-    { totalConfirmed: 0, totalUnconfirmed: 0, totalPayout: 0 }
+    (acc, point) => {
+      acc.totalConfirmed += parseFloat(point.confirmed);
+      acc.totalUnconfirmed += parseFloat(point.unconfirmed);
+      acc.totalPayout += parseFloat(point.payout);
+      for (const { key } of REWARD_COMPONENTS) {
+        const amount = point[key];
+        if (amount !== undefined) {
+          acc.components[key] = (acc.components[key] ?? 0) + parseFloat(amount);
+        }
+      }
+      return acc;
+    },
+    {
+      totalConfirmed: 0,
+      totalUnconfirmed: 0,
+      totalPayout: 0,
+      components: {
+        mining_reward: null,
+        bos_plus_reward: null,
+        referral_bonus: null,
+        referral_reward: null,
+      } as Record<RewardComponent, number | null>,
+    }
   );
 }
 
-/**
- * Generate a simple ASCII sparkline for rewards trend
- */
-function generateSparkline(points: RewardsPoint[], width: number = 20): string {
-  if (points.length === 0) return '';
-  if (points.length === 1) return '━';
-
-  // Use confirmed rewards for the trend
-  const values = points.map((p) => parseFloat(p.confirmed));
-  const min = Math.min(...values);
-  const max = Math.max(...values);
-  const range = max - min;
-
-  // If no variance, return flat line
-  if (range === 0) return '━'.repeat(Math.min(width, points.length));
-
-  // Sample points if we have more than width
-  const sampleSize = Math.min(width, points.length);
-  const step = points.length / sampleSize;
-  const sampled: number[] = [];
-
-  for (let i = 0; i < sampleSize; i++) {
-    const idx = Math.floor(i * step);
-    sampled.push(values[idx]);
-  }
-
-  // Map to sparkline characters
-  const chars = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
-  return sampled
-    .map((v) => {
-      const normalized = (v - min) / range;
-      const charIdx = Math.min(Math.floor(normalized * chars.length), chars.length - 1);
-      return chars[charIdx];
-    })
-    .join('');
-}
-
 /**
  * Format the complete API response for MCP output
  */
@@ -138,10 +150,23 @@ function formatResponse(data: GetUserRewardsResponse, granularity?: string): str
   lines.push(`| Confirmed | ${formatBtc(totals.totalConfirmed.toFixed(8))} |`);
   lines.push(`| Unconfirmed | ${formatBtc(totals.totalUnconfirmed.toFixed(8))} |`);
   lines.push(`| Payouts | ${formatBtc(totals.totalPayout.toFixed(8))} |`);
+
+  // Reward components with their share of the component sum
+  const componentSum = REWARD_COMPONENTS.reduce(
+    (sum, { key }) => sum + (totals.components[key] ?? 0),
+    0
+  );
+  for (const { key, label } of REWARD_COMPONENTS) {
+    const amount = totals.components[key];
+    if (amount === null) continue;
+    const share = componentSum > 0 ? ` (${((amount / componentSum) * 100).toFixed(2)}%)` : '';
+    lines.push(`| ${label} | ${formatBtc(amount.toFixed(8))}${share} |`);
+  }
   lines.push('');
 
   // Sparkline visualization
-  const sparkline = generateSparkline(data.points);
+  // Use confirmed rewards for the trend
+  const sparkline = generateSparkline(data.points.map((p) => parseFloat(p.confirmed)));
   if (sparkline) {
     lines.push('### Earnings Trend');
     lines.push('```');
@@ -167,6 +192,60 @@ function formatResponse(data: GetUserRewardsResponse, granularity?: string): str
   return lines.join('\n');
 }
 
+/**
+ * Convert an optional BTC amount string to a number
+ */
+function optionalBtc(amount: string | undefined): number | undefined {
+  return amount !== undefined ? btcToNumber(amount) : undefined;
+}
+
+/**
+ * Normalize the response for structured output
+ */
+function toStructuredOutput(data: GetUserRewardsResponse): GetUserRewardsOutput {
+  return {
+    ...data,
+    points: data.points.map((point) => ({
+      timestamp: toIsoTimestamp(point.timestamp),
+      confirmed: btcToNumber(point.confirmed),
+      unconfirmed: btcToNumber(point.unconfirmed),
+      payout: btcToNumber(point.payout),
+      mining_reward: optionalBtc(point.mining_reward),
+      bos_plus_reward: optionalBtc(point.bos_plus_reward),
+      referral_bonus: optionalBtc(point.referral_bonus),
+      referral_reward: optionalBtc(point.referral_reward),
+    })),
+  };
+}
+
+/**
+ * Export an optional BTC amount string in the requested unit
+ */
+function optionalExportBtc(amount: string | undefined, unit: BtcUnit): number | null {
+  return amount !== undefined ? convertBtc(amount, unit) : null;
+}
+
+/**
+ * Columns of a rewards export, in REWARDS_EXPORT_COLUMNS order
+ */
+const EXPORT_COLUMNS: ExportColumn<RewardsPoint>[] = [
+  { name: 'timestamp', value: (point) => toIsoTimestamp(point.timestamp) },
+  ...(['confirmed', 'unconfirmed', 'payout'] as const).map(
+    (key): ExportColumn<RewardsPoint> => ({
+      name: key,
+      kind: 'btc',
+      value: (point, units) => convertBtc(point[key], units.btcUnit),
+    })
+  ),
+  ...REWARD_COMPONENTS.map(
+    ({ key }): ExportColumn<RewardsPoint> => ({
+      name: key,
+      kind: 'btc',
+      value: (point, units) => optionalExportBtc(point[key], units.btcUnit),
+    })
+  ),
+];
+
 /**
  * Tool handler implementation
  */
@@ -191,7 +270,7 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
     const apiParams = toApiParams(input);
     logger.debug('Fetching user rewards from API', { params: apiParams });
 
-    const client = getCachedBraiinsClient();
+    const client = getCachedBraiinsClient(input.account);
     const rawData = await client.getUserRewards(apiParams);
 
     // Step 3: Validate response matches expected schema
@@ -200,18 +279,30 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       logger.error('API response validation failed', {
         issues: validationResult.error.issues,
       });
-      // Return raw data if validation fails
-      return {
-        content: [{ type: 'text', text: JSON.stringify(rawData, null, 2) } as TextContent],
-      };
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected user rewards response format', ErrorCode.API_ERROR, 502);
+    }
+
+    // Step 4: Export the full series when requested
+    if (input.export !== undefined) {
+      return buildExportResult(
+        'getUserRewards',
+        validationResult.data.points,
+        EXPORT_COLUMNS,
+        input.export,
+        toStructuredOutput(validationResult.data),
+        input.format
+      );
     }
 
-    // Step 4: Format and return response
+    // Step 5: Format and return response
     const formattedResponse = formatResponse(validationResult.data, input.granularity);
 
-    return {
-      content: [{ type: 'text', text: formattedResponse } as TextContent],
-    };
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data),
+      input.format
+    );
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('getUserRewards failed', {
@@ -234,7 +325,8 @@ export const getUserRewardsTool: ToolDefinition = {
   description:
     'Get historical rewards timeseries data for your Braiins Pool account. ' +
     'Shows confirmed and unconfirmed earnings, payouts, and earnings trends. ' +
-    'Supports time range filtering and granularity options (hour, day, week).',
+    'Supports time range filtering and granularity options (hour, day, week). ' +
+    'Use export for the full series as CSV or NDJSON.',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -251,8 +343,12 @@ export const getUserRewardsTool: ToolDefinition = {
         enum: ['hour', 'day', 'week'],
         description: 'Data point granularity (default varies by time range)',
       },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+      export: exportInputProperty(REWARDS_EXPORT_COLUMNS),
     },
     required: [],
   },
+  outputSchema: toOutputSchema(GetUserRewardsOutputSchema),
   handler,
 };
@@ -12,10 +12,20 @@ import { GetWorkerDetailsInputSchema } from '../schemas/getWorkerDetailsInput.js
 import {
   GetWorkerDetailsResponseSchema,
   type GetWorkerDetailsResponse,
+  GetWorkerDetailsOutputSchema,
+  type GetWorkerDetailsOutput,
 } from '../schemas/getWorkerDetailsResponse.js';
 import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
-import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import {
+  buildToolResult,
+  toIsoTimestamp,
+  toIsoTimestampOrNull,
+  toOutputSchema,
+} from '../utils/structuredOutput.js';
 import type { ToolDefinition } from './index.js';
 
 /**
@@ -66,6 +76,14 @@ function formatRelativeTime(isoTimestamp: string | null): string {
  */
 function formatStatus(status: string): string {
   switch (status) {
+    case 'ok':
+      return '🟢 OK';
+    case 'low':
+      return '🟡 Low (below alert threshold)';
+    case 'off':
+      return '🔴 Off';
+    case 'dis':
+      return '⚫ Disabled';
     case 'active':
       return '🟢 Active';
     case 'inactive':
@@ -149,6 +167,18 @@ function formatResponse(data: GetWorkerDetailsResponse): string {
   return lines.join('\n');
 }
 
+/**
+ * Normalize the response for structured output
+ */
+function toStructuredOutput(data: GetWorkerDetailsResponse): GetWorkerDetailsOutput {
+  return {
+    ...data,
+    last_share_at: toIsoTimestampOrNull(data.last_share_at),
+    created_at: toIsoTimestamp(data.created_at),
+    updated_at: toIsoTimestamp(data.updated_at),
+  };
+}
+
 /**
  * Tool handler implementation
  */
@@ -166,12 +196,12 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
     };
   }
 
-  const { workerId } = parseResult.data;
+  const { workerId, account, format } = parseResult.data;
 
   try {
     // Step 2: Call API
     logger.debug('Fetching worker details from API', { workerId });
-    const client = getCachedBraiinsClient();
+    const client = getCachedBraiinsClient(account);
     const rawData = await client.getWorkerDetails(workerId);
 
     // Step 3: Validate response matches expected schema
@@ -180,18 +210,14 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       logger.error('API response validation failed', {
         issues: validationResult.error.issues,
       });
-      // Return raw data if validation fails
-      return {
-        content: [{ type: 'text', text: JSON.stringify(rawData, null, 2) } as TextContent],
-      };
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected worker details response format', ErrorCode.API_ERROR, 502);
     }
 
     // Step 4: Format and return response
     const formattedResponse = formatResponse(validationResult.data);
 
-    return {
-      content: [{ type: 'text', text: formattedResponse } as TextContent],
-    };
+    return buildToolResult(formattedResponse, toStructuredOutput(validationResult.data), format);
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('getWorkerDetails failed', {
@@ -222,8 +248,11 @@ export const getWorkerDetailsTool: ToolDefinition = {
         type: 'string',
         description: 'Unique worker identifier (required)',
       },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
     },
     required: ['workerId'],
   },
+  outputSchema: toOutputSchema(GetWorkerDetailsOutputSchema),
   handler,
 };
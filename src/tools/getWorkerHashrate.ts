@@ -8,15 +8,27 @@
  */
 
 import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
-import { GetWorkerHashrateInputSchema, toApiParams } from '../schemas/getWorkerHashrateInput.js';
+import {
+  GetWorkerHashrateInputSchema,
+  HASHRATE_EXPORT_COLUMNS,
+  toApiParams,
+} from '../schemas/getWorkerHashrateInput.js';
 import {
   GetWorkerHashrateResponseSchema,
   type GetWorkerHashrateResponse,
   type HashratePoint,
+  GetWorkerHashrateOutputSchema,
+  type GetWorkerHashrateOutput,
 } from '../schemas/getWorkerHashrateResponse.js';
 import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
-import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { exportInputProperty } from '../schemas/exportInput.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { buildExportResult, convertHashrate, type ExportColumn } from '../utils/export.js';
+import { buildToolResult, toIsoTimestamp, toOutputSchema } from '../utils/structuredOutput.js';
+import { calculateStats, generateSparkline } from '../utils/timeseries.js';
 import type { ToolDefinition } from './index.js';
 
 /**
@@ -49,66 +61,6 @@ function formatTimestamp(isoTimestamp: string): string {
   });
 }
 
-/**
- * Calculate statistics from timeseries data
- */
-function calculateStats(points: HashratePoint[]): {
-  min: number;
-  max: number;
-  avg: number;
-  latest: number;
-} {
-  if (points.length === 0) {
-    return { min: 0, max: 0, avg: 0, latest: 0 };
-  }
-
-  const hashrates = points.map((p) => p.hashrate);
-  const sum = hashrates.reduce((a, b) => a + b, 0);
-
-  return {
-    min: Math.min(...hashrates),
-    max: Math.max(...hashrates),
-    avg: sum / hashrates.length,
-    latest: hashrates[hashrates.length - 1],
-  };
-}
-
-/**
- * Generate a simple ASCII sparkline for hashrate trend
- */
-function generateSparkline(points: HashratePoint[], width: number = 20): string {
-  if (points.length === 0) return '';
-  if (points.length === 1) return '━';
-
-  const hashrates = points.map((p) => p.hashrate);
-  const min = Math.min(...hashrates);
-  const max = Math.max(...hashrates);
-  const range = max - min;
-
-  // If no variance, return flat line
-  if (range === 0) return '━'.repeat(Math.min(width, points.length));
-
-  // Sample points if we have more than width
-  const sampleSize = Math.min(width, points.length);
-  const step = points.length / sampleSize;
-  const sampled: number[] = [];
-
-  for (let i = 0; i < sampleSize; i++) {
-    const idx = Math.floor(i * step);
-    sampled.push(hashrates[idx]);
-  }
-
-  // Map to sparkline characters
-  const chars = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
-  return sampled
-    .map((h) => {
-      const normalized = (h - min) / range;
-      const charIdx = Math.min(Math.floor(normalized * chars.length), chars.length - 1);
-      return chars[charIdx];
-    })
-    .join('');
-}
-
 /**
  * Format the complete API response for MCP output
  */
@@ -130,7 +82,8 @@ function formatResponse(data: GetWorkerHashrateResponse, granularity?: string):
   lines.push('');
 
   // Statistics
-  const stats = calculateStats(data.points);
+  const hashrates = data.points.map((p) => p.hashrate);
+  const stats = calculateStats(hashrates);
   lines.push('### Statistics');
   lines.push(`| Metric | Value |`);
   lines.push(`|--------|-------|`);
@@ -141,7 +94,7 @@ function formatResponse(data: GetWorkerHashrateResponse, granularity?: string):
   lines.push('');
 
   // Sparkline visualization
-  const sparkline = generateSparkline(data.points);
+  const sparkline = generateSparkline(hashrates);
   if (sparkline) {
     lines.push('### Trend');
     lines.push('```');
@@ -166,6 +119,34 @@ function formatResponse(data: GetWorkerHashrateResponse, granularity?: string):
   return lines.join('\n');
 }
 
+/**
+ * Normalize the response for structured output
+ */
+function toStructuredOutput(data: GetWorkerHashrateResponse): GetWorkerHashrateOutput {
+  return {
+    ...data,
+    points: data.points.map((point) => ({ ...point, timestamp: toIsoTimestamp(point.timestamp) })),
+  };
+}
+
+/**
+ * Exported row: one point of a worker's series
+ */
+type HashrateExportRow = HashratePoint & { worker_id: string };
+
+/**
+ * Columns of a hashrate export, in HASHRATE_EXPORT_COLUMNS order
+ */
+const EXPORT_COLUMNS: ExportColumn<HashrateExportRow>[] = [
+  { name: 'timestamp', value: (row) => toIsoTimestamp(row.timestamp) },
+  {
+    name: 'hashrate',
+    kind: 'hashrate',
+    value: (row, units) => convertHashrate(row.hashrate, units.hashrateUnit),
+  },
+  { name: 'worker_id', value: (row) => row.worker_id },
+];
+
 /**
  * Tool handler implementation
  */
@@ -193,7 +174,7 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       params: apiParams,
     });
 
-    const client = getCachedBraiinsClient();
+    const client = getCachedBraiinsClient(input.account);
     const rawData = await client.getWorkerHashrate(input.workerId, apiParams);
 
     // Step 3: Validate response matches expected schema
@@ -202,18 +183,35 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       logger.error('API response validation failed', {
         issues: validationResult.error.issues,
       });
-      // Return raw data if validation fails
-      return {
-        content: [{ type: 'text', text: JSON.stringify(rawData, null, 2) } as TextContent],
-      };
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError(
+        'Unexpected worker hashrate response format',
+        ErrorCode.API_ERROR,
+        502
+      );
     }
 
-    // Step 4: Format and return response
+    // Step 4: Export the full series when requested
+    if (input.export !== undefined) {
+      const data = validationResult.data;
+      return buildExportResult(
+        'getWorkerHashrate',
+        data.points.map((point) => ({ ...point, worker_id: data.worker_id })),
+        EXPORT_COLUMNS,
+        input.export,
+        toStructuredOutput(data),
+        input.format
+      );
+    }
+
+    // Step 5: Format and return response
     const formattedResponse = formatResponse(validationResult.data, input.granularity);
 
-    return {
-      content: [{ type: 'text', text: formattedResponse } as TextContent],
-    };
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data),
+      input.format
+    );
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('getWorkerHashrate failed', {
@@ -237,7 +235,8 @@ export const getWorkerHashrateTool: ToolDefinition = {
   description:
     'Get historical hashrate timeseries data for a specific worker. ' +
     'Supports time range filtering and granularity options (minute, hour, day). ' +
-    'Returns statistics, trend visualization, and recent data points.',
+    'Returns statistics, trend visualization, and recent data points. ' +
+    'Use export for the full series as CSV or NDJSON.',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -258,8 +257,12 @@ export const getWorkerHashrateTool: ToolDefinition = {
         enum: ['minute', 'hour', 'day'],
         description: 'Data point granularity (default varies by time range)',
       },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+      export: exportInputProperty(HASHRATE_EXPORT_COLUMNS),
     },
     required: ['workerId'],
   },
+  outputSchema: toOutputSchema(GetWorkerHashrateOutputSchema),
   handler,
 };
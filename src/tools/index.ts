@@ -8,11 +8,28 @@
 import type { Tool, CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../utils/logger.js';
 import { BraiinsError, ErrorCode, toBraiinsError } from '../utils/errors.js';
+import { annotateStaleData } from '../utils/structuredOutput.js';
+import { OutputFormatInputSchema } from '../schemas/outputFormat.js';
+import { trackStaleReads } from '../cache/staleReads.js';
+
+/**
+ * Report progress of a long-running tool call to the client
+ *
+ * Only provided when the client asked for progress notifications.
+ */
+export type ProgressReporter = (
+  progress: number,
+  total?: number,
+  message?: string
+) => Promise<void>;
 
 /**
  * Tool handler function type - returns MCP SDK's CallToolResult
  */
-export type ToolHandler = (args: Record<string, unknown>) => Promise<CallToolResult>;
+export type ToolHandler = (
+  args: Record<string, unknown>,
+  reportProgress?: ProgressReporter
+) => Promise<CallToolResult>;
 
 /**
  * Internal tool definition with handler
@@ -21,6 +38,8 @@ export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: Tool['inputSchema'];
+  /** JSON Schema of the structuredContent returned on success */
+  outputSchema: NonNullable<Tool['outputSchema']>;
   handler: ToolHandler;
 }
 
@@ -56,7 +75,8 @@ export const tools: ToolDefinition[] = [];
  */
 export async function handleToolCall(
   name: string,
-  args: Record<string, unknown> = {}
+  args: Record<string, unknown> = {},
+  reportProgress?: ProgressReporter
 ): Promise<CallToolResult> {
   const tool = toolRegistry.get(name);
 
@@ -78,7 +98,10 @@ export async function handleToolCall(
   }
 
   try {
-    return await tool.handler(args);
+    // Results built from stale cache entries say so, in the requested format
+    const { result, staleReads } = await trackStaleReads(() => tool.handler(args, reportProgress));
+    const format = OutputFormatInputSchema.safeParse(args.format);
+    return annotateStaleData(result, staleReads, format.success ? format.data : undefined);
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('Tool execution failed', {
@@ -138,9 +161,20 @@ import { getUserOverviewTool } from './getUserOverview.js';
 import { listWorkersTool } from './listWorkers.js';
 import { getWorkerDetailsTool } from './getWorkerDetails.js';
 import { getWorkerHashrateTool } from './getWorkerHashrate.js';
+import { getDailyHashrateTool } from './getDailyHashrate.js';
 import { getUserRewardsTool } from './getUserRewards.js';
+import { getPayoutsTool } from './getPayouts.js';
+import { getBlockRewardsTool } from './getBlockRewards.js';
 import { getPoolStatsTool } from './getPoolStats.js';
 import { getNetworkStatsTool } from './getNetworkStats.js';
+import { estimateEarningsTool } from './estimateEarnings.js';
+import { calculateProfitabilityTool } from './calculateProfitability.js';
+import { listAccountsTool } from './listAccounts.js';
+import { getFleetSummaryTool } from './getFleetSummary.js';
+import { getSnapshotHistoryTool } from './getSnapshotHistory.js';
+import { listActiveAlertsTool } from './listActiveAlerts.js';
+import { testNotificationTool } from './testNotification.js';
+import { getApiDiagnosticsTool } from './getApiDiagnostics.js';
 
 // Register all tools
 registerTool(getUserOverviewTool);
@@ -155,13 +189,46 @@ tools.push(getWorkerDetailsTool);
 registerTool(getWorkerHashrateTool);
 tools.push(getWorkerHashrateTool);
 
+registerTool(getDailyHashrateTool);
+tools.push(getDailyHashrateTool);
+
 registerTool(getUserRewardsTool);
 tools.push(getUserRewardsTool);
 
+registerTool(getPayoutsTool);
+tools.push(getPayoutsTool);
+
+registerTool(getBlockRewardsTool);
+tools.push(getBlockRewardsTool);
+
 registerTool(getPoolStatsTool);
 tools.push(getPoolStatsTool);
 
 registerTool(getNetworkStatsTool);
 tools.push(getNetworkStatsTool);
 
+registerTool(estimateEarningsTool);
+tools.push(estimateEarningsTool);
+
+registerTool(calculateProfitabilityTool);
+tools.push(calculateProfitabilityTool);
+
+registerTool(listAccountsTool);
+tools.push(listAccountsTool);
+
+registerTool(getFleetSummaryTool);
+tools.push(getFleetSummaryTool);
+
+registerTool(getSnapshotHistoryTool);
+tools.push(getSnapshotHistoryTool);
+
+registerTool(listActiveAlertsTool);
+tools.push(listActiveAlertsTool);
+
+registerTool(testNotificationTool);
+tools.push(testNotificationTool);
+
+registerTool(getApiDiagnosticsTool);
+tools.push(getApiDiagnosticsTool);
+
 logger.debug('Tool registry initialized', { toolCount: tools.length });
@@ -0,0 +1,142 @@
+/**
+ * listAccounts MCP Tool
+ *
+ * Lists the Braiins Pool accounts configured for this server so callers can
+ * pick one for the `account` argument of the other tools. Reads configuration
+ * only - no API calls are made and tokens are never shown.
+ *
+ * @see src/config/accounts.ts
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { ListAccountsInputSchema } from '../schemas/listAccountsInput.js';
+import {
+  ListAccountsOutputSchema,
+  type ListAccountsOutput,
+} from '../schemas/listAccountsOutput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { getAccountRegistry, type Account } from '../config/accounts.js';
+import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, toOutputSchema } from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Format a single account as a markdown table row
+ */
+function formatAccount(account: Account, defaultAccount: string): string {
+  const name = account.name === defaultAccount ? `**${account.name}** (default)` : account.name;
+  const baseUrl = account.apiMode === 'native' ? account.nativeApiBaseUrl : account.apiBaseUrl;
+  const token =
+    account.apiToken !== undefined && account.apiToken !== '' ? '✅ configured' : '❌ missing';
+  return `| ${name} | ${account.description ?? '-'} | ${account.apiMode} | ${baseUrl} | ${token} |`;
+}
+
+/**
+ * Format the configured accounts for MCP output
+ */
+function formatResponse(accounts: Account[], defaultAccount: string): string {
+  const lines: string[] = ['## Braiins Accounts', ''];
+
+  lines.push(`**Accounts**: ${accounts.length}`);
+  lines.push(`**Default**: ${defaultAccount}`);
+  lines.push('');
+
+  lines.push('| Account | Description | API Mode | Base URL | Token |');
+  lines.push('|---------|-------------|----------|----------|-------|');
+  for (const account of accounts) {
+    lines.push(formatAccount(account, defaultAccount));
+  }
+  lines.push('');
+  lines.push('*Pass `account` to any tool to query a specific account.*');
+
+  return lines.join('\n');
+}
+
+/**
+ * Build the structured output (tokens are never included)
+ */
+function toStructuredOutput(accounts: Account[], defaultAccount: string): ListAccountsOutput {
+  return {
+    default_account: defaultAccount,
+    accounts: accounts.map((account) => ({
+      name: account.name,
+      description: account.description ?? null,
+      api_mode: account.apiMode,
+      base_url: account.apiMode === 'native' ? account.nativeApiBaseUrl : account.apiBaseUrl,
+      token_configured: account.apiToken !== undefined && account.apiToken !== '',
+      is_default: account.name === defaultAccount,
+    })),
+  };
+}
+
+/**
+ * List accounts (synchronous - configuration only)
+ */
+function listAccounts(args: Record<string, unknown>): CallToolResult {
+  // Step 1: Validate input (only the optional format)
+  const parseResult = ListAccountsInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  try {
+    // Step 2: Read configured accounts
+    const registry = getAccountRegistry();
+
+    // Step 3: Format and return response
+    const accounts = registry.list();
+    const formattedResponse = formatResponse(accounts, registry.defaultAccount);
+
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(accounts, registry.defaultAccount),
+      parseResult.data.format
+    );
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('listAccounts failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool handler implementation
+ */
+function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  return Promise.resolve(listAccounts(args));
+}
+
+/**
+ * Tool definition for registration
+ */
+export const listAccountsTool: ToolDefinition = {
+  name: 'listAccounts',
+  description:
+    'List the Braiins Pool accounts configured on this server (e.g., per site or customer). ' +
+    'Shows each account name, description, API mode, and whether a token is configured, ' +
+    'and marks the default account. Use the names as the account argument of other tools.',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(ListAccountsOutputSchema),
+  handler,
+};
@@ -0,0 +1,211 @@
+/**
+ * listActiveAlerts MCP Tool
+ *
+ * Lists worker alerts currently raised by the alert engine (offline,
+ * hashrate drop, invalid share ratio, no shares), optionally with recently
+ * resolved ones. Requires ALERT_RULES_FILE.
+ *
+ * @see src/alerts/alertEngine.ts
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ListActiveAlertsInputSchema,
+  type ListActiveAlertsInput,
+} from '../schemas/listActiveAlertsInput.js';
+import {
+  ListActiveAlertsOutputSchema,
+  type AlertOutput,
+  type ListActiveAlertsOutput,
+} from '../schemas/listActiveAlertsOutput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { AlertSeverityEnum } from '../alerts/alertRules.js';
+import { getAlertEngine, type Alert } from '../alerts/alertEngine.js';
+import { ConfigError, ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, toOutputSchema } from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Format timestamp for display
+ */
+function formatTimestamp(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Convert an engine alert to output shape
+ */
+function toOutput(alert: Alert): AlertOutput {
+  const toIso = (ms: number): string => new Date(ms).toISOString();
+  return {
+    id: alert.id,
+    rule_id: alert.ruleId,
+    rule_type: alert.ruleType,
+    severity: alert.severity,
+    account: alert.account,
+    worker_id: alert.workerId,
+    worker_name: alert.workerName,
+    message: alert.message,
+    value: alert.value,
+    threshold: alert.threshold,
+    started_at: toIso(alert.startedAt),
+    fired_at: toIso(alert.firedAt),
+    last_seen_at: toIso(alert.lastSeenAt),
+    resolved_at: alert.resolvedAt !== null ? toIso(alert.resolvedAt) : null,
+    notified: alert.notified,
+  };
+}
+
+/**
+ * Whether an alert matches the input filters
+ */
+function matches(alert: Alert, input: ListActiveAlertsInput): boolean {
+  return (
+    (input.account === undefined || alert.account === input.account) &&
+    (input.severity === undefined || alert.severity === input.severity)
+  );
+}
+
+/**
+ * Format alerts for MCP output
+ */
+function formatResponse(output: ListActiveAlertsOutput): string {
+  const lines: string[] = ['## Active Alerts', ''];
+
+  const critical = output.alerts.filter((alert) => alert.severity === 'critical').length;
+  lines.push(
+    `**Active**: ${output.active_count} (${critical} critical) | **Rules**: ${output.rules}`
+  );
+  lines.push('');
+
+  if (output.alerts.length === 0) {
+    lines.push('*No active alerts.*');
+  } else {
+    lines.push('| Severity | Account | Worker | Rule | Details | Since |');
+    lines.push('|----------|---------|--------|------|---------|-------|');
+    for (const alert of output.alerts) {
+      const severity = alert.severity === 'critical' ? '🔴 critical' : '🟡 warning';
+      lines.push(
+        `| ${severity} | ${alert.account} | ${alert.worker_name} | ${alert.rule_id} | ` +
+          `${alert.message} | ${formatTimestamp(alert.started_at)} |`
+      );
+    }
+  }
+
+  if (output.recently_resolved.length > 0) {
+    lines.push('');
+    lines.push('### Recently Resolved');
+    lines.push('| Account | Worker | Rule | Resolved |');
+    lines.push('|---------|--------|------|----------|');
+    for (const alert of output.recently_resolved) {
+      lines.push(
+        `| ${alert.account} | ${alert.worker_name} | ${alert.rule_id} | ` +
+          `${formatTimestamp(alert.resolved_at ?? alert.last_seen_at)} |`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * List alerts (synchronous: alerts are held in memory)
+ */
+function listActiveAlerts(args: Record<string, unknown>): CallToolResult {
+  // Step 1: Validate input
+  const parseResult = ListActiveAlertsInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Read alerts from the engine
+    const engine = getAlertEngine();
+    if (engine === undefined) {
+      throw new ConfigError('Alerting is disabled; set ALERT_RULES_FILE to enable alert rules');
+    }
+
+    const alerts = engine.getActiveAlerts().filter((alert) => matches(alert, input));
+    const resolved = input.includeResolved
+      ? engine.getRecentlyResolved().filter((alert) => matches(alert, input))
+      : [];
+
+    // Step 3: Format and return response
+    const output: ListActiveAlertsOutput = {
+      rules: engine.getRules().length,
+      active_count: alerts.length,
+      alerts: alerts.map(toOutput),
+      recently_resolved: resolved.map(toOutput),
+    };
+
+    return buildToolResult(formatResponse(output), output, input.format);
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('listActiveAlerts failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool handler implementation
+ */
+function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  return Promise.resolve(listActiveAlerts(args));
+}
+
+/**
+ * Tool definition for registration
+ */
+export const listActiveAlertsTool: ToolDefinition = {
+  name: 'listActiveAlerts',
+  description:
+    'List active worker alerts (offline, hashrate drop, invalid share ratio, no shares) ' +
+    'raised by the configured alert rules, optionally with recently resolved alerts. ' +
+    'Requires the server to evaluate alert rules (ALERT_RULES_FILE).',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      account: {
+        type: 'string',
+        description: 'Account name from listAccounts (default: every account)',
+      },
+      severity: {
+        type: 'string',
+        enum: AlertSeverityEnum.options,
+        description: 'Only alerts of this severity',
+      },
+      includeResolved: {
+        type: 'boolean',
+        default: false,
+        description: 'Also list recently resolved alerts',
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(ListActiveAlertsOutputSchema),
+  handler,
+};
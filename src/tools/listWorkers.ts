@@ -2,22 +2,55 @@
  * listWorkers MCP Tool
  *
  * Retrieves a paginated list of mining workers for the authenticated
- * Braiins Pool account with filtering and sorting options.
+ * Braiins Pool account with filtering and sorting options. The `all` and
+ * export modes walk every page matching the filters: `all` returns fleet
+ * statistics with the workers needing attention, export returns a file.
  *
  * @see API.md Section 6.1
  */
 
 import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
-import { ListWorkersInputSchema, toApiParams } from '../schemas/listWorkersInput.js';
+import {
+  ListWorkersInputSchema,
+  WORKER_EXPORT_COLUMNS,
+  matchesStatusFilter,
+  toApiParams,
+  type ListWorkersInput,
+} from '../schemas/listWorkersInput.js';
 import {
   ListWorkersResponseSchema,
+  WorkerStateEnum,
   type ListWorkersResponse,
   type Worker,
+  type WorkerState,
+  ListWorkersOutputSchema,
+  type ListWorkersOutput,
+  type WorkerFleetSummary,
 } from '../schemas/listWorkersResponse.js';
 import { getCachedBraiinsClient } from '../api/cachedBraiinsClient.js';
-import { ValidationError, toBraiinsError } from '../utils/errors.js';
+import {
+  MAX_WALK_PAGES,
+  WALK_PAGE_SIZE,
+  walkAllWorkers,
+  type WorkerWalk,
+} from '../api/workerWalk.js';
+import { ACCOUNT_INPUT_PROPERTY } from '../schemas/accountInput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { exportInputProperty } from '../schemas/exportInput.js';
+import { BraiinsError, ErrorCode, ValidationError, toBraiinsError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
-import type { ToolDefinition } from './index.js';
+import { buildExportResult, convertHashrate, type ExportColumn } from '../utils/export.js';
+import {
+  buildToolResult,
+  toIsoTimestampOrNull,
+  toOutputSchema,
+} from '../utils/structuredOutput.js';
+import type { ProgressReporter, ToolDefinition } from './index.js';
+
+/**
+ * Workers listed in each highlight table of the fleet summary
+ */
+const HIGHLIGHT_LIMIT = 10;
 
 /**
  * Format hashrate for human readability
@@ -68,6 +101,14 @@ function formatRelativeTime(isoTimestamp: string | null): string {
  */
 function formatStatus(status: string): string {
   switch (status) {
+    case 'ok':
+      return '🟢 ok';
+    case 'low':
+      return '🟡 low';
+    case 'off':
+      return '🔴 off';
+    case 'dis':
+      return '⚫ dis';
     case 'active':
       return '🟢 active';
     case 'inactive':
@@ -131,10 +172,292 @@ function formatResponse(data: ListWorkersResponse, page: number, pageSize: numbe
   return lines.join('\n');
 }
 
+/**
+ * Normalize the response for structured output
+ */
+function toStructuredOutput(data: ListWorkersResponse): ListWorkersOutput {
+  return {
+    ...data,
+    workers: data.workers.map((worker) => ({
+      ...worker,
+      last_share_at: toIsoTimestampOrNull(worker.last_share_at),
+    })),
+  };
+}
+
+/**
+ * Columns of a worker export, in WORKER_EXPORT_COLUMNS order
+ */
+const EXPORT_COLUMNS: ExportColumn<Worker>[] = [
+  { name: 'id', value: (worker) => worker.id },
+  { name: 'name', value: (worker) => worker.name },
+  { name: 'status', value: (worker) => worker.status },
+  {
+    name: 'hashrate_current',
+    kind: 'hashrate',
+    value: (worker, units) => convertHashrate(worker.hashrate.current, units.hashrateUnit),
+  },
+  {
+    name: 'hashrate_avg_24h',
+    kind: 'hashrate',
+    value: (worker, units) => convertHashrate(worker.hashrate.avg_24h, units.hashrateUnit),
+  },
+  { name: 'shares_valid', value: (worker) => worker.shares.valid },
+  { name: 'shares_invalid', value: (worker) => worker.shares.invalid },
+  { name: 'last_share_at', value: (worker) => toIsoTimestampOrNull(worker.last_share_at) },
+  { name: 'location', value: (worker) => worker.location ?? null },
+  { name: 'tags', value: (worker) => worker.tags ?? [] },
+];
+
+/**
+ * Note explaining that a walk stopped at the page cap
+ */
+function cappedNote(walk: WorkerWalk): string[] {
+  return walk.capped
+    ? [
+        '',
+        `*Stopped after ${MAX_WALK_PAGES} pages: ${walk.workers.length} of ${walk.total} ` +
+          'workers retrieved. Narrow the request with `status` or `search`.*',
+      ]
+    : [];
+}
+
+/**
+ * Export every worker matching the filters
+ */
+async function exportWorkers(
+  input: ListWorkersInput & { export: NonNullable<ListWorkersInput['export']> },
+  reportProgress?: ProgressReporter
+): Promise<CallToolResult> {
+  const walk = await walkAllWorkers(input, reportProgress);
+
+  return buildExportResult(
+    'listWorkers',
+    walk.workers,
+    EXPORT_COLUMNS,
+    input.export,
+    toStructuredOutput({
+      page: 1,
+      page_size: WALK_PAGE_SIZE,
+      total: walk.total,
+      workers: walk.workers,
+    }),
+    input.format,
+    cappedNote(walk)
+  );
+}
+
+/**
+ * Whether a worker is hashing (ok, low or active)
+ */
+function isActive(worker: Worker): boolean {
+  return matchesStatusFilter(worker.status, 'active');
+}
+
+/**
+ * Whether a worker is offline (off or inactive)
+ */
+function isOffline(worker: Worker): boolean {
+  return matchesStatusFilter(worker.status, 'inactive');
+}
+
+/**
+ * Median of a list of numbers (0 when empty)
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Aggregate statistics over every walked worker
+ */
+function summarizeWorkers(walk: WorkerWalk): WorkerFleetSummary {
+  const { workers } = walk;
+  const byStatus = new Map<WorkerState, { count: number; current: number; avg24h: number }>();
+  let current = 0;
+  let avg24h = 0;
+  let valid = 0;
+  let invalid = 0;
+
+  for (const worker of workers) {
+    const entry = byStatus.get(worker.status) ?? { count: 0, current: 0, avg24h: 0 };
+    entry.count++;
+    entry.current += worker.hashrate.current;
+    entry.avg24h += worker.hashrate.avg_24h;
+    byStatus.set(worker.status, entry);
+
+    current += worker.hashrate.current;
+    avg24h += worker.hashrate.avg_24h;
+    valid += worker.shares.valid;
+    invalid += worker.shares.invalid;
+  }
+
+  const active = workers.filter(isActive);
+  const activeAvg24h = active.map((worker) => worker.hashrate.avg_24h);
+
+  const lowestActive = [...active]
+    .sort((a, b) => a.hashrate.avg_24h - b.hashrate.avg_24h)
+    .slice(0, HIGHLIGHT_LIMIT);
+  // Never-seen workers first, then the oldest last share
+  const longestOffline = workers
+    .filter(isOffline)
+    .sort(
+      (a, b) =>
+        (a.last_share_at !== null ? new Date(a.last_share_at).getTime() : -Infinity) -
+        (b.last_share_at !== null ? new Date(b.last_share_at).getTime() : -Infinity)
+    )
+    .slice(0, HIGHLIGHT_LIMIT);
+
+  return {
+    workers_retrieved: workers.length,
+    pages_fetched: walk.pagesFetched,
+    duplicates_skipped: walk.duplicatesSkipped,
+    capped: walk.capped,
+    by_status: WorkerStateEnum.options
+      .filter((status) => byStatus.has(status))
+      .map((status) => {
+        const entry = byStatus.get(status) ?? { count: 0, current: 0, avg24h: 0 };
+        return {
+          status,
+          count: entry.count,
+          hashrate_current: entry.current,
+          hashrate_avg_24h: entry.avg24h,
+        };
+      }),
+    hashrate: {
+      current,
+      avg_24h: avg24h,
+      mean_24h_per_active: active.length > 0 ? avg24h / active.length : 0,
+      median_24h_per_active: median(activeAvg24h),
+    },
+    shares: {
+      valid,
+      invalid,
+      reject_rate: valid + invalid > 0 ? invalid / (valid + invalid) : null,
+    },
+    lowest_active: lowestActive.map((worker) => worker.id),
+    longest_offline: longestOffline.map((worker) => worker.id),
+  };
+}
+
+/**
+ * Format the full-fleet summary for MCP output
+ */
+function formatFleetSummary(
+  walk: WorkerWalk,
+  summary: WorkerFleetSummary,
+  highlighted: Map<string, Worker>
+): string {
+  const lines: string[] = [
+    '## Workers (All Pages)',
+    '',
+    `**Workers**: ${summary.workers_retrieved} of ${walk.total} | ` +
+      `**Pages**: ${summary.pages_fetched}` +
+      (summary.duplicates_skipped > 0
+        ? ` | **Duplicates skipped**: ${summary.duplicates_skipped}`
+        : ''),
+    '',
+  ];
+
+  if (summary.workers_retrieved === 0) {
+    lines.push('*No workers found matching your criteria.*');
+    return lines.join('\n');
+  }
+
+  lines.push('### By Status');
+  lines.push('| Status | Workers | Hashrate (24h avg) |');
+  lines.push('|--------|---------|--------------------|');
+  for (const entry of summary.by_status) {
+    lines.push(
+      `| ${formatStatus(entry.status)} | ${entry.count} | ${formatHashrate(entry.hashrate_avg_24h)} |`
+    );
+  }
+  lines.push('');
+
+  lines.push('### Totals');
+  lines.push('| Metric | Value |');
+  lines.push('|--------|-------|');
+  lines.push(`| Hashrate (current) | ${formatHashrate(summary.hashrate.current)} |`);
+  lines.push(`| Hashrate (24h avg) | ${formatHashrate(summary.hashrate.avg_24h)} |`);
+  lines.push(
+    `| Per active worker (24h mean / median) | ` +
+      `${formatHashrate(summary.hashrate.mean_24h_per_active)} / ` +
+      `${formatHashrate(summary.hashrate.median_24h_per_active)} |`
+  );
+  lines.push(
+    `| Shares (valid / invalid) | ${summary.shares.valid} / ${summary.shares.invalid}` +
+      (summary.shares.reject_rate !== null
+        ? ` (${(summary.shares.reject_rate * 100).toFixed(2)}% rejected)`
+        : '') +
+      ' |'
+  );
+  lines.push('');
+
+  const table = (title: string, ids: string[]): void => {
+    if (ids.length === 0) return;
+    lines.push(`### ${title}`);
+    lines.push('| Name | Status | Hashrate (24h avg) | Last Share |');
+    lines.push('|------|--------|-------------------|------------|');
+    for (const id of ids) {
+      const worker = highlighted.get(id);
+      if (worker !== undefined) lines.push(formatWorker(worker));
+    }
+    lines.push('');
+  };
+  table(`Lowest Hashrate Active Workers (${summary.lowest_active.length})`, summary.lowest_active);
+  table(`Longest Offline Workers (${summary.longest_offline.length})`, summary.longest_offline);
+
+  lines.push(...cappedNote(walk));
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Walk every page and return aggregate statistics with a compact summary
+ *
+ * structuredContent carries the summary plus only the highlighted workers,
+ * keeping the result small for large fleets; use export for every worker.
+ */
+async function listAllWorkers(
+  input: ListWorkersInput,
+  reportProgress?: ProgressReporter
+): Promise<CallToolResult> {
+  const walk = await walkAllWorkers(input, reportProgress);
+  const summary = summarizeWorkers(walk);
+
+  const highlighted = new Map(
+    walk.workers
+      .filter(
+        (worker) =>
+          summary.lowest_active.includes(worker.id) || summary.longest_offline.includes(worker.id)
+      )
+      .map((worker) => [worker.id, worker])
+  );
+
+  return buildToolResult(
+    formatFleetSummary(walk, summary, highlighted),
+    {
+      ...toStructuredOutput({
+        page: 1,
+        page_size: WALK_PAGE_SIZE,
+        total: walk.total,
+        workers: [...highlighted.values()],
+      }),
+      summary,
+    },
+    input.format
+  );
+}
+
 /**
  * Tool handler implementation
  */
-async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+async function handler(
+  args: Record<string, unknown>,
+  reportProgress?: ProgressReporter
+): Promise<CallToolResult> {
   // Step 1: Validate and parse input with defaults
   const parseResult = ListWorkersInputSchema.safeParse(args);
   if (!parseResult.success) {
@@ -151,11 +474,19 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
   const input = parseResult.data;
 
   try {
+    // Export and all modes walk every page instead of the requested one
+    if (input.export !== undefined) {
+      return await exportWorkers({ ...input, export: input.export }, reportProgress);
+    }
+    if (input.all) {
+      return await listAllWorkers(input, reportProgress);
+    }
+
     // Step 2: Transform to API params and call API
     const apiParams = toApiParams(input);
     logger.debug('Fetching workers from API', { params: apiParams });
 
-    const client = getCachedBraiinsClient();
+    const client = getCachedBraiinsClient(input.account);
     const rawData = await client.listWorkers(apiParams);
 
     // Step 3: Validate response matches expected schema
@@ -164,18 +495,18 @@ async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
       logger.error('API response validation failed', {
         issues: validationResult.error.issues,
       });
-      // Return raw data if validation fails
-      return {
-        content: [{ type: 'text', text: JSON.stringify(rawData, null, 2) } as TextContent],
-      };
+      // Unvalidated data cannot fill the declared output schema
+      throw new BraiinsError('Unexpected worker list response format', ErrorCode.API_ERROR, 502);
     }
 
     // Step 4: Format and return response
     const formattedResponse = formatResponse(validationResult.data, input.page, input.pageSize);
 
-    return {
-      content: [{ type: 'text', text: formattedResponse } as TextContent],
-    };
+    return buildToolResult(
+      formattedResponse,
+      toStructuredOutput(validationResult.data),
+      input.format
+    );
   } catch (error) {
     const braiinsError = toBraiinsError(error);
     logger.error('listWorkers failed', {
@@ -197,7 +528,10 @@ export const listWorkersTool: ToolDefinition = {
   name: 'listWorkers',
   description:
     'List mining workers for your Braiins Pool account with pagination and filtering. ' +
-    'Filter by status (active/inactive), search by name, and sort by hashrate or name.',
+    'Filter by status (ok, low, off, dis, or active/inactive), search by name, ' +
+    'and sort by hashrate or name. Use status "low" to find degraded workers. ' +
+    'Set all to summarize the whole fleet in one call, or use export for every ' +
+    'matching worker as CSV or NDJSON.',
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -211,8 +545,10 @@ export const listWorkersTool: ToolDefinition = {
       },
       status: {
         type: 'string',
-        enum: ['active', 'inactive', 'all'],
-        description: 'Filter by status (default: all)',
+        enum: ['ok', 'low', 'off', 'dis', 'active', 'inactive', 'all'],
+        description:
+          'Filter by status: ok, low (below alert threshold), off, dis (disabled), ' +
+          'active (ok + low), inactive, or all (default: all)',
       },
       search: {
         type: 'string',
@@ -223,8 +559,18 @@ export const listWorkersTool: ToolDefinition = {
         enum: ['hashrate_desc', 'hashrate_asc', 'name_asc', 'name_desc', 'last_share'],
         description: 'Sort order',
       },
+      all: {
+        type: 'boolean',
+        description:
+          'Walk every page (up to 10,000 workers) and return fleet statistics with the ' +
+          'lowest-hashrate and longest-offline workers instead of one page (default: false)',
+      },
+      account: ACCOUNT_INPUT_PROPERTY,
+      format: OUTPUT_FORMAT_PROPERTY,
+      export: exportInputProperty(WORKER_EXPORT_COLUMNS),
     },
     required: [],
   },
+  outputSchema: toOutputSchema(ListWorkersOutputSchema),
   handler,
 };
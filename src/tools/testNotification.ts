@@ -0,0 +1,137 @@
+/**
+ * testNotification MCP Tool
+ *
+ * Sends a test notification to one or every configured webhook and reports
+ * the delivery outcome, including retries. Failed deliveries are
+ * dead-lettered like any other notification. Requires NOTIFY_CONFIG_FILE.
+ *
+ * @see src/notify/webhookNotifier.ts
+ */
+
+import type { CallToolResult, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DEFAULT_TEST_MESSAGE,
+  TestNotificationInputSchema,
+} from '../schemas/testNotificationInput.js';
+import {
+  TestNotificationOutputSchema,
+  type TestNotificationOutput,
+} from '../schemas/testNotificationOutput.js';
+import { OUTPUT_FORMAT_PROPERTY } from '../schemas/outputFormat.js';
+import { getNotifier } from '../notify/webhookNotifier.js';
+import { testNotification } from '../notify/notifications.js';
+import { ConfigError, ValidationError, toBraiinsError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { buildToolResult, toOutputSchema } from '../utils/structuredOutput.js';
+import type { ToolDefinition } from './index.js';
+
+/**
+ * Format delivery results for MCP output
+ */
+function formatResponse(output: TestNotificationOutput): string {
+  const lines: string[] = ['## Test Notification', ''];
+
+  lines.push(`**Delivered**: ${output.delivered} | **Failed**: ${output.failed}`);
+  lines.push('');
+  lines.push('| Webhook | Result | Attempts | HTTP Status |');
+  lines.push('|---------|--------|----------|-------------|');
+  for (const result of output.results) {
+    const outcome = result.delivered ? '✅ delivered' : `🔴 ${result.error ?? 'failed'}`;
+    lines.push(
+      `| ${result.webhook} | ${outcome} | ${result.attempts} | ${result.status ?? 'N/A'} |`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Tool handler implementation
+ */
+async function handler(args: Record<string, unknown>): Promise<CallToolResult> {
+  // Step 1: Validate input
+  const parseResult = TestNotificationInputSchema.safeParse(args);
+  if (!parseResult.success) {
+    const error = new ValidationError('Invalid input parameters', {
+      issues: parseResult.error.issues,
+    });
+    logger.warn('Input validation failed', { error: error.message });
+    return {
+      content: [{ type: 'text', text: JSON.stringify(error.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+
+  const input = parseResult.data;
+
+  try {
+    // Step 2: Resolve the target webhooks
+    const notifier = getNotifier();
+    if (notifier === undefined) {
+      throw new ConfigError('Notifications are disabled; set NOTIFY_CONFIG_FILE to add webhooks');
+    }
+
+    const names = notifier.getWebhooks().map((webhook) => webhook.name);
+    if (input.webhook !== undefined && !names.includes(input.webhook)) {
+      throw new ValidationError(`Unknown webhook "${input.webhook}"`, { webhooks: names });
+    }
+
+    // Step 3: Deliver, waiting for retries
+    const notification = testNotification(input.message);
+    const results = await notifier.notify(notification, {
+      webhooks: input.webhook !== undefined ? [input.webhook] : names,
+    });
+
+    // Step 4: Format and return response
+    const delivered = results.filter((result) => result.delivered).length;
+    const output: TestNotificationOutput = {
+      notification_id: notification.id,
+      delivered,
+      failed: results.length - delivered,
+      results,
+    };
+
+    return buildToolResult(formatResponse(output), output, input.format);
+  } catch (error) {
+    const braiinsError = toBraiinsError(error);
+    logger.error('testNotification failed', {
+      code: braiinsError.code,
+      message: braiinsError.message,
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(braiinsError.toJSON()) } as TextContent],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Tool definition for registration
+ */
+export const testNotificationTool: ToolDefinition = {
+  name: 'testNotification',
+  description:
+    'Send a test notification to one or every configured webhook and report whether each ' +
+    'accepted it, to check alert and payout notification delivery. ' +
+    'Requires the server to have webhooks configured (NOTIFY_CONFIG_FILE).',
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      webhook: {
+        type: 'string',
+        description: 'Webhook name from the notifier file (default: every webhook)',
+      },
+      message: {
+        type: 'string',
+        maxLength: 500,
+        default: DEFAULT_TEST_MESSAGE,
+        description: 'Text included in the test notification',
+      },
+      format: OUTPUT_FORMAT_PROPERTY,
+    },
+    required: [],
+  },
+  outputSchema: toOutputSchema(TestNotificationOutputSchema),
+  handler,
+};
@@ -0,0 +1,543 @@
+/**
+ * Streamable HTTP transport for Braiins Pool MCP Server
+ *
+ * Serves the MCP Streamable HTTP transport on a single endpoint with one
+ * MCP server instance per session, plus a health endpoint for container
+ * checks. Shutdown refuses new requests and drains in-flight POST requests
+ * (and so the tool calls they carry) before closing sessions. With an
+ * authenticator configured, every MCP request must carry credentials and a
+ * session can only be used by the principal that opened it.
+ *
+ * Sessions without open requests are closed after an idle timeout, and new
+ * sessions are refused with 503 once the session limit is reached, so clients
+ * that never send DELETE cannot exhaust memory.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-03-26/basic/transports
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+  type Server as HttpServer,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+import { logger } from '../utils/logger.js';
+import { AuthError, ErrorCode } from '../utils/errors.js';
+import { getInFlightToolCalls } from '../server.js';
+import type { Authenticator, Principal } from '../auth/index.js';
+
+/**
+ * Path serving the MCP endpoint
+ */
+export const MCP_ENDPOINT_PATH = '/mcp';
+
+/**
+ * Path serving the health check
+ */
+export const HEALTH_ENDPOINT_PATH = '/health';
+
+/**
+ * Maximum accepted request body size in bytes
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Default idle time before a session is closed (ms)
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Default maximum number of concurrent sessions
+ */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+/**
+ * Longest gap between idle session sweeps (ms)
+ */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Header carrying the MCP session ID
+ */
+const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * JSON-RPC error codes used for transport-level errors
+ */
+const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_SERVER_ERROR = -32000;
+
+/**
+ * Options for the HTTP transport server
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** Creates the MCP server instance for a new session */
+  createServer: () => Server;
+  /** Authenticates requests to the MCP endpoint; omit to allow anonymous access */
+  authenticator?: Authenticator;
+  /** Close sessions with no requests for this long (ms) */
+  sessionIdleTimeoutMs?: number;
+  /** Refuse initialize requests while this many sessions are open */
+  maxSessions?: number;
+}
+
+/**
+ * Incoming request carrying auth info for the MCP SDK
+ */
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+/**
+ * Active MCP session
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  /** Key of the principal that opened the session, if authenticated */
+  principal: string | null;
+  /** Epoch ms of the last request start or end */
+  lastActivity: number;
+  /** Requests (including SSE streams) still open */
+  openRequests: number;
+}
+
+/**
+ * Identify a principal for session ownership
+ *
+ * Names are namespaced by auth method so an API key cannot take over the
+ * session of a JWT subject with the same name, or the other way round.
+ */
+function principalKey(principal: Principal): string {
+  return `${principal.type === 'jwt' ? 'jwt' : 'key'}:${principal.name}`;
+}
+
+/**
+ * Transport statistics for health reporting
+ */
+export interface HttpTransportStats {
+  sessions: number;
+  activeRequests: number;
+  inFlightToolCalls: number;
+  draining: boolean;
+}
+
+/**
+ * Error raised while reading a request body
+ */
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly rpcCode: number
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * Streamable HTTP transport server
+ *
+ * Routes requests to per-session transports keyed by the Mcp-Session-Id
+ * header. New sessions are created only by initialize requests.
+ */
+export class HttpTransportServer {
+  private readonly httpServer: HttpServer;
+  private readonly sessions = new Map<string, Session>();
+  /** Initialize requests holding a session slot before the session exists */
+  private pendingSessions = 0;
+  private draining = false;
+  private activeRequests = 0;
+  private readonly idleWaiters = new Set<() => void>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: HttpTransportOptions) {
+    this.httpServer = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+  }
+
+  /**
+   * Start listening on the configured host and port
+   *
+   * @returns The bound address (useful when port 0 is requested)
+   */
+  start(): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        this.startSweeping();
+        const address = this.httpServer.address() as AddressInfo;
+        logger.info('HTTP transport listening', {
+          host: address.address,
+          port: address.port,
+          path: MCP_ENDPOINT_PATH,
+        });
+        resolve(address);
+      });
+    });
+  }
+
+  /**
+   * Stop accepting requests, drain in-flight requests and close all sessions
+   *
+   * A POST request stays active until its response (including any SSE stream
+   * carrying tool results) has finished, so draining requests rather than tool
+   * calls guarantees results reach the client before sessions are closed.
+   *
+   * @param drainTimeoutMs - Maximum time to wait for in-flight requests
+   */
+  async stop(drainTimeoutMs: number): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    // Keep listening while draining so new requests get a 503 instead of a refused connection
+    logger.info('Draining HTTP transport', {
+      sessions: this.sessions.size,
+      activeRequests: this.activeRequests,
+    });
+    const drained = await this.waitForIdle(drainTimeoutMs);
+    if (!drained) {
+      logger.warn('Drain timeout elapsed with requests still in flight', {
+        activeRequests: this.activeRequests,
+        timeoutMs: drainTimeoutMs,
+      });
+    }
+
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map((session) => session.server.close()));
+
+    const closed = new Promise<void>((resolve) => {
+      this.httpServer.close(() => resolve());
+    });
+    this.httpServer.closeAllConnections();
+    await closed;
+    logger.info('HTTP transport stopped');
+  }
+
+  /**
+   * Get transport statistics
+   */
+  getStats(): HttpTransportStats {
+    return {
+      sessions: this.sessions.size,
+      activeRequests: this.activeRequests,
+      inFlightToolCalls: getInFlightToolCalls(),
+      draining: this.draining,
+    };
+  }
+
+  /**
+   * Close sessions idle for longer than the idle timeout, on a timer
+   */
+  private startSweeping(): void {
+    const idleTimeoutMs = this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.sweepTimer = setInterval(
+      () => this.closeIdleSessions(idleTimeoutMs),
+      Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS)
+    );
+    // Sweeping alone should not keep the process alive
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Close and forget sessions without open requests since the cutoff
+   */
+  private closeIdleSessions(idleTimeoutMs: number): void {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.openRequests > 0 || session.lastActivity > cutoff) continue;
+
+      this.sessions.delete(sessionId);
+      logger.info('HTTP session expired', {
+        sessionId,
+        principal: session.principal ?? undefined,
+        idleMs: Date.now() - session.lastActivity,
+        sessions: this.sessions.size,
+      });
+      void session.server.close().catch((error: unknown) => {
+        logger.warn('Failed to close expired HTTP session', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+
+  /**
+   * Count a request as session activity until its response closes
+   */
+  private trackSessionRequest(session: Session, res: ServerResponse): void {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * Count a request as active until its response closes
+   */
+  private trackRequest(res: ServerResponse): void {
+    this.activeRequests++;
+    res.once('close', () => {
+      this.activeRequests--;
+      if (this.activeRequests === 0) {
+        for (const onIdle of this.idleWaiters) onIdle();
+        this.idleWaiters.clear();
+      }
+    });
+  }
+
+  /**
+   * Wait until no requests are active
+   *
+   * @returns true if drained, false if the timeout elapsed first
+   */
+  private waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.activeRequests === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      const onIdle = (): void => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.idleWaiters.delete(onIdle);
+        resolve(false);
+      }, timeoutMs);
+      this.idleWaiters.add(onIdle);
+    });
+  }
+
+  /**
+   * Route an incoming HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    try {
+      if (path === HEALTH_ENDPOINT_PATH && req.method === 'GET') {
+        this.sendJson(res, this.draining ? 503 : 200, {
+          status: this.draining ? 'draining' : 'ok',
+          ...this.getStats(),
+        });
+        return;
+      }
+
+      if (path !== MCP_ENDPOINT_PATH) {
+        this.sendJson(res, 404, { error: 'Not found' });
+        return;
+      }
+
+      if (this.draining) {
+        res.setHeader('Connection', 'close');
+        this.sendRpcError(res, 503, JSON_RPC_SERVER_ERROR, 'Server is shutting down');
+        return;
+      }
+
+      const principal = this.authenticate(req);
+
+      if (req.method === 'POST') {
+        this.trackRequest(res);
+      }
+      await this.handleMcpRequest(req, res, principal);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        this.sendAuthError(res, error);
+        return;
+      }
+
+      if (error instanceof RequestBodyError) {
+        this.sendRpcError(res, error.status, error.rpcCode, error.message);
+        return;
+      }
+
+      logger.error('HTTP transport request failed', {
+        method: req.method,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!res.headersSent) {
+        this.sendRpcError(res, 500, JSON_RPC_SERVER_ERROR, 'Internal server error');
+      }
+    }
+  }
+
+  /**
+   * Dispatch a request on the MCP endpoint to its session
+   */
+  private async handleMcpRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    principal: Principal | null
+  ): Promise<void> {
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+    const sessionHeader = req.headers[SESSION_HEADER];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (sessionId !== undefined) {
+      const session = this.sessions.get(sessionId);
+      if (session === undefined) {
+        this.sendRpcError(res, 404, JSON_RPC_SERVER_ERROR, 'Session not found');
+        return;
+      }
+      if (principal !== null && session.principal !== principalKey(principal)) {
+        throw new AuthError('Session belongs to another client', ErrorCode.FORBIDDEN);
+      }
+      this.trackSessionRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      // Reserve the slot before awaiting so concurrent initializations cannot exceed the cap
+      const maxSessions = this.options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+      if (this.sessions.size + this.pendingSessions >= maxSessions) {
+        logger.warn('HTTP session limit reached', { sessions: this.sessions.size, maxSessions });
+        this.sendRpcError(res, 503, JSON_RPC_SERVER_ERROR, 'Too many sessions; try again later');
+        return;
+      }
+      this.pendingSessions++;
+      try {
+        await this.createSession(req, res, body, principal);
+      } finally {
+        this.pendingSessions--;
+      }
+      return;
+    }
+
+    this.sendRpcError(res, 400, JSON_RPC_SERVER_ERROR, 'Bad Request: No valid session ID provided');
+  }
+
+  /**
+   * Create a session for an initialize request
+   */
+  private async createSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown,
+    principal: Principal | null
+  ): Promise<void> {
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        const session: Session = {
+          transport,
+          server,
+          principal: principal !== null ? principalKey(principal) : null,
+          lastActivity: Date.now(),
+          openRequests: 0,
+        };
+        this.sessions.set(sessionId, session);
+        this.trackSessionRequest(session, res);
+        logger.info('HTTP session opened', {
+          sessionId,
+          principal: principal?.name,
+          sessions: this.sessions.size,
+        });
+      },
+    });
+
+    transport.onclose = (): void => {
+      const sessionId = transport.sessionId;
+      if (sessionId !== undefined && this.sessions.delete(sessionId)) {
+        logger.info('HTTP session closed', { sessionId, sessions: this.sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Authenticate a request and attach its auth info for the MCP server
+   *
+   * @returns The principal, or null when authentication is disabled
+   * @throws AuthError if credentials are missing or invalid
+   */
+  private authenticate(req: AuthenticatedRequest): Principal | null {
+    const { authenticator } = this.options;
+    if (authenticator === undefined) return null;
+
+    const principal = authenticator.authenticate(req.headers);
+    // The raw credential is not forwarded to tool handlers
+    req.auth = {
+      token: '',
+      clientId: principal.name,
+      scopes: principal.allowedTools,
+      extra: { authType: principal.type },
+    };
+    return principal;
+  }
+
+  /**
+   * Read and parse a JSON request body
+   */
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      const buffer = chunk as Buffer;
+      size += buffer.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new RequestBodyError('Request body too large', 413, JSON_RPC_SERVER_ERROR);
+      }
+      chunks.push(buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8')) as unknown;
+    } catch {
+      throw new RequestBodyError('Parse error: Invalid JSON', 400, JSON_RPC_PARSE_ERROR);
+    }
+  }
+
+  /**
+   * Send a JSON response
+   */
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Send a 401/403 for an authentication or authorization failure
+   */
+  private sendAuthError(res: ServerResponse, error: AuthError): void {
+    logger.warn('HTTP request rejected', { code: error.code, message: error.message });
+    if (error.code === ErrorCode.UNAUTHORIZED) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="braiins-pool-mcp"');
+    }
+    this.sendJson(res, error.statusCode, {
+      jsonrpc: '2.0',
+      error: { code: JSON_RPC_SERVER_ERROR, message: error.message, data: error.toJSON() },
+      id: null,
+    });
+  }
+
+  /**
+   * Send a JSON-RPC error response not tied to a request ID
+   */
+  private sendRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+}
@@ -22,6 +22,7 @@ export enum ErrorCode {
   API_ERROR = 'API_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
 
   // Cache errors
   CACHE_ERROR = 'CACHE_ERROR',
@@ -153,6 +154,42 @@ export class NetworkError extends BraiinsError {
   }
 }
 
+/**
+ * Error thrown when the client-side rate limiter cannot admit a request in time
+ */
+export class RateLimitError extends BraiinsError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, ErrorCode.RATE_LIMITED, 429, details);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Error thrown without contacting the API while an endpoint's circuit is open
+ */
+export class CircuitOpenError extends BraiinsError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, ErrorCode.CIRCUIT_OPEN, 503, details);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Error thrown when an inbound MCP client is not authenticated or not allowed
+ *
+ * UNAUTHORIZED maps to HTTP 401, FORBIDDEN to HTTP 403.
+ */
+export class AuthError extends BraiinsError {
+  constructor(
+    message: string,
+    code: ErrorCode.UNAUTHORIZED | ErrorCode.FORBIDDEN = ErrorCode.UNAUTHORIZED,
+    details?: Record<string, unknown>
+  ) {
+    super(message, code, code === ErrorCode.FORBIDDEN ? 403 : 401, details);
+    this.name = 'AuthError';
+  }
+}
+
 /**
  * Error thrown for configuration issues
  */
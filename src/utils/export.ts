@@ -0,0 +1,203 @@
+/**
+ * Tabular export helpers
+ *
+ * Serialize full result sets as CSV or NDJSON and return them as an MCP
+ * embedded resource, so clients can offer them as downloads. Each tool
+ * describes its rows with named columns; the caller picks the columns and
+ * the units of hashrate and BTC columns.
+ */
+
+import type { CallToolResult, EmbeddedResource } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  BtcUnit,
+  ExportFileFormat,
+  ExportInput,
+  HashrateUnit,
+} from '../schemas/exportInput.js';
+import type { OutputFormat } from '../schemas/outputFormat.js';
+import { buildToolResult } from './structuredOutput.js';
+
+/**
+ * Value of one exported cell
+ */
+export type ExportValue = string | number | boolean | null | string[];
+
+/**
+ * Units applied to exported values
+ */
+export interface ExportUnits {
+  hashrateUnit: HashrateUnit;
+  btcUnit: BtcUnit;
+}
+
+/**
+ * Exported column: name and how to read it from a row
+ */
+export interface ExportColumn<Row> {
+  name: string;
+  /** Unit-bearing columns are listed in the export summary */
+  kind?: 'hashrate' | 'btc';
+  value: (row: Row, units: ExportUnits) => ExportValue;
+}
+
+const MIME_TYPES: Record<ExportFileFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+};
+
+const HASHRATE_DIVISORS: Record<HashrateUnit, number> = {
+  'H/s': 1,
+  'KH/s': 1e3,
+  'MH/s': 1e6,
+  'GH/s': 1e9,
+  'TH/s': 1e12,
+  'PH/s': 1e15,
+  'EH/s': 1e18,
+};
+
+/**
+ * Convert a hashrate in H/s to the export unit
+ */
+export function convertHashrate(hashrate: number, unit: HashrateUnit): number {
+  return unit === 'H/s' ? hashrate : Number((hashrate / HASHRATE_DIVISORS[unit]).toPrecision(12));
+}
+
+/**
+ * Convert a BTC amount string to the export unit
+ */
+export function convertBtc(amount: string, unit: BtcUnit): number {
+  const value = parseFloat(amount);
+  if (!Number.isFinite(value)) return 0;
+  return unit === 'sats' ? Math.round(value * 100000000) : Number(value.toFixed(8));
+}
+
+/**
+ * Format a number without exponent notation (spreadsheets misread "1e-7")
+ */
+function formatNumber(value: number): string {
+  const text = String(value);
+  return /e/i.test(text) && Math.abs(value) < 1e21 ? value.toFixed(20).replace(/\.?0+$/, '') : text;
+}
+
+/**
+ * Render a CSV cell, quoting when needed (RFC 4180)
+ *
+ * Text starting with a formula character is prefixed with "'" so spreadsheets
+ * do not evaluate worker names or notes as formulas. Numbers are left as is.
+ */
+function toCsvCell(value: ExportValue): string {
+  if (value === null) return '';
+  let text: string;
+  if (typeof value === 'number') {
+    text = formatNumber(value);
+  } else {
+    text = Array.isArray(value) ? value.join(';') : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows as CSV (with header) or NDJSON
+ *
+ * @param rows - Rows to export
+ * @param columns - Columns to include, in order
+ * @param format - File format
+ * @param units - Units of hashrate and BTC columns
+ */
+export function serializeRows<Row>(
+  rows: readonly Row[],
+  columns: readonly ExportColumn<Row>[],
+  format: ExportFileFormat,
+  units: ExportUnits
+): string {
+  if (format === 'ndjson') {
+    return rows
+      .map((row) =>
+        JSON.stringify(
+          Object.fromEntries(columns.map((column) => [column.name, column.value(row, units)]))
+        )
+      )
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+
+  const lines = [columns.map((column) => toCsvCell(column.name)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCsvCell(column.value(row, units))).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Select the requested columns, in the requested order
+ */
+export function selectColumns<Row>(
+  available: readonly ExportColumn<Row>[],
+  names: readonly string[] | undefined
+): ExportColumn<Row>[] {
+  if (names === undefined) return [...available];
+  return names.flatMap((name) => available.filter((column) => column.name === name));
+}
+
+/**
+ * Summary line naming the units of the exported unit-bearing columns
+ */
+function unitsLine<Row>(columns: readonly ExportColumn<Row>[], units: ExportUnits): string[] {
+  const parts: string[] = [];
+  if (columns.some((column) => column.kind === 'hashrate')) {
+    parts.push(`hashrate in ${units.hashrateUnit}`);
+  }
+  if (columns.some((column) => column.kind === 'btc')) {
+    parts.push(`BTC amounts in ${units.btcUnit}`);
+  }
+  return parts.length > 0 ? [`**Units**: ${parts.join(', ')}`] : [];
+}
+
+/**
+ * Build a tool result carrying an export as an embedded resource
+ *
+ * The text content summarizes the export; structuredContent still holds
+ * the full structured result so the tool's output schema is honoured.
+ *
+ * @param tool - Tool name, used in the resource URI
+ * @param rows - Rows to export
+ * @param available - Columns the tool can export
+ * @param options - Parsed export argument
+ * @param structured - Structured output of the tool
+ * @param format - Text output format
+ * @param notes - Extra lines for the summary
+ */
+export function buildExportResult<Row>(
+  tool: string,
+  rows: readonly Row[],
+  available: readonly ExportColumn<Row>[],
+  options: ExportInput,
+  structured: Record<string, unknown>,
+  format: OutputFormat,
+  notes: string[] = []
+): CallToolResult {
+  const columns = selectColumns(available, options.columns);
+  const text = serializeRows(rows, columns, options.format, options);
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const uri = `braiins://exports/${tool}-${stamp}.${options.format}`;
+
+  const summary = [
+    `## Export: ${tool}`,
+    '',
+    `**Rows**: ${rows.length} | **Format**: ${options.format.toUpperCase()}`,
+    `**Columns**: ${columns.map((column) => column.name).join(', ')}`,
+    ...unitsLine(columns, options),
+    '',
+    `The full data is attached as \`${uri}\`.`,
+    ...notes,
+  ].join('\n');
+
+  const resource: EmbeddedResource = {
+    type: 'resource',
+    resource: { uri, mimeType: MIME_TYPES[options.format], text },
+  };
+
+  const result = buildToolResult(summary, structured, format);
+  return { ...result, content: [...result.content, resource] };
+}
@@ -0,0 +1,147 @@
+/**
+ * Structured tool output helpers
+ *
+ * Tools declare an `outputSchema` generated from a Zod schema and return
+ * `structuredContent` alongside their text. Structured data is normalized:
+ * BTC amounts are numbers rather than strings and timestamps are UTC ISO 8601.
+ */
+
+import type { CallToolResult, TextContent, Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodType } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { OutputFormat } from '../schemas/outputFormat.js';
+import type { StaleRead } from '../cache/staleReads.js';
+
+/**
+ * Generate a tool output schema (JSON Schema) from a Zod object schema
+ */
+export function toOutputSchema(schema: ZodType): NonNullable<Tool['outputSchema']> {
+  const jsonSchema = zodToJsonSchema(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none',
+  }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return { ...jsonSchema, type: 'object' };
+}
+
+/**
+ * Build a successful tool result in the requested format
+ *
+ * structuredContent is always included so clients validating against the
+ * output schema accept every format; the format only selects the text.
+ */
+export function buildToolResult(
+  markdown: string,
+  structured: Record<string, unknown>,
+  format: OutputFormat
+): CallToolResult {
+  const content: TextContent[] = [];
+  if (format !== 'json') {
+    content.push({ type: 'text', text: markdown });
+  }
+  if (format !== 'markdown') {
+    content.push({ type: 'text', text: JSON.stringify(structured, null, 2) });
+  }
+  return { content, structuredContent: structured };
+}
+
+/**
+ * Format a cache entry age for display
+ */
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Annotate a successful tool result built from stale cache entries
+ *
+ * Lists each stale resource and its age in `_meta.stale_data` and, unless the
+ * format is json (whose text must stay a single JSON document), appends a
+ * markdown note with the same details. structuredContent is left as is, so it
+ * still matches the tool's output schema.
+ */
+export function annotateStaleData(
+  result: CallToolResult,
+  staleReads: readonly StaleRead[],
+  format: OutputFormat = 'markdown'
+): CallToolResult {
+  if (staleReads.length === 0 || result.isError === true) {
+    return result;
+  }
+
+  const unique = new Map<string, StaleRead>();
+  for (const read of staleReads) {
+    unique.set(
+      `${read.account}:${read.resourceType}:${read.identifier ?? ''}:${read.cachedAt}`,
+      read
+    );
+  }
+  const reads = [...unique.values()];
+
+  const annotated: CallToolResult = {
+    ...result,
+    _meta: {
+      ...result._meta,
+      stale_data: reads.map((read) => ({
+        account: read.account,
+        resource_type: read.resourceType,
+        identifier: read.identifier ?? null,
+        cached_at: new Date(read.cachedAt).toISOString(),
+        age_seconds: read.ageSeconds,
+        revalidation_error: read.revalidationError,
+      })),
+    },
+  };
+  if (format === 'json') {
+    return annotated;
+  }
+
+  const lines = ['⚠️ **Stale data**: some of this answer was served from cache past its TTL'];
+  for (const read of reads) {
+    const resource =
+      read.identifier !== undefined ? `${read.resourceType} ${read.identifier}` : read.resourceType;
+    const reason =
+      read.revalidationError !== null
+        ? `Braiins API unavailable: ${read.revalidationError}`
+        : 'refreshing in the background';
+    lines.push(`- ${read.account} ${resource}: ${formatAge(read.ageSeconds)} old (${reason})`);
+  }
+
+  return {
+    ...annotated,
+    content: [...result.content, { type: 'text', text: lines.join('\n') } as TextContent],
+  };
+}
+
+/**
+ * Convert a BTC amount string (e.g., "0.00123456") to a number
+ */
+export function btcToNumber(amount: string): number {
+  const value = parseFloat(amount);
+  return Number.isFinite(value) ? Number(value.toFixed(8)) : 0;
+}
+
+/**
+ * Normalize an ISO 8601 timestamp to UTC
+ */
+export function toIsoTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toISOString();
+}
+
+/**
+ * Normalize a nullable ISO 8601 timestamp to UTC
+ */
+export function toIsoTimestampOrNull(timestamp: string | null): string | null {
+  return timestamp !== null ? toIsoTimestamp(timestamp) : null;
+}
+
+/**
+ * Round a computed BTC amount to satoshi precision
+ */
+export function roundBtc(amount: number): number {
+  return Number(amount.toFixed(8));
+}
@@ -0,0 +1,69 @@
+/**
+ * Timeseries helpers shared by the history tools
+ *
+ * Summary statistics and ASCII sparklines over plain numeric series,
+ * so each tool only has to pick which value to chart.
+ */
+
+/**
+ * Summary statistics for a numeric series
+ */
+export interface SeriesStats {
+  min: number;
+  max: number;
+  avg: number;
+  latest: number;
+}
+
+/**
+ * Calculate statistics from a series ordered oldest first
+ */
+export function calculateStats(values: number[]): SeriesStats {
+  if (values.length === 0) {
+    return { min: 0, max: 0, avg: 0, latest: 0 };
+  }
+
+  const sum = values.reduce((a, b) => a + b, 0);
+
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    avg: sum / values.length,
+    latest: values[values.length - 1],
+  };
+}
+
+/**
+ * Generate a simple ASCII sparkline for a series ordered oldest first
+ */
+export function generateSparkline(values: number[], width: number = 20): string {
+  if (values.length === 0) return '';
+  if (values.length === 1) return '━';
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+
+  // If no variance, return flat line
+  if (range === 0) return '━'.repeat(Math.min(width, values.length));
+
+  // Sample points if we have more than width
+  const sampleSize = Math.min(width, values.length);
+  const step = values.length / sampleSize;
+  const sampled: number[] = [];
+
+  for (let i = 0; i < sampleSize; i++) {
+    const idx = Math.floor(i * step);
+    sampled.push(values[idx]);
+  }
+
+  // Map to sparkline characters
+  const chars = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+  return sampled
+    .map((v) => {
+      const normalized = (v - min) / range;
+      const charIdx = Math.min(Math.floor(normalized * chars.length), chars.length - 1);
+      return chars[charIdx];
+    })
+    .join('');
+}
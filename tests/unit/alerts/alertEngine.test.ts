@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the alert engine
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AlertEngine, type AlertEvent } from '../../../src/alerts/alertEngine.js';
+import { AlertRulesConfigSchema, type WorkerObservation } from '../../../src/alerts/alertRules.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('AlertEngine', () => {
+  const MINUTE_MS = 60 * 1000;
+  const T0 = Date.parse('2025-06-01T12:00:00Z');
+
+  const healthy: WorkerObservation = {
+    id: 'rig-01',
+    name: 'Rig 01',
+    status: 'ok',
+    hashrate: { current: 100e12, avg_24h: 100e12 },
+    shares: { valid: 1000, invalid: 0 },
+    last_share_at: null,
+  };
+  const slow: WorkerObservation = { ...healthy, hashrate: { current: 50e12, avg_24h: 100e12 } };
+
+  let engine: AlertEngine;
+  let events: AlertEvent[];
+
+  beforeEach(() => {
+    engine = new AlertEngine(
+      AlertRulesConfigSchema.parse({
+        cooldownMinutes: 30,
+        rules: [
+          { id: 'low', type: 'hashrate_drop', belowPercent: 70, minutes: 10 },
+          {
+            id: 'offline',
+            type: 'worker_offline',
+            severity: 'critical',
+            accounts: ['site-a'],
+          },
+        ],
+      })
+    );
+    events = [];
+    engine.onAlert((event) => events.push(event));
+  });
+
+  it('should fire once the condition has held for the rule minutes', () => {
+    engine.observe('site-a', [slow], { now: T0 });
+    engine.observe('site-a', [slow], { now: T0 + 5 * MINUTE_MS });
+    expect(engine.getActiveAlerts()).toEqual([]);
+
+    engine.observe('site-a', [slow], { now: T0 + 10 * MINUTE_MS });
+
+    expect(engine.getActiveAlerts()).toEqual([
+      expect.objectContaining({
+        id: 'low:site-a:rig-01',
+        severity: 'warning',
+        value: 50,
+        startedAt: T0,
+        firedAt: T0 + 10 * MINUTE_MS,
+        notified: true,
+      }),
+    ]);
+    expect(events.map((event) => event.type)).toEqual(['fired']);
+  });
+
+  it('should not fire when the condition clears before the hold time', () => {
+    engine.observe('site-a', [slow], { now: T0 });
+    engine.observe('site-a', [healthy], { now: T0 + 5 * MINUTE_MS });
+    engine.observe('site-a', [slow], { now: T0 + 12 * MINUTE_MS });
+
+    expect(engine.getActiveAlerts()).toEqual([]);
+    expect(events).toEqual([]);
+  });
+
+  it('should update an active alert without firing again', () => {
+    engine.observe('site-a', [slow], { now: T0 });
+    engine.observe('site-a', [slow], { now: T0 + 10 * MINUTE_MS });
+    engine.observe('site-a', [{ ...slow, hashrate: { current: 40e12, avg_24h: 100e12 } }], {
+      now: T0 + 20 * MINUTE_MS,
+    });
+
+    expect(events).toHaveLength(1);
+    expect(engine.getActiveAlerts()[0]).toMatchObject({
+      value: 40,
+      lastSeenAt: T0 + 20 * MINUTE_MS,
+    });
+  });
+
+  it('should resolve recovered alerts and announce the recovery', () => {
+    engine.observe('site-a', [{ ...healthy, status: 'off' }], { now: T0 });
+    engine.observe('site-a', [healthy], { now: T0 + MINUTE_MS });
+
+    expect(events.map((event) => [event.type, event.alert.ruleId])).toEqual([
+      ['fired', 'offline'],
+      ['resolved', 'offline'],
+    ]);
+    expect(engine.getActiveAlerts()).toEqual([]);
+    expect(engine.getRecentlyResolved()).toEqual([
+      expect.objectContaining({ id: 'offline:site-a:rig-01', resolvedAt: T0 + MINUTE_MS }),
+    ]);
+  });
+
+  it('should suppress notifications for an alert that fired within the cooldown', () => {
+    const off = { ...healthy, status: 'off' as const };
+    engine.observe('site-a', [off], { now: T0 });
+    engine.observe('site-a', [healthy], { now: T0 + MINUTE_MS });
+    engine.observe('site-a', [off], { now: T0 + 2 * MINUTE_MS });
+
+    expect(engine.getActiveAlerts()).toEqual([expect.objectContaining({ notified: false })]);
+    engine.observe('site-a', [healthy], { now: T0 + 3 * MINUTE_MS });
+    expect(events).toHaveLength(2);
+
+    engine.observe('site-a', [off], { now: T0 + 31 * MINUTE_MS });
+    expect(events.map((event) => event.type)).toEqual(['fired', 'resolved', 'fired']);
+  });
+
+  it('should only apply rules to their accounts', () => {
+    engine.observe('site-b', [{ ...healthy, status: 'off' }], { now: T0 });
+
+    expect(engine.getActiveAlerts()).toEqual([]);
+  });
+
+  it('should resolve alerts on workers missing from a complete observation', () => {
+    engine.observe('site-a', [{ ...healthy, status: 'off' }], { now: T0 });
+    engine.observe('site-a', [], { now: T0 + MINUTE_MS });
+    expect(engine.getActiveAlerts()).toHaveLength(1);
+
+    engine.observe('site-a', [], { now: T0 + 2 * MINUTE_MS, complete: true });
+
+    expect(engine.getActiveAlerts()).toEqual([]);
+    expect(events.map((event) => event.type)).toEqual(['fired', 'resolved']);
+  });
+
+  it('should list critical alerts first', () => {
+    engine.observe('site-a', [{ ...slow, id: 'rig-02' }], { now: T0 });
+    engine.observe('site-a', [{ ...slow, id: 'rig-02' }], { now: T0 + 10 * MINUTE_MS });
+    engine.observe('site-a', [{ ...healthy, status: 'off' }], { now: T0 + 11 * MINUTE_MS });
+
+    expect(engine.getActiveAlerts().map((alert) => alert.ruleId)).toEqual(['offline', 'low']);
+  });
+
+  it('should keep notifying other listeners when one throws', () => {
+    engine.onAlert(() => {
+      throw new Error('listener failed');
+    });
+    const after = vi.fn();
+    engine.onAlert(after);
+
+    engine.observe('site-a', [{ ...healthy, status: 'off' }], { now: T0 });
+
+    expect(after).toHaveBeenCalledTimes(1);
+  });
+});
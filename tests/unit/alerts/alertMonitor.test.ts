@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the alert monitor
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Account } from '../../../src/config/accounts.js';
+import type { CacheRefreshListener } from '../../../src/api/cachedBraiinsClient.js';
+import type { AlertEngine } from '../../../src/alerts/alertEngine.js';
+
+// Mock the cache refresh subscription
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  onCacheRefresh: vi.fn(),
+}));
+
+// Mock the full worker list walk
+vi.mock('../../../src/api/workerWalk.js', () => ({
+  walkAllWorkers: vi.fn(),
+}));
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+    alertEvaluationInterval: 60,
+  },
+}));
+
+describe('AlertMonitor', () => {
+  function account(name: string): Account {
+    return {
+      name,
+      apiToken: `${name}-token`,
+      apiMode: 'rest',
+      apiBaseUrl: 'https://pool.braiins.com/api/v1',
+      nativeApiBaseUrl: 'https://pool.braiins.com',
+    };
+  }
+
+  const worker = {
+    id: 'rig-01',
+    name: 'Rig 01',
+    status: 'off',
+    hashrate: { current: 0, avg_24h: 100e12 },
+    shares: { valid: 1000, invalid: 0 },
+    last_share_at: null,
+  };
+
+  function mockEngine(): AlertEngine {
+    return {
+      observe: vi.fn(),
+      getRules: vi.fn().mockReturnValue([]),
+      getActiveAlerts: vi.fn().mockReturnValue([]),
+    } as unknown as AlertEngine;
+  }
+
+  let refreshListener: CacheRefreshListener | undefined;
+  const unsubscribe = vi.fn();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    refreshListener = undefined;
+
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    const { onCacheRefresh } = await import('../../../src/api/cachedBraiinsClient.js');
+    const { walkAllWorkers } = await import('../../../src/api/workerWalk.js');
+
+    vi.mocked(getAccountRegistry).mockReturnValue(
+      new AccountRegistry([account('site-a'), account('site-b')])
+    );
+    vi.mocked(onCacheRefresh).mockImplementation((listener) => {
+      refreshListener = listener;
+      return unsubscribe;
+    });
+    vi.mocked(walkAllWorkers).mockImplementation((filters) =>
+      filters.account === 'site-b'
+        ? Promise.reject(new Error('API down'))
+        : Promise.resolve({
+            workers: [worker],
+            total: 1,
+            pagesFetched: 1,
+            duplicatesSkipped: 0,
+            capped: false,
+          } as never)
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should observe every worker of every account as a complete set', async () => {
+    const { AlertMonitor } = await import('../../../src/alerts/alertMonitor.js');
+    const engine = mockEngine();
+
+    const result = await new AlertMonitor(engine).evaluateRound();
+
+    expect(engine.observe).toHaveBeenCalledWith('site-a', [worker], {
+      now: result.evaluatedAt,
+      complete: true,
+    });
+    expect(result.workers).toEqual({ 'site-a': 1 });
+    expect(result.failed).toEqual([{ account: 'site-b', error: 'API down' }]);
+  });
+
+  it('should observe worker data refreshed from the API', async () => {
+    vi.useFakeTimers();
+    const { AlertMonitor } = await import('../../../src/alerts/alertMonitor.js');
+    const engine = mockEngine();
+    const monitor = new AlertMonitor(engine, 1000);
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(0);
+    vi.mocked(engine.observe).mockClear();
+
+    refreshListener?.({
+      account: 'site-b',
+      resourceType: 'workers-list',
+      data: { page: 1, page_size: 50, total: 1, workers: [worker] },
+    });
+    refreshListener?.({
+      account: 'site-b',
+      resourceType: 'worker-details',
+      identifier: 'rig-01',
+      data: { unexpected: true },
+    });
+    refreshListener?.({ account: 'site-b', resourceType: 'pool-stats', data: {} });
+
+    expect(engine.observe).toHaveBeenCalledTimes(1);
+    expect(engine.observe).toHaveBeenCalledWith('site-b', [worker]);
+
+    await monitor.stop();
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evaluate on start and then every interval until stopped', async () => {
+    vi.useFakeTimers();
+    const { AlertMonitor } = await import('../../../src/alerts/alertMonitor.js');
+    const { walkAllWorkers } = await import('../../../src/api/workerWalk.js');
+    const monitor = new AlertMonitor(mockEngine(), 1000);
+
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(walkAllWorkers).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(walkAllWorkers).toHaveBeenCalledTimes(4);
+
+    await monitor.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(walkAllWorkers).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for alert rule loading and evaluation
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AlertRuleSchema,
+  evaluateRule,
+  loadAlertRules,
+  type AlertRule,
+  type WorkerObservation,
+} from '../../../src/alerts/alertRules.js';
+import { ConfigError } from '../../../src/utils/errors.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('alertRules', () => {
+  const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+  const worker: WorkerObservation = {
+    id: 'rig-01',
+    name: 'Rig 01',
+    status: 'ok',
+    hashrate: { current: 100e12, avg_24h: 100e12 },
+    shares: { valid: 1000, invalid: 0 },
+    last_share_at: '2025-06-01T11:59:00Z',
+  };
+
+  function rule(input: Record<string, unknown>): AlertRule {
+    return AlertRuleSchema.parse({ id: 'test', ...input });
+  }
+
+  describe('loadAlertRules', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'alert-rules-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    function writeRules(content: unknown): string {
+      const file = join(dir, 'rules.json');
+      writeFileSync(file, JSON.stringify(content));
+      return file;
+    }
+
+    it('should load rules with defaults', () => {
+      const config = loadAlertRules(
+        writeRules({
+          rules: [
+            { id: 'offline', type: 'worker_offline', minutes: 15, severity: 'critical' },
+            { id: 'rejects', type: 'invalid_share_ratio', maxRatio: 0.02 },
+          ],
+        })
+      );
+
+      expect(config.cooldownMinutes).toBe(30);
+      expect(config.rules[0]).toMatchObject({ severity: 'critical', minutes: 15 });
+      expect(config.rules[1]).toMatchObject({ severity: 'warning', minutes: 0, minShares: 100 });
+    });
+
+    it('should reject duplicate ids and unknown rule types', () => {
+      expect(() =>
+        loadAlertRules(
+          writeRules({
+            rules: [
+              { id: 'a', type: 'no_shares', minutes: 30 },
+              { id: 'a', type: 'worker_offline' },
+            ],
+          })
+        )
+      ).toThrow(ConfigError);
+      expect(() =>
+        loadAlertRules(writeRules({ rules: [{ id: 'a', type: 'temperature_high' }] }))
+      ).toThrow('Invalid alert rules file');
+    });
+
+    it('should throw ConfigError for a missing file', () => {
+      expect(() => loadAlertRules(join(dir, 'missing.json'))).toThrow(
+        'Cannot read alert rules file'
+      );
+    });
+  });
+
+  describe('evaluateRule', () => {
+    it('should date an offline worker from its last share', () => {
+      const result = evaluateRule(
+        rule({ type: 'worker_offline', minutes: 15 }),
+        { ...worker, status: 'off', last_share_at: '2025-06-01T11:00:00Z' },
+        NOW
+      );
+
+      expect(result).toMatchObject({
+        breaching: true,
+        since: Date.parse('2025-06-01T11:00:00Z'),
+        value: 60,
+        message: 'Worker Rig 01 is off; last share 1h 0m ago',
+      });
+      expect(evaluateRule(rule({ type: 'worker_offline' }), worker, NOW).breaching).toBe(false);
+    });
+
+    it('should compare hashrate against the 24h average', () => {
+      const drop = rule({ type: 'hashrate_drop', belowPercent: 70 });
+
+      expect(
+        evaluateRule(drop, { ...worker, hashrate: { current: 60e12, avg_24h: 100e12 } }, NOW)
+      ).toMatchObject({ breaching: true, value: 60, threshold: 70 });
+      expect(
+        evaluateRule(drop, { ...worker, hashrate: { current: 80e12, avg_24h: 100e12 } }, NOW)
+          .breaching
+      ).toBe(false);
+    });
+
+    it('should leave offline and disabled workers to the offline rule', () => {
+      const drop = rule({ type: 'hashrate_drop', belowPercent: 70 });
+      const stopped = { ...worker, hashrate: { current: 0, avg_24h: 100e12 } };
+
+      expect(evaluateRule(drop, { ...stopped, status: 'off' }, NOW).breaching).toBe(false);
+      expect(evaluateRule(drop, { ...stopped, status: 'dis' }, NOW).breaching).toBe(false);
+    });
+
+    it('should need enough shares before judging the invalid ratio', () => {
+      const rejects = rule({ type: 'invalid_share_ratio', maxRatio: 0.02, minShares: 500 });
+
+      expect(
+        evaluateRule(rejects, { ...worker, shares: { valid: 950, invalid: 50 } }, NOW)
+      ).toMatchObject({ breaching: true, value: 0.05 });
+      expect(
+        evaluateRule(rejects, { ...worker, shares: { valid: 90, invalid: 10 } }, NOW).breaching
+      ).toBe(false);
+    });
+
+    it('should flag workers without shares for the given time', () => {
+      const stalled = rule({ type: 'no_shares', minutes: 30 });
+
+      expect(evaluateRule(stalled, worker, NOW).breaching).toBe(false);
+      expect(
+        evaluateRule(stalled, { ...worker, last_share_at: '2025-06-01T11:00:00Z' }, NOW)
+      ).toMatchObject({ breaching: true, message: 'No shares from worker Rig 01 for 1h 0m' });
+      expect(evaluateRule(stalled, { ...worker, last_share_at: null }, NOW)).toMatchObject({
+        breaching: true,
+        since: undefined,
+      });
+    });
+  });
+});
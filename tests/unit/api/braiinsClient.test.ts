@@ -12,6 +12,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import axios from 'axios';
 import type { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Mock axios
 vi.mock('axios', () => {
@@ -36,8 +39,12 @@ vi.mock('../../../src/config/settings.js', () => ({
     braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
     braiinsApiToken: 'test-api-token',
     requestTimeout: 30000,
+    rateLimitRequestsPerSecond: 10,
+    rateLimitBurstSize: 20,
     maxRetries: 3,
     retryBaseDelay: 100, // Fast retries for tests
+    circuitFailureThreshold: 5,
+    circuitResetTimeout: 30000,
     logLevel: 'error',
     logFormat: 'json',
   },
@@ -115,6 +122,20 @@ describe('BraiinsClient', () => {
       );
     });
 
+    it('should use per-account credentials when given', async () => {
+      const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
+      new BraiinsClient({ token: 'site-token', baseURL: 'https://site.example/api/v1' });
+
+      expect(axios.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          baseURL: 'https://site.example/api/v1',
+          headers: expect.objectContaining({
+            Authorization: 'Bearer site-token',
+          }),
+        })
+      );
+    });
+
     it('should register request interceptor for logging', async () => {
       const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
       new BraiinsClient();
@@ -138,8 +159,14 @@ describe('BraiinsClient', () => {
           braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
           braiinsApiToken: '', // Empty token
           requestTimeout: 30000,
+          rateLimitRequestsPerSecond: 10,
+          rateLimitBurstSize: 20,
+          rateLimitRequestsPerSecond: 10,
+          rateLimitBurstSize: 20,
           maxRetries: 3,
           retryBaseDelay: 100,
+          circuitFailureThreshold: 5,
+          circuitResetTimeout: 30000,
           logLevel: 'error',
           logFormat: 'json',
         },
@@ -227,6 +254,51 @@ describe('BraiinsClient', () => {
       expect(result).toEqual({ rewards: [] });
     });
 
+    it('should call getPayouts endpoint with params', async () => {
+      const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
+      const client = new BraiinsClient();
+
+      const mockResponse = { data: { currency: 'BTC', payouts: [] } };
+      mockAxiosInstance.get.mockResolvedValueOnce(mockResponse);
+
+      const params = { from: '2025-01-01T00:00:00Z' };
+      const result = await client.getPayouts(params);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/user/payouts', { params });
+      expect(result).toEqual({ currency: 'BTC', payouts: [] });
+    });
+
+    it('should call getBlockRewards endpoint with params', async () => {
+      const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
+      const client = new BraiinsClient();
+
+      const mockResponse = { data: { currency: 'BTC', block_rewards: [] } };
+      mockAxiosInstance.get.mockResolvedValueOnce(mockResponse);
+
+      const params = { from: '2025-01-01T00:00:00Z', to: '2025-01-07T00:00:00Z' };
+      const result = await client.getBlockRewards(params);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/user/block-rewards', { params });
+      expect(result).toEqual({ currency: 'BTC', block_rewards: [] });
+    });
+
+    it('should call getDailyHashrate endpoint with group flag', async () => {
+      const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
+      const client = new BraiinsClient();
+
+      mockAxiosInstance.get.mockResolvedValue({ data: { scope: 'group', points: [] } });
+
+      await client.getDailyHashrate('group');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/user/hashrate/daily', {
+        params: { group: 'true' },
+      });
+
+      await client.getDailyHashrate();
+      expect(mockAxiosInstance.get).toHaveBeenLastCalledWith('/user/hashrate/daily', {
+        params: {},
+      });
+    });
+
     it('should call getPoolStats endpoint', async () => {
       const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
       const client = new BraiinsClient();
@@ -343,6 +415,59 @@ describe('BraiinsClient', () => {
     });
   });
 
+  describe('Circuit Breaker', () => {
+    it('should fail fast once the endpoint circuit is open', async () => {
+      const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
+      const { CircuitOpenError } = await import('../../../src/utils/errors.js');
+      const { getCircuitBreakers } = await import('../../../src/api/circuitBreaker.js');
+      const client = new BraiinsClient();
+
+      mockAxiosInstance.get.mockRejectedValue(createAxiosError(503, 'Service Unavailable'));
+
+      // 4 failed attempts on the first call, the 5th opens the circuit mid-retry
+      let firstError: unknown;
+      const first = client.getPoolStats().catch((e) => {
+        firstError = e;
+      });
+      await vi.runAllTimersAsync();
+      await first;
+      let secondError: unknown;
+      const second = client.getPoolStats().catch((e) => {
+        secondError = e;
+      });
+      await vi.runAllTimersAsync();
+      await second;
+
+      expect(firstError).not.toBeInstanceOf(CircuitOpenError);
+      expect(secondError).toBeInstanceOf(CircuitOpenError);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(5);
+
+      // Other endpoints keep their own circuit
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: { username: 'test_user' } });
+      await expect(client.getUserOverview()).resolves.toEqual({ username: 'test_user' });
+
+      const status = getCircuitBreakers()
+        .list()
+        .find((circuit) => circuit.endpoint === '/pool/stats');
+      expect(status).toMatchObject({ state: 'open', consecutiveFailures: 5, totalRejected: 1 });
+    });
+
+    it('should not count 4xx responses as endpoint failures', async () => {
+      const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
+      const { getCircuitBreakers } = await import('../../../src/api/circuitBreaker.js');
+      const client = new BraiinsClient();
+
+      mockAxiosInstance.get.mockRejectedValue(createAxiosError(404, 'Not Found'));
+      for (let i = 0; i < 6; i++) {
+        await expect(client.getWorkerDetails(`rig-${i}`)).rejects.toThrow();
+      }
+
+      expect(getCircuitBreakers().list()).toEqual([
+        expect.objectContaining({ endpoint: '/workers/{id}', state: 'closed', totalFailures: 0 }),
+      ]);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should transform 401 error to UNAUTHORIZED', async () => {
       const { BraiinsClient } = await import('../../../src/api/braiinsClient.js');
@@ -498,6 +623,47 @@ describe('BraiinsClient', () => {
 
       expect(instance1).not.toBe(instance2);
     });
+
+    it('should keep one instance per account', async () => {
+      const { config } = await import('../../../src/config/settings.js');
+      const { getBraiinsClient, resetBraiinsClient, BraiinsClient } =
+        await import('../../../src/api/braiinsClient.js');
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { ValidationError } = await import('../../../src/utils/errors.js');
+
+      const dir = mkdtempSync(join(tmpdir(), 'braiins-client-'));
+      try {
+        const accountsFile = join(dir, 'accounts.json');
+        writeFileSync(
+          accountsFile,
+          JSON.stringify({
+            accounts: [
+              { name: 'site-a', apiKey: 'token-a' },
+              { name: 'site-b', apiKey: 'token-b', apiMode: 'native' },
+            ],
+          })
+        );
+        Object.assign(config, { braiinsAccountsFile: accountsFile });
+        resetBraiinsClient();
+
+        const siteA = getBraiinsClient('site-a');
+        const siteB = getBraiinsClient('site-b');
+
+        expect(getBraiinsClient()).toBe(siteA);
+        expect(getBraiinsClient('site-b')).toBe(siteB);
+        expect(siteA).toBeInstanceOf(BraiinsClient);
+        expect(siteB).toBeInstanceOf(NativeBraiinsClient);
+        expect(axios.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            headers: expect.objectContaining({ 'Pool-Auth-Token': 'token-b' }),
+          })
+        );
+        expect(() => getBraiinsClient('site-c')).toThrow(ValidationError);
+      } finally {
+        Object.assign(config, { braiinsAccountsFile: undefined });
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 });
 
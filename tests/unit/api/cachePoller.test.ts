@@ -0,0 +1,250 @@
+/**
+ * Unit tests for the background cache poller
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Account } from '../../../src/config/accounts.js';
+import {
+  fitIntervals,
+  type PollIntervals,
+  type PolledResource,
+} from '../../../src/api/cachePoller.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock the shared rate limiter
+vi.mock('../../../src/api/rateLimiter.js', () => ({
+  getRateLimiter: vi.fn(),
+}));
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+    rateLimitRequestsPerSecond: 1,
+    pollRateBudget: 0.5,
+    pollIntervalUserOverview: 25,
+    pollIntervalWorkers: 25,
+    pollIntervalPoolStats: 50,
+    pollIntervalNetworkStats: 50,
+  },
+}));
+
+describe('CachePoller', () => {
+  const intervals: PollIntervals = {
+    'user-overview': 10,
+    'workers-list': 10,
+    'pool-stats': 20,
+    'network-stats': 20,
+  };
+
+  function account(name: string): Account {
+    return {
+      name,
+      apiToken: `${name}-token`,
+      apiMode: 'rest',
+      apiBaseUrl: 'https://pool.braiins.com/api/v1',
+      nativeApiBaseUrl: 'https://pool.braiins.com',
+    };
+  }
+
+  interface MockClient {
+    getUserOverview: ReturnType<typeof vi.fn>;
+    listWorkers: ReturnType<typeof vi.fn>;
+    getPoolStats: ReturnType<typeof vi.fn>;
+    getNetworkStats: ReturnType<typeof vi.fn>;
+  }
+
+  let queueDepth: number;
+
+  async function setup(names: string[]): Promise<Map<string, MockClient>> {
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+    const { getRateLimiter } = await import('../../../src/api/rateLimiter.js');
+
+    const clients = new Map<string, MockClient>(
+      names.map((name) => [
+        name,
+        {
+          getUserOverview: vi.fn().mockResolvedValue({}),
+          listWorkers: vi.fn().mockResolvedValue({}),
+          getPoolStats: vi.fn().mockResolvedValue({}),
+          getNetworkStats: vi.fn().mockResolvedValue({}),
+        },
+      ])
+    );
+    vi.mocked(getAccountRegistry).mockReturnValue(new AccountRegistry(names.map(account)));
+    vi.mocked(getCachedBraiinsClient).mockImplementation(
+      (name?: string) => clients.get(name ?? names[0]) as never
+    );
+    vi.mocked(getRateLimiter).mockReturnValue({
+      getStats: () => ({ availableTokens: 5, queueDepth, totalAdmitted: 0, totalRejected: 0 }),
+    } as never);
+    return clients;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    queueDepth = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('fitIntervals', () => {
+    const all: PolledResource[] = ['user-overview', 'workers-list', 'pool-stats', 'network-stats'];
+
+    it('should keep intervals that fit the budget', () => {
+      // 1/10 + 1/10 + 1/20 + 1/20 = 0.3 requests per second
+      expect(fitIntervals(intervals, [all], 0.5)).toEqual(intervals);
+    });
+
+    it('should stretch intervals evenly when accounts exceed the budget', () => {
+      // Two accounts need 0.6 requests per second; the budget is 0.2
+      expect(fitIntervals(intervals, [all, all], 0.2)).toEqual({
+        'user-overview': 30,
+        'workers-list': 30,
+        'pool-stats': 60,
+        'network-stats': 60,
+      });
+    });
+
+    it('should only count resources each account polls', () => {
+      // 0.3 + 0.25 without network stats = 0.55 requests per second; the budget is 0.55
+      const native = all.filter((resource) => resource !== 'network-stats');
+      expect(fitIntervals(intervals, [all, native], 0.55)).toEqual(intervals);
+    });
+  });
+
+  describe('polling', () => {
+    it('should refresh every resource of every account, bypassing the cache', async () => {
+      const { CachePoller } = await import('../../../src/api/cachePoller.js');
+      const clients = await setup(['site-a', 'site-b']);
+      const poller = new CachePoller({ intervals, requestsPerSecond: 10 });
+
+      poller.start();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      for (const client of clients.values()) {
+        expect(client.getUserOverview).toHaveBeenCalledWith({ refresh: true });
+        expect(client.listWorkers).toHaveBeenCalledWith(
+          { page: 1, page_size: 50 },
+          { refresh: true }
+        );
+        expect(client.getPoolStats).toHaveBeenCalledWith({ refresh: true });
+        expect(client.getNetworkStats).toHaveBeenCalledWith({ refresh: true });
+      }
+      expect(poller.getStatus()).toHaveLength(8);
+
+      await poller.stop();
+    });
+
+    it('should not poll network stats for accounts in native API mode', async () => {
+      const { CachePoller } = await import('../../../src/api/cachePoller.js');
+      const { AccountRegistry, getAccountRegistry } =
+        await import('../../../src/config/accounts.js');
+      const clients = await setup(['site-a']);
+      vi.mocked(getAccountRegistry).mockReturnValue(
+        new AccountRegistry([{ ...account('site-a'), apiMode: 'native' }])
+      );
+      const poller = new CachePoller({ intervals, requestsPerSecond: 10 });
+
+      poller.start();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(clients.get('site-a')?.getPoolStats).toHaveBeenCalled();
+      expect(clients.get('site-a')?.getNetworkStats).not.toHaveBeenCalled();
+      expect(poller.getStatus().map((task) => task.resource)).not.toContain('network-stats');
+
+      await poller.stop();
+    });
+
+    it('should repeat each refresh on its interval', async () => {
+      const { CachePoller } = await import('../../../src/api/cachePoller.js');
+      const clients = await setup(['site-a']);
+      const client = clients.get('site-a') as MockClient;
+      const poller = new CachePoller({ intervals, requestsPerSecond: 10 });
+
+      poller.start();
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(20000);
+
+      expect(client.getUserOverview).toHaveBeenCalledTimes(3);
+      expect(client.getPoolStats).toHaveBeenCalledTimes(2);
+
+      await poller.stop();
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(client.getUserOverview).toHaveBeenCalledTimes(3);
+    });
+
+    it('should record failures and keep polling', async () => {
+      const { CachePoller } = await import('../../../src/api/cachePoller.js');
+      const clients = await setup(['site-a']);
+      const client = clients.get('site-a') as MockClient;
+      client.getUserOverview.mockRejectedValueOnce(new Error('API down'));
+      const poller = new CachePoller({ intervals, requestsPerSecond: 10 });
+
+      poller.start();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const overview = poller.getStatus().find((task) => task.resource === 'user-overview');
+      expect(overview).toMatchObject({ runs: 1, failures: 1, lastError: 'API down' });
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(poller.getStatus().find((task) => task.resource === 'user-overview')).toMatchObject({
+        runs: 2,
+        failures: 1,
+        lastError: null,
+      });
+
+      await poller.stop();
+    });
+
+    it('should skip refreshes while tool calls wait for the rate limiter', async () => {
+      const { CachePoller } = await import('../../../src/api/cachePoller.js');
+      const clients = await setup(['site-a']);
+      queueDepth = 2;
+      const poller = new CachePoller({ intervals, requestsPerSecond: 10 });
+
+      poller.start();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(clients.get('site-a')?.getUserOverview).not.toHaveBeenCalled();
+      expect(poller.getStatus().every((task) => task.skipped === 1 && task.runs === 0)).toBe(true);
+
+      await poller.stop();
+    });
+
+    it('should stagger first refreshes over the rate budget', async () => {
+      const { CachePoller } = await import('../../../src/api/cachePoller.js');
+      const clients = await setup(['site-a']);
+      const client = clients.get('site-a') as MockClient;
+      // One request per second: tasks start at 0s, 1s, 2s and 3s
+      const poller = new CachePoller({ intervals, requestsPerSecond: 1 });
+
+      poller.start();
+      await vi.advanceTimersByTimeAsync(1500);
+
+      expect(client.getUserOverview).toHaveBeenCalledTimes(1);
+      expect(client.listWorkers).toHaveBeenCalledTimes(1);
+      expect(client.getPoolStats).not.toHaveBeenCalled();
+
+      await poller.stop();
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the cached Braiins client
+ *
+ * Covers the cache-aside reads and stale-while-revalidate mode, against an
+ * in-memory cache and a mocked API client.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AccountRegistry } from '../../../src/config/accounts.js';
+import { resetCacheConfig } from '../../../src/cache/cachingStrategy.js';
+import { trackStaleReads } from '../../../src/cache/staleReads.js';
+
+// Mock the underlying API client
+vi.mock('../../../src/api/braiinsClient.js', () => ({
+  getBraiinsClient: vi.fn(),
+}));
+
+// Mock the Redis manager with an in-memory cache
+vi.mock('../../../src/cache/redisManager.js', () => ({
+  getRedisManager: vi.fn(),
+}));
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('CachedBraiinsClient', () => {
+  const NOW = Date.parse('2025-06-01T12:00:00Z');
+  const stats = { coin: 'BTC', pool_hashrate: 1 };
+  const freshStats = { coin: 'BTC', pool_hashrate: 2 };
+
+  let store: Map<string, { value: unknown; ttl: number }>;
+  let api: { getPoolStats: ReturnType<typeof vi.fn> };
+  const originalEnv = process.env;
+
+  /**
+   * Let background refreshes settle
+   */
+  async function flush(): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    process.env = { ...originalEnv };
+    delete process.env.CACHE_STALE_WHILE_REVALIDATE;
+    delete process.env.CACHE_MAX_STALE;
+    delete process.env.CACHE_TTL_POOL_STATS;
+    resetCacheConfig();
+
+    store = new Map();
+    api = { getPoolStats: vi.fn().mockResolvedValue(freshStats) };
+
+    const { getBraiinsClient } = await import('../../../src/api/braiinsClient.js');
+    const { getRedisManager } = await import('../../../src/cache/redisManager.js');
+    const { getAccountRegistry } = await import('../../../src/config/accounts.js');
+    vi.mocked(getBraiinsClient).mockReturnValue(api as never);
+    vi.mocked(getRedisManager).mockReturnValue({
+      get: (key: string) => Promise.resolve(store.get(key)?.value ?? null),
+      set: (key: string, value: unknown, ttl: number) => {
+        store.set(key, { value, ttl });
+        return Promise.resolve();
+      },
+    } as never);
+    vi.mocked(getAccountRegistry).mockReturnValue(
+      new AccountRegistry([
+        {
+          name: 'main',
+          apiToken: 'main-token',
+          apiMode: 'rest',
+          apiBaseUrl: 'https://pool.braiins.com/api/v1',
+          nativeApiBaseUrl: 'https://pool.braiins.com',
+        },
+      ])
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    process.env = originalEnv;
+    resetCacheConfig();
+  });
+
+  describe('default mode', () => {
+    it('should cache responses for their TTL', async () => {
+      const { CachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const client = new CachedBraiinsClient();
+
+      await expect(client.getPoolStats()).resolves.toEqual(freshStats);
+      await expect(client.getPoolStats()).resolves.toEqual(freshStats);
+
+      expect(api.getPoolStats).toHaveBeenCalledTimes(1);
+      expect(store.get('braiins:main:pool-stats')).toEqual({ value: freshStats, ttl: 60 });
+    });
+  });
+
+  describe('stale-while-revalidate mode', () => {
+    const entryKey = 'braiins-swr:main:pool-stats';
+
+    beforeEach(() => {
+      process.env.CACHE_STALE_WHILE_REVALIDATE = 'true';
+      process.env.CACHE_MAX_STALE = '600';
+      resetCacheConfig();
+    });
+
+    it('should store entries with their fetch time until the hard TTL', async () => {
+      const { CachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+
+      await new CachedBraiinsClient().getPoolStats();
+
+      expect(store.get(entryKey)).toEqual({
+        value: { data: freshStats, cachedAt: NOW },
+        ttl: 660,
+      });
+    });
+
+    it('should serve fresh entries without calling the API', async () => {
+      store.set(entryKey, { value: { data: stats, cachedAt: NOW - 30000 }, ttl: 660 });
+      const { CachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+
+      const { result, staleReads } = await trackStaleReads(() =>
+        new CachedBraiinsClient().getPoolStats()
+      );
+
+      expect(result).toEqual(stats);
+      expect(staleReads).toEqual([]);
+      expect(api.getPoolStats).not.toHaveBeenCalled();
+    });
+
+    it('should serve stale entries and refresh them in the background', async () => {
+      store.set(entryKey, { value: { data: stats, cachedAt: NOW - 90000 }, ttl: 660 });
+      const { CachedBraiinsClient, onCacheRefresh } =
+        await import('../../../src/api/cachedBraiinsClient.js');
+      const client = new CachedBraiinsClient();
+      const listener = vi.fn();
+      const unsubscribe = onCacheRefresh(listener);
+
+      const { result, staleReads } = await trackStaleReads(async () => {
+        const first = await client.getPoolStats();
+        await client.getPoolStats();
+        return first;
+      });
+      await flush();
+      unsubscribe();
+
+      expect(result).toEqual(stats);
+      expect(staleReads[0]).toEqual({
+        account: 'main',
+        resourceType: 'pool-stats',
+        identifier: undefined,
+        cachedAt: NOW - 90000,
+        ageSeconds: 90,
+        revalidationError: null,
+      });
+      // One refresh at a time per entry
+      expect(api.getPoolStats).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ resourceType: 'pool-stats', data: freshStats })
+      );
+      expect(store.get(entryKey)?.value).toEqual({ data: freshStats, cachedAt: NOW });
+    });
+
+    it('should keep serving stale entries while the API fails', async () => {
+      store.set(entryKey, { value: { data: stats, cachedAt: NOW - 90000 }, ttl: 660 });
+      api.getPoolStats.mockRejectedValue(new Error('Cannot connect to Braiins API'));
+      const { CachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const client = new CachedBraiinsClient();
+
+      await client.getPoolStats();
+      await flush();
+      const { result, staleReads } = await trackStaleReads(() => client.getPoolStats());
+
+      expect(result).toEqual(stats);
+      expect(staleReads).toEqual([
+        expect.objectContaining({ revalidationError: 'Cannot connect to Braiins API' }),
+      ]);
+      expect(store.get(entryKey)?.value).toEqual({ data: stats, cachedAt: NOW - 90000 });
+    });
+
+    it('should bypass stale entries on refresh', async () => {
+      store.set(entryKey, { value: { data: stats, cachedAt: NOW - 90000 }, ttl: 660 });
+      const { CachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+
+      const { result, staleReads } = await trackStaleReads(() =>
+        new CachedBraiinsClient().getPoolStats({ refresh: true })
+      );
+
+      expect(result).toEqual(freshStats);
+      expect(staleReads).toEqual([]);
+    });
+  });
+});
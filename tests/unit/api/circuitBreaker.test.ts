@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the per-endpoint circuit breaker
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CircuitBreaker, CircuitBreakerRegistry } from '../../../src/api/circuitBreaker.js';
+import { CircuitOpenError, ErrorCode } from '../../../src/utils/errors.js';
+import { logger } from '../../../src/utils/logger.js';
+
+// Mock config
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    circuitFailureThreshold: 5,
+    circuitResetTimeout: 30000,
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+// Mock logger to check transition logs
+vi.mock('../../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('CircuitBreaker', () => {
+  const API = 'https://pool.braiins.com/api/v1';
+  const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+  let breaker: CircuitBreaker;
+
+  /**
+   * Record admitted, failed attempts
+   */
+  function fail(times: number, now = NOW): void {
+    for (let i = 0; i < times; i++) {
+      breaker.admit(now);
+      breaker.recordFailure('Request failed with status code 503', now);
+    }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    breaker = new CircuitBreaker(API, '/pool/stats', 3, 30000);
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    fail(2);
+    breaker.admit(NOW);
+    breaker.recordSuccess();
+
+    fail(2);
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStatus()).toMatchObject({ consecutiveFailures: 2, totalFailures: 4 });
+  });
+
+  it('should open after consecutive failures and fail fast with a clear error', () => {
+    fail(3);
+
+    expect(breaker.getState()).toBe('open');
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Circuit breaker opened',
+      expect.objectContaining({ endpoint: '/pool/stats', from: 'closed' })
+    );
+
+    let caught: unknown;
+    try {
+      breaker.admit(NOW + 10000);
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(CircuitOpenError);
+    expect((caught as CircuitOpenError).code).toBe(ErrorCode.CIRCUIT_OPEN);
+    expect((caught as CircuitOpenError).message).toBe(
+      'Braiins API circuit open for /pool/stats after 3 consecutive failures; retrying in 20s'
+    );
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'open',
+      totalRejected: 1,
+      openedAt: NOW,
+      retryAt: NOW + 30000,
+      lastError: 'Request failed with status code 503',
+    });
+  });
+
+  it('should let a single probe through once the reset timeout has passed', () => {
+    fail(3);
+
+    breaker.admit(NOW + 30000);
+    expect(breaker.getState()).toBe('half-open');
+    expect(() => breaker.admit(NOW + 30001)).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStatus()).toMatchObject({ consecutiveFailures: 0, openedAt: null });
+    expect(logger.info).toHaveBeenCalledWith(
+      'Circuit breaker closed',
+      expect.objectContaining({ from: 'half-open' })
+    );
+  });
+
+  it('should reopen when the probe fails', () => {
+    fail(3);
+
+    fail(1, NOW + 30000);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getStatus().retryAt).toBe(NOW + 60000);
+    expect(() => breaker.admit(NOW + 45000)).toThrow(CircuitOpenError);
+  });
+
+  it('should free the probe slot when the attempt is released', () => {
+    fail(3);
+
+    breaker.admit(NOW + 30000);
+    breaker.release();
+    expect(() => breaker.admit(NOW + 30001)).not.toThrow();
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('should keep one breaker per API and endpoint', () => {
+    const registry = new CircuitBreakerRegistry(5, 30000);
+
+    const stats = registry.get('https://b.example', '/pool/stats');
+    expect(registry.get('https://b.example', '/pool/stats')).toBe(stats);
+    registry.get('https://b.example', '/network/stats');
+    registry.get('https://a.example', '/pool/stats');
+
+    expect(registry.list().map((status) => `${status.api} ${status.endpoint}`)).toEqual([
+      'https://a.example /pool/stats',
+      'https://b.example /network/stats',
+      'https://b.example /pool/stats',
+    ]);
+  });
+
+  it('should be shared through the singleton until reset', async () => {
+    const { getCircuitBreakers, resetCircuitBreakers } =
+      await import('../../../src/api/circuitBreaker.js');
+
+    const registry = getCircuitBreakers();
+    expect(getCircuitBreakers()).toBe(registry);
+
+    resetCircuitBreakers();
+    expect(getCircuitBreakers()).not.toBe(registry);
+  });
+});
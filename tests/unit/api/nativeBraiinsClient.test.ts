@@ -0,0 +1,587 @@
+/**
+ * Unit tests for Native Braiins API Client
+ *
+ * Tests the adapter for the real Braiins Pool JSON endpoints:
+ * - Pool-Auth-Token authentication header
+ * - Endpoint paths
+ * - Normalization into the REST response types
+ * - Client selection via BRAIINS_API_MODE
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+
+// Mock axios
+vi.mock('axios', () => {
+  const mockAxiosInstance = {
+    get: vi.fn(),
+    interceptors: {
+      request: { use: vi.fn() },
+      response: { use: vi.fn() },
+    },
+  };
+  return {
+    default: {
+      create: vi.fn(() => mockAxiosInstance),
+    },
+  };
+});
+
+// Mock config
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-api-token',
+    braiinsApiMode: 'native',
+    braiinsNativeApiBaseUrl: 'https://pool.braiins.com',
+    requestTimeout: 30000,
+    rateLimitRequestsPerSecond: 10,
+    rateLimitBurstSize: 20,
+    maxRetries: 3,
+    retryBaseDelay: 100,
+    circuitFailureThreshold: 5,
+    circuitResetTimeout: 30000,
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+// Mock logger to suppress output during tests
+vi.mock('../../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('NativeBraiinsClient', () => {
+  let mockAxiosInstance: {
+    get: ReturnType<typeof vi.fn>;
+    interceptors: {
+      request: { use: ReturnType<typeof vi.fn> };
+      response: { use: ReturnType<typeof vi.fn> };
+    };
+  };
+
+  const profileResponse = {
+    username: 'farm_operator',
+    btc: {
+      all_time_reward: '1.23456789',
+      hash_rate_unit: 'Gh/s',
+      hash_rate_5m: 150000,
+      hash_rate_60m: '148000',
+      hash_rate_24h: 145000,
+      hash_rate_yesterday: 144000,
+      low_workers: 1,
+      off_workers: 2,
+      ok_workers: 7,
+      dis_workers: 1,
+      current_balance: '0.01234567',
+      today_reward: '0.00050000',
+      estimated_reward: '0.00001000',
+      shares_5m: 1000,
+      shares_60m: 12000,
+      shares_24h: 288000,
+      shares_yesterday: 290000,
+    },
+  };
+
+  const workersResponse = {
+    btc: {
+      workers: {
+        'farm_operator.rig-b': {
+          last_share: 1735689600,
+          state: 'ok',
+          hash_rate_unit: 'Gh/s',
+          hash_rate_scoring: 110000,
+          hash_rate_5m: 110000,
+          hash_rate_60m: 109000,
+          hash_rate_24h: 108000,
+          shares_5m: 100,
+          shares_60m: 1200,
+          shares_24h: 28800,
+        },
+        'farm_operator.rig-a': {
+          last_share: 1735689000,
+          state: 'low',
+          hash_rate_unit: 'Gh/s',
+          hash_rate_scoring: 40000,
+          hash_rate_5m: 40000,
+          hash_rate_60m: 41000,
+          hash_rate_24h: 42000,
+          shares_5m: 40,
+          shares_60m: 480,
+          shares_24h: 11520,
+        },
+        'farm_operator.rig-c': {
+          last_share: 0,
+          state: 'off',
+          hash_rate_unit: 'Gh/s',
+          hash_rate_scoring: 0,
+          hash_rate_5m: 0,
+          hash_rate_60m: 0,
+          hash_rate_24h: 0,
+          shares_5m: 0,
+          shares_60m: 0,
+          shares_24h: 0,
+        },
+      },
+    },
+  };
+
+  const poolStatsResponse = {
+    btc: {
+      hash_rate_unit: 'Gh/s',
+      pool_5m_hash_rate: 12500000000,
+      pool_60m_hash_rate: 12400000000,
+      pool_24h_hash_rate: 12300000000,
+      update_ts: 1735693200,
+      fpps_rate: 0.00000045,
+      blocks: {
+        '876543': {
+          date_found: 1735680000,
+          mining_duration: 5400,
+          total_shares: 1000000,
+          state: 'confirmed',
+          confirmations_left: 0,
+          value: '3.15000000',
+          user_reward: '0.00010000',
+          pool_scoring_hash_rate: 12000000000,
+        },
+        '876600': {
+          date_found: 1735690000,
+          mining_duration: 3600,
+          total_shares: 800000,
+          state: 'new',
+          confirmations_left: 95,
+          value: '3.14000000',
+          user_reward: '0.00009000',
+          pool_scoring_hash_rate: 12100000000,
+        },
+      },
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+
+    mockAxiosInstance = {
+      get: vi.fn(),
+      interceptors: {
+        request: { use: vi.fn() },
+        response: { use: vi.fn() },
+      },
+    };
+    vi.mocked(axios.create).mockReturnValue(mockAxiosInstance as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Constructor', () => {
+    it('should use native base URL and Pool-Auth-Token header', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      new NativeBraiinsClient();
+
+      expect(axios.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          baseURL: 'https://pool.braiins.com',
+          headers: expect.objectContaining({
+            'Pool-Auth-Token': 'test-api-token',
+          }),
+        })
+      );
+    });
+
+    it('should not send a Bearer Authorization header', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      new NativeBraiinsClient();
+
+      const createCall = vi.mocked(axios.create).mock.calls[0][0];
+      expect(createCall?.headers?.Authorization).toBeUndefined();
+    });
+  });
+
+  describe('API Methods', () => {
+    it('should normalize profile into user overview', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { GetUserOverviewResponseSchema } =
+        await import('../../../src/schemas/getUserOverviewResponse.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: profileResponse });
+
+      const result = await client.getUserOverview();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/accounts/profile/json/btc/');
+      expect(GetUserOverviewResponseSchema.safeParse(result).success).toBe(true);
+      expect(result.username).toBe('farm_operator');
+      expect(result.hashrate.current).toBe(150000e9);
+      expect(result.hashrate.avg_1h).toBe(148000e9);
+      expect(result.rewards.confirmed).toBe('0.01234567');
+      expect(result.rewards.today_reward).toBe('0.00050000');
+      expect(result.workers).toEqual({
+        active: 8,
+        inactive: 2,
+        total: 11,
+        ok: 7,
+        low: 1,
+        off: 2,
+        dis: 1,
+      });
+    });
+
+    it('should normalize workers map into a paginated list', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { ListWorkersResponseSchema } =
+        await import('../../../src/schemas/listWorkersResponse.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: workersResponse });
+
+      const result = await client.listWorkers({ page: 1, page_size: 50 });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/accounts/workers/json/btc');
+      expect(ListWorkersResponseSchema.safeParse(result).success).toBe(true);
+      expect(result.total).toBe(3);
+      expect(result.workers.map((w) => w.name)).toEqual([
+        'farm_operator.rig-a',
+        'farm_operator.rig-b',
+        'farm_operator.rig-c',
+      ]);
+      expect(result.workers[2].last_share_at).toBeNull();
+      expect(result.workers.map((w) => w.status)).toEqual(['low', 'ok', 'off']);
+    });
+
+    it('should page through one workers fetch', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: workersResponse });
+
+      const pages = await Promise.all(
+        [1, 2, 3].map((page) => client.listWorkers({ page, page_size: 1 }))
+      );
+      const details = await client.getWorkerDetails('farm_operator.rig-c');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(pages.map((result) => result.workers[0].id)).toEqual([
+        'farm_operator.rig-a',
+        'farm_operator.rig-b',
+        'farm_operator.rig-c',
+      ]);
+      expect(details.id).toBe('farm_operator.rig-c');
+    });
+
+    it('should refetch workers once the payload expires or a fetch fails', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const client = new NativeBraiinsClient();
+      const now = vi.spyOn(Date, 'now');
+      mockAxiosInstance.get
+        .mockRejectedValueOnce({
+          isAxiosError: true,
+          message: 'Forbidden',
+          response: { status: 403 },
+        })
+        .mockResolvedValue({ data: workersResponse });
+
+      await expect(client.listWorkers({ page: 1, page_size: 50 })).rejects.toThrow();
+      await client.listWorkers({ page: 1, page_size: 50 });
+      now.mockReturnValue(Date.now() + 6000);
+      await client.listWorkers({ page: 1, page_size: 50 });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should filter by a single pool state', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: workersResponse });
+
+      const result = await client.listWorkers({ page: 1, page_size: 50, status: 'low' });
+
+      expect(result.workers.map((w) => w.id)).toEqual(['farm_operator.rig-a']);
+    });
+
+    it('should apply status, search, sort and pagination client-side', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: workersResponse });
+
+      const result = await client.listWorkers({
+        page: 1,
+        page_size: 1,
+        status: 'active',
+        search: 'RIG',
+        sort_by: 'hashrate_desc',
+      });
+
+      expect(result.total).toBe(2);
+      expect(result.workers).toHaveLength(1);
+      expect(result.workers[0].id).toBe('farm_operator.rig-b');
+    });
+
+    it('should derive worker details from the workers endpoint', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { GetWorkerDetailsResponseSchema } =
+        await import('../../../src/schemas/getWorkerDetailsResponse.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: workersResponse });
+
+      const result = await client.getWorkerDetails('farm_operator.rig-b');
+
+      expect(GetWorkerDetailsResponseSchema.safeParse(result).success).toBe(true);
+      expect(result.hashrate.avg_1h).toBe(109000e9);
+      expect(result.shares.valid).toBe(28800);
+    });
+
+    it('should throw NOT_FOUND for unknown worker', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: workersResponse });
+
+      await expect(client.getWorkerDetails('missing')).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+    });
+
+    it('should request daily rewards with YYYY-MM-DD range', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { GetUserRewardsResponseSchema } =
+        await import('../../../src/schemas/getUserRewardsResponse.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          btc: {
+            daily_rewards: [
+              {
+                date: 1735776000,
+                total_reward: '0.00012000',
+                mining_reward: '0.00011000',
+                bos_plus_reward: '0.00001000',
+                referral_bonus: '0',
+                referral_reward: '0',
+                calculation_date: 1735790000,
+              },
+              {
+                date: 1735689600,
+                total_reward: 0.0001,
+                mining_reward: 0.0001,
+                bos_plus_reward: 0,
+                referral_bonus: 0,
+                referral_reward: 0,
+                calculation_date: 1735700000,
+              },
+            ],
+          },
+        },
+      });
+
+      const result = await client.getUserRewards({
+        from: '2025-01-01T00:00:00Z',
+        to: '2025-01-03T00:00:00Z',
+      });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/accounts/rewards/json/btc', {
+        params: { from: '2025-01-01', to: '2025-01-03' },
+      });
+      expect(GetUserRewardsResponseSchema.safeParse(result).success).toBe(true);
+      expect(result.points.map((p) => p.confirmed)).toEqual(['0.00010000', '0.00012000']);
+      expect(result.points[1]).toMatchObject({
+        mining_reward: '0.00011000',
+        bos_plus_reward: '0.00001000',
+        referral_bonus: '0.00000000',
+      });
+    });
+
+    it('should normalize pool stats using the most recent block', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { GetPoolStatsResponseSchema } =
+        await import('../../../src/schemas/getPoolStatsResponse.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: poolStatsResponse });
+
+      const result = await client.getPoolStats();
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/stats/json/btc/');
+      expect(GetPoolStatsResponseSchema.safeParse(result).success).toBe(true);
+      expect(result.pool_hashrate).toBe(12500000000e9);
+      expect(result.last_block.height).toBe(876600);
+      expect(result.recent_blocks?.map((b) => b.height)).toEqual([876600, 876543]);
+      expect(result.recent_blocks?.[0]).toMatchObject({
+        mining_duration: 3600,
+        state: 'new',
+        confirmations_left: 95,
+        user_reward: '0.00009000',
+        pool_scoring_hashrate: 12100000000e9,
+      });
+      expect(result.last_block.reward).toBe('3.14000000');
+      // Not reported by the native API
+      expect(result.workers_active).toBeNull();
+      expect(result.luck).toBeNull();
+      expect(result.fpps_rate).toBe(0.00000045);
+    });
+
+    it('should merge on-chain and Lightning payouts newest first', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { GetPayoutsResponseSchema } =
+        await import('../../../src/schemas/getPayoutsResponse.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          btc: {
+            onchain: [
+              {
+                financial_account_name: 'Bitcoin Account',
+                requested_at_ts: 1735689600,
+                resolved_at_ts: 1735693200,
+                status: 'confirmed',
+                amount_sats: 1000000,
+                fee_sats: 500,
+                destination: 'bc1qexampleaddress',
+                tx_id: 'abc123',
+                trigger_type: 'triggered',
+              },
+            ],
+            lightning: [
+              {
+                requested_at_ts: 1735776000,
+                resolved_at_ts: null,
+                status: 'queued',
+                amount_sats: 50000,
+                fee_sats: 10,
+                destination: 'lnbc500u1example',
+                invoice: 'lnbc500u1example',
+                preimage: null,
+                trigger_type: 'manual',
+              },
+            ],
+          },
+        },
+      });
+
+      const result = await client.getPayouts({ from: '2025-01-01T00:00:00Z' });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/accounts/payouts/json/btc', {
+        params: { from: '2025-01-01' },
+      });
+      expect(GetPayoutsResponseSchema.safeParse(result).success).toBe(true);
+      expect(result.payouts.map((p) => p.type)).toEqual(['lightning', 'onchain']);
+      expect(result.payouts[0].resolved_at).toBeNull();
+      expect(result.payouts[0].tx_id).toBeNull();
+      expect(result.payouts[1].tx_id).toBe('abc123');
+    });
+
+    it('should normalize block rewards and fix the block height field', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { GetBlockRewardsResponseSchema } =
+        await import('../../../src/schemas/getBlockRewardsResponse.js');
+      const client = new NativeBraiinsClient();
+      const block = {
+        block_found_at: 1651400000,
+        pool_scoring_hash_rate: 1000000,
+        user_scoring_hash_rate: 100,
+        block_value: '6.25',
+        user_reward: '0.00070000',
+        block_heigh: 735000,
+        mining_reward: '0.00062500',
+        braiinsos_plus_mining_bonus: '0.00005000',
+        referral_reward: '0.00002500',
+        referral_bonus: '0',
+        confirmations_left: 0,
+      };
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          btc: {
+            block_rewards: [
+              block,
+              { ...block, block_found_at: 1651500000, block_heigh: 735100, confirmations_left: 40 },
+            ],
+          },
+        },
+      });
+
+      const result = await client.getBlockRewards({
+        from: '2022-05-01T00:00:00Z',
+        to: '2022-05-07T00:00:00Z',
+      });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/accounts/block_rewards/json/btc', {
+        params: { from: '2022-05-01', to: '2022-05-07' },
+      });
+      expect(GetBlockRewardsResponseSchema.safeParse(result).success).toBe(true);
+      expect(result.block_rewards.map((b) => b.block_height)).toEqual([735100, 735000]);
+      expect(result.block_rewards[1]).toMatchObject({
+        found_at: '2022-05-01T10:13:20.000Z',
+        pool_scoring_hashrate: 1e15,
+        user_scoring_hashrate: 1e11,
+        block_value: '6.25000000',
+        referral_bonus: '0.00000000',
+      });
+    });
+
+    it('should use the group path segment and normalize daily hashrate', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const { GetDailyHashrateResponseSchema } =
+        await import('../../../src/schemas/getDailyHashrateResponse.js');
+      const client = new NativeBraiinsClient();
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: {
+          btc: [
+            { date: 1735776000, hash_rate_unit: 'Gh/s', hash_rate_24h: 120000, total_shares: 12 },
+            { date: 1735689600, hash_rate_unit: 'Gh/s', hash_rate_24h: 100000, total_shares: 10 },
+          ],
+        },
+      });
+
+      const result = await client.getDailyHashrate('group');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/accounts/hash_rate_daily/json/group/btc'
+      );
+      expect(GetDailyHashrateResponseSchema.safeParse(result).success).toBe(true);
+      expect(result).toEqual({
+        scope: 'group',
+        points: [
+          { timestamp: '2025-01-01T00:00:00.000Z', hashrate_24h: 100e12, total_shares: 10 },
+          { timestamp: '2025-01-02T00:00:00.000Z', hashrate_24h: 120e12, total_shares: 12 },
+        ],
+      });
+    });
+
+    it('should reject unsupported endpoints without calling the API', async () => {
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+      const client = new NativeBraiinsClient();
+
+      await expect(client.getNetworkStats()).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      await expect(client.getWorkerHashrate('farm_operator.rig-a')).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+      });
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toHashesPerSecond', () => {
+    it('should convert common unit prefixes', async () => {
+      const { toHashesPerSecond } = await import('../../../src/api/nativeBraiinsClient.js');
+
+      expect(toHashesPerSecond(1, 'H/s')).toBe(1);
+      expect(toHashesPerSecond(2, 'Gh/s')).toBe(2e9);
+      expect(toHashesPerSecond('3', 'TH/s')).toBe(3e12);
+      expect(toHashesPerSecond(4, 'Ph/s')).toBe(4e15);
+    });
+  });
+
+  describe('Client selection', () => {
+    it('should return native client from getBraiinsClient in native mode', async () => {
+      const { getBraiinsClient, resetBraiinsClient } =
+        await import('../../../src/api/braiinsClient.js');
+      const { NativeBraiinsClient } = await import('../../../src/api/nativeBraiinsClient.js');
+
+      resetBraiinsClient();
+      expect(getBraiinsClient()).toBeInstanceOf(NativeBraiinsClient);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the client-side token-bucket rate limiter
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from '../../../src/api/rateLimiter.js';
+import { RateLimitError } from '../../../src/utils/errors.js';
+
+// Mock config
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    rateLimitRequestsPerSecond: 2,
+    rateLimitBurstSize: 3,
+    requestTimeout: 5000,
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+// Mock logger to suppress output during tests
+vi.mock('../../../src/utils/logger.js', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should admit requests up to burst size immediately', async () => {
+    const limiter = new RateLimiter(1, 3, 10000);
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(limiter.getStats()).toMatchObject({
+      availableTokens: 0,
+      queueDepth: 0,
+      totalAdmitted: 3,
+    });
+  });
+
+  it('should queue requests beyond burst and release them at the refill rate', async () => {
+    const limiter = new RateLimiter(2, 1, 10000);
+    const admitted: number[] = [];
+
+    await limiter.acquire();
+    void limiter.acquire().then(() => admitted.push(1));
+    void limiter.acquire().then(() => admitted.push(2));
+
+    expect(limiter.getStats().queueDepth).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(admitted).toEqual([1]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(admitted).toEqual([1, 2]);
+    expect(limiter.getStats().queueDepth).toBe(0);
+  });
+
+  it('should refill tokens over time without exceeding burst size', async () => {
+    const limiter = new RateLimiter(1, 2, 10000);
+
+    await limiter.acquire();
+    await limiter.acquire();
+    expect(limiter.getStats().availableTokens).toBe(0);
+
+    vi.advanceTimersByTime(10000);
+    expect(limiter.getStats().availableTokens).toBe(2);
+  });
+
+  it('should support fractional rates', async () => {
+    const limiter = new RateLimiter(0.2, 1, 10000);
+    let admitted = false;
+
+    await limiter.acquire();
+    void limiter.acquire().then(() => {
+      admitted = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(admitted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(admitted).toBe(true);
+  });
+
+  it('should reject with RateLimitError when wait would exceed max wait', async () => {
+    const limiter = new RateLimiter(1, 1, 1500);
+
+    await limiter.acquire();
+    void limiter.acquire(); // waits ~1000ms
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError);
+    await expect(limiter.acquire()).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+      details: expect.objectContaining({ estimatedWaitMs: 2000 }),
+    });
+    expect(limiter.getStats().totalRejected).toBe(2);
+  });
+
+  it('should share a singleton built from config', async () => {
+    const { getRateLimiter, resetRateLimiter } = await import('../../../src/api/rateLimiter.js');
+
+    resetRateLimiter();
+    const first = getRateLimiter();
+    expect(getRateLimiter()).toBe(first);
+    expect(first.getStats().availableTokens).toBe(3);
+
+    resetRateLimiter();
+    expect(getRateLimiter()).not.toBe(first);
+  });
+});
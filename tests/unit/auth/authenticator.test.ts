@@ -0,0 +1,257 @@
+/**
+ * Unit tests for inbound authentication
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createHash, generateKeyPairSync, sign } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  Authenticator,
+  AuthConfigSchema,
+  LocalJwks,
+  isToolAllowed,
+  isLoopbackHost,
+  loadAuthenticator,
+  resolveHttpAuthenticator,
+} from '../../../src/auth/index.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('Authenticator', () => {
+  const financeKey = 'finance-key-0123456789';
+  const opsKey = 'ops-key-0123456789abcdef';
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwks = { keys: [{ ...ec.publicKey.export({ format: 'jwk' }), kid: 'k1' }] };
+
+  function signJwt(payload: Record<string, unknown>): string {
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const claims = { exp: Math.floor(Date.now() / 1000) + 300, ...payload };
+    const signingInput = `${encode({ alg: 'ES256', kid: 'k1' })}.${encode(claims)}`;
+    const signature = sign('sha256', Buffer.from(signingInput), {
+      key: ec.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    });
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  const authConfig = AuthConfigSchema.parse({
+    apiKeys: [
+      { name: 'finance', key: financeKey, allowedTools: ['getUserRewards', 'getPayouts'] },
+      {
+        name: 'ops',
+        keySha256: createHash('sha256').update(opsKey).digest('hex'),
+      },
+    ],
+    jwt: { jwksFile: 'jwks.json', audience: 'braiins-pool-mcp', allowedTools: ['getPoolStats'] },
+  });
+  const authenticator = new Authenticator(authConfig, new LocalJwks(jwks));
+
+  describe('API keys', () => {
+    it('should accept a plain key as a bearer token', () => {
+      expect(authenticator.authenticate({ authorization: `Bearer ${financeKey}` })).toEqual({
+        name: 'finance',
+        type: 'api-key',
+        allowedTools: ['getUserRewards', 'getPayouts'],
+      });
+    });
+
+    it('should accept a hashed key in X-API-Key with all tools by default', () => {
+      expect(authenticator.authenticate({ 'x-api-key': opsKey })).toMatchObject({
+        name: 'ops',
+        allowedTools: ['*'],
+      });
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => authenticator.authenticate({ 'x-api-key': 'wrong-key-0123456789' })).toThrow(
+        expect.objectContaining({ code: 'UNAUTHORIZED', message: 'Invalid API key' })
+      );
+    });
+
+    it('should reject missing credentials and other schemes', () => {
+      expect(() => authenticator.authenticate({})).toThrow('Missing credentials');
+      expect(() => authenticator.authenticate({ authorization: 'Basic dXNlcjpwYXNz' })).toThrow(
+        'Unsupported Authorization scheme'
+      );
+    });
+  });
+
+  describe('JWT', () => {
+    it('should read allowed tools from the tools claim', () => {
+      const token = signJwt({
+        sub: 'dashboard',
+        aud: 'braiins-pool-mcp',
+        mcp_tools: 'listWorkers getWorkerDetails',
+      });
+
+      expect(authenticator.authenticate({ authorization: `Bearer ${token}` })).toEqual({
+        name: 'dashboard',
+        type: 'jwt',
+        allowedTools: ['listWorkers', 'getWorkerDetails'],
+      });
+    });
+
+    it('should fall back to the configured tools without a claim', () => {
+      const token = signJwt({ sub: 'bot', aud: 'braiins-pool-mcp' });
+
+      expect(authenticator.authenticate({ authorization: `Bearer ${token}` }).allowedTools).toEqual(
+        ['getPoolStats']
+      );
+    });
+
+    it('should reject tokens without a subject', () => {
+      const token = signJwt({ aud: 'braiins-pool-mcp' });
+
+      expect(() => authenticator.authenticate({ authorization: `Bearer ${token}` })).toThrow(
+        expect.objectContaining({ code: 'UNAUTHORIZED', message: 'JWT has no subject' })
+      );
+    });
+
+    it('should reject tokens that live longer than the configured maximum', () => {
+      const iat = Math.floor(Date.now() / 1000);
+      const token = signJwt({ sub: 'bot', aud: 'braiins-pool-mcp', iat, exp: iat + 86401 });
+
+      expect(() => authenticator.authenticate({ authorization: `Bearer ${token}` })).toThrow(
+        'JWT lifetime exceeds the allowed maximum'
+      );
+    });
+
+    it('should reject tokens for another audience', () => {
+      const token = signJwt({ sub: 'bot', aud: 'other' });
+
+      expect(() => authenticator.authenticate({ authorization: `Bearer ${token}` })).toThrow(
+        'JWT audience mismatch'
+      );
+    });
+  });
+
+  describe('isToolAllowed', () => {
+    it('should honour explicit lists and the wildcard', () => {
+      expect(isToolAllowed(['getPayouts'], 'getPayouts')).toBe(true);
+      expect(isToolAllowed(['getPayouts'], 'listWorkers')).toBe(false);
+      expect(isToolAllowed(['*'], 'listWorkers')).toBe(true);
+    });
+  });
+
+  describe('AuthConfigSchema', () => {
+    it('should require exactly one of key or keySha256', () => {
+      expect(AuthConfigSchema.safeParse({ apiKeys: [{ name: 'a' }] }).success).toBe(false);
+      expect(
+        AuthConfigSchema.safeParse({
+          apiKeys: [{ name: 'a', key: financeKey, keySha256: 'a'.repeat(64) }],
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject short keys and empty configurations', () => {
+      expect(AuthConfigSchema.safeParse({ apiKeys: [{ name: 'a', key: 'short' }] }).success).toBe(
+        false
+      );
+      expect(AuthConfigSchema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('loadAuthenticator', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'braiins-auth-'));
+      writeFileSync(join(dir, 'jwks.json'), JSON.stringify(jwks));
+      writeFileSync(
+        join(dir, 'auth.json'),
+        JSON.stringify({
+          apiKeys: [{ name: 'finance', key: financeKey }],
+          jwt: { jwksFile: './jwks.json' },
+        })
+      );
+      writeFileSync(join(dir, 'invalid.json'), JSON.stringify({ apiKeys: [{ name: 'x' }] }));
+      writeFileSync(
+        join(dir, 'missing-jwks.json'),
+        JSON.stringify({ jwt: { jwksFile: './nope.json' } })
+      );
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load keys and resolve the JWKS relative to the auth file', () => {
+      const loaded = loadAuthenticator(join(dir, 'auth.json'));
+
+      expect(loaded.authenticate({ 'x-api-key': financeKey }).name).toBe('finance');
+      const token = signJwt({ sub: 'svc' });
+      expect(loaded.authenticate({ authorization: `Bearer ${token}` }).name).toBe('svc');
+    });
+
+    it('should report invalid files as CONFIG_ERROR', () => {
+      expect(() => loadAuthenticator(join(dir, 'invalid.json'))).toThrow(
+        expect.objectContaining({ code: 'CONFIG_ERROR', message: 'Invalid auth file' })
+      );
+      expect(() => loadAuthenticator(join(dir, 'missing-jwks.json'))).toThrow(
+        expect.objectContaining({ code: 'CONFIG_ERROR' })
+      );
+      expect(() => loadAuthenticator(join(dir, 'absent.json'))).toThrow('Cannot read auth file');
+    });
+  });
+
+  describe('resolveHttpAuthenticator', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'braiins-http-auth-'));
+      writeFileSync(
+        join(dir, 'auth.json'),
+        JSON.stringify({ apiKeys: [{ name: 'finance', key: financeKey }] })
+      );
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should recognise loopback hosts', () => {
+      for (const host of ['127.0.0.1', '127.1.2.3', 'localhost', '::1', '[::1]']) {
+        expect(isLoopbackHost(host)).toBe(true);
+      }
+      for (const host of ['0.0.0.0', '::', '192.168.1.10', 'mcp.example.com']) {
+        expect(isLoopbackHost(host)).toBe(false);
+      }
+    });
+
+    it('should refuse to serve a non-loopback host without authentication', () => {
+      expect(() => resolveHttpAuthenticator({ host: '0.0.0.0', allowAnonymous: false })).toThrow(
+        expect.objectContaining({
+          code: 'CONFIG_ERROR',
+          message: expect.stringContaining('MCP_ALLOW_ANONYMOUS=true') as string,
+        })
+      );
+    });
+
+    it('should allow anonymous access on loopback or when explicitly enabled', () => {
+      expect(
+        resolveHttpAuthenticator({ host: '127.0.0.1', allowAnonymous: false })
+      ).toBeUndefined();
+      expect(resolveHttpAuthenticator({ host: '0.0.0.0', allowAnonymous: true })).toBeUndefined();
+    });
+
+    it('should load the auth file when configured', () => {
+      const loaded = resolveHttpAuthenticator({
+        host: '0.0.0.0',
+        authConfigFile: join(dir, 'auth.json'),
+        allowAnonymous: false,
+      });
+
+      expect(loaded?.authenticate({ 'x-api-key': financeKey }).name).toBe('finance');
+    });
+  });
+});
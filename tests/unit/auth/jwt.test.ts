@@ -0,0 +1,164 @@
+/**
+ * Unit tests for JWT verification against a local JWKS
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, sign, constants, type KeyObject } from 'node:crypto';
+import { LocalJwks, isJwt, verifyJwt } from '../../../src/auth/jwt.js';
+
+/**
+ * Sign a JWT for tests
+ */
+function signJwt(
+  payload: Record<string, unknown>,
+  privateKey: KeyObject,
+  header: Record<string, unknown>
+): string {
+  const encode = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ typ: 'JWT', ...header })}.${encode(payload)}`;
+  const alg = header.alg as string;
+  const signature = sign(alg === 'EdDSA' ? null : `sha${alg.slice(2)}`, Buffer.from(signingInput), {
+    key: privateKey,
+    ...(alg.startsWith('ES') && { dsaEncoding: 'ieee-p1363' as const }),
+    ...(alg.startsWith('PS') && { padding: constants.RSA_PKCS1_PSS_PADDING }),
+  });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+describe('JWT verification', () => {
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const other = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  const jwks = new LocalJwks({
+    keys: [
+      { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1', alg: 'ES256', use: 'sig' },
+      { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' },
+    ],
+  });
+
+  const now = 1_700_000_000;
+
+  it('should verify an ES256 token and return its claims', () => {
+    const token = signJwt({ sub: 'finance', exp: now + 60 }, ec.privateKey, {
+      alg: 'ES256',
+      kid: 'ec-1',
+    });
+
+    expect(verifyJwt(token, jwks, { now })).toMatchObject({ sub: 'finance' });
+  });
+
+  it('should verify RS256 and PS256 tokens with the same RSA key', () => {
+    for (const alg of ['RS256', 'PS256']) {
+      const token = signJwt({ sub: alg, exp: now + 60 }, rsa.privateKey, { alg, kid: 'rsa-1' });
+      expect(verifyJwt(token, jwks, { now }).sub).toBe(alg);
+    }
+  });
+
+  it('should try every matching key when the token has no kid', () => {
+    const token = signJwt({ sub: 'no-kid', exp: now + 60 }, rsa.privateKey, { alg: 'RS256' });
+
+    expect(verifyJwt(token, jwks, { now }).sub).toBe('no-kid');
+  });
+
+  it('should reject tokens signed by an unknown key', () => {
+    const token = signJwt({ sub: 'x' }, other.privateKey, { alg: 'ES256', kid: 'ec-1' });
+
+    expect(() => verifyJwt(token, jwks, { now })).toThrow('Invalid JWT signature');
+  });
+
+  it('should reject unsigned and unsupported algorithms', () => {
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const token = `${encode({ alg: 'none' })}.${encode({ sub: 'x' })}.c2ln`;
+
+    expect(() => verifyJwt(token, jwks, { now })).toThrow('Unsupported JWT algorithm');
+  });
+
+  it('should reject a key restricted to another algorithm', () => {
+    const token = signJwt({ sub: 'x' }, ec.privateKey, { alg: 'ES384', kid: 'ec-1' });
+
+    expect(() => verifyJwt(token, jwks, { now })).toThrow('Invalid JWT signature');
+  });
+
+  it('should reject keys whose type does not match the algorithm family', () => {
+    // node:crypto verifies this RSA signature when asked for EdDSA
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode({ alg: 'EdDSA', kid: 'rsa-1' })}.${encode({ sub: 'x', exp: now + 60 })}`;
+    const signature = sign(null, Buffer.from(signingInput), rsa.privateKey);
+    const token = `${signingInput}.${signature.toString('base64url')}`;
+
+    expect(() => verifyJwt(token, jwks, { now })).toThrow('Invalid JWT signature');
+  });
+
+  it('should enforce exp and nbf with clock skew', () => {
+    const sign = (claims: Record<string, unknown>): string =>
+      signJwt(claims, ec.privateKey, { alg: 'ES256', kid: 'ec-1' });
+
+    expect(() => verifyJwt(sign({ exp: now - 31 }), jwks, { now })).toThrow('JWT has expired');
+    expect(verifyJwt(sign({ exp: now - 10 }), jwks, { now })).toBeDefined();
+    expect(() => verifyJwt(sign({ exp: now + 60, nbf: now + 31 }), jwks, { now })).toThrow(
+      'not yet valid'
+    );
+  });
+
+  it('should reject tokens without exp', () => {
+    const token = signJwt({ sub: 'forever' }, ec.privateKey, { alg: 'ES256', kid: 'ec-1' });
+
+    expect(() => verifyJwt(token, jwks, { now })).toThrow('JWT has no expiry');
+  });
+
+  it('should cap the token lifetime when configured', () => {
+    const sign = (claims: Record<string, unknown>): string =>
+      signJwt(claims, ec.privateKey, { alg: 'ES256', kid: 'ec-1' });
+    const options = { now, maxLifetime: 3600 };
+
+    expect(verifyJwt(sign({ iat: now - 600, exp: now + 3000 }), jwks, options)).toBeDefined();
+    expect(() => verifyJwt(sign({ iat: now - 600, exp: now + 3100 }), jwks, options)).toThrow(
+      'JWT lifetime exceeds the allowed maximum'
+    );
+    // Without iat, the remaining lifetime counts
+    expect(() => verifyJwt(sign({ exp: now + 3601 }), jwks, options)).toThrow(
+      'JWT lifetime exceeds the allowed maximum'
+    );
+  });
+
+  it('should check issuer and audience when configured', () => {
+    const token = signJwt(
+      { iss: 'https://idp', aud: ['mcp', 'other'], exp: now + 60 },
+      ec.privateKey,
+      {
+        alg: 'ES256',
+        kid: 'ec-1',
+      }
+    );
+
+    expect(verifyJwt(token, jwks, { now, issuer: 'https://idp', audience: 'mcp' })).toBeDefined();
+    expect(() => verifyJwt(token, jwks, { now, issuer: 'https://evil' })).toThrow(
+      'JWT issuer mismatch'
+    );
+    expect(() => verifyJwt(token, jwks, { now, audience: 'billing' })).toThrow(
+      'JWT audience mismatch'
+    );
+  });
+
+  it('should report failures as UNAUTHORIZED', () => {
+    expect(() => verifyJwt('a.b.c', jwks, { now })).toThrow(
+      expect.objectContaining({ code: 'UNAUTHORIZED', statusCode: 401 })
+    );
+  });
+
+  it('should reject JWKS documents without signing keys', () => {
+    expect(() => new LocalJwks({})).toThrow('"keys" array');
+    expect(
+      () => new LocalJwks({ keys: [{ ...ec.publicKey.export({ format: 'jwk' }), use: 'enc' }] })
+    ).toThrow('no signing keys');
+  });
+
+  it('should recognize compact JWS strings', () => {
+    expect(isJwt('aaa.bbb.ccc')).toBe(true);
+    expect(isJwt('plain-api-key-value')).toBe(false);
+  });
+});
@@ -11,90 +11,94 @@ import {
   buildWorkerDetailsKey,
   buildWorkerHashrateKey,
   buildUserRewardsKey,
+  buildPayoutsKey,
+  buildBlockRewardsKey,
+  buildDailyHashrateKey,
   buildPoolStatsKey,
   buildNetworkStatsKey,
   buildCacheKey,
+  buildStaleEntryKey,
   parseCacheKey,
 } from '../../../src/cache/cacheKeys.js';
 
 describe('cacheKeys', () => {
   describe('buildUserOverviewKey', () => {
     it('should return consistent key', () => {
-      const key = buildUserOverviewKey();
-      expect(key).toBe('braiins:user-overview');
+      const key = buildUserOverviewKey('default');
+      expect(key).toBe('braiins:default:user-overview');
     });
 
     it('should return same key on multiple calls', () => {
-      const key1 = buildUserOverviewKey();
-      const key2 = buildUserOverviewKey();
+      const key1 = buildUserOverviewKey('default');
+      const key2 = buildUserOverviewKey('default');
       expect(key1).toBe(key2);
     });
   });
 
   describe('buildWorkersListKey', () => {
     it('should return base key without params', () => {
-      const key = buildWorkersListKey();
-      expect(key).toBe('braiins:workers-list');
+      const key = buildWorkersListKey('default');
+      expect(key).toBe('braiins:default:workers-list');
     });
 
     it('should return base key with empty params', () => {
-      const key = buildWorkersListKey({});
-      expect(key).toBe('braiins:workers-list');
+      const key = buildWorkersListKey('default', {});
+      expect(key).toBe('braiins:default:workers-list');
     });
 
     it('should include hash suffix with params', () => {
-      const key = buildWorkersListKey({ status: 'active', page: 1 });
-      expect(key).toMatch(/^braiins:workers-list:[a-f0-9]{16}$/);
+      const key = buildWorkersListKey('default', { status: 'active', page: 1 });
+      expect(key).toMatch(/^braiins:default:workers-list:[a-f0-9]{16}$/);
     });
 
     it('should return same key for same params', () => {
-      const key1 = buildWorkersListKey({ status: 'active', limit: 10 });
-      const key2 = buildWorkersListKey({ status: 'active', limit: 10 });
+      const key1 = buildWorkersListKey('default', { status: 'active', limit: 10 });
+      const key2 = buildWorkersListKey('default', { status: 'active', limit: 10 });
       expect(key1).toBe(key2);
     });
 
     it('should return same key regardless of param order', () => {
-      const key1 = buildWorkersListKey({ status: 'active', page: 1 });
-      const key2 = buildWorkersListKey({ page: 1, status: 'active' });
+      const key1 = buildWorkersListKey('default', { status: 'active', page: 1 });
+      const key2 = buildWorkersListKey('default', { page: 1, status: 'active' });
       expect(key1).toBe(key2);
     });
 
     it('should return different keys for different params', () => {
-      const key1 = buildWorkersListKey({ status: 'active' });
-      const key2 = buildWorkersListKey({ status: 'inactive' });
+      const key1 = buildWorkersListKey('default', { status: 'active' });
+      const key2 = buildWorkersListKey('default', { status: 'inactive' });
       expect(key1).not.toBe(key2);
     });
   });
 
   describe('buildWorkerDetailsKey', () => {
     it('should include sanitized worker ID', () => {
-      const key = buildWorkerDetailsKey('worker-001');
-      expect(key).toBe('braiins:worker-details:worker-001');
+      const key = buildWorkerDetailsKey('default', 'worker-001');
+      expect(key).toBe('braiins:default:worker-details:worker-001');
     });
 
     it('should sanitize special characters', () => {
-      const key = buildWorkerDetailsKey('Worker@123!test');
-      expect(key).toBe('braiins:worker-details:worker_123_test');
+      const key = buildWorkerDetailsKey('default', 'Worker@123!test');
+      expect(key).toBe('braiins:default:worker-details:worker_123_test');
     });
 
     it('should convert to lowercase', () => {
-      const key = buildWorkerDetailsKey('WORKER-ABC');
-      expect(key).toBe('braiins:worker-details:worker-abc');
+      const key = buildWorkerDetailsKey('default', 'WORKER-ABC');
+      expect(key).toBe('braiins:default:worker-details:worker-abc');
     });
 
     it('should handle dots and underscores', () => {
-      const key = buildWorkerDetailsKey('farm1.rack2_miner01');
-      expect(key).toBe('braiins:worker-details:farm1_rack2_miner01');
+      const key = buildWorkerDetailsKey('default', 'farm1.rack2_miner01');
+      expect(key).toBe('braiins:default:worker-details:farm1_rack2_miner01');
     });
 
     it('should collapse multiple underscores', () => {
-      const key = buildWorkerDetailsKey('test___worker');
-      expect(key).toBe('braiins:worker-details:test_worker');
+      const key = buildWorkerDetailsKey('default', 'test___worker');
+      expect(key).toBe('braiins:default:worker-details:test_worker');
     });
 
     it('should truncate long identifiers', () => {
       const longId = 'a'.repeat(100);
-      const key = buildWorkerDetailsKey(longId);
+      const key = buildWorkerDetailsKey('default', longId);
       // Identifier should be truncated to 64 chars
       expect(key.length).toBeLessThan(100);
     });
@@ -102,105 +106,188 @@ describe('cacheKeys', () => {
 
   describe('buildWorkerHashrateKey', () => {
     it('should include worker ID without params', () => {
-      const key = buildWorkerHashrateKey('worker-001');
-      expect(key).toBe('braiins:worker-hashrate:worker-001');
+      const key = buildWorkerHashrateKey('default', 'worker-001');
+      expect(key).toBe('braiins:default:worker-hashrate:worker-001');
     });
 
     it('should include worker ID with empty params', () => {
-      const key = buildWorkerHashrateKey('worker-001', {});
-      expect(key).toBe('braiins:worker-hashrate:worker-001');
+      const key = buildWorkerHashrateKey('default', 'worker-001', {});
+      expect(key).toBe('braiins:default:worker-hashrate:worker-001');
     });
 
     it('should include hash suffix with params', () => {
-      const key = buildWorkerHashrateKey('worker-001', {
+      const key = buildWorkerHashrateKey('default', 'worker-001', {
         from: '2025-01-01',
         to: '2025-01-10',
         granularity: 'hour',
       });
-      expect(key).toMatch(/^braiins:worker-hashrate:worker-001:[a-f0-9]{16}$/);
+      expect(key).toMatch(/^braiins:default:worker-hashrate:worker-001:[a-f0-9]{16}$/);
     });
 
     it('should return same key for same params regardless of order', () => {
-      const key1 = buildWorkerHashrateKey('worker-001', { from: '2025-01-01', to: '2025-01-10' });
-      const key2 = buildWorkerHashrateKey('worker-001', { to: '2025-01-10', from: '2025-01-01' });
+      const key1 = buildWorkerHashrateKey('default', 'worker-001', {
+        from: '2025-01-01',
+        to: '2025-01-10',
+      });
+      const key2 = buildWorkerHashrateKey('default', 'worker-001', {
+        to: '2025-01-10',
+        from: '2025-01-01',
+      });
       expect(key1).toBe(key2);
     });
   });
 
   describe('buildUserRewardsKey', () => {
     it('should return base key without params', () => {
-      const key = buildUserRewardsKey();
-      expect(key).toBe('braiins:user-rewards');
+      const key = buildUserRewardsKey('default');
+      expect(key).toBe('braiins:default:user-rewards');
+    });
+
+    it('should include hash suffix with params', () => {
+      const key = buildUserRewardsKey('default', { from: '2025-01-01', granularity: 'day' });
+      expect(key).toMatch(/^braiins:default:user-rewards:[a-f0-9]{16}$/);
+    });
+  });
+
+  describe('buildPayoutsKey', () => {
+    it('should return base key without params', () => {
+      const key = buildPayoutsKey('default');
+      expect(key).toBe('braiins:default:payouts');
+    });
+
+    it('should include hash suffix with params', () => {
+      const key = buildPayoutsKey('default', {
+        from: '2025-01-01T00:00:00Z',
+        to: '2025-01-31T00:00:00Z',
+      });
+      expect(key).toMatch(/^braiins:default:payouts:[a-f0-9]{16}$/);
+    });
+  });
+
+  describe('buildBlockRewardsKey', () => {
+    it('should return base key without params', () => {
+      const key = buildBlockRewardsKey('default');
+      expect(key).toBe('braiins:default:block-rewards');
     });
 
     it('should include hash suffix with params', () => {
-      const key = buildUserRewardsKey({ from: '2025-01-01', granularity: 'day' });
-      expect(key).toMatch(/^braiins:user-rewards:[a-f0-9]{16}$/);
+      const key = buildBlockRewardsKey('default', { from: '2025-01-01T00:00:00Z' });
+      expect(key).toMatch(/^braiins:default:block-rewards:[a-f0-9]{16}$/);
+    });
+  });
+
+  describe('buildDailyHashrateKey', () => {
+    it('should include the scope', () => {
+      expect(buildDailyHashrateKey('default', 'user')).toBe('braiins:default:daily-hashrate:user');
+      expect(buildDailyHashrateKey('default', 'group')).toBe(
+        'braiins:default:daily-hashrate:group'
+      );
     });
   });
 
   describe('buildPoolStatsKey', () => {
     it('should return consistent key', () => {
-      const key = buildPoolStatsKey();
-      expect(key).toBe('braiins:pool-stats');
+      const key = buildPoolStatsKey('default');
+      expect(key).toBe('braiins:default:pool-stats');
     });
   });
 
   describe('buildNetworkStatsKey', () => {
     it('should return consistent key', () => {
-      const key = buildNetworkStatsKey();
-      expect(key).toBe('braiins:network-stats');
+      const key = buildNetworkStatsKey('default');
+      expect(key).toBe('braiins:default:network-stats');
     });
   });
 
   describe('buildCacheKey', () => {
     it('should build key with resource type only', () => {
-      const key = buildCacheKey('pool-stats');
-      expect(key).toBe('braiins:pool-stats');
+      const key = buildCacheKey('default', 'pool-stats');
+      expect(key).toBe('braiins:default:pool-stats');
     });
 
     it('should build key with identifier', () => {
-      const key = buildCacheKey('worker-details', 'worker-001');
-      expect(key).toBe('braiins:worker-details:worker-001');
+      const key = buildCacheKey('default', 'worker-details', 'worker-001');
+      expect(key).toBe('braiins:default:worker-details:worker-001');
     });
 
     it('should build key with params', () => {
-      const key = buildCacheKey('workers-list', undefined, { status: 'active' });
-      expect(key).toMatch(/^braiins:workers-list:[a-f0-9]{16}$/);
+      const key = buildCacheKey('default', 'workers-list', undefined, { status: 'active' });
+      expect(key).toMatch(/^braiins:default:workers-list:[a-f0-9]{16}$/);
     });
 
     it('should build key with identifier and params', () => {
-      const key = buildCacheKey('worker-hashrate', 'worker-001', { granularity: 'hour' });
-      expect(key).toMatch(/^braiins:worker-hashrate:worker-001:[a-f0-9]{16}$/);
+      const key = buildCacheKey('default', 'worker-hashrate', 'worker-001', {
+        granularity: 'hour',
+      });
+      expect(key).toMatch(/^braiins:default:worker-hashrate:worker-001:[a-f0-9]{16}$/);
     });
 
     it('should handle very long keys by hashing', () => {
       const longIdentifier = 'a'.repeat(200);
-      const key = buildCacheKey('worker-details', longIdentifier);
+      const key = buildCacheKey('default', 'worker-details', longIdentifier);
       expect(key.length).toBeLessThanOrEqual(256);
     });
   });
 
+  describe('account namespacing', () => {
+    it('should build different keys for different accounts', () => {
+      expect(buildUserOverviewKey('site-a')).toBe('braiins:site-a:user-overview');
+      expect(buildUserOverviewKey('site-b')).toBe('braiins:site-b:user-overview');
+    });
+
+    it('should namespace pool and network stats', () => {
+      expect(buildPoolStatsKey('site-a')).not.toBe(buildPoolStatsKey('site-b'));
+      expect(buildNetworkStatsKey('site-a')).toBe('braiins:site-a:network-stats');
+    });
+
+    it('should use the same params hash across accounts', () => {
+      const keyA = buildWorkersListKey('site-a', { status: 'active' });
+      const keyB = buildWorkersListKey('site-b', { status: 'active' });
+      expect(keyA.split(':')[3]).toBe(keyB.split(':')[3]);
+      expect(keyA).not.toBe(keyB);
+    });
+
+    it('should sanitize account names', () => {
+      expect(buildPoolStatsKey('Site:A')).toBe('braiins:site_a:pool-stats');
+    });
+
+    it('should keep the account when hashing long keys', () => {
+      const key = buildCacheKey('site-a', 'worker-details', 'a'.repeat(300));
+      expect(key).toMatch(/^braiins:site-a:worker-details:[a-f0-9]{64}$/);
+    });
+  });
+
+  describe('buildStaleEntryKey', () => {
+    it('should move the key to its own prefix', () => {
+      const key = buildStaleEntryKey(buildWorkerDetailsKey('default', 'worker-001'));
+      expect(key).toBe('braiins-swr:default:worker-details:worker-001');
+      expect(parseCacheKey(key).resourceType).toBe('worker-details');
+    });
+  });
+
   describe('parseCacheKey', () => {
     it('should parse simple key', () => {
-      const parsed = parseCacheKey('braiins:pool-stats');
+      const parsed = parseCacheKey('braiins:default:pool-stats');
       expect(parsed.prefix).toBe('braiins');
+      expect(parsed.account).toBe('default');
       expect(parsed.resourceType).toBe('pool-stats');
       expect(parsed.identifier).toBeUndefined();
       expect(parsed.paramsHash).toBeUndefined();
     });
 
     it('should parse key with identifier', () => {
-      const parsed = parseCacheKey('braiins:worker-details:worker-001');
+      const parsed = parseCacheKey('braiins:default:worker-details:worker-001');
       expect(parsed.prefix).toBe('braiins');
+      expect(parsed.account).toBe('default');
       expect(parsed.resourceType).toBe('worker-details');
       expect(parsed.identifier).toBe('worker-001');
       expect(parsed.paramsHash).toBeUndefined();
     });
 
     it('should parse key with identifier and hash', () => {
-      const parsed = parseCacheKey('braiins:worker-hashrate:worker-001:abc123');
+      const parsed = parseCacheKey('braiins:default:worker-hashrate:worker-001:abc123');
       expect(parsed.prefix).toBe('braiins');
+      expect(parsed.account).toBe('default');
       expect(parsed.resourceType).toBe('worker-hashrate');
       expect(parsed.identifier).toBe('worker-001');
       expect(parsed.paramsHash).toBe('abc123');
@@ -209,37 +296,38 @@ describe('cacheKeys', () => {
     it('should handle empty string', () => {
       const parsed = parseCacheKey('');
       expect(parsed.prefix).toBe('');
+      expect(parsed.account).toBe('');
       expect(parsed.resourceType).toBe('');
     });
   });
 
   describe('hash consistency', () => {
     it('should produce same hash for identical objects', () => {
-      const key1 = buildWorkersListKey({ a: 1, b: 'test', c: true });
-      const key2 = buildWorkersListKey({ a: 1, b: 'test', c: true });
+      const key1 = buildWorkersListKey('default', { a: 1, b: 'test', c: true });
+      const key2 = buildWorkersListKey('default', { a: 1, b: 'test', c: true });
       expect(key1).toBe(key2);
     });
 
     it('should produce different hash for different values', () => {
-      const key1 = buildWorkersListKey({ value: 1 });
-      const key2 = buildWorkersListKey({ value: 2 });
+      const key1 = buildWorkersListKey('default', { value: 1 });
+      const key2 = buildWorkersListKey('default', { value: 2 });
       expect(key1).not.toBe(key2);
     });
 
     it('should produce different hash for different types', () => {
-      const key1 = buildWorkersListKey({ value: '1' });
-      const key2 = buildWorkersListKey({ value: 1 });
+      const key1 = buildWorkersListKey('default', { value: '1' });
+      const key2 = buildWorkersListKey('default', { value: 1 });
       expect(key1).not.toBe(key2);
     });
 
     it('should handle nested objects', () => {
-      const key = buildWorkersListKey({ nested: { value: 1 } });
-      expect(key).toMatch(/^braiins:workers-list:[a-f0-9]{16}$/);
+      const key = buildWorkersListKey('default', { nested: { value: 1 } });
+      expect(key).toMatch(/^braiins:default:workers-list:[a-f0-9]{16}$/);
     });
 
     it('should handle arrays', () => {
-      const key = buildWorkersListKey({ ids: [1, 2, 3] });
-      expect(key).toMatch(/^braiins:workers-list:[a-f0-9]{16}$/);
+      const key = buildWorkersListKey('default', { ids: [1, 2, 3] });
+      expect(key).toMatch(/^braiins:default:workers-list:[a-f0-9]{16}$/);
     });
   });
 });
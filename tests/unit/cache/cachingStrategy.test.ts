@@ -11,6 +11,8 @@ import {
   getCacheConfig,
   resetCacheConfig,
   getTTL,
+  getHardTTL,
+  isStaleWhileRevalidate,
   shouldCache,
   getAllTTLs,
 } from '../../../src/cache/cachingStrategy.js';
@@ -54,6 +56,14 @@ describe('cachingStrategy', () => {
       expect(DEFAULT_TTL['user-rewards']).toBe(300);
     });
 
+    it('should have correct default TTL for payouts (300s)', () => {
+      expect(DEFAULT_TTL.payouts).toBe(300);
+    });
+
+    it('should have correct default TTL for block-rewards (120s)', () => {
+      expect(DEFAULT_TTL['block-rewards']).toBe(120);
+    });
+
     it('should have correct default TTL for pool-stats (60s)', () => {
       expect(DEFAULT_TTL['pool-stats']).toBe(60);
     });
@@ -198,6 +208,14 @@ describe('cachingStrategy', () => {
       resetCacheConfig();
       expect(getTTL('pool-stats')).toBe(180);
     });
+
+    it('should use a dedicated env var for block-rewards', () => {
+      process.env.CACHE_TTL_HISTORICAL = '900';
+      process.env.CACHE_TTL_BLOCK_REWARDS = '45';
+      resetCacheConfig();
+      expect(getTTL('block-rewards')).toBe(45);
+      expect(getTTL('user-rewards')).toBe(900);
+    });
   });
 
   describe('shouldCache', () => {
@@ -228,6 +246,25 @@ describe('cachingStrategy', () => {
     });
   });
 
+  describe('stale-while-revalidate', () => {
+    it('should be off by default and keep entries for their TTL', () => {
+      delete process.env.CACHE_STALE_WHILE_REVALIDATE;
+      delete process.env.CACHE_MAX_STALE;
+      expect(isStaleWhileRevalidate()).toBe(false);
+      expect(getCacheConfig().maxStale).toBe(3600);
+      expect(getHardTTL('pool-stats')).toBe(60);
+    });
+
+    it('should keep entries for the soft TTL plus CACHE_MAX_STALE when enabled', () => {
+      process.env.CACHE_STALE_WHILE_REVALIDATE = 'true';
+      process.env.CACHE_MAX_STALE = '600';
+      resetCacheConfig();
+      expect(isStaleWhileRevalidate()).toBe(true);
+      expect(getTTL('pool-stats')).toBe(60);
+      expect(getHardTTL('pool-stats')).toBe(660);
+    });
+  });
+
   describe('getAllTTLs', () => {
     it('should return all TTL values', () => {
       const ttls = getAllTTLs();
@@ -237,6 +274,9 @@ describe('cachingStrategy', () => {
         'worker-details': 30,
         'worker-hashrate': 300,
         'user-rewards': 300,
+        payouts: 300,
+        'block-rewards': 120,
+        'daily-hashrate': 300,
         'pool-stats': 60,
         'network-stats': 60,
       });
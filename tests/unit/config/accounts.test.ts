@@ -0,0 +1,233 @@
+/**
+ * Unit tests for named account configuration
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AccountRegistry,
+  AccountsConfigSchema,
+  DEFAULT_ACCOUNT_NAME,
+  accountSupportsTool,
+  getAccountRegistry,
+  loadAccountRegistry,
+  resetAccountRegistry,
+  type Account,
+} from '../../../src/config/accounts.js';
+import { config } from '../../../src/config/settings.js';
+import { ConfigError, ValidationError } from '../../../src/utils/errors.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsNativeApiBaseUrl: 'https://pool.braiins.com',
+    braiinsApiToken: 'global-token',
+    braiinsApiMode: 'rest',
+    braiinsAccountsFile: undefined as string | undefined,
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('accounts', () => {
+  let dir: string;
+
+  function writeAccountsFile(name: string, content: unknown): string {
+    const path = join(dir, name);
+    writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+    return path;
+  }
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'braiins-accounts-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    config.braiinsAccountsFile = undefined;
+    delete process.env.BRAIINS_TEST_SITE_KEY;
+    resetAccountRegistry();
+  });
+
+  describe('AccountsConfigSchema', () => {
+    it('should require exactly one of apiKey or apiKeyEnv', () => {
+      expect(AccountsConfigSchema.safeParse({ accounts: [{ name: 'a' }] }).success).toBe(false);
+      expect(
+        AccountsConfigSchema.safeParse({
+          accounts: [{ name: 'a', apiKey: 'x', apiKeyEnv: 'KEY' }],
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject names that are not key-safe', () => {
+      const result = AccountsConfigSchema.safeParse({
+        accounts: [{ name: 'Site A', apiKey: 'x' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject duplicate names and an unknown default', () => {
+      const result = AccountsConfigSchema.safeParse({
+        defaultAccount: 'missing',
+        accounts: [
+          { name: 'a', apiKey: 'x' },
+          { name: 'a', apiKey: 'y' },
+        ],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const messages = result.error.issues.map((issue) => issue.message);
+        expect(messages).toContain('Duplicate account name "a"');
+        expect(messages).toContain('defaultAccount "missing" is not a configured account');
+      }
+    });
+  });
+
+  describe('AccountRegistry', () => {
+    const accounts: Account[] = [
+      {
+        name: 'site-a',
+        apiToken: 'a',
+        apiMode: 'rest',
+        apiBaseUrl: 'https://a.example',
+        nativeApiBaseUrl: 'https://a.example',
+      },
+      {
+        name: 'site-b',
+        apiToken: 'b',
+        apiMode: 'native',
+        apiBaseUrl: 'https://b.example',
+        nativeApiBaseUrl: 'https://b.example',
+      },
+    ];
+
+    it('should default to the first account', () => {
+      const registry = new AccountRegistry(accounts);
+      expect(registry.defaultAccount).toBe('site-a');
+      expect(registry.resolve().name).toBe('site-a');
+      expect(registry.resolve('site-b').apiMode).toBe('native');
+    });
+
+    it('should honour an explicit default account', () => {
+      expect(new AccountRegistry(accounts, 'site-b').resolve().name).toBe('site-b');
+    });
+
+    it('should throw ValidationError listing accounts for unknown names', () => {
+      const registry = new AccountRegistry(accounts);
+      expect(() => registry.resolve('site-c')).toThrow(ValidationError);
+      try {
+        registry.resolve('site-c');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual({
+          availableAccounts: ['site-a', 'site-b'],
+        });
+      }
+    });
+
+    it('should reject an empty account list', () => {
+      expect(() => new AccountRegistry([])).toThrow(ConfigError);
+    });
+
+    it('should support tools the native API lacks only while a REST account exists', () => {
+      expect(accountSupportsTool(accounts[1], 'getNetworkStats')).toBe(false);
+      expect(accountSupportsTool(accounts[1], 'getPoolStats')).toBe(true);
+      expect(new AccountRegistry(accounts).supportsTool('getWorkerHashrate')).toBe(true);
+      expect(new AccountRegistry([accounts[1]]).supportsTool('getWorkerHashrate')).toBe(false);
+    });
+  });
+
+  describe('loadAccountRegistry', () => {
+    it('should load accounts and inherit global settings', () => {
+      process.env.BRAIINS_TEST_SITE_KEY = 'site-token';
+      const path = writeAccountsFile('valid.json', {
+        defaultAccount: 'customer-x',
+        accounts: [
+          { name: 'site-a', apiKeyEnv: 'BRAIINS_TEST_SITE_KEY', description: 'Main farm' },
+          {
+            name: 'customer-x',
+            apiKey: 'customer-token',
+            apiMode: 'native',
+            nativeApiBaseUrl: 'https://native.example',
+          },
+        ],
+      });
+
+      const registry = loadAccountRegistry(path);
+
+      expect(registry.defaultAccount).toBe('customer-x');
+      expect(registry.list()).toEqual([
+        {
+          name: 'site-a',
+          description: 'Main farm',
+          apiToken: 'site-token',
+          apiMode: 'rest',
+          apiBaseUrl: 'https://pool.braiins.com/api/v1',
+          nativeApiBaseUrl: 'https://pool.braiins.com',
+        },
+        {
+          name: 'customer-x',
+          description: undefined,
+          apiToken: 'customer-token',
+          apiMode: 'native',
+          apiBaseUrl: 'https://pool.braiins.com/api/v1',
+          nativeApiBaseUrl: 'https://native.example',
+        },
+      ]);
+    });
+
+    it('should fail when an apiKeyEnv variable is not set', () => {
+      const path = writeAccountsFile('missing-env.json', {
+        accounts: [{ name: 'site-a', apiKeyEnv: 'BRAIINS_TEST_SITE_KEY' }],
+      });
+      expect(() => loadAccountRegistry(path)).toThrow(
+        'Environment variable BRAIINS_TEST_SITE_KEY for account "site-a" is not set'
+      );
+    });
+
+    it('should report invalid JSON and schema errors as ConfigError', () => {
+      const badJson = writeAccountsFile('bad.json', '{ not json');
+      const badSchema = writeAccountsFile('bad-schema.json', { accounts: [] });
+
+      expect(() => loadAccountRegistry(badJson)).toThrow(ConfigError);
+      expect(() => loadAccountRegistry(badSchema)).toThrow('Invalid accounts file');
+      expect(() => loadAccountRegistry(join(dir, 'missing.json'))).toThrow(ConfigError);
+    });
+  });
+
+  describe('getAccountRegistry', () => {
+    it('should build a single default account from global settings', () => {
+      const registry = getAccountRegistry();
+
+      expect(registry.defaultAccount).toBe(DEFAULT_ACCOUNT_NAME);
+      expect(registry.list()).toEqual([
+        {
+          name: DEFAULT_ACCOUNT_NAME,
+          apiToken: 'global-token',
+          apiMode: 'rest',
+          apiBaseUrl: 'https://pool.braiins.com/api/v1',
+          nativeApiBaseUrl: 'https://pool.braiins.com',
+        },
+      ]);
+      expect(getAccountRegistry()).toBe(registry);
+    });
+
+    it('should load BRAIINS_ACCOUNTS_FILE when configured', () => {
+      config.braiinsAccountsFile = writeAccountsFile('configured.json', {
+        accounts: [{ name: 'site-a', apiKey: 'a' }],
+      });
+
+      expect(
+        getAccountRegistry()
+          .list()
+          .map((account) => account.name)
+      ).toEqual(['site-a']);
+    });
+  });
+});
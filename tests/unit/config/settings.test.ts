@@ -94,5 +94,143 @@ describe('Configuration Settings', () => {
 
       expect(config.redisEnabled).toBe(false);
     });
+
+    it('should default to the stdio transport', async () => {
+      delete process.env.MCP_TRANSPORT;
+      delete process.env.MCP_HTTP_HOST;
+      delete process.env.MCP_HTTP_PORT;
+
+      const { config } = await import('../../../src/config/settings.js');
+
+      expect(config.mcpTransport).toBe('stdio');
+      expect(config.httpHost).toBe('127.0.0.1');
+      expect(config.httpPort).toBe(3000);
+      expect(config.shutdownTimeout).toBe(10000);
+      expect(config.httpSessionIdleTimeout).toBe(1800000);
+      expect(config.httpMaxSessions).toBe(100);
+      expect(config.httpAllowAnonymous).toBe(false);
+    });
+
+    it('should load HTTP transport settings', async () => {
+      process.env.MCP_TRANSPORT = 'http';
+      process.env.MCP_HTTP_HOST = '0.0.0.0';
+      process.env.MCP_HTTP_PORT = '8080';
+      process.env.SHUTDOWN_TIMEOUT = '2500';
+      process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT = '60000';
+      process.env.MCP_HTTP_MAX_SESSIONS = '10';
+      process.env.MCP_ALLOW_ANONYMOUS = 'true';
+
+      const { config } = await import('../../../src/config/settings.js');
+
+      expect(config.mcpTransport).toBe('http');
+      expect(config.httpHost).toBe('0.0.0.0');
+      expect(config.httpPort).toBe(8080);
+      expect(config.shutdownTimeout).toBe(2500);
+      expect(config.httpSessionIdleTimeout).toBe(60000);
+      expect(config.httpMaxSessions).toBe(10);
+      expect(config.httpAllowAnonymous).toBe(true);
+    });
+
+    it('should load the accounts file path and ignore an empty value', async () => {
+      process.env.BRAIINS_ACCOUNTS_FILE = '/etc/braiins-mcp/accounts.json';
+      const { config } = await import('../../../src/config/settings.js');
+      expect(config.braiinsAccountsFile).toBe('/etc/braiins-mcp/accounts.json');
+
+      vi.resetModules();
+      process.env.BRAIINS_ACCOUNTS_FILE = '';
+      const { config: emptyConfig } = await import('../../../src/config/settings.js');
+      expect(emptyConfig.braiinsAccountsFile).toBeUndefined();
+    });
+
+    it('should load cache poller settings', async () => {
+      delete process.env.POLL_ENABLED;
+      const { config: defaults } = await import('../../../src/config/settings.js');
+      expect(defaults.pollEnabled).toBe(false);
+      expect(defaults.pollIntervalUserOverview).toBe(25);
+      expect(defaults.pollIntervalNetworkStats).toBe(50);
+      expect(defaults.pollRateBudget).toBe(0.5);
+
+      vi.resetModules();
+      process.env.POLL_ENABLED = 'true';
+      process.env.POLL_INTERVAL_WORKERS = '60';
+      process.env.POLL_RATE_BUDGET = '0.25';
+      const { config } = await import('../../../src/config/settings.js');
+      expect(config.pollEnabled).toBe(true);
+      expect(config.pollIntervalWorkers).toBe(60);
+      expect(config.pollRateBudget).toBe(0.25);
+    });
+
+    it('should leave history disabled by default', async () => {
+      delete process.env.HISTORY_DB_PATH;
+      delete process.env.HISTORY_SNAPSHOT_INTERVAL;
+      delete process.env.HISTORY_RETENTION_DAYS;
+      delete process.env.HISTORY_WORKER_RETENTION_DAYS;
+
+      const { config } = await import('../../../src/config/settings.js');
+
+      expect(config.historyDbPath).toBeUndefined();
+      expect(config.historySnapshotInterval).toBe(900);
+      expect(config.historyRetentionDays).toBe(365);
+      expect(config.historyWorkerRetentionDays).toBe(30);
+    });
+
+    it('should load history settings', async () => {
+      process.env.HISTORY_DB_PATH = '/var/lib/braiins-mcp/history.db';
+      process.env.HISTORY_SNAPSHOT_INTERVAL = '300';
+      process.env.HISTORY_RETENTION_DAYS = '90';
+      process.env.HISTORY_WORKER_RETENTION_DAYS = '7';
+
+      const { config } = await import('../../../src/config/settings.js');
+
+      expect(config.historyDbPath).toBe('/var/lib/braiins-mcp/history.db');
+      expect(config.historySnapshotInterval).toBe(300);
+      expect(config.historyRetentionDays).toBe(90);
+      expect(config.historyWorkerRetentionDays).toBe(7);
+    });
+
+    it('should load alerting settings', async () => {
+      delete process.env.ALERT_RULES_FILE;
+      delete process.env.ALERT_EVALUATION_INTERVAL;
+      const { config: defaults } = await import('../../../src/config/settings.js');
+      expect(defaults.alertRulesFile).toBeUndefined();
+      expect(defaults.alertEvaluationInterval).toBe(60);
+
+      vi.resetModules();
+      process.env.ALERT_RULES_FILE = '/etc/braiins-mcp/alerts.json';
+      process.env.ALERT_EVALUATION_INTERVAL = '120';
+      const { config } = await import('../../../src/config/settings.js');
+      expect(config.alertRulesFile).toBe('/etc/braiins-mcp/alerts.json');
+      expect(config.alertEvaluationInterval).toBe(120);
+    });
+
+    it('should load notification settings', async () => {
+      delete process.env.NOTIFY_CONFIG_FILE;
+      delete process.env.NOTIFY_PAYOUT_INTERVAL;
+      const { config: defaults } = await import('../../../src/config/settings.js');
+      expect(defaults.notifyConfigFile).toBeUndefined();
+      expect(defaults.notifyPayoutInterval).toBe(600);
+
+      vi.resetModules();
+      process.env.NOTIFY_CONFIG_FILE = '/etc/braiins-mcp/notify.json';
+      process.env.NOTIFY_PAYOUT_INTERVAL = '300';
+      const { config } = await import('../../../src/config/settings.js');
+      expect(config.notifyConfigFile).toBe('/etc/braiins-mcp/notify.json');
+      expect(config.notifyPayoutInterval).toBe(300);
+    });
+
+    it('should load circuit breaker settings', async () => {
+      delete process.env.CIRCUIT_FAILURE_THRESHOLD;
+      delete process.env.CIRCUIT_RESET_TIMEOUT;
+      const { config: defaults } = await import('../../../src/config/settings.js');
+      expect(defaults.circuitFailureThreshold).toBe(5);
+      expect(defaults.circuitResetTimeout).toBe(30000);
+
+      vi.resetModules();
+      process.env.CIRCUIT_FAILURE_THRESHOLD = '3';
+      process.env.CIRCUIT_RESET_TIMEOUT = '60000';
+      const { config } = await import('../../../src/config/settings.js');
+      expect(config.circuitFailureThreshold).toBe(3);
+      expect(config.circuitResetTimeout).toBe(60000);
+    });
   });
 });
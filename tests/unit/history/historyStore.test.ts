@@ -0,0 +1,237 @@
+/**
+ * Unit tests for the history store and its migrations
+ *
+ * Uses in-memory SQLite databases.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { HistoryStore } from '../../../src/history/historyStore.js';
+import { MIGRATIONS, getSchemaVersion, migrate } from '../../../src/history/migrations.js';
+import type { GetUserOverviewResponse } from '../../../src/schemas/getUserOverviewResponse.js';
+import type { GetPoolStatsResponse } from '../../../src/schemas/getPoolStatsResponse.js';
+import type { GetNetworkStatsResponse } from '../../../src/schemas/getNetworkStatsResponse.js';
+import type { Worker } from '../../../src/schemas/listWorkersResponse.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+    historyRetentionDays: 365,
+    historyWorkerRetentionDays: 30,
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+
+const overview: GetUserOverviewResponse = {
+  username: 'alice',
+  currency: 'BTC',
+  hashrate: { current: 300e12, avg_1h: 290e12, avg_24h: 280e12 },
+  rewards: {
+    confirmed: '0.12345678',
+    unconfirmed: '0.00010000',
+    last_payout: '0.01000000',
+    last_payout_at: null,
+  },
+  workers: { active: 9, inactive: 1, total: 10, ok: 8, low: 1, off: 1, dis: 0 },
+  updated_at: '2025-06-01T00:00:00Z',
+};
+
+const worker: Worker = {
+  id: 'rig-01',
+  name: 'Rig 01',
+  status: 'ok',
+  hashrate: { current: 100e12, avg_24h: 95e12 },
+  shares: { valid: 1000, invalid: 3 },
+  last_share_at: '2025-05-31T23:59:00Z',
+};
+
+const poolStats = {
+  pool_hashrate: 10e18,
+  workers_active: 50000,
+  luck: { value: 1.05 },
+  fpps_rate: 0.00000045,
+  last_block: { height: 900000 },
+} as unknown as GetPoolStatsResponse;
+
+const networkStats = {
+  difficulty: 90e12,
+  hashrate_estimate: 600e18,
+  block_time_avg: 590,
+} as unknown as GetNetworkStatsResponse;
+
+describe('history migrations', () => {
+  it('should migrate an empty database to the latest version', () => {
+    const db = new Database(':memory:');
+    expect(getSchemaVersion(db)).toBe(0);
+
+    expect(migrate(db)).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+
+    const tables = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")
+      .all()
+      .map((row) => (row as { name: string }).name);
+    expect(tables).toEqual([
+      'network_snapshots',
+      'overview_snapshots',
+      'pool_snapshots',
+      'worker_snapshots',
+    ]);
+    db.close();
+  });
+
+  it('should only apply pending migrations', () => {
+    const db = new Database(':memory:');
+    migrate(db);
+
+    const next = MIGRATIONS.length + 1;
+    const extra = [
+      ...MIGRATIONS,
+      { version: next, description: 'Add notes', up: 'CREATE TABLE notes (text TEXT)' },
+    ];
+    expect(migrate(db, extra)).toBe(next);
+    // Running again is a no-op
+    expect(migrate(db, extra)).toBe(next);
+    db.close();
+  });
+
+  it('should roll back a failed migration', () => {
+    const db = new Database(':memory:');
+    migrate(db);
+
+    const broken = [
+      ...MIGRATIONS,
+      {
+        version: MIGRATIONS.length + 1,
+        description: 'Broken',
+        up: 'CREATE TABLE ok (a TEXT); NOT SQL',
+      },
+    ];
+    expect(() => migrate(db, broken)).toThrow();
+    expect(getSchemaVersion(db)).toBe(MIGRATIONS.length);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'ok'").get()).toBeUndefined();
+    db.close();
+  });
+
+  it('should refuse a database newer than the server', () => {
+    const db = new Database(':memory:');
+    db.pragma('user_version = 99');
+
+    expect(() => migrate(db)).toThrow(/newer than supported version/);
+    db.close();
+  });
+});
+
+describe('HistoryStore', () => {
+  let store: HistoryStore | undefined;
+
+  afterEach(() => {
+    store?.close();
+    store = undefined;
+  });
+
+  it('should record and read overview snapshots with amounts in sats', () => {
+    store = new HistoryStore(':memory:');
+    store.recordOverview('main', overview, NOW - DAY_MS);
+    store.recordOverview('main', overview, NOW);
+    store.recordOverview('other', overview, NOW);
+
+    const rows = store.getOverviewHistory('main', { from: NOW - 2 * DAY_MS, to: NOW });
+
+    expect(rows.map((row) => row.recorded_at)).toEqual([NOW - DAY_MS, NOW]);
+    expect(rows[0]).toMatchObject({
+      account: 'main',
+      hashrate_avg_1h: 290e12,
+      workers_ok: 8,
+      confirmed_sats: 12345678,
+      unconfirmed_sats: 10000,
+      today_reward_sats: null,
+    });
+  });
+
+  it('should return the newest rows of a range when limited', () => {
+    store = new HistoryStore(':memory:');
+    for (let i = 0; i < 5; i++) {
+      store.recordNetworkStats(networkStats, NOW + i);
+    }
+
+    const rows = store.getNetworkHistory({ from: NOW, to: NOW + 10 }, 2);
+
+    expect(rows.map((row) => row.recorded_at)).toEqual([NOW + 3, NOW + 4]);
+  });
+
+  it('should record worker states per worker', () => {
+    store = new HistoryStore(':memory:');
+    store.recordWorkers('main', [worker, { ...worker, id: 'rig-02', last_share_at: null }], NOW);
+
+    const rows = store.getWorkerHistory('main', 'rig-01', { from: NOW, to: NOW });
+
+    expect(rows).toEqual([
+      {
+        account: 'main',
+        recorded_at: NOW,
+        worker_id: 'rig-01',
+        name: 'Rig 01',
+        status: 'ok',
+        hashrate_current: 100e12,
+        hashrate_avg_24h: 95e12,
+        shares_valid: 1000,
+        shares_invalid: 3,
+        last_share_at: Date.parse('2025-05-31T23:59:00Z'),
+      },
+    ]);
+    expect(store.getWorkerHistory('main', 'rig-02', { from: NOW, to: NOW })[0].last_share_at).toBe(
+      null
+    );
+  });
+
+  it('should record pool and network stats', () => {
+    store = new HistoryStore(':memory:');
+    store.recordPoolStats(poolStats, NOW);
+    store.recordNetworkStats(networkStats, NOW);
+
+    expect(store.getPoolHistory({ from: NOW, to: NOW })).toEqual([
+      {
+        recorded_at: NOW,
+        pool_hashrate: 10e18,
+        workers_active: 50000,
+        luck: 1.05,
+        fpps_rate: 0.00000045,
+        last_block_height: 900000,
+      },
+    ]);
+    expect(store.getNetworkHistory({ from: NOW, to: NOW })).toEqual([
+      { recorded_at: NOW, difficulty: 90e12, hashrate_estimate: 600e18, block_time_avg: 590 },
+    ]);
+  });
+
+  it('should record pool stats without active workers or luck', () => {
+    store = new HistoryStore(':memory:');
+    store.recordPoolStats({ ...poolStats, workers_active: null, luck: null }, NOW);
+
+    expect(store.getPoolHistory({ from: NOW, to: NOW })).toEqual([
+      expect.objectContaining({ workers_active: null, luck: null }),
+    ]);
+  });
+
+  it('should prune worker snapshots sooner than other snapshots', () => {
+    store = new HistoryStore(':memory:', { snapshotDays: 10, workerDays: 2 });
+    for (const age of [1, 5, 20]) {
+      store.recordOverview('main', overview, NOW - age * DAY_MS);
+      store.recordWorkers('main', [worker], NOW - age * DAY_MS);
+      store.recordPoolStats(poolStats, NOW - age * DAY_MS);
+      store.recordNetworkStats(networkStats, NOW - age * DAY_MS);
+    }
+
+    expect(store.prune(NOW)).toEqual({ overview: 1, workers: 2, pool: 1, network: 1 });
+
+    const all = { from: 0, to: NOW };
+    expect(store.getOverviewHistory('main', all)).toHaveLength(2);
+    expect(store.getWorkerHistory('main', 'rig-01', all)).toHaveLength(1);
+    expect(store.getPoolHistory(all)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for the snapshot recorder
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Account } from '../../../src/config/accounts.js';
+import type { HistoryStore } from '../../../src/history/historyStore.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock the full worker list walk
+vi.mock('../../../src/api/workerWalk.js', () => ({
+  walkAllWorkers: vi.fn(),
+}));
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+    historySnapshotInterval: 900,
+  },
+}));
+
+describe('SnapshotRecorder', () => {
+  function account(name: string): Account {
+    return {
+      name,
+      apiToken: `${name}-token`,
+      apiMode: 'rest',
+      apiBaseUrl: 'https://pool.braiins.com/api/v1',
+      nativeApiBaseUrl: 'https://pool.braiins.com',
+    };
+  }
+
+  const overview = {
+    username: 'alice',
+    currency: 'BTC',
+    hashrate: { current: 1, avg_1h: 1, avg_24h: 1 },
+    rewards: {
+      confirmed: '0.1',
+      unconfirmed: '0',
+      last_payout: '0',
+      last_payout_at: null,
+    },
+    workers: { active: 1, inactive: 0, total: 1 },
+    updated_at: '2025-06-01T00:00:00Z',
+  };
+
+  const poolStats = {
+    coin: 'BTC',
+    pool_hashrate: 10e18,
+    workers_active: 50000,
+    last_block: { height: 900000, found_at: '2025-06-01T00:00:00Z', reward: '3.125' },
+    luck: { window_blocks: 100, value: 1.05 },
+    updated_at: '2025-06-01T00:00:00Z',
+  };
+
+  const networkStats = {
+    coin: 'BTC',
+    difficulty: 90e12,
+    hashrate_estimate: 600e18,
+    block_time_target: 600,
+    block_time_avg: 590,
+    next_difficulty_change_eta: '2025-06-10T00:00:00Z',
+  };
+
+  function mockStore(): HistoryStore {
+    return {
+      recordOverview: vi.fn(),
+      recordWorkers: vi.fn(),
+      recordPoolStats: vi.fn(),
+      recordNetworkStats: vi.fn(),
+      prune: vi.fn(),
+    } as unknown as HistoryStore;
+  }
+
+  async function setup(getUserOverview: () => Promise<unknown>): Promise<void> {
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+    const { walkAllWorkers } = await import('../../../src/api/workerWalk.js');
+
+    vi.mocked(getAccountRegistry).mockReturnValue(
+      new AccountRegistry([account('site-a'), account('site-b')])
+    );
+    vi.mocked(getCachedBraiinsClient).mockReturnValue({
+      getUserOverview: vi.fn(getUserOverview),
+      getPoolStats: vi.fn().mockResolvedValue(poolStats),
+      getNetworkStats: vi.fn().mockResolvedValue(networkStats),
+    } as never);
+    vi.mocked(walkAllWorkers).mockResolvedValue({
+      workers: [],
+      total: 0,
+      pagesFetched: 1,
+      duplicatesSkipped: 0,
+      capped: false,
+    });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should record every account, pool and network stats, then prune', async () => {
+    const { SnapshotRecorder } = await import('../../../src/history/snapshotRecorder.js');
+    const { walkAllWorkers } = await import('../../../src/api/workerWalk.js');
+    await setup(() => Promise.resolve(overview));
+    const store = mockStore();
+
+    const result = await new SnapshotRecorder(store).recordRound();
+
+    expect(result.recorded).toEqual([
+      'overview:site-a',
+      'workers:site-a',
+      'overview:site-b',
+      'workers:site-b',
+      'pool',
+      'network',
+    ]);
+    expect(result.failed).toEqual([]);
+    expect(store.recordOverview).toHaveBeenCalledWith(
+      'site-a',
+      expect.objectContaining({ username: 'alice' }),
+      result.recordedAt
+    );
+    expect(walkAllWorkers).toHaveBeenCalledWith({ account: 'site-b' });
+    expect(store.recordPoolStats).toHaveBeenCalledTimes(1);
+    expect(store.recordNetworkStats).toHaveBeenCalledTimes(1);
+    expect(store.prune).toHaveBeenCalledWith(result.recordedAt);
+  });
+
+  it('should skip network stats when the default account uses the native API', async () => {
+    const { SnapshotRecorder } = await import('../../../src/history/snapshotRecorder.js');
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    await setup(() => Promise.resolve(overview));
+    vi.mocked(getAccountRegistry).mockReturnValue(
+      new AccountRegistry([{ ...account('site-a'), apiMode: 'native' }])
+    );
+    const store = mockStore();
+
+    const result = await new SnapshotRecorder(store).recordRound();
+
+    expect(result.recorded).toEqual(['overview:site-a', 'workers:site-a', 'pool']);
+    expect(result.failed).toEqual([]);
+    expect(store.recordNetworkStats).not.toHaveBeenCalled();
+  });
+
+  it('should keep going when one item fails', async () => {
+    const { SnapshotRecorder } = await import('../../../src/history/snapshotRecorder.js');
+    await setup(() => Promise.resolve({ unexpected: true }));
+    const store = mockStore();
+
+    const result = await new SnapshotRecorder(store).recordRound();
+
+    expect(result.failed).toEqual([
+      { item: 'overview:site-a', error: 'Unexpected user overview response format' },
+      { item: 'overview:site-b', error: 'Unexpected user overview response format' },
+    ]);
+    expect(result.recorded).toContain('pool');
+    expect(store.recordOverview).not.toHaveBeenCalled();
+  });
+
+  it('should record on start and then every interval until stopped', async () => {
+    vi.useFakeTimers();
+    const { SnapshotRecorder } = await import('../../../src/history/snapshotRecorder.js');
+    await setup(() => Promise.resolve(overview));
+    const store = mockStore();
+    const recorder = new SnapshotRecorder(store, 1000);
+
+    recorder.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.prune).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(store.prune).toHaveBeenCalledTimes(2);
+
+    await recorder.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(store.prune).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for notifier configuration and message templates
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadNotifierConfig } from '../../../src/notify/notifierConfig.js';
+import { renderTemplate, type Notification } from '../../../src/notify/notifications.js';
+import { ConfigError } from '../../../src/utils/errors.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('loadNotifierConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'notifier-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.TEST_WEBHOOK_SECRET;
+  });
+
+  function writeConfig(content: unknown): string {
+    const file = join(dir, 'notify.json');
+    writeFileSync(file, JSON.stringify(content));
+    return file;
+  }
+
+  it('should load webhooks with defaults and resolve secretEnv', () => {
+    process.env.TEST_WEBHOOK_SECRET = 'secret-from-the-environment';
+
+    const config = loadNotifierConfig(
+      writeConfig({
+        deadLetterFile: '/tmp/dead.jsonl',
+        webhooks: [
+          {
+            name: 'pager',
+            url: 'https://pager.example.com/hook',
+            secretEnv: 'TEST_WEBHOOK_SECRET',
+          },
+          { name: 'chat', url: 'https://chat.example.com/hook', events: ['payout.confirmed'] },
+        ],
+      })
+    );
+
+    expect(config.deadLetterFile).toBe('/tmp/dead.jsonl');
+    expect(config.webhooks[0]).toMatchObject({
+      secret: 'secret-from-the-environment',
+      events: ['alert.fired', 'alert.resolved', 'payout.confirmed', 'test'],
+      maxRetries: 3,
+      retryBaseDelayMs: 1000,
+      timeoutMs: 5000,
+    });
+    expect(config.webhooks[1]).toMatchObject({ secret: undefined, events: ['payout.confirmed'] });
+  });
+
+  it('should reject duplicate names, unknown events and both secret forms', () => {
+    expect(() =>
+      loadNotifierConfig(
+        writeConfig({
+          webhooks: [
+            { name: 'a', url: 'https://a.example.com' },
+            { name: 'a', url: 'https://b.example.com' },
+          ],
+        })
+      )
+    ).toThrow(ConfigError);
+    expect(() =>
+      loadNotifierConfig(
+        writeConfig({ webhooks: [{ name: 'a', url: 'https://a.example.com', events: ['boom'] }] })
+      )
+    ).toThrow('Invalid notifier file');
+    expect(() =>
+      loadNotifierConfig(
+        writeConfig({
+          webhooks: [
+            {
+              name: 'a',
+              url: 'https://a.example.com',
+              secret: 'sixteen-characters',
+              secretEnv: 'X',
+            },
+          ],
+        })
+      )
+    ).toThrow('Invalid notifier file');
+  });
+
+  it('should throw ConfigError for an unset secretEnv variable', () => {
+    expect(() =>
+      loadNotifierConfig(
+        writeConfig({
+          webhooks: [{ name: 'a', url: 'https://a.example.com', secretEnv: 'TEST_WEBHOOK_SECRET' }],
+        })
+      )
+    ).toThrow('Environment variable TEST_WEBHOOK_SECRET for webhook "a" is not set');
+  });
+});
+
+describe('renderTemplate', () => {
+  const notification: Notification = {
+    id: 'n-1',
+    event: 'alert.fired',
+    timestamp: '2025-06-01T12:00:00.000Z',
+    account: 'main',
+    data: { worker_name: 'Rig 01', value: 42.5, resolved_at: null },
+  };
+
+  it('should substitute data fields and notification fields', () => {
+    expect(
+      renderTemplate('{{event}} {{account}}/{{ worker_name }} at {{value}}', notification)
+    ).toBe('alert.fired main/Rig 01 at 42.5');
+  });
+
+  it('should render null as empty and keep unknown placeholders', () => {
+    expect(renderTemplate('[{{resolved_at}}] {{missing}}', notification)).toBe('[] {{missing}}');
+  });
+});
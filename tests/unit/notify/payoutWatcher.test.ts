@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the payout watcher
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Account } from '../../../src/config/accounts.js';
+import type { CacheRefreshListener } from '../../../src/api/cachedBraiinsClient.js';
+import type { WebhookNotifier } from '../../../src/notify/webhookNotifier.js';
+import type { Payout } from '../../../src/schemas/getPayoutsResponse.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  onCacheRefresh: vi.fn(),
+}));
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+    notifyPayoutInterval: 600,
+  },
+}));
+
+describe('PayoutWatcher', () => {
+  function account(name: string): Account {
+    return {
+      name,
+      apiToken: `${name}-token`,
+      apiMode: 'rest',
+      apiBaseUrl: 'https://pool.braiins.com/api/v1',
+      nativeApiBaseUrl: 'https://pool.braiins.com',
+    };
+  }
+
+  function payout(txId: string, status: Payout['status']): Payout {
+    return {
+      type: 'onchain',
+      status,
+      amount_sats: 1000000,
+      fee_sats: 0,
+      destination: 'bc1qexample',
+      tx_id: txId,
+      invoice: null,
+      requested_at: '2025-06-01T00:00:00Z',
+      resolved_at: status === 'confirmed' ? '2025-06-01T01:00:00Z' : null,
+    };
+  }
+
+  let notifier: WebhookNotifier;
+  let getPayouts: ReturnType<typeof vi.fn>;
+  let refreshListener: CacheRefreshListener | undefined;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    const { getCachedBraiinsClient, onCacheRefresh } =
+      await import('../../../src/api/cachedBraiinsClient.js');
+
+    notifier = { notify: vi.fn().mockResolvedValue([]) } as unknown as WebhookNotifier;
+    getPayouts = vi.fn().mockResolvedValue({ currency: 'BTC', payouts: [] });
+    vi.mocked(getAccountRegistry).mockReturnValue(new AccountRegistry([account('main')]));
+    vi.mocked(getCachedBraiinsClient).mockReturnValue({ getPayouts } as never);
+    vi.mocked(onCacheRefresh).mockImplementation((listener) => {
+      refreshListener = listener;
+      return vi.fn();
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should seed from the first payouts and notify newly confirmed ones', async () => {
+    const { PayoutWatcher } = await import('../../../src/notify/payoutWatcher.js');
+    const watcher = new PayoutWatcher(notifier);
+
+    watcher.observe('main', [payout('old', 'confirmed'), payout('new', 'queued')]);
+    expect(notifier.notify).not.toHaveBeenCalled();
+
+    watcher.observe('main', [payout('old', 'confirmed'), payout('new', 'confirmed')]);
+    watcher.observe('main', [payout('old', 'confirmed'), payout('new', 'confirmed')]);
+
+    expect(notifier.notify).toHaveBeenCalledTimes(1);
+    expect(notifier.notify).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'payout.confirmed',
+        account: 'main',
+        data: expect.objectContaining({ tx_id: 'new', amount_btc: '0.01000000' }) as unknown,
+      })
+    );
+  });
+
+  it('should read payouts on start and from refreshed responses', async () => {
+    vi.useFakeTimers();
+    const { PayoutWatcher } = await import('../../../src/notify/payoutWatcher.js');
+    const watcher = new PayoutWatcher(notifier, 1000);
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(getPayouts).toHaveBeenCalledTimes(1);
+
+    refreshListener?.({
+      account: 'main',
+      resourceType: 'payouts',
+      data: { currency: 'BTC', payouts: [payout('tx-1', 'confirmed')] },
+    });
+    expect(notifier.notify).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getPayouts).toHaveBeenCalledTimes(2);
+
+    await watcher.stop();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for the webhook notifier
+ *
+ * Delivers to a local HTTP stub.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  WebhookNotifier,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signPayload,
+} from '../../../src/notify/webhookNotifier.js';
+import type { Webhook } from '../../../src/notify/notifierConfig.js';
+import {
+  NotificationEventEnum,
+  testNotification,
+  type Notification,
+} from '../../../src/notify/notifications.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('WebhookNotifier', () => {
+  interface StubRequest {
+    path: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+  }
+
+  let stub: Server;
+  let baseUrl: string;
+  let requests: StubRequest[];
+  /** Statuses returned in order; 200 once exhausted */
+  let statuses: number[];
+  let dir: string;
+
+  const payout: Notification = {
+    id: 'n-1',
+    event: 'payout.confirmed',
+    timestamp: '2025-06-01T12:00:00.000Z',
+    account: 'main',
+    data: { type: 'onchain', amount_btc: '0.01000000', tx_id: 'abc' },
+  };
+
+  function webhook(overrides: Partial<Webhook> = {}): Webhook {
+    return {
+      name: 'chat',
+      url: `${baseUrl}/hooks/chat`,
+      events: NotificationEventEnum.options,
+      headers: {},
+      templates: {},
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+      timeoutMs: 1000,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    requests = [];
+    statuses = [];
+    dir = mkdtempSync(join(tmpdir(), 'notifier-'));
+    stub = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({
+          path: req.url ?? '',
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should post the notification with its rendered text and a valid signature', async () => {
+    const secret = 'a-very-secret-webhook-key';
+    const notifier = new WebhookNotifier({
+      webhooks: [
+        webhook({
+          secret,
+          headers: { Authorization: 'Bearer hook-token' },
+          templates: { 'payout.confirmed': 'Paid {{amount_btc}} BTC to {{account}} ({{tx_id}})' },
+        }),
+      ],
+    });
+
+    const results = await notifier.notify(payout);
+
+    expect(results).toEqual([
+      { webhook: 'chat', delivered: true, attempts: 1, status: 200, error: null },
+    ]);
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.path).toBe('/hooks/chat');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers.authorization).toBe('Bearer hook-token');
+    expect(request.headers['x-braiins-event']).toBe('payout.confirmed');
+    expect(JSON.parse(request.body)).toEqual({
+      ...payout,
+      text: 'Paid 0.01000000 BTC to main (abc)',
+    });
+
+    const timestamp = String(request.headers[TIMESTAMP_HEADER.toLowerCase()]);
+    expect(request.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(
+      signPayload(secret, timestamp, request.body)
+    );
+  });
+
+  it('should not sign requests for webhooks without a secret', async () => {
+    const notifier = new WebhookNotifier({ webhooks: [webhook()] });
+
+    await notifier.notify(testNotification('hello'));
+
+    expect(requests[0].headers[SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+    expect(JSON.parse(requests[0].body)).toMatchObject({
+      event: 'test',
+      text: 'Test notification from Braiins Pool MCP Server: hello',
+    });
+  });
+
+  it('should only deliver events a webhook subscribes to', async () => {
+    const notifier = new WebhookNotifier({
+      webhooks: [webhook({ events: ['alert.fired'] }), webhook({ name: 'all' })],
+    });
+
+    const results = await notifier.notify(payout);
+
+    expect(results.map((result) => result.webhook)).toEqual(['all']);
+  });
+
+  it('should retry server errors with backoff', async () => {
+    statuses = [503, 500];
+    const notifier = new WebhookNotifier({ webhooks: [webhook()] });
+
+    const [result] = await notifier.notify(payout);
+
+    expect(result).toMatchObject({ delivered: true, attempts: 3, status: 200 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should not retry client errors and dead-letter the notification', async () => {
+    statuses = [400];
+    const deadLetterFile = join(dir, 'dead.jsonl');
+    const notifier = new WebhookNotifier({ deadLetterFile, webhooks: [webhook()] });
+
+    const [result] = await notifier.notify(payout);
+
+    expect(result).toEqual({
+      webhook: 'chat',
+      delivered: false,
+      attempts: 1,
+      status: 400,
+      error: 'Webhook responded with HTTP 400',
+    });
+    const lines = readFileSync(deadLetterFile, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({
+      webhook: 'chat',
+      attempts: 1,
+      status: 400,
+      payload: { id: 'n-1', event: 'payout.confirmed' },
+    });
+  });
+
+  it('should dead-letter after exhausting retries on connection errors', async () => {
+    const deadLetterFile = join(dir, 'dead.jsonl');
+    await new Promise((resolve) => stub.close(resolve));
+    const notifier = new WebhookNotifier({ deadLetterFile, webhooks: [webhook()] });
+
+    const [result] = await notifier.notify(payout);
+
+    expect(result).toMatchObject({ delivered: false, attempts: 3, status: null });
+    expect(result.error).not.toBeNull();
+    expect(readFileSync(deadLetterFile, 'utf8').trim().split('\n')).toHaveLength(1);
+
+    // Reopen so afterEach can close it
+    stub = createServer();
+    await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for MCP prompt templates
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { Account } from '../../../src/config/accounts.js';
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('prompts', () => {
+  async function promptText(name: string, args?: Record<string, string>): Promise<string> {
+    const { getPrompt } = await import('../../../src/prompts/index.js');
+    const result = getPrompt(name, args);
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    const content = result.messages[0].content;
+    return content.type === 'text' ? content.text : '';
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-10T12:34:56Z'));
+
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    const account = (
+      name: string
+    ): ReturnType<InstanceType<typeof AccountRegistry>['resolve']> => ({
+      name,
+      apiToken: 'token',
+      apiMode: 'rest',
+      apiBaseUrl: 'https://pool.braiins.com/api/v1',
+      nativeApiBaseUrl: 'https://pool.braiins.com',
+    });
+    vi.mocked(getAccountRegistry).mockReturnValue(
+      new AccountRegistry([account('default'), account('site-b')])
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('listPrompts', () => {
+    it('should list all prompts with their arguments', async () => {
+      const { listPrompts } = await import('../../../src/prompts/index.js');
+
+      const prompts = listPrompts();
+
+      expect(prompts.map((p) => p.name)).toEqual([
+        'daily-health-report',
+        'earnings-drop-analysis',
+        'workers-needing-attention',
+      ]);
+      for (const prompt of prompts) {
+        expect(prompt.description).toBeTruthy();
+        expect(prompt.arguments?.map((a) => a.name)).toContain('account');
+        expect(prompt.arguments?.every((a) => a.required === false)).toBe(true);
+      }
+    });
+
+    it('should only list prompts whose tools are all allowed', async () => {
+      const { listPrompts } = await import('../../../src/prompts/index.js');
+
+      expect(listPrompts(['getUserOverview', 'listWorkers', 'getWorkerHashrate'])).toEqual([
+        expect.objectContaining({ name: 'workers-needing-attention' }),
+      ]);
+      expect(listPrompts(['*'])).toHaveLength(3);
+      expect(listPrompts(['getPoolStats'])).toEqual([]);
+    });
+
+    it('should only reference registered tools', async () => {
+      const { prompts } = await import('../../../src/prompts/index.js');
+      const { tools } = await import('../../../src/tools/index.js');
+      const toolNames = tools.map((tool) => tool.name);
+
+      for (const prompt of prompts) {
+        for (const tool of prompt.tools) {
+          expect(toolNames).toContain(tool);
+        }
+      }
+    });
+  });
+
+  describe('daily-health-report', () => {
+    it('should cover the last 24 hours with the default account', async () => {
+      const text = await promptText('daily-health-report');
+
+      expect(text).toContain('my Braiins Pool account');
+      expect(text).toContain('`getUserOverview`');
+      expect(text).toContain('"status":"inactive"');
+      expect(text).toContain('"status":"low"');
+      expect(text).toContain(
+        '`getUserRewards` with `{"from":"2025-01-09T12:34:00.000Z","to":"2025-01-10T12:34:00.000Z","granularity":"hour"}`'
+      );
+      expect(text).toContain('`getNetworkStats`');
+      expect(text).not.toContain('"account"');
+    });
+
+    it('should pass the account to every tool call', async () => {
+      const text = await promptText('daily-health-report', { account: 'site-b' });
+
+      expect(text).toContain('the Braiins Pool account "site-b"');
+      expect(text).toContain('`getUserOverview` with `{"account":"site-b"}`');
+      expect(text).toContain('`getNetworkStats` with `{"account":"site-b"}`');
+    });
+  });
+
+  describe('earnings-drop-analysis', () => {
+    it('should compare two periods of the requested length', async () => {
+      const text = await promptText('earnings-drop-analysis', { days: '3' });
+
+      expect(text).toContain(
+        'recent period (2025-01-07T12:34:00.000Z to 2025-01-10T12:34:00.000Z)'
+      );
+      expect(text).toContain('3 day(s) before it (2025-01-04T12:34:00.000Z');
+      expect(text).toContain('"granularity":"day"');
+      expect(text).toContain('`getWorkerHashrate` with `{"workerId":"<workerId>"');
+    });
+
+    it('should default to 7 days and use hourly data for short periods', async () => {
+      expect(await promptText('earnings-drop-analysis', { days: '' })).toContain(
+        '7 day(s) before it'
+      );
+      expect(await promptText('earnings-drop-analysis', { days: '2' })).toContain(
+        '"granularity":"hour"'
+      );
+    });
+  });
+
+  describe('workers-needing-attention', () => {
+    it('should apply limit and hours', async () => {
+      const text = await promptText('workers-needing-attention', { limit: '5', hours: '6' });
+
+      expect(text).toContain('Look at the last 6 hour(s)');
+      expect(text).toContain('"pageSize":5');
+      expect(text).toContain('"from":"2025-01-10T06:34:00.000Z"');
+      expect(text).toContain('list at most 5 workers');
+    });
+  });
+
+  describe('getPrompt errors', () => {
+    it('should reject unknown and forbidden prompts', async () => {
+      const { getPrompt } = await import('../../../src/prompts/index.js');
+
+      expect(() => getPrompt('unknown')).toThrow(
+        expect.objectContaining({ code: ErrorCode.InvalidParams }) as Error
+      );
+      expect(() => getPrompt('daily-health-report', {}, ['getPoolStats'])).toThrow(
+        'Unknown prompt: daily-health-report'
+      );
+    });
+
+    it('should reject invalid arguments', async () => {
+      const { getPrompt } = await import('../../../src/prompts/index.js');
+
+      expect(() => getPrompt('earnings-drop-analysis', { days: 'seven' })).toThrow(
+        'Invalid prompt arguments'
+      );
+      expect(() => getPrompt('earnings-drop-analysis', { days: '31' })).toThrow(
+        'Invalid prompt arguments'
+      );
+      expect(() => getPrompt('daily-health-report', { extra: 'x' })).toThrow(
+        'Invalid prompt arguments'
+      );
+      expect(() => getPrompt('daily-health-report', { account: 'Site B' })).toThrow(
+        'Invalid prompt arguments'
+      );
+    });
+
+    it('should reject unknown accounts', async () => {
+      const { getPrompt } = await import('../../../src/prompts/index.js');
+
+      expect(() => getPrompt('daily-health-report', { account: 'site-z' })).toThrow(
+        'Unknown account: site-z'
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for resource URI helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildStaticResourceUri,
+  buildWorkerResourceUri,
+  canonicalResourceUri,
+  parseResourceUri,
+  resourceUriForRefresh,
+} from '../../../src/resources/resourceUris.js';
+
+describe('resourceUris', () => {
+  describe('build', () => {
+    it('should omit the default account', () => {
+      expect(buildStaticResourceUri('pool/stats')).toBe('braiins://pool/stats');
+      expect(buildStaticResourceUri('pool/stats', 'default', 'default')).toBe(
+        'braiins://pool/stats'
+      );
+    });
+
+    it('should add other accounts as a query parameter', () => {
+      expect(buildStaticResourceUri('account/overview', 'site-b', 'default')).toBe(
+        'braiins://account/overview?account=site-b'
+      );
+    });
+
+    it('should encode worker IDs', () => {
+      expect(buildWorkerResourceUri('rig 1/a')).toBe('braiins://workers/rig%201%2Fa');
+    });
+  });
+
+  describe('parseResourceUri', () => {
+    it('should parse static resources', () => {
+      expect(parseResourceUri('braiins://network/stats')).toEqual({
+        kind: 'static',
+        path: 'network/stats',
+        account: undefined,
+      });
+      expect(parseResourceUri('braiins://pool/stats?account=site-b')).toEqual({
+        kind: 'static',
+        path: 'pool/stats',
+        account: 'site-b',
+      });
+    });
+
+    it('should parse and decode worker resources', () => {
+      expect(parseResourceUri('braiins://workers/rig%201%2Fa?account=site-b')).toEqual({
+        kind: 'worker',
+        workerId: 'rig 1/a',
+        account: 'site-b',
+      });
+    });
+
+    it('should reject unknown URIs', () => {
+      expect(parseResourceUri('braiins://pool/blocks')).toBeNull();
+      expect(parseResourceUri('braiins://workers/')).toBeNull();
+      expect(parseResourceUri('braiins://workers/a/b')).toBeNull();
+      expect(parseResourceUri('https://pool/stats')).toBeNull();
+      expect(parseResourceUri('not a uri')).toBeNull();
+    });
+  });
+
+  describe('canonicalResourceUri', () => {
+    it('should drop the default account and round-trip worker IDs', () => {
+      expect(canonicalResourceUri('braiins://pool/stats?account=default', 'default')).toBe(
+        'braiins://pool/stats'
+      );
+      expect(canonicalResourceUri('braiins://workers/rig%201', 'default')).toBe(
+        'braiins://workers/rig%201'
+      );
+      expect(canonicalResourceUri('braiins://unknown', 'default')).toBeNull();
+    });
+  });
+
+  describe('resourceUriForRefresh', () => {
+    it('should map refreshed data to resource URIs', () => {
+      expect(
+        resourceUriForRefresh(
+          { account: 'default', resourceType: 'user-overview', data: {} },
+          'default'
+        )
+      ).toBe('braiins://account/overview');
+      expect(
+        resourceUriForRefresh(
+          { account: 'site-b', resourceType: 'worker-details', identifier: 'rig-1', data: {} },
+          'default'
+        )
+      ).toBe('braiins://workers/rig-1?account=site-b');
+    });
+
+    it('should ignore data that backs no resource', () => {
+      expect(
+        resourceUriForRefresh({ account: 'default', resourceType: 'payouts', data: {} }, 'default')
+      ).toBeNull();
+    });
+  });
+});
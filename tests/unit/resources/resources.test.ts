@@ -0,0 +1,389 @@
+/**
+ * Unit tests for MCP resources and resource subscriptions
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Account } from '../../../src/config/accounts.js';
+import type { CacheRefreshEvent } from '../../../src/api/cachedBraiinsClient.js';
+
+// Refresh listeners registered through the mocked onCacheRefresh
+const refreshListeners = new Set<(event: CacheRefreshEvent) => void>();
+
+function emitRefresh(event: CacheRefreshEvent): void {
+  for (const listener of refreshListeners) listener(event);
+}
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+  onCacheRefresh: vi.fn((listener: (event: CacheRefreshEvent) => void) => {
+    refreshListeners.add(listener);
+    return () => refreshListeners.delete(listener);
+  }),
+}));
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('resources', () => {
+  const poolStats = {
+    coin: 'BTC',
+    pool_hashrate: 725000000000000000000,
+    workers_active: 1250000,
+    last_block: { height: 875432, found_at: '2025-01-10T08:15:30Z', reward: '3.125' },
+    luck: { window_blocks: 1000, value: 1.05 },
+    updated_at: '2025-01-10T12:34:56Z',
+  };
+
+  const overview = {
+    username: 'alice',
+    currency: 'BTC',
+    hashrate: { current: 300e12, avg_1h: 290e12, avg_24h: 280e12 },
+    rewards: {
+      confirmed: '0.12345678',
+      unconfirmed: '0.00010000',
+      last_payout: '0.01000000',
+      last_payout_at: null,
+    },
+    workers: { active: 9, inactive: 1, total: 10 },
+    updated_at: '2025-01-10T12:34:56Z',
+  };
+
+  const workerDetails = {
+    id: 'rig 1',
+    name: 'rig 1',
+    status: 'ok',
+    hashrate: { current: 100e12, avg_1h: 100e12, avg_24h: 100e12 },
+    shares: { valid: 100, invalid: 0, stale: 0 },
+    last_share_at: '2025-01-10T12:30:00Z',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2025-01-10T12:34:56Z',
+  };
+
+  function account(name: string, apiMode: Account['apiMode'] = 'rest'): Account {
+    return {
+      name,
+      apiToken: `${name}-token`,
+      apiMode,
+      apiBaseUrl: 'https://pool.braiins.com/api/v1',
+      nativeApiBaseUrl: 'https://pool.braiins.com',
+    };
+  }
+
+  async function setup(
+    names: string[],
+    client: Record<string, ReturnType<typeof vi.fn>> = {}
+  ): Promise<ReturnType<typeof vi.fn>> {
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+
+    vi.mocked(getAccountRegistry).mockReturnValue(new AccountRegistry(names.map(account)));
+    const mockGetClient = vi.mocked(getCachedBraiinsClient);
+    mockGetClient.mockReturnValue(client as never);
+    return mockGetClient as unknown as ReturnType<typeof vi.fn>;
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { resetResourceSubscriptions } = await import('../../../src/resources/index.js');
+    resetResourceSubscriptions();
+    refreshListeners.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('listResources', () => {
+    it('should list bare URIs for a single account', async () => {
+      const { listResources } = await import('../../../src/resources/index.js');
+      await setup(['default']);
+
+      const resources = listResources();
+
+      expect(resources.map((r) => r.uri)).toEqual([
+        'braiins://pool/stats',
+        'braiins://network/stats',
+        'braiins://account/overview',
+      ]);
+      expect(resources[0]).toMatchObject({ name: 'Pool Stats', mimeType: 'application/json' });
+    });
+
+    it('should list every account and qualify non-default ones', async () => {
+      const { listResources } = await import('../../../src/resources/index.js');
+      await setup(['site-a', 'site-b']);
+
+      const resources = listResources();
+
+      expect(resources).toHaveLength(6);
+      expect(resources.map((r) => r.uri)).toContain('braiins://account/overview');
+      expect(resources.map((r) => r.uri)).toContain('braiins://account/overview?account=site-b');
+      expect(resources.map((r) => r.name)).toContain('Account Overview (site-b)');
+    });
+
+    it('should leave out resources a native account cannot serve', async () => {
+      const { AccountRegistry, getAccountRegistry } =
+        await import('../../../src/config/accounts.js');
+      const { listResources } = await import('../../../src/resources/index.js');
+      vi.mocked(getAccountRegistry).mockReturnValue(
+        new AccountRegistry([account('site-a'), account('site-b', 'native')])
+      );
+
+      expect(listResources().map((r) => r.uri)).toEqual([
+        'braiins://pool/stats',
+        'braiins://network/stats',
+        'braiins://account/overview',
+        'braiins://pool/stats?account=site-b',
+        'braiins://account/overview?account=site-b',
+      ]);
+    });
+
+    it('should only list resources backed by allowed tools', async () => {
+      const { listResources, listResourceTemplates } =
+        await import('../../../src/resources/index.js');
+      await setup(['default']);
+
+      expect(listResources(['getPoolStats']).map((r) => r.uri)).toEqual(['braiins://pool/stats']);
+      expect(listResourceTemplates(['getPoolStats'])).toEqual([]);
+      expect(listResourceTemplates(['*'])[0].uriTemplate).toBe(
+        'braiins://workers/{workerId}{?account}'
+      );
+    });
+  });
+
+  describe('readResource', () => {
+    it('should serve validated data from the cached client', async () => {
+      const { readResource } = await import('../../../src/resources/index.js');
+      const getPoolStats = vi.fn().mockResolvedValue(poolStats);
+      const getClient = await setup(['default'], { getPoolStats });
+
+      const result = await readResource('braiins://pool/stats');
+
+      expect(getClient).toHaveBeenCalledWith(undefined);
+      expect(result.contents).toHaveLength(1);
+      expect(result.contents[0]).toMatchObject({
+        uri: 'braiins://pool/stats',
+        mimeType: 'application/json',
+      });
+      expect(JSON.parse(String(result.contents[0].text))).toEqual(poolStats);
+    });
+
+    it('should read workers of the requested account', async () => {
+      const { readResource } = await import('../../../src/resources/index.js');
+      const getWorkerDetails = vi.fn().mockResolvedValue(workerDetails);
+      const getClient = await setup(['default', 'site-b'], { getWorkerDetails });
+
+      const result = await readResource('braiins://workers/rig%201?account=site-b');
+
+      expect(getClient).toHaveBeenCalledWith('site-b');
+      expect(getWorkerDetails).toHaveBeenCalledWith('rig 1');
+      expect(JSON.parse(String(result.contents[0].text))).toEqual(workerDetails);
+    });
+
+    it('should reject unknown and forbidden resources as not found', async () => {
+      const { readResource, RESOURCE_NOT_FOUND } = await import('../../../src/resources/index.js');
+      const getPoolStats = vi.fn().mockResolvedValue(poolStats);
+      await setup(['default'], { getPoolStats });
+
+      await expect(readResource('braiins://pool/blocks')).rejects.toMatchObject({
+        code: RESOURCE_NOT_FOUND,
+      });
+      await expect(readResource('braiins://pool/stats', ['getNetworkStats'])).rejects.toMatchObject(
+        { code: RESOURCE_NOT_FOUND }
+      );
+      expect(getPoolStats).not.toHaveBeenCalled();
+    });
+
+    it('should map unknown accounts to invalid params', async () => {
+      const { readResource } = await import('../../../src/resources/index.js');
+      const { ErrorCode } = await import('@modelcontextprotocol/sdk/types.js');
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { ValidationError } = await import('../../../src/utils/errors.js');
+      await setup(['default']);
+      vi.mocked(getCachedBraiinsClient).mockImplementation(() => {
+        throw new ValidationError('Unknown account: site-z');
+      });
+
+      await expect(readResource('braiins://pool/stats?account=site-z')).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+      });
+    });
+
+    it('should map malformed API responses to internal errors', async () => {
+      const { readResource } = await import('../../../src/resources/index.js');
+      const { ErrorCode } = await import('@modelcontextprotocol/sdk/types.js');
+      await setup(['default'], { getPoolStats: vi.fn().mockResolvedValue({ coin: 'BTC' }) });
+
+      await expect(readResource('braiins://pool/stats')).rejects.toMatchObject({
+        code: ErrorCode.InternalError,
+        message: expect.stringContaining('Unexpected pool stats response format') as string,
+        data: expect.objectContaining({ code: 'API_ERROR' }) as Record<string, unknown>,
+      });
+    });
+
+    it('should map API failures to internal errors', async () => {
+      const { readResource } = await import('../../../src/resources/index.js');
+      const { ErrorCode } = await import('@modelcontextprotocol/sdk/types.js');
+      const { NetworkError } = await import('../../../src/utils/errors.js');
+      await setup(['default'], {
+        getNetworkStats: vi.fn().mockRejectedValue(new NetworkError('Cannot connect')),
+      });
+
+      await expect(readResource('braiins://network/stats')).rejects.toMatchObject({
+        code: ErrorCode.InternalError,
+        data: expect.objectContaining({ code: 'NETWORK_ERROR' }) as unknown,
+      });
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('should notify subscribers only when refreshed data changes', async () => {
+      const { getResourceSubscriptions, readResource } =
+        await import('../../../src/resources/index.js');
+      await setup(['default'], { getPoolStats: vi.fn().mockResolvedValue(poolStats) });
+      const callback = vi.fn();
+      const subscriptions = getResourceSubscriptions();
+
+      expect(subscriptions.subscribe('braiins://pool/stats?account=default', callback)).toBe(
+        'braiins://pool/stats'
+      );
+      await readResource('braiins://pool/stats');
+
+      emitRefresh({ account: 'default', resourceType: 'pool-stats', data: poolStats });
+      expect(callback).not.toHaveBeenCalled();
+
+      emitRefresh({
+        account: 'default',
+        resourceType: 'pool-stats',
+        data: { ...poolStats, workers_active: 1250001 },
+      });
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith('braiins://pool/stats');
+
+      // Other accounts and resources do not notify
+      emitRefresh({ account: 'site-b', resourceType: 'pool-stats', data: {} });
+      emitRefresh({ account: 'default', resourceType: 'network-stats', data: {} });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only record the first refresh of an unread resource', async () => {
+      const { getResourceSubscriptions } = await import('../../../src/resources/index.js');
+      await setup(['default']);
+      const callback = vi.fn();
+      getResourceSubscriptions().subscribe('braiins://workers/rig-1', callback);
+
+      const event = {
+        account: 'default',
+        resourceType: 'worker-details' as const,
+        identifier: 'rig-1',
+        data: { id: 'rig-1', status: 'ok' },
+      };
+      emitRefresh(event);
+      expect(callback).not.toHaveBeenCalled();
+
+      emitRefresh({ ...event, data: { id: 'rig-1', status: 'off' } });
+      expect(callback).toHaveBeenCalledWith('braiins://workers/rig-1');
+    });
+
+    it('should stop listening once every subscription is removed', async () => {
+      const { getResourceSubscriptions } = await import('../../../src/resources/index.js');
+      await setup(['default']);
+      const subscriptions = getResourceSubscriptions();
+      const callback = vi.fn();
+
+      expect(subscriptions.subscribe('braiins://unknown', callback)).toBeNull();
+      subscriptions.subscribe('braiins://pool/stats', callback);
+      subscriptions.subscribe('braiins://network/stats', callback);
+      expect(subscriptions.size).toBe(2);
+      expect(refreshListeners.size).toBe(1);
+
+      subscriptions.unsubscribe('braiins://pool/stats', callback);
+      expect(refreshListeners.size).toBe(1);
+      subscriptions.unsubscribeAll(callback);
+      expect(subscriptions.size).toBe(0);
+      expect(refreshListeners.size).toBe(0);
+    });
+  });
+
+  describe('MCP server', () => {
+    it('should serve resources and send updates to subscribed sessions', async () => {
+      const { createMcpServer } = await import('../../../src/server.js');
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+      const { ResourceUpdatedNotificationSchema } =
+        await import('@modelcontextprotocol/sdk/types.js');
+      const { getResourceSubscriptions } = await import('../../../src/resources/index.js');
+      await setup(['default'], { getUserOverview: vi.fn().mockResolvedValue(overview) });
+
+      const server = createMcpServer();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const updated = new Promise<string>((resolve) => {
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+          resolve(notification.params.uri);
+        });
+      });
+
+      const { resources } = await client.listResources();
+      expect(resources).toHaveLength(3);
+
+      await client.subscribeResource({ uri: 'braiins://account/overview' });
+      await client.readResource({ uri: 'braiins://account/overview' });
+      emitRefresh({
+        account: 'default',
+        resourceType: 'user-overview',
+        data: { ...overview, username: 'bob' },
+      });
+
+      await expect(updated).resolves.toBe('braiins://account/overview');
+      await expect(
+        client.subscribeResource({ uri: 'braiins://pool/stats?account=site-z' })
+      ).rejects.toThrow('Unknown account: site-z');
+
+      await client.close();
+      expect(getResourceSubscriptions().size).toBe(0);
+    });
+
+    it('should hide tools that no configured account can serve', async () => {
+      const { AccountRegistry, getAccountRegistry } =
+        await import('../../../src/config/accounts.js');
+      const { createMcpServer } = await import('../../../src/server.js');
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+      vi.mocked(getAccountRegistry).mockReturnValue(
+        new AccountRegistry([account('default', 'native')])
+      );
+
+      const server = createMcpServer();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const names = (await client.listTools()).tools.map((tool) => tool.name);
+      expect(names).toContain('getPoolStats');
+      expect(names).not.toContain('getNetworkStats');
+      expect(names).not.toContain('getWorkerHashrate');
+
+      await client.close();
+    });
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Unit tests for calculateProfitability tool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CalculateProfitabilityInputSchema } from '../../../src/schemas/calculateProfitabilityInput.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('calculateProfitability', () => {
+  const baseInput = { electricityPrice: 0.05, btcPrice: 100000 };
+
+  function makeWorker(id: string, hashrateThs: number): Record<string, unknown> {
+    return {
+      id,
+      name: id,
+      status: 'ok',
+      hashrate: { current: hashrateThs * 1e12, avg_24h: hashrateThs * 1e12 },
+      shares: { valid: 100, invalid: 0 },
+      last_share_at: '2025-01-05T12:00:00Z',
+    };
+  }
+
+  function makeDetails(id: string, hashrateThs: number, model?: string): Record<string, unknown> {
+    return {
+      id,
+      name: id,
+      status: 'ok',
+      hashrate: {
+        current: hashrateThs * 1e12,
+        avg_1h: hashrateThs * 1e12,
+        avg_24h: hashrateThs * 1e12,
+      },
+      shares: { valid: 100, invalid: 0, stale: 0 },
+      ...(model !== undefined ? { hardware: { model, firmware: 'Braiins OS+ 24.03' } } : {}),
+      last_share_at: '2025-01-05T12:00:00Z',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2025-01-05T12:00:00Z',
+    };
+  }
+
+  const details: Record<string, Record<string, unknown>> = {
+    'rig-s19': makeDetails('rig-s19', 110, 'Antminer S19 Pro'),
+    'rig-custom': makeDetails('rig-custom', 100, 'Custom Rig'),
+    'rig-s9': makeDetails('rig-s9', 14, 'Antminer S9'),
+  };
+
+  function mockClient(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+      getPoolStats: vi.fn().mockResolvedValue({ fpps_rate: 0.0000005 }),
+      getNetworkStats: vi.fn().mockResolvedValue({ difficulty: 100e12 }),
+      listWorkers: vi.fn().mockResolvedValue({
+        page: 1,
+        page_size: 50,
+        total: 3,
+        workers: [
+          makeWorker('rig-s19', 110),
+          makeWorker('rig-custom', 100),
+          makeWorker('rig-s9', 14),
+        ],
+      }),
+      getWorkerDetails: vi.fn((id: string) => Promise.resolve(details[id])),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should require electricity and BTC prices', () => {
+      expect(CalculateProfitabilityInputSchema.safeParse({}).success).toBe(false);
+      expect(CalculateProfitabilityInputSchema.safeParse({ btcPrice: 1 }).success).toBe(false);
+    });
+
+    it('should apply defaults', () => {
+      const result = CalculateProfitabilityInputSchema.parse(baseInput);
+      expect(result.currency).toBe('USD');
+      expect(result.maxWorkers).toBe(50);
+    });
+
+    it('should reject invalid efficiency values', () => {
+      const result = CalculateProfitabilityInputSchema.safeParse({
+        ...baseInput,
+        efficiencyTable: { 'S19 Pro': 0 },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should cap maxWorkers', () => {
+      const result = CalculateProfitabilityInputSchema.safeParse({ ...baseInput, maxWorkers: 500 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should calculate per-worker and fleet margins', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      const client = mockClient();
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(client as never);
+
+      const result = await calculateProfitabilityTool.handler(baseInput);
+
+      expect(result.isError).toBeUndefined();
+      expect(client.listWorkers).toHaveBeenCalledWith({
+        page: 1,
+        page_size: 50,
+        status: 'active',
+        sort_by: 'hashrate_desc',
+      });
+      const text = String(result.content[0].text);
+      expect(text).toContain('pool FPPS rate 0.00000050 BTC/TH/day');
+      // S19 Pro: 110 TH * 29.5 J/TH = 3245 W, 77.88 kWh/day
+      expect(text).toContain(
+        '| rig-s19 | Antminer S19 Pro | 110.00 TH/s | 29.5 | 3245 W | 5.50 USD | 3.89 USD | 1.61 USD (29.2%) | 70,800.00 USD |'
+      );
+      expect(text).toContain('| rig-s9 | Antminer S9 |');
+      expect(text).toContain('🔴 -0.95 USD');
+      // Fleet excludes the rig without a known efficiency
+      expect(text).toContain('| Workers Evaluated | 2 |');
+      expect(text).toContain('| Power Draw | 4.62 kW |');
+      expect(text).toContain('| Daily Revenue | 0.00006200 BTC (6.20 USD) |');
+      expect(text).toContain('| Daily Power Cost | 5.54 USD |');
+      expect(text).toContain('| Daily Margin | 0.66 USD (10.6%) |');
+      expect(text).toContain('| Breakeven BTC Price | 89,361.29 USD |');
+      expect(text).toContain('| Breakeven Difficulty | 1.119e+14 |');
+      expect(text).toContain('| Unprofitable Workers | 🔴 1 |');
+      expect(text).toContain('1 worker(s) have no known efficiency');
+    });
+
+    it('should prefer the input efficiency table and default efficiency', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient() as never);
+
+      const result = await calculateProfitabilityTool.handler({
+        ...baseInput,
+        currency: 'EUR',
+        efficiencyTable: { 's19-pro': 25 },
+        defaultEfficiency: 30,
+      });
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('Mining Profitability (EUR)');
+      expect(text).toContain('| 25 (input table) | 2750 W |');
+      expect(text).toContain('| Custom Rig | 100.00 TH/s | 30 (default) | 3000 W |');
+      expect(text).toContain('| Workers Evaluated | 3 |');
+      expect(text).not.toContain('no known efficiency');
+    });
+
+    it('should evaluate only the requested workers', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      const client = mockClient();
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(client as never);
+
+      const result = await calculateProfitabilityTool.handler({
+        ...baseInput,
+        workerIds: ['rig-s9'],
+      });
+
+      expect(client.listWorkers).not.toHaveBeenCalled();
+      expect(client.getWorkerDetails).toHaveBeenCalledWith('rig-s9');
+      expect(String(result.content[0].text)).toContain('| Workers Evaluated | 1 |');
+    });
+
+    it('should skip requested workers whose details fail', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      const client = mockClient({
+        getWorkerDetails: vi.fn((id: string) =>
+          id === 'rig-gone' ? Promise.reject(new Error('not found')) : Promise.resolve(details[id])
+        ),
+      });
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(client as never);
+
+      const result = await calculateProfitabilityTool.handler({
+        ...baseInput,
+        workerIds: ['rig-s9', 'rig-gone', 'rig-s19'],
+        format: 'both',
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(String(result.content[0].text)).toContain('| Workers Evaluated | 2 |');
+      expect(String(result.content[0].text)).toContain(
+        '*Details unavailable for rig-gone; not evaluated.*'
+      );
+      expect(result.structuredContent).toMatchObject({ unavailable_workers: ['rig-gone'] });
+    });
+
+    it('should fail when no requested worker details are available', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { BraiinsApiError } = await import('../../../src/utils/errors.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          getWorkerDetails: vi
+            .fn()
+            .mockRejectedValue(BraiinsApiError.fromHttpStatus(404, 'Worker not found')),
+        }) as never
+      );
+
+      const result = await calculateProfitabilityTool.handler({
+        ...baseInput,
+        workerIds: ['rig-gone'],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(String(result.content[0].text)).toContain('NOT_FOUND');
+    });
+
+    it('should use listed hardware and fetch details at most five at a time', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      const listed = Array.from({ length: 12 }, (_, i) => makeWorker(`rig-${i}`, 100));
+      listed[0] = { ...listed[0], hardware: { model: 'Antminer S21' } };
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const client = mockClient({
+        listWorkers: vi.fn().mockResolvedValue({
+          page: 1,
+          page_size: 50,
+          total: listed.length,
+          workers: listed,
+        }),
+        getWorkerDetails: vi.fn(async (id: string) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          inFlight--;
+          return makeDetails(id, 100, 'Antminer S19 Pro');
+        }),
+      });
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(client as never);
+
+      const result = await calculateProfitabilityTool.handler(baseInput);
+
+      expect(client.getWorkerDetails).toHaveBeenCalledTimes(11);
+      expect(client.getWorkerDetails).not.toHaveBeenCalledWith('rig-0');
+      expect(maxInFlight).toBe(5);
+      const text = String(result.content[0].text);
+      expect(text).toContain('| rig-0 | Antminer S21 | 100.00 TH/s | 17.5 |');
+      expect(text).toContain('| Workers Evaluated | 12 |');
+    });
+
+    it('should fall back to listed hashrate when worker details fail', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          getWorkerDetails: vi.fn().mockRejectedValue(new Error('unavailable')),
+        }) as never
+      );
+
+      const result = await calculateProfitabilityTool.handler({
+        ...baseInput,
+        defaultEfficiency: 20,
+      });
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('| rig-s19 | unknown | 110.00 TH/s | 20 (default) |');
+    });
+
+    it('should use the block subsidy when the FPPS rate is unavailable', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({ getPoolStats: vi.fn().mockResolvedValue({}) }) as never
+      );
+
+      const result = await calculateProfitabilityTool.handler(baseInput);
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('block subsidy at current difficulty');
+      expect(text).toContain('Breakeven Difficulty');
+    });
+
+    it('should omit breakeven difficulty when network stats fail', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          getNetworkStats: vi.fn().mockRejectedValue(new Error('not supported')),
+        }) as never
+      );
+
+      const result = await calculateProfitabilityTool.handler(baseInput);
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('Breakeven BTC Price');
+      expect(text).not.toContain('Breakeven Difficulty');
+    });
+
+    it('should explain when no revenue basis is available', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          getPoolStats: vi.fn().mockResolvedValue({}),
+          getNetworkStats: vi.fn().mockRejectedValue(new Error('not supported')),
+        }) as never
+      );
+
+      const result = await calculateProfitabilityTool.handler(baseInput);
+
+      expect(result.content[0].text).toContain('Cannot calculate profitability');
+    });
+
+    it('should return validation error for invalid input', async () => {
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+
+      const result = await calculateProfitabilityTool.handler({
+        electricityPrice: -1,
+        btcPrice: 1,
+      });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return error on API failure', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      const { BraiinsApiError, ErrorCode } = await import('../../../src/utils/errors.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          listWorkers: vi
+            .fn()
+            .mockRejectedValue(new BraiinsApiError('Unauthorized', ErrorCode.UNAUTHORIZED, 401)),
+        }) as never
+      );
+
+      const result = await calculateProfitabilityTool.handler(baseInput);
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('UNAUTHORIZED');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should require prices', async () => {
+      const { calculateProfitabilityTool } =
+        await import('../../../src/tools/calculateProfitability.js');
+      expect(calculateProfitabilityTool.name).toBe('calculateProfitability');
+      expect(calculateProfitabilityTool.inputSchema.required).toEqual([
+        'electricityPrice',
+        'btcPrice',
+      ]);
+      expect(calculateProfitabilityTool.inputSchema.properties).toHaveProperty('efficiencyTable');
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Unit tests for estimateEarnings tool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EstimateEarningsInputSchema } from '../../../src/schemas/estimateEarningsInput.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('estimateEarnings', () => {
+  const mockOverview = {
+    username: 'satoshi',
+    hashrate: { current: 100e12, avg_1h: 100e12, avg_24h: 100e12 },
+    rewards: {
+      confirmed: '0.01000000',
+      unconfirmed: '0.00010000',
+      estimated_24h: '0.00005000',
+      today_reward: '0.00002500',
+    },
+    workers: { active: 1, inactive: 0, total: 1 },
+    shares: { valid: 1000, invalid: 0, stale: 0 },
+  };
+
+  const mockPoolStats = {
+    pool_hashrate: 10e18,
+    pool_workers: 1000,
+    pool_share: 1.5,
+    last_block: { height: 876600, hash: '00', found_at: '2025-01-01T00:00:00Z', reward: '3.14' },
+    luck: { current: 100, avg_24h: 100, avg_7d: 100, avg_30d: 100, window_blocks: 10 },
+    fee: { type: 'FPPS', percent: 2.5 },
+    fpps_rate: 0.0000005,
+  };
+
+  const mockNetworkStats = {
+    difficulty: 100e12,
+    network_hashrate: 700e18,
+    block_height: 876600,
+    next_difficulty_adjustment: {
+      estimated_change: 0,
+      blocks_remaining: 100,
+      estimated_time: '2025-01-10T00:00:00Z',
+    },
+    mempool: { size: 1, fees_sat_per_vb: { low: 1, medium: 2, high: 3 } },
+  };
+
+  function mockClient(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+      getUserOverview: vi.fn().mockResolvedValue(mockOverview),
+      getPoolStats: vi.fn().mockResolvedValue(mockPoolStats),
+      getNetworkStats: vi.fn().mockResolvedValue(mockNetworkStats),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-05T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should accept empty object', () => {
+      expect(EstimateEarningsInputSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('should reject non-positive hashrate', () => {
+      expect(EstimateEarningsInputSchema.safeParse({ hashrateThs: 0 }).success).toBe(false);
+      expect(EstimateEarningsInputSchema.safeParse({ hashrateThs: -5 }).success).toBe(false);
+    });
+
+    it('should reject unknown properties', () => {
+      expect(EstimateEarningsInputSchema.safeParse({ hashrate: 100 }).success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should project FPPS earnings from the 24h average hashrate', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient() as never);
+
+      const result = await estimateEarningsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Hashrate**: 100.00 TH/s (account 24h average)');
+      // 0.0000005 BTC/TH/day * 100 TH/s
+      expect(text).toContain('| Daily | 0.00005000 BTC (5,000 sats) |');
+      expect(text).toContain('| Weekly | 0.00035000 BTC (35,000 sats) |');
+      expect(text).toContain('| Monthly (30d) | 0.00150000 BTC (150,000 sats) |');
+    });
+
+    it('should use a supplied hashrate', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient() as never);
+
+      const result = await estimateEarningsTool.handler({ hashrateThs: 200 });
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('200.00 TH/s (supplied)');
+      expect(text).toContain('| Daily | 0.00010000 BTC (10,000 sats) |');
+    });
+
+    it('should compare prorated FPPS with actual reward for today', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient() as never);
+
+      const result = await estimateEarningsTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('Today vs FPPS');
+      // Half the UTC day elapsed: 0.00005 * 0.5
+      expect(text).toContain('| FPPS-Implied So Far | 0.00002500 BTC (2,500 sats) |');
+      expect(text).toContain('| Gap | 0.0% |');
+      expect(text).toContain('12.0h since 00:00 UTC');
+      expect(text).toContain('within 5%');
+    });
+
+    it('should explain actual reward above FPPS', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      const overview = {
+        ...mockOverview,
+        rewards: { ...mockOverview.rewards, today_reward: '0.00003000' },
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({ getUserOverview: vi.fn().mockResolvedValue(overview) }) as never
+      );
+
+      const result = await estimateEarningsTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('| Gap | +20.0% |');
+      expect(text).toContain('Braiins OS+ fee refunds');
+    });
+
+    it('should flag hashrate changes and shortfalls', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      const overview = {
+        ...mockOverview,
+        hashrate: { ...mockOverview.hashrate, current: 50e12 },
+        rewards: { ...mockOverview.rewards, today_reward: '0.00001500' },
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({ getUserOverview: vi.fn().mockResolvedValue(overview) }) as never
+      );
+
+      const result = await estimateEarningsTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('| Gap | -40.0% |');
+      expect(text).toContain('differs from the 24h average');
+      expect(text).toContain('Actual trails FPPS');
+    });
+
+    it('should add a subsidy-only estimate when difficulty is available', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient() as never);
+
+      const result = await estimateEarningsTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('| Period | FPPS | Subsidy Only |');
+      expect(text).toContain('vs. the subsidy-only estimate');
+    });
+
+    it('should fall back to FPPS only when network stats fail', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          getNetworkStats: vi.fn().mockRejectedValue(new Error('not supported')),
+        }) as never
+      );
+
+      const result = await estimateEarningsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('| Period | FPPS |');
+      expect(text).not.toContain('Subsidy Only');
+    });
+
+    it('should explain when no estimate is possible', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      const { fpps_rate: _fppsRate, ...poolStats } = mockPoolStats;
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          getPoolStats: vi.fn().mockResolvedValue(poolStats),
+          getNetworkStats: vi.fn().mockRejectedValue(new Error('not supported')),
+        }) as never
+      );
+
+      const result = await estimateEarningsTool.handler({});
+
+      expect(result.content[0].text).toContain('Cannot estimate earnings');
+    });
+
+    it('should return validation error for invalid input', async () => {
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+
+      const result = await estimateEarningsTool.handler({ hashrateThs: 'fast' });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return error on API failure', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      const { BraiinsApiError, ErrorCode } = await import('../../../src/utils/errors.js');
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(
+        mockClient({
+          getUserOverview: vi
+            .fn()
+            .mockRejectedValue(new BraiinsApiError('Unauthorized', ErrorCode.UNAUTHORIZED, 401)),
+        }) as never
+      );
+
+      const result = await estimateEarningsTool.handler({});
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('UNAUTHORIZED');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and no required params', async () => {
+      const { estimateEarningsTool } = await import('../../../src/tools/estimateEarnings.js');
+      expect(estimateEarningsTool.name).toBe('estimateEarnings');
+      expect(estimateEarningsTool.inputSchema.required).toEqual([]);
+      expect(estimateEarningsTool.inputSchema.properties).toHaveProperty('hashrateThs');
+    });
+  });
+});
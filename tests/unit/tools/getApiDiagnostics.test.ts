@@ -0,0 +1,124 @@
+/**
+ * Unit tests for getApiDiagnostics tool
+ *
+ * Reports the real rate limiter and circuit breaker singletons.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GetApiDiagnosticsInputSchema } from '../../../src/schemas/getApiDiagnosticsInput.js';
+import { getCircuitBreakers, resetCircuitBreakers } from '../../../src/api/circuitBreaker.js';
+import { resetRateLimiter } from '../../../src/api/rateLimiter.js';
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    rateLimitRequestsPerSecond: 1,
+    rateLimitBurstSize: 5,
+    requestTimeout: 30000,
+    circuitFailureThreshold: 2,
+    circuitResetTimeout: 30000,
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('getApiDiagnostics', () => {
+  const API = 'https://pool.braiins.com/api/v1';
+
+  beforeEach(() => {
+    resetCircuitBreakers();
+    resetRateLimiter();
+
+    const registry = getCircuitBreakers();
+    registry.get(API, '/user/overview').recordSuccess();
+    const stats = registry.get(API, '/pool/stats');
+    stats.recordFailure('connect ECONNREFUSED');
+    stats.recordFailure('connect ECONNREFUSED');
+  });
+
+  describe('Input Schema', () => {
+    it('should accept no arguments', () => {
+      expect(GetApiDiagnosticsInputSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('should reject unknown states', () => {
+      expect(GetApiDiagnosticsInputSchema.safeParse({ state: 'broken' }).success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should report the rate limiter and every circuit', async () => {
+      const { getApiDiagnosticsTool } = await import('../../../src/tools/getApiDiagnostics.js');
+
+      const result = await getApiDiagnosticsTool.handler({ format: 'json' });
+
+      expect(result.isError).toBeUndefined();
+      const output = result.structuredContent as Record<string, unknown>;
+      expect(output.rate_limiter).toEqual({
+        available_tokens: 5,
+        queue_depth: 0,
+        total_admitted: 0,
+        total_rejected: 0,
+      });
+      expect(output.open_count).toBe(1);
+      expect(output.circuits).toEqual([
+        expect.objectContaining({
+          endpoint: '/pool/stats',
+          state: 'open',
+          retry_at: expect.any(String),
+        }),
+        expect.objectContaining({ endpoint: '/user/overview', state: 'closed', opened_at: null }),
+      ]);
+    });
+
+    it('should filter circuits by state', async () => {
+      const { getApiDiagnosticsTool } = await import('../../../src/tools/getApiDiagnostics.js');
+
+      const result = await getApiDiagnosticsTool.handler({ state: 'open', format: 'json' });
+
+      const output = result.structuredContent as Record<string, unknown>;
+      expect(output.open_count).toBe(1);
+      expect(output.circuits).toEqual([
+        expect.objectContaining({
+          endpoint: '/pool/stats',
+          consecutive_failures: 2,
+          last_error: 'connect ECONNREFUSED',
+        }),
+      ]);
+    });
+
+    it('should format open circuits as markdown', async () => {
+      const { getApiDiagnosticsTool } = await import('../../../src/tools/getApiDiagnostics.js');
+
+      const result = await getApiDiagnosticsTool.handler({});
+
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('## API Diagnostics');
+      expect(text).toContain('**Open**: 1');
+      expect(text).toContain('| /pool/stats | 🔴 open | 2 / 2 | 0 | connect ECONNREFUSED |');
+    });
+
+    it('should note when no requests were made', async () => {
+      resetCircuitBreakers();
+      const { getApiDiagnosticsTool } = await import('../../../src/tools/getApiDiagnostics.js');
+
+      const result = await getApiDiagnosticsTool.handler({});
+
+      const text = (result.content[0] as { text: string }).text;
+      expect(text).toContain('*No API requests made yet.*');
+    });
+
+    it('should return validation error for invalid input', async () => {
+      const { getApiDiagnosticsTool } = await import('../../../src/tools/getApiDiagnostics.js');
+
+      const result = await getApiDiagnosticsTool.handler({ unknown: true });
+
+      expect(result.isError).toBe(true);
+      const text = (result.content[0] as { text: string }).text;
+      expect(JSON.parse(text).code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
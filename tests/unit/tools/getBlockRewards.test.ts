@@ -0,0 +1,204 @@
+/**
+ * Unit tests for getBlockRewards tool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  GetBlockRewardsInputSchema,
+  toApiParams,
+} from '../../../src/schemas/getBlockRewardsInput.js';
+import { GetBlockRewardsResponseSchema } from '../../../src/schemas/getBlockRewardsResponse.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('getBlockRewards', () => {
+  // Sample valid API response (newest first)
+  const mockApiResponse = {
+    currency: 'BTC',
+    block_rewards: [
+      {
+        block_height: 880100,
+        found_at: '2025-01-05T12:00:00Z',
+        pool_scoring_hashrate: 1.0e19,
+        user_scoring_hashrate: 1.0e15,
+        block_value: '3.15000000',
+        user_reward: '0.00030000',
+        mining_reward: '0.00025000',
+        braiinsos_plus_mining_bonus: '0.00003000',
+        referral_reward: '0.00002000',
+        referral_bonus: '0.00000000',
+        confirmations_left: 60,
+      },
+      {
+        block_height: 880000,
+        found_at: '2025-01-04T12:00:00Z',
+        pool_scoring_hashrate: 1.0e19,
+        user_scoring_hashrate: 3.0e15,
+        block_value: '3.15000000',
+        user_reward: '0.00090000',
+        mining_reward: '0.00075000',
+        braiinsos_plus_mining_bonus: '0.00009000',
+        referral_reward: '0.00006000',
+        referral_bonus: '0.00000000',
+        confirmations_left: 0,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should accept empty object with immatureOnly defaulting to false', () => {
+      const result = GetBlockRewardsInputSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.immatureOnly).toBe(false);
+      }
+    });
+
+    it('should reject when from is after to', () => {
+      const result = GetBlockRewardsInputSchema.safeParse({
+        from: '2025-01-10T00:00:00Z',
+        to: '2025-01-01T00:00:00Z',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject non-boolean immatureOnly', () => {
+      const result = GetBlockRewardsInputSchema.safeParse({ immatureOnly: 'yes' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('toApiParams', () => {
+    it('should only send the date range to the API', () => {
+      const input = GetBlockRewardsInputSchema.parse({
+        from: '2025-01-01T00:00:00Z',
+        immatureOnly: true,
+      });
+      expect(toApiParams(input)).toEqual({ from: '2025-01-01T00:00:00Z' });
+    });
+  });
+
+  describe('Response Schema', () => {
+    it('should validate valid API response', () => {
+      const result = GetBlockRewardsResponseSchema.safeParse(mockApiResponse);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject negative confirmations', () => {
+      const result = GetBlockRewardsResponseSchema.safeParse({
+        currency: 'BTC',
+        block_rewards: [{ ...mockApiResponse.block_rewards[0], confirmations_left: -1 }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should return reward breakdown, scoring share and maturity', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getBlockRewardsTool } = await import('../../../src/tools/getBlockRewards.js');
+
+      const mockClient = {
+        getBlockRewards: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getBlockRewardsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('Block Rewards (BTC)');
+      expect(text).toContain('**Blocks**: 2 (#880,000 → #880,100)');
+      expect(text).toContain('| Mining | 0.00100000 BTC | 83.33% |');
+      expect(text).toContain('| Braiins OS+ Bonus | 0.00012000 BTC | 10.00% |');
+      expect(text).toContain('| **Total** | **0.00120000 BTC** | 100% |');
+      expect(text).toContain('| Immature Rewards | 0.00030000 BTC (1 blocks) |');
+      expect(text).toContain('| Matured Rewards | 0.00090000 BTC (1 blocks) |');
+      expect(text).toContain('| Avg Scoring Hashrate Share | 0.02% |');
+      expect(text).toContain('1.00 PH/s of 10.00 EH/s');
+      expect(text).toContain('⏳ 60 left');
+      expect(text).toContain('✅ mature');
+    });
+
+    it('should list only immature rewards when requested', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getBlockRewardsTool } = await import('../../../src/tools/getBlockRewards.js');
+
+      const mockClient = {
+        getBlockRewards: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getBlockRewardsTool.handler({ immatureOnly: true });
+
+      expect(mockClient.getBlockRewards).toHaveBeenCalledWith({});
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Blocks**: 1');
+      expect(text).not.toContain('✅ mature');
+    });
+
+    it('should handle empty block rewards', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getBlockRewardsTool } = await import('../../../src/tools/getBlockRewards.js');
+
+      const mockClient = {
+        getBlockRewards: vi.fn().mockResolvedValue({ currency: 'BTC', block_rewards: [] }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getBlockRewardsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('No block rewards found');
+    });
+
+    it('should return error on API failure', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getBlockRewardsTool } = await import('../../../src/tools/getBlockRewards.js');
+      const { NetworkError } = await import('../../../src/utils/errors.js');
+
+      const mockClient = {
+        getBlockRewards: vi.fn().mockRejectedValue(new NetworkError('Connection refused')),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getBlockRewardsTool.handler({});
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('NETWORK_ERROR');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and no required params', async () => {
+      const { getBlockRewardsTool } = await import('../../../src/tools/getBlockRewards.js');
+      expect(getBlockRewardsTool.name).toBe('getBlockRewards');
+      expect(getBlockRewardsTool.inputSchema.required).toEqual([]);
+      expect(getBlockRewardsTool.inputSchema.properties).toHaveProperty('immatureOnly');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for getDailyHashrate tool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GetDailyHashrateInputSchema } from '../../../src/schemas/getDailyHashrateInput.js';
+import { GetDailyHashrateResponseSchema } from '../../../src/schemas/getDailyHashrateResponse.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('getDailyHashrate', () => {
+  // Sample valid API response (oldest first)
+  const mockApiResponse = {
+    scope: 'user',
+    points: [
+      { timestamp: '2025-01-01T00:00:00Z', hashrate_24h: 100e12, total_shares: 1000000 },
+      { timestamp: '2025-01-02T00:00:00Z', hashrate_24h: 120e12, total_shares: 1200000 },
+      { timestamp: '2025-01-03T00:00:00Z', hashrate_24h: 110e12, total_shares: 1100000 },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should default to user scope and 30 days', () => {
+      const result = GetDailyHashrateInputSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.scope).toBe('user');
+        expect(result.data.days).toBe(30);
+      }
+    });
+
+    it('should reject invalid scope', () => {
+      const result = GetDailyHashrateInputSchema.safeParse({ scope: 'pool' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject days outside 1-365', () => {
+      expect(GetDailyHashrateInputSchema.safeParse({ days: 0 }).success).toBe(false);
+      expect(GetDailyHashrateInputSchema.safeParse({ days: 366 }).success).toBe(false);
+    });
+  });
+
+  describe('Response Schema', () => {
+    it('should validate valid API response', () => {
+      const result = GetDailyHashrateResponseSchema.safeParse(mockApiResponse);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject negative hashrate', () => {
+      const result = GetDailyHashrateResponseSchema.safeParse({
+        ...mockApiResponse,
+        points: [{ ...mockApiResponse.points[0], hashrate_24h: -1 }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should return statistics, trend and daily breakdown', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getDailyHashrateTool } = await import('../../../src/tools/getDailyHashrate.js');
+
+      const mockClient = {
+        getDailyHashrate: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getDailyHashrateTool.handler({});
+
+      expect(mockClient.getDailyHashrate).toHaveBeenCalledWith('user');
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('Daily Hashrate: Account');
+      expect(text).toContain('**Days**: 3');
+      expect(text).toContain('| Average | 110.00 TH/s |');
+      expect(text).toContain('| Maximum | 120.00 TH/s |');
+      expect(text).toContain('| Change (first → latest) | +10.0% |');
+      expect(text).toContain('| Total Shares | 3,300,000 |');
+      expect(text).toContain('Trend');
+      expect(text).toContain('| Jan 2, 2025 | 120.00 TH/s | 1,200,000 |');
+    });
+
+    it('should request group data and trim to the requested days', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getDailyHashrateTool } = await import('../../../src/tools/getDailyHashrate.js');
+
+      const mockClient = {
+        getDailyHashrate: vi.fn().mockResolvedValue({ ...mockApiResponse, scope: 'group' }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getDailyHashrateTool.handler({ scope: 'group', days: 2 });
+
+      expect(mockClient.getDailyHashrate).toHaveBeenCalledWith('group');
+      const text = String(result.content[0].text);
+      expect(text).toContain('Daily Hashrate: User Group');
+      expect(text).toContain('**Days**: 2');
+      expect(text).not.toContain('Jan 1, 2025');
+    });
+
+    it('should handle empty data', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getDailyHashrateTool } = await import('../../../src/tools/getDailyHashrate.js');
+
+      const mockClient = {
+        getDailyHashrate: vi.fn().mockResolvedValue({ scope: 'user', points: [] }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getDailyHashrateTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('No daily hashrate data available');
+    });
+
+    it('should return error on API failure', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getDailyHashrateTool } = await import('../../../src/tools/getDailyHashrate.js');
+      const { NetworkError } = await import('../../../src/utils/errors.js');
+
+      const mockClient = {
+        getDailyHashrate: vi.fn().mockRejectedValue(new NetworkError('Connection refused')),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getDailyHashrateTool.handler({});
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('NETWORK_ERROR');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and no required params', async () => {
+      const { getDailyHashrateTool } = await import('../../../src/tools/getDailyHashrate.js');
+      expect(getDailyHashrateTool.name).toBe('getDailyHashrate');
+      expect(getDailyHashrateTool.inputSchema.required).toEqual([]);
+      expect(getDailyHashrateTool.inputSchema.properties).toHaveProperty('scope');
+      expect(getDailyHashrateTool.inputSchema.properties).toHaveProperty('days');
+    });
+  });
+});
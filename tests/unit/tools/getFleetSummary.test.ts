@@ -0,0 +1,273 @@
+/**
+ * Unit tests for getFleetSummary tool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GetFleetSummaryInputSchema } from '../../../src/schemas/getFleetSummaryInput.js';
+import type { Account } from '../../../src/config/accounts.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('getFleetSummary', () => {
+  function account(name: string): Account {
+    return {
+      name,
+      apiToken: `${name}-token`,
+      apiMode: 'rest',
+      apiBaseUrl: 'https://pool.braiins.com/api/v1',
+      nativeApiBaseUrl: 'https://pool.braiins.com',
+    };
+  }
+
+  function overview(
+    username: string,
+    hashrate: number,
+    confirmed: string,
+    extra: { today?: string; states?: boolean } = {}
+  ): Record<string, unknown> {
+    return {
+      username,
+      currency: 'BTC',
+      hashrate: { current: hashrate, avg_1h: hashrate, avg_24h: hashrate },
+      rewards: {
+        confirmed,
+        unconfirmed: '0.00010000',
+        last_payout: '0.01000000',
+        last_payout_at: null,
+        ...(extra.today !== undefined && { today_reward: extra.today }),
+      },
+      workers: {
+        active: 9,
+        inactive: 1,
+        total: 10,
+        ...(extra.states === true && { ok: 8, low: 1, off: 1, dis: 0 }),
+      },
+      updated_at: '2025-01-05T12:00:00Z',
+    };
+  }
+
+  async function setup(
+    names: string[],
+    responses: Record<string, () => Promise<unknown>>
+  ): Promise<ReturnType<typeof vi.fn>> {
+    const { AccountRegistry, getAccountRegistry } = await import('../../../src/config/accounts.js');
+    const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+
+    vi.mocked(getAccountRegistry).mockReturnValue(new AccountRegistry(names.map(account)));
+    const mockGetClient = vi.mocked(getCachedBraiinsClient);
+    mockGetClient.mockImplementation(
+      (name?: string) => ({ getUserOverview: vi.fn(responses[name ?? names[0]]) }) as never
+    );
+    return mockGetClient as unknown as ReturnType<typeof vi.fn>;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should accept empty object', () => {
+      expect(GetFleetSummaryInputSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('should reject an empty account list', () => {
+      expect(GetFleetSummaryInputSchema.safeParse({ accounts: [] }).success).toBe(false);
+    });
+
+    it('should reject invalid account names', () => {
+      expect(GetFleetSummaryInputSchema.safeParse({ accounts: ['Site A'] }).success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should aggregate all accounts with per-account shares', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      const getClient = await setup(['site-a', 'site-b'], {
+        'site-a': () =>
+          Promise.resolve(
+            overview('alice', 300e12, '0.10000000', { today: '0.00100000', states: true })
+          ),
+        'site-b': () =>
+          Promise.resolve(
+            overview('bob', 100e12, '0.20000000', { today: '0.00050000', states: true })
+          ),
+      });
+
+      const result = await getFleetSummaryTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      expect(getClient).toHaveBeenCalledWith('site-a');
+      expect(getClient).toHaveBeenCalledWith('site-b');
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Accounts**: 2 of 2 responded');
+      expect(text).toContain('| Hashrate (24h avg) | 400.00 TH/s |');
+      expect(text).toContain('| Workers | 18 active / 2 inactive / 20 total |');
+      expect(text).toContain('🟢 16 OK · 🟡 2 Low · 🔴 2 Off · ⚫ 0 Disabled');
+      expect(text).toContain('| Confirmed Balance | 0.30000000 BTC |');
+      expect(text).toContain('| Unconfirmed Balance | 0.00020000 BTC |');
+      expect(text).toContain("| Today's Rewards | 0.00150000 BTC |");
+      expect(text).toContain('| site-a | alice | 300.00 TH/s | 75.0% | 9/10 |');
+      expect(text).toContain('| site-b | bob | 100.00 TH/s | 25.0% | 9/10 |');
+      expect(text).not.toContain('Failed Accounts');
+    });
+
+    it('should report failed accounts and total only those that responded', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      const { NetworkError, RateLimitError } = await import('../../../src/utils/errors.js');
+      await setup(['site-a', 'site-b', 'site-c'], {
+        'site-a': () => Promise.resolve(overview('alice', 200e12, '0.10000000')),
+        'site-b': () => Promise.reject(new NetworkError('Cannot connect to Braiins API')),
+        'site-c': () => Promise.reject(new RateLimitError('Rate limiter queue is full')),
+      });
+
+      const result = await getFleetSummaryTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Accounts**: 1 of 3 responded');
+      expect(text).toContain('| Hashrate (24h avg) | 200.00 TH/s |');
+      expect(text).toContain('| site-b | NETWORK_ERROR | Cannot connect to Braiins API |');
+      expect(text).toContain('| site-c | RATE_LIMITED | Rate limiter queue is full |');
+      expect(text).toContain('Some accounts were rate limited');
+      expect(text).toContain('*Totals only include accounts that responded.*');
+      expect(text).not.toContain('Worker States');
+      expect(text).not.toContain("Today's Rewards");
+    });
+
+    it('should return structured totals, accounts and failures', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      const { GetFleetSummaryOutputSchema } =
+        await import('../../../src/schemas/getFleetSummaryOutput.js');
+      const { NetworkError } = await import('../../../src/utils/errors.js');
+      await setup(['site-a', 'site-b', 'site-c'], {
+        'site-a': () =>
+          Promise.resolve(
+            overview('alice', 300e12, '0.10000000', { today: '0.00100000', states: true })
+          ),
+        'site-b': () => Promise.resolve(overview('bob', 100e12, '0.20000000')),
+        'site-c': () => Promise.reject(new NetworkError('Cannot connect to Braiins API')),
+      });
+
+      const result = await getFleetSummaryTool.handler({});
+
+      expect(GetFleetSummaryOutputSchema.safeParse(result.structuredContent).success).toBe(true);
+      expect(result.structuredContent).toMatchObject({
+        accounts_requested: 3,
+        accounts_responded: 2,
+        totals: {
+          hashrate: { avg_24h: 400e12 },
+          workers_total: 20,
+          worker_states: { ok: 8, low: 1, off: 1, dis: 0 },
+          worker_states_missing: ['site-b'],
+          confirmed: 0.3,
+          today_reward: 0.001,
+          today_reward_missing: ['site-b'],
+        },
+        accounts: [
+          { account: 'site-a', username: 'alice', share: 0.75, today_reward: 0.001 },
+          { account: 'site-b', username: 'bob', share: 0.25, today_reward: null },
+        ],
+        failures: [
+          { account: 'site-c', code: 'NETWORK_ERROR', message: 'Cannot connect to Braiins API' },
+        ],
+      });
+    });
+
+    it('should treat malformed responses as failures', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      await setup(['site-a', 'site-b'], {
+        'site-a': () => Promise.resolve(overview('alice', 200e12, '0.10000000')),
+        'site-b': () => Promise.resolve({ unexpected: true }),
+      });
+
+      const result = await getFleetSummaryTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Accounts**: 1 of 2 responded');
+      expect(text).toContain('| site-b | API_ERROR | Unexpected user overview response format |');
+    });
+
+    it('should only query the requested accounts', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      const getClient = await setup(['site-a', 'site-b'], {
+        'site-b': () => Promise.resolve(overview('bob', 100e12, '0.20000000')),
+      });
+
+      const result = await getFleetSummaryTool.handler({ accounts: ['site-b', 'site-b'] });
+
+      expect(getClient).toHaveBeenCalledTimes(1);
+      expect(getClient).toHaveBeenCalledWith('site-b');
+      expect(String(result.content[0].text)).toContain('**Accounts**: 1 of 1 responded');
+    });
+
+    it('should return error when every account fails', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      const { BraiinsApiError, ErrorCode } = await import('../../../src/utils/errors.js');
+      await setup(['site-a'], {
+        'site-a': () =>
+          Promise.reject(new BraiinsApiError('Unauthorized', ErrorCode.UNAUTHORIZED, 401)),
+      });
+
+      const result = await getFleetSummaryTool.handler({});
+
+      expect(result.isError).toBe(true);
+      expect(String(result.content[0].text)).toContain('| site-a | UNAUTHORIZED | Unauthorized |');
+    });
+
+    it('should return validation error for unknown accounts', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      const getClient = await setup(['site-a'], {});
+
+      const result = await getFleetSummaryTool.handler({ accounts: ['site-z'] });
+
+      expect(result.isError).toBe(true);
+      expect(getClient).not.toHaveBeenCalled();
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return validation error for invalid input', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+
+      const result = await getFleetSummaryTool.handler({ accounts: 'site-a' });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and optional accounts', async () => {
+      const { getFleetSummaryTool } = await import('../../../src/tools/getFleetSummary.js');
+      expect(getFleetSummaryTool.name).toBe('getFleetSummary');
+      expect(getFleetSummaryTool.inputSchema.properties).toHaveProperty('accounts');
+      expect(getFleetSummaryTool.inputSchema.required).toEqual([]);
+    });
+  });
+});
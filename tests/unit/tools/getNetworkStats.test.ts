@@ -404,7 +404,7 @@ describe('getNetworkStats', () => {
       expect(errorData.code).toBe('RATE_LIMITED');
     });
 
-    it('should return raw data on validation failure', async () => {
+    it('should return an API error on validation failure', async () => {
       const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
       const { getNetworkStatsTool } = await import('../../../src/tools/getNetworkStats.js');
 
@@ -422,10 +422,14 @@ describe('getNetworkStats', () => {
 
       const result = await getNetworkStatsTool.handler({});
 
-      // Should return raw data, not error
-      expect(result.isError).toBeUndefined();
-      const responseText = result.content[0].text;
-      expect(responseText).toContain('not a number');
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      const errorData = JSON.parse(String(result.content[0].text)) as {
+        code: string;
+        message: string;
+      };
+      expect(errorData.code).toBe('API_ERROR');
+      expect(errorData.message).toBe('Unexpected network stats response format');
     });
 
     it('should reject extra input parameters', async () => {
@@ -460,9 +464,12 @@ describe('getNetworkStats', () => {
       expect(getNetworkStatsTool.inputSchema.required).toEqual([]);
     });
 
-    it('should have empty properties in input schema', async () => {
+    it('should only accept the account and format properties', async () => {
       const { getNetworkStatsTool } = await import('../../../src/tools/getNetworkStats.js');
-      expect(getNetworkStatsTool.inputSchema.properties).toEqual({});
+      expect(Object.keys(getNetworkStatsTool.inputSchema.properties ?? {})).toEqual([
+        'account',
+        'format',
+      ]);
     });
 
     it('should have handler function', async () => {
@@ -0,0 +1,296 @@
+/**
+ * Unit tests for getPayouts tool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GetPayoutsInputSchema, toApiParams } from '../../../src/schemas/getPayoutsInput.js';
+import { GetPayoutsResponseSchema } from '../../../src/schemas/getPayoutsResponse.js';
+
+// Mock the cachedBraiinsClient module
+vi.mock('../../../src/api/cachedBraiinsClient.js', () => ({
+  getCachedBraiinsClient: vi.fn(),
+  resetCachedBraiinsClient: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('getPayouts', () => {
+  // Sample valid API response (newest first)
+  const mockApiResponse = {
+    currency: 'BTC',
+    payouts: [
+      {
+        type: 'lightning',
+        status: 'queued',
+        amount_sats: 50000,
+        fee_sats: 10,
+        destination: 'lnbc500u1pjexampleinvoicestringthatislong',
+        tx_id: null,
+        invoice: 'lnbc500u1pjexampleinvoicestringthatislong',
+        requested_at: '2025-01-05T10:00:00Z',
+        resolved_at: null,
+        trigger_type: 'manual',
+      },
+      {
+        type: 'onchain',
+        status: 'confirmed',
+        amount_sats: 1000000,
+        fee_sats: 500,
+        destination: 'bc1qexampleaddress0000000000000000000000',
+        tx_id: 'a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90',
+        invoice: null,
+        requested_at: '2025-01-03T08:00:00Z',
+        resolved_at: '2025-01-03T09:00:00Z',
+        trigger_type: 'triggered',
+      },
+      {
+        type: 'onchain',
+        status: 'failed',
+        amount_sats: 200000,
+        fee_sats: 0,
+        destination: 'bc1qexampleaddress0000000000000000000000',
+        tx_id: null,
+        invoice: null,
+        requested_at: '2025-01-01T08:00:00Z',
+        resolved_at: '2025-01-01T08:30:00Z',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should accept empty object with default filters', () => {
+      const result = GetPayoutsInputSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.status).toBe('all');
+        expect(result.data.type).toBe('all');
+      }
+    });
+
+    it('should accept valid time range and filters', () => {
+      const result = GetPayoutsInputSchema.safeParse({
+        from: '2025-01-01T00:00:00Z',
+        to: '2025-01-10T00:00:00Z',
+        status: 'confirmed',
+        type: 'lightning',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject invalid status', () => {
+      const result = GetPayoutsInputSchema.safeParse({ status: 'pending' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject account names that are not key-safe', () => {
+      const result = GetPayoutsInputSchema.safeParse({ account: 'Site A' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject when from is after to', () => {
+      const result = GetPayoutsInputSchema.safeParse({
+        from: '2025-01-10T00:00:00Z',
+        to: '2025-01-01T00:00:00Z',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('toApiParams', () => {
+    it('should only send the date range to the API', () => {
+      const input = GetPayoutsInputSchema.parse({
+        from: '2025-01-01T00:00:00Z',
+        to: '2025-01-10T00:00:00Z',
+        status: 'failed',
+      });
+      expect(toApiParams(input)).toEqual({
+        from: '2025-01-01T00:00:00Z',
+        to: '2025-01-10T00:00:00Z',
+      });
+    });
+
+    it('should return empty object for empty input', () => {
+      expect(toApiParams(GetPayoutsInputSchema.parse({}))).toEqual({});
+    });
+  });
+
+  describe('Response Schema', () => {
+    it('should validate valid API response', () => {
+      const result = GetPayoutsResponseSchema.safeParse(mockApiResponse);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown payout status', () => {
+      const result = GetPayoutsResponseSchema.safeParse({
+        currency: 'BTC',
+        payouts: [{ ...mockApiResponse.payouts[0], status: 'pending' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject fractional satoshi amounts', () => {
+      const result = GetPayoutsResponseSchema.safeParse({
+        currency: 'BTC',
+        payouts: [{ ...mockApiResponse.payouts[0], amount_sats: 1.5 }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should return formatted response with summary totals', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+
+      const mockClient = {
+        getPayouts: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPayoutsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('Payouts (BTC)');
+      expect(text).toContain('**Payouts**: 3');
+      expect(text).toContain('Summary');
+      expect(text).toContain('0.01250000 BTC (1,250,000 sats)');
+      expect(text).toContain('| Total Fees | 0.00000510 BTC (510 sats) |');
+      expect(text).toContain('| Confirmed | 1 (0.01000000 BTC (1,000,000 sats)) |');
+      expect(text).toContain('⚡ Lightning');
+      expect(text).toContain('❌ failed');
+      expect(text).toContain('a1b2c3d4…6d7e8f90');
+    });
+
+    it('should apply status and type filters locally', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+
+      const mockClient = {
+        getPayouts: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPayoutsTool.handler({ status: 'confirmed', type: 'onchain' });
+
+      expect(mockClient.getPayouts).toHaveBeenCalledWith({});
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Payouts**: 1');
+      expect(text).not.toContain('Lightning');
+    });
+
+    it('should query the requested account', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+
+      const mockClient = {
+        getPayouts: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      await getPayoutsTool.handler({ account: 'site-a' });
+
+      expect(getCachedBraiinsClient).toHaveBeenCalledWith('site-a');
+      expect(mockClient.getPayouts).toHaveBeenCalledWith({});
+    });
+
+    it('should return error for an unknown account', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+      const { ValidationError } = await import('../../../src/utils/errors.js');
+
+      vi.mocked(getCachedBraiinsClient).mockImplementation(() => {
+        throw new ValidationError('Unknown account: site-z', { availableAccounts: ['site-a'] });
+      });
+
+      const result = await getPayoutsTool.handler({ account: 'site-z' });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as {
+        code: string;
+        details: { availableAccounts: string[] };
+      };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+      expect(errorData.details.availableAccounts).toEqual(['site-a']);
+    });
+
+    it('should handle empty payouts', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+
+      const mockClient = {
+        getPayouts: vi.fn().mockResolvedValue({ currency: 'BTC', payouts: [] }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPayoutsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('No payouts found');
+    });
+
+    it('should return validation error for invalid input', async () => {
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+
+      const result = await getPayoutsTool.handler({ type: 'wire' });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return error on API failure', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+      const { BraiinsApiError, ErrorCode } = await import('../../../src/utils/errors.js');
+
+      const mockClient = {
+        getPayouts: vi
+          .fn()
+          .mockRejectedValue(new BraiinsApiError('Unauthorized', ErrorCode.UNAUTHORIZED, 401)),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPayoutsTool.handler({});
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('UNAUTHORIZED');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and no required params', async () => {
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+      expect(getPayoutsTool.name).toBe('getPayouts');
+      expect(getPayoutsTool.inputSchema.required).toEqual([]);
+    });
+
+    it('should define all input properties', async () => {
+      const { getPayoutsTool } = await import('../../../src/tools/getPayouts.js');
+      const props = getPayoutsTool.inputSchema.properties;
+      expect(props).toHaveProperty('from');
+      expect(props).toHaveProperty('to');
+      expect(props).toHaveProperty('status');
+      expect(props).toHaveProperty('type');
+      expect(props).toHaveProperty('account');
+    });
+  });
+});
@@ -307,6 +307,28 @@ describe('getPoolStats', () => {
       expect(text).toContain('3.125 BTC'); // reward
     });
 
+    it('should show active workers and luck as unavailable when not reported', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
+
+      const mockClient = {
+        getPoolStats: vi.fn().mockResolvedValue({
+          ...mockApiResponse,
+          workers_active: null,
+          luck: null,
+        }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPoolStatsTool.handler({});
+      const text = result.content[0].text;
+
+      expect(result.isError).toBeUndefined();
+      expect(text).toContain('| Active Workers | unavailable |');
+      expect(text).toContain('| Luck | unavailable |');
+      expect(result.structuredContent).toMatchObject({ workers_active: null, luck: null });
+    });
+
     it('should format luck as lucky when value >= 1.0', async () => {
       const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
       const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
@@ -486,7 +508,7 @@ describe('getPoolStats', () => {
       expect(errorData.code).toBe('RATE_LIMITED');
     });
 
-    it('should return raw data on validation failure', async () => {
+    it('should return an API error on validation failure', async () => {
       const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
       const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
 
@@ -504,10 +526,14 @@ describe('getPoolStats', () => {
 
       const result = await getPoolStatsTool.handler({});
 
-      // Should return raw data, not error
-      expect(result.isError).toBeUndefined();
-      const responseText = result.content[0].text;
-      expect(responseText).toContain('not a number');
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      const errorData = JSON.parse(String(result.content[0].text)) as {
+        code: string;
+        message: string;
+      };
+      expect(errorData.code).toBe('API_ERROR');
+      expect(errorData.message).toBe('Unexpected pool stats response format');
     });
 
     it('should reject extra input parameters', async () => {
@@ -524,6 +550,105 @@ describe('getPoolStats', () => {
     });
   });
 
+  describe('Recent Blocks', () => {
+    // Scoring hashrate at which the expected round at difficulty 1e14 is 600s
+    const scoringHashrate = (1e14 * 2 ** 32) / 600;
+    const recentBlocks = [
+      {
+        height: 875432,
+        found_at: '2025-01-10T08:15:30Z',
+        mining_duration: 600,
+        total_shares: 1000,
+        state: 'new',
+        confirmations_left: 90,
+        value: '3.15000000',
+        user_reward: '0.00010000',
+        pool_scoring_hashrate: scoringHashrate,
+      },
+      {
+        height: 875400,
+        found_at: '2025-01-10T07:55:30Z',
+        mining_duration: 1200,
+        total_shares: 2000,
+        state: 'confirmed',
+        confirmations_left: 0,
+        value: '3.14000000',
+        user_reward: '0.00000000',
+        pool_scoring_hashrate: scoringHashrate,
+      },
+    ];
+
+    it('should validate response with recent blocks', () => {
+      const result = GetPoolStatsResponseSchema.safeParse({
+        ...mockApiResponse,
+        recent_blocks: recentBlocks,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should derive per-block luck from network difficulty', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
+
+      const mockClient = {
+        getPoolStats: vi
+          .fn()
+          .mockResolvedValue({ ...mockApiResponse, recent_blocks: recentBlocks }),
+        getNetworkStats: vi.fn().mockResolvedValue({ difficulty: 1e14 }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPoolStatsTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('Recent Blocks (2)');
+      expect(text).toContain('| 10m | 100% | 1,000 | new (90 left) | 3.15000000 | 0.00010000 |');
+      expect(text).toContain('| 20m | 50% | 2,000 | confirmed | 3.14000000 | 0.00000000 |');
+      expect(text).toContain('**Luck over these blocks**: ⚠️ 66.7% (Very Unlucky)');
+      expect(text).toContain('**Your reward**: 0.00010000 BTC from 1 of 2 blocks');
+    });
+
+    it('should fall back to window-relative luck without difficulty', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
+      const { BraiinsApiError, ErrorCode } = await import('../../../src/utils/errors.js');
+
+      const mockClient = {
+        getPoolStats: vi
+          .fn()
+          .mockResolvedValue({ ...mockApiResponse, recent_blocks: recentBlocks }),
+        getNetworkStats: vi
+          .fn()
+          .mockRejectedValue(new BraiinsApiError('Not available', ErrorCode.NOT_FOUND, 404)),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPoolStatsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('| 10m | 150% |');
+      expect(text).toContain('| 20m | 75% |');
+      expect(text).toContain('relative to the average round');
+    });
+
+    it('should not fetch network stats when no blocks are reported', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
+
+      const mockClient = {
+        getPoolStats: vi.fn().mockResolvedValue(mockApiResponse),
+        getNetworkStats: vi.fn(),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getPoolStatsTool.handler({});
+
+      expect(mockClient.getNetworkStats).not.toHaveBeenCalled();
+      expect(String(result.content[0].text)).not.toContain('Recent Blocks');
+    });
+  });
+
   describe('Tool Definition', () => {
     it('should have correct name', async () => {
       const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
@@ -542,9 +667,12 @@ describe('getPoolStats', () => {
       expect(getPoolStatsTool.inputSchema.required).toEqual([]);
     });
 
-    it('should have empty properties in input schema', async () => {
+    it('should only accept the account and format properties', async () => {
       const { getPoolStatsTool } = await import('../../../src/tools/getPoolStats.js');
-      expect(getPoolStatsTool.inputSchema.properties).toEqual({});
+      expect(Object.keys(getPoolStatsTool.inputSchema.properties ?? {})).toEqual([
+        'account',
+        'format',
+      ]);
     });
 
     it('should have handler function', async () => {
@@ -641,5 +769,64 @@ describe('getPoolStats', () => {
 
       expect(text).toContain('3d ago');
     });
+
+    it('should note stale cache data when called through the registry', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { recordStaleRead } = await import('../../../src/cache/staleReads.js');
+      const { handleToolCall } = await import('../../../src/tools/index.js');
+
+      const mockClient = {
+        getPoolStats: vi.fn().mockImplementation(() => {
+          recordStaleRead({
+            account: 'default',
+            resourceType: 'pool-stats',
+            cachedAt: Date.parse('2025-01-10T12:00:00Z'),
+            ageSeconds: 300,
+            revalidationError: null,
+          });
+          return Promise.resolve(mockApiResponse);
+        }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await handleToolCall('getPoolStats', {});
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content).toHaveLength(2);
+      expect(result.content[1].text).toContain(
+        '- default pool-stats: 5m old (refreshing in the background)'
+      );
+      expect(result._meta).toMatchObject({
+        stale_data: [{ resource_type: 'pool-stats', age_seconds: 300 }],
+      });
+    });
+
+    it('should note stale cache data only in _meta for the json format', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { recordStaleRead } = await import('../../../src/cache/staleReads.js');
+      const { handleToolCall } = await import('../../../src/tools/index.js');
+
+      const mockClient = {
+        getPoolStats: vi.fn().mockImplementation(() => {
+          recordStaleRead({
+            account: 'default',
+            resourceType: 'pool-stats',
+            cachedAt: Date.parse('2025-01-10T12:00:00Z'),
+            ageSeconds: 300,
+            revalidationError: null,
+          });
+          return Promise.resolve(mockApiResponse);
+        }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await handleToolCall('getPoolStats', { format: 'json' });
+
+      expect(result.content).toHaveLength(1);
+      expect(JSON.parse(String(result.content[0].text))).toEqual(result.structuredContent);
+      expect(result._meta).toMatchObject({
+        stale_data: [{ resource_type: 'pool-stats', age_seconds: 300 }],
+      });
+    });
   });
 });
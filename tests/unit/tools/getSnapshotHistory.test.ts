@@ -0,0 +1,225 @@
+/**
+ * Unit tests for getSnapshotHistory tool
+ *
+ * Reads from an in-memory history store.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GetSnapshotHistoryInputSchema } from '../../../src/schemas/getSnapshotHistoryInput.js';
+import { HistoryStore } from '../../../src/history/historyStore.js';
+import type { GetUserOverviewResponse } from '../../../src/schemas/getUserOverviewResponse.js';
+import type { GetNetworkStatsResponse } from '../../../src/schemas/getNetworkStatsResponse.js';
+
+// Mock the history store singleton
+vi.mock('../../../src/history/historyStore.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/history/historyStore.js')>()),
+  getHistoryStore: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+    historyRetentionDays: 365,
+    historyWorkerRetentionDays: 30,
+  },
+}));
+
+describe('getSnapshotHistory', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const NOW = Date.parse('2025-06-01T00:00:00Z');
+
+  const overview: GetUserOverviewResponse = {
+    username: 'alice',
+    currency: 'BTC',
+    hashrate: { current: 300e12, avg_1h: 290e12, avg_24h: 280e12 },
+    rewards: {
+      confirmed: '0.12345678',
+      unconfirmed: '0.00010000',
+      last_payout: '0.01000000',
+      last_payout_at: null,
+      today_reward: '0.00050000',
+    },
+    workers: { active: 9, inactive: 1, total: 10 },
+    updated_at: '2025-06-01T00:00:00Z',
+  };
+
+  let store: HistoryStore;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    store = new HistoryStore(':memory:');
+    const { getHistoryStore } = await import('../../../src/history/historyStore.js');
+    vi.mocked(getHistoryStore).mockReturnValue(store);
+  });
+
+  afterEach(() => {
+    store.close();
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should require a metric', () => {
+      expect(GetSnapshotHistoryInputSchema.safeParse({}).success).toBe(false);
+    });
+
+    it('should require workerId for the worker metric', () => {
+      expect(GetSnapshotHistoryInputSchema.safeParse({ metric: 'worker' }).success).toBe(false);
+      expect(
+        GetSnapshotHistoryInputSchema.safeParse({ metric: 'worker', workerId: 'rig-01' }).success
+      ).toBe(true);
+    });
+
+    it('should reject from after to', () => {
+      const result = GetSnapshotHistoryInputSchema.safeParse({
+        metric: 'pool',
+        from: '2025-06-02T00:00:00Z',
+        to: '2025-06-01T00:00:00Z',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should default limit to 500', () => {
+      const result = GetSnapshotHistoryInputSchema.safeParse({ metric: 'network' });
+      expect(result.success && result.data.limit).toBe(500);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should return overview snapshots of the default account', async () => {
+      const { getSnapshotHistoryTool } = await import('../../../src/tools/getSnapshotHistory.js');
+      store.recordOverview('default', overview, NOW - 2 * HOUR_MS);
+      store.recordOverview('default', overview, NOW - HOUR_MS);
+      store.recordOverview('other', overview, NOW - HOUR_MS);
+
+      const result = await getSnapshotHistoryTool.handler({
+        metric: 'overview',
+        from: '2025-05-31T00:00:00Z',
+        to: '2025-06-01T00:00:00Z',
+      });
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('## Snapshot History: Overview (default)');
+      expect(text).toContain('**Snapshots**: 2');
+      expect(text).toContain('| Latest | 290.00 TH/s |');
+      expect(result.structuredContent).toMatchObject({
+        metric: 'overview',
+        account: 'default',
+        worker_id: null,
+        from: '2025-05-31T00:00:00.000Z',
+        to: '2025-06-01T00:00:00.000Z',
+        count: 2,
+        truncated: false,
+      });
+      const snapshots = (result.structuredContent as { snapshots: unknown[] }).snapshots;
+      expect(snapshots[1]).toMatchObject({
+        recorded_at: '2025-05-31T23:00:00.000Z',
+        confirmed: 0.12345678,
+        today_reward: 0.0005,
+        workers_ok: null,
+      });
+    });
+
+    it('should keep the newest snapshots when the range exceeds the limit', async () => {
+      const { getSnapshotHistoryTool } = await import('../../../src/tools/getSnapshotHistory.js');
+      const stats = {
+        difficulty: 90e12,
+        hashrate_estimate: 600e18,
+        block_time_avg: 590,
+      } as unknown as GetNetworkStatsResponse;
+      for (let i = 1; i <= 3; i++) {
+        store.recordNetworkStats(
+          { ...stats, hashrate_estimate: i * 100e18 },
+          NOW - (4 - i) * HOUR_MS
+        );
+      }
+
+      const result = await getSnapshotHistoryTool.handler({
+        metric: 'network',
+        to: '2025-06-01T00:00:00Z',
+        limit: 2,
+        format: 'json',
+      });
+
+      expect(result.structuredContent).toMatchObject({ account: null, count: 2, truncated: true });
+      const snapshots = (result.structuredContent as { snapshots: { hashrate_estimate: number }[] })
+        .snapshots;
+      expect(snapshots.map((s) => s.hashrate_estimate)).toEqual([200e18, 300e18]);
+    });
+
+    it('should return one worker history', async () => {
+      const { getSnapshotHistoryTool } = await import('../../../src/tools/getSnapshotHistory.js');
+      store.recordWorkers(
+        'default',
+        [
+          {
+            id: 'rig-01',
+            name: 'Rig 01',
+            status: 'off',
+            hashrate: { current: 0, avg_24h: 50e12 },
+            shares: { valid: 10, invalid: 0 },
+            last_share_at: null,
+          },
+        ],
+        NOW - HOUR_MS
+      );
+
+      const result = await getSnapshotHistoryTool.handler({
+        metric: 'worker',
+        workerId: 'rig-01',
+        to: '2025-06-01T00:00:00Z',
+      });
+
+      expect(String(result.content[0].text)).toContain('## Snapshot History: Worker (rig-01)');
+      expect(result.structuredContent).toMatchObject({
+        worker_id: 'rig-01',
+        snapshots: [{ status: 'off', last_share_at: null }],
+      });
+    });
+
+    it('should say so when there are no snapshots', async () => {
+      const { getSnapshotHistoryTool } = await import('../../../src/tools/getSnapshotHistory.js');
+
+      const result = await getSnapshotHistoryTool.handler({ metric: 'pool' });
+
+      expect(String(result.content[0].text)).toContain('*No snapshots recorded in this range.*');
+      expect(result.structuredContent).toMatchObject({ count: 0, snapshots: [] });
+    });
+
+    it('should return a config error when history is disabled', async () => {
+      const { getSnapshotHistoryTool } = await import('../../../src/tools/getSnapshotHistory.js');
+      const { getHistoryStore } = await import('../../../src/history/historyStore.js');
+      vi.mocked(getHistoryStore).mockReturnValue(undefined);
+
+      const result = await getSnapshotHistoryTool.handler({ metric: 'pool' });
+
+      expect(result.isError).toBe(true);
+      const parsed = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(parsed.code).toBe('CONFIG_ERROR');
+    });
+
+    it('should return a validation error for invalid input', async () => {
+      const { getSnapshotHistoryTool } = await import('../../../src/tools/getSnapshotHistory.js');
+
+      const result = await getSnapshotHistoryTool.handler({ metric: 'hashrate' });
+
+      expect(result.isError).toBe(true);
+      const parsed = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(parsed.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and required properties', async () => {
+      const { getSnapshotHistoryTool } = await import('../../../src/tools/getSnapshotHistory.js');
+      expect(getSnapshotHistoryTool.name).toBe('getSnapshotHistory');
+      expect(getSnapshotHistoryTool.inputSchema.required).toEqual(['metric']);
+      expect(getSnapshotHistoryTool.outputSchema.type).toBe('object');
+    });
+  });
+});
@@ -181,6 +181,93 @@ describe('getUserOverview', () => {
       expect(text).toContain('42'); // active workers
     });
 
+    it('should return structured content matching the output schema', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserOverviewTool } = await import('../../../src/tools/getUserOverview.js');
+      const { GetUserOverviewOutputSchema } =
+        await import('../../../src/schemas/getUserOverviewResponse.js');
+
+      const mockClient = {
+        getUserOverview: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserOverviewTool.handler({});
+
+      expect(GetUserOverviewOutputSchema.safeParse(result.structuredContent).success).toBe(true);
+      expect(result.structuredContent).toMatchObject({
+        username: 'test_user',
+        rewards: {
+          confirmed: 0.01234567,
+          unconfirmed: 0.00012345,
+          last_payout: 0.001,
+          last_payout_at: '2025-01-01T10:00:00.000Z',
+        },
+        updated_at: '2025-01-10T12:34:56.000Z',
+      });
+    });
+
+    it('should return only JSON text when format is json', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserOverviewTool } = await import('../../../src/tools/getUserOverview.js');
+
+      const mockClient = {
+        getUserOverview: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserOverviewTool.handler({ format: 'json' });
+
+      expect(result.content).toHaveLength(1);
+      expect(JSON.parse(String(result.content[0].text))).toEqual(result.structuredContent);
+    });
+
+    it('should return markdown and JSON text when format is both', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserOverviewTool } = await import('../../../src/tools/getUserOverview.js');
+
+      const mockClient = {
+        getUserOverview: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserOverviewTool.handler({ format: 'both' });
+
+      expect(result.content).toHaveLength(2);
+      expect(String(result.content[0].text)).toContain('test_user');
+      expect(JSON.parse(String(result.content[1].text))).toEqual(result.structuredContent);
+    });
+
+    it('should reject an unknown format', async () => {
+      const { getUserOverviewTool } = await import('../../../src/tools/getUserOverview.js');
+
+      const result = await getUserOverviewTool.handler({ format: 'csv' });
+
+      expect(result.isError).toBe(true);
+    });
+
+    it('should show the four-state worker breakdown when reported', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserOverviewTool } = await import('../../../src/tools/getUserOverview.js');
+
+      const mockClient = {
+        getUserOverview: vi.fn().mockResolvedValue({
+          ...mockApiResponse,
+          workers: { active: 10, inactive: 2, total: 13, ok: 7, low: 3, off: 2, dis: 1 },
+        }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserOverviewTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('**🟢 OK**: 7');
+      expect(text).toContain('**🟡 Low**: 3');
+      expect(text).toContain('**🔴 Off**: 2');
+      expect(text).toContain('**⚫ Disabled**: 1');
+      expect(text).toContain('3 workers are hashing below the alert threshold');
+    });
+
     it('should return error on API failure', async () => {
       const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
       const { getUserOverviewTool } = await import('../../../src/tools/getUserOverview.js');
@@ -242,5 +329,13 @@ describe('getUserOverview', () => {
       expect(getUserOverviewTool.inputSchema.type).toBe('object');
       expect(getUserOverviewTool.inputSchema.required).toEqual([]);
     });
+
+    it('should declare an object output schema', async () => {
+      const { getUserOverviewTool } = await import('../../../src/tools/getUserOverview.js');
+      expect(getUserOverviewTool.outputSchema.type).toBe('object');
+      expect(getUserOverviewTool.outputSchema.required).toEqual(
+        expect.arrayContaining(['username', 'hashrate', 'rewards', 'workers', 'updated_at'])
+      );
+    });
   });
 });
@@ -312,6 +312,62 @@ describe('getUserRewards', () => {
       expect(text).toContain('Recent Rewards');
     });
 
+    it('should break totals down by reward component', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserRewardsTool } = await import('../../../src/tools/getUserRewards.js');
+
+      const mockClient = {
+        getUserRewards: vi.fn().mockResolvedValue({
+          currency: 'BTC',
+          points: [
+            {
+              timestamp: '2025-01-01T00:00:00Z',
+              confirmed: '0.00100000',
+              unconfirmed: '0.00000000',
+              payout: '0.00000000',
+              mining_reward: '0.00090000',
+              bos_plus_reward: '0.00008000',
+              referral_bonus: '0.00002000',
+              referral_reward: '0.00000000',
+            },
+            {
+              timestamp: '2025-01-02T00:00:00Z',
+              confirmed: '0.00100000',
+              unconfirmed: '0.00000000',
+              payout: '0.00000000',
+              mining_reward: '0.00090000',
+              bos_plus_reward: '0.00008000',
+              referral_bonus: '0.00002000',
+              referral_reward: '0.00000000',
+            },
+          ],
+        }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserRewardsTool.handler({});
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('| Mining Reward | 0.00180000 BTC (90.00%) |');
+      expect(text).toContain('| Braiins OS+ Fee Refund | 0.00016000 BTC (8.00%) |');
+      expect(text).toContain('| Referral Bonus | 0.00004000 BTC (2.00%) |');
+      expect(text).toContain('| Referral Reward | 0 BTC (0.00%) |');
+    });
+
+    it('should omit component rows when the API does not break rewards out', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserRewardsTool } = await import('../../../src/tools/getUserRewards.js');
+
+      const mockClient = {
+        getUserRewards: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserRewardsTool.handler({});
+
+      expect(String(result.content[0].text)).not.toContain('Braiins OS+ Fee Refund');
+    });
+
     it('should pass time range params to API', async () => {
       const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
       const { getUserRewardsTool } = await import('../../../src/tools/getUserRewards.js');
@@ -414,6 +470,78 @@ describe('getUserRewards', () => {
     });
   });
 
+  describe('Export', () => {
+    it('should export every point as CSV', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserRewardsTool } = await import('../../../src/tools/getUserRewards.js');
+
+      const points = Array.from({ length: 30 }, (_, i) => ({
+        timestamp: new Date(Date.UTC(2025, 0, i + 1)).toISOString(),
+        confirmed: '0.00010000',
+        unconfirmed: '0.00000000',
+        payout: '0.00000000',
+      }));
+      const mockClient = {
+        getUserRewards: vi.fn().mockResolvedValue({ currency: 'BTC', points }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserRewardsTool.handler({
+        granularity: 'day',
+        export: { format: 'csv', columns: ['timestamp', 'confirmed', 'mining_reward'] },
+      });
+
+      expect(result.isError).toBeUndefined();
+      const resource = (
+        result.content[result.content.length - 1] as {
+          resource: { uri: string; mimeType: string; text: string };
+        }
+      ).resource;
+      expect(resource.mimeType).toBe('text/csv');
+      const lines = resource.text.trimEnd().split('\r\n');
+      expect(lines).toHaveLength(31);
+      expect(lines[0]).toBe('timestamp,confirmed,mining_reward');
+      expect(lines[1]).toBe('2025-01-01T00:00:00.000Z,0.0001,');
+      expect(String(result.content[0].text)).toContain('**Rows**: 30');
+      expect(String(result.content[0].text)).not.toContain('Showing last 10');
+    });
+
+    it('should export amounts in satoshis as NDJSON', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getUserRewardsTool } = await import('../../../src/tools/getUserRewards.js');
+
+      const mockClient = {
+        getUserRewards: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getUserRewardsTool.handler({
+        export: { format: 'ndjson', columns: ['confirmed', 'payout'], btcUnit: 'sats' },
+      });
+
+      const resource = (
+        result.content[result.content.length - 1] as {
+          resource: { mimeType: string; text: string };
+        }
+      ).resource;
+      expect(resource.mimeType).toBe('application/x-ndjson');
+      expect(resource.text.trimEnd().split('\n')).toEqual([
+        '{"confirmed":10000,"payout":0}',
+        '{"confirmed":12000,"payout":0}',
+        '{"confirmed":11500,"payout":100000}',
+      ]);
+      expect(String(result.content[0].text)).toContain('**Units**: BTC amounts in sats');
+    });
+
+    it('should reject an export without a file format', async () => {
+      const { getUserRewardsTool } = await import('../../../src/tools/getUserRewards.js');
+
+      const result = await getUserRewardsTool.handler({ export: { columns: ['timestamp'] } });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
   describe('Tool Definition', () => {
     it('should have correct name', async () => {
       const { getUserRewardsTool } = await import('../../../src/tools/getUserRewards.js');
@@ -437,6 +565,7 @@ describe('getUserRewards', () => {
       expect(props).toHaveProperty('from');
       expect(props).toHaveProperty('to');
       expect(props).toHaveProperty('granularity');
+      expect(props).toHaveProperty('export');
     });
 
     it('should define granularity enum with correct values', async () => {
@@ -305,6 +305,20 @@ describe('getWorkerDetails', () => {
       expect(text).not.toContain('Temperature');
     });
 
+    it('should flag workers in the low state', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getWorkerDetailsTool } = await import('../../../src/tools/getWorkerDetails.js');
+
+      const mockClient = {
+        getWorkerDetails: vi.fn().mockResolvedValue({ ...mockApiResponse, status: 'low' }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getWorkerDetailsTool.handler({ workerId: 'worker-001' });
+
+      expect(String(result.content[0].text)).toContain('🟡 Low (below alert threshold)');
+    });
+
     it('should return error for missing workerId', async () => {
       const { getWorkerDetailsTool } = await import('../../../src/tools/getWorkerDetails.js');
 
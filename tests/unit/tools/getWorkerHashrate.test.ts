@@ -404,6 +404,38 @@ describe('getWorkerHashrate', () => {
     });
   });
 
+  describe('Export', () => {
+    it('should export every point with hashrate in the requested unit', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { getWorkerHashrateTool } = await import('../../../src/tools/getWorkerHashrate.js');
+
+      const mockClient = {
+        getWorkerHashrate: vi.fn().mockResolvedValue(mockApiResponse),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await getWorkerHashrateTool.handler({
+        workerId: 'worker-001',
+        export: { format: 'csv', hashrateUnit: 'TH/s' },
+      });
+
+      expect(result.isError).toBeUndefined();
+      const resource = (
+        result.content[result.content.length - 1] as { resource: { uri: string; text: string } }
+      ).resource;
+      expect(resource.uri).toMatch(/^braiins:\/\/exports\/getWorkerHashrate-.+\.csv$/);
+      expect(resource.text.trimEnd().split('\r\n')).toEqual([
+        'timestamp,hashrate,worker_id',
+        '2025-01-10T12:00:00.000Z,100,worker-001',
+        '2025-01-10T13:00:00.000Z,105,worker-001',
+        '2025-01-10T14:00:00.000Z,98,worker-001',
+        '2025-01-10T15:00:00.000Z,110,worker-001',
+        '2025-01-10T16:00:00.000Z,108,worker-001',
+      ]);
+      expect(result.structuredContent).toMatchObject({ worker_id: 'worker-001' });
+    });
+  });
+
   describe('Tool Definition', () => {
     it('should have correct name', async () => {
       const { getWorkerHashrateTool } = await import('../../../src/tools/getWorkerHashrate.js');
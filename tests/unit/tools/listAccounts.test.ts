@@ -0,0 +1,145 @@
+/**
+ * Unit tests for listAccounts tool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ListAccountsInputSchema } from '../../../src/schemas/listAccountsInput.js';
+
+// Mock the account registry
+vi.mock('../../../src/config/accounts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/config/accounts.js')>()),
+  getAccountRegistry: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('listAccounts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should accept empty object', () => {
+      expect(ListAccountsInputSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('should reject extra properties', () => {
+      expect(ListAccountsInputSchema.safeParse({ account: 'site-a' }).success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should list accounts without exposing tokens', async () => {
+      const { AccountRegistry, getAccountRegistry } =
+        await import('../../../src/config/accounts.js');
+      const { listAccountsTool } = await import('../../../src/tools/listAccounts.js');
+
+      vi.mocked(getAccountRegistry).mockReturnValue(
+        new AccountRegistry(
+          [
+            {
+              name: 'site-a',
+              description: 'Main farm',
+              apiToken: 'secret-token-a',
+              apiMode: 'rest',
+              apiBaseUrl: 'https://pool.braiins.com/api/v1',
+              nativeApiBaseUrl: 'https://pool.braiins.com',
+            },
+            {
+              name: 'customer-x',
+              apiMode: 'native',
+              apiBaseUrl: 'https://pool.braiins.com/api/v1',
+              nativeApiBaseUrl: 'https://native.example',
+            },
+          ],
+          'customer-x'
+        )
+      );
+
+      const result = await listAccountsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Accounts**: 2');
+      expect(text).toContain('**Default**: customer-x');
+      expect(text).toContain(
+        '| site-a | Main farm | rest | https://pool.braiins.com/api/v1 | ✅ configured |'
+      );
+      expect(text).toContain(
+        '| **customer-x** (default) | - | native | https://native.example | ❌ missing |'
+      );
+      expect(text).not.toContain('secret-token-a');
+
+      expect(result.structuredContent).toEqual({
+        default_account: 'customer-x',
+        accounts: [
+          {
+            name: 'site-a',
+            description: 'Main farm',
+            api_mode: 'rest',
+            base_url: 'https://pool.braiins.com/api/v1',
+            token_configured: true,
+            is_default: false,
+          },
+          {
+            name: 'customer-x',
+            description: null,
+            api_mode: 'native',
+            base_url: 'https://native.example',
+            token_configured: false,
+            is_default: true,
+          },
+        ],
+      });
+      expect(JSON.stringify(result.structuredContent)).not.toContain('secret-token-a');
+    });
+
+    it('should return validation error for invalid input', async () => {
+      const { listAccountsTool } = await import('../../../src/tools/listAccounts.js');
+
+      const result = await listAccountsTool.handler({ verbose: true });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return error when the accounts file is invalid', async () => {
+      const { getAccountRegistry } = await import('../../../src/config/accounts.js');
+      const { listAccountsTool } = await import('../../../src/tools/listAccounts.js');
+      const { ConfigError } = await import('../../../src/utils/errors.js');
+
+      vi.mocked(getAccountRegistry).mockImplementation(() => {
+        throw new ConfigError('Invalid accounts file');
+      });
+
+      const result = await listAccountsTool.handler({});
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('CONFIG_ERROR');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and only the format param', async () => {
+      const { listAccountsTool } = await import('../../../src/tools/listAccounts.js');
+      expect(listAccountsTool.name).toBe('listAccounts');
+      expect(Object.keys(listAccountsTool.inputSchema.properties ?? {})).toEqual(['format']);
+      expect(listAccountsTool.inputSchema.required).toEqual([]);
+    });
+  });
+});
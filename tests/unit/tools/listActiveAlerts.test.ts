@@ -0,0 +1,172 @@
+/**
+ * Unit tests for listActiveAlerts tool
+ *
+ * Lists alerts from a real engine fed with worker observations.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ListActiveAlertsInputSchema } from '../../../src/schemas/listActiveAlertsInput.js';
+import { AlertEngine } from '../../../src/alerts/alertEngine.js';
+import { AlertRulesConfigSchema, type WorkerObservation } from '../../../src/alerts/alertRules.js';
+
+// Mock the alert engine singleton
+vi.mock('../../../src/alerts/alertEngine.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/alerts/alertEngine.js')>()),
+  getAlertEngine: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('listActiveAlerts', () => {
+  const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+  const worker: WorkerObservation = {
+    id: 'rig-01',
+    name: 'Rig 01',
+    status: 'ok',
+    hashrate: { current: 50e12, avg_24h: 100e12 },
+    shares: { valid: 1000, invalid: 0 },
+    last_share_at: '2025-06-01T11:59:00Z',
+  };
+
+  let engine: AlertEngine;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    engine = new AlertEngine(
+      AlertRulesConfigSchema.parse({
+        rules: [
+          { id: 'low', type: 'hashrate_drop', belowPercent: 70 },
+          { id: 'offline', type: 'worker_offline', severity: 'critical' },
+        ],
+      })
+    );
+    engine.observe('site-a', [worker], { now: NOW });
+    engine.observe('site-b', [{ ...worker, id: 'rig-02', name: 'Rig 02', status: 'off' }], {
+      now: NOW,
+    });
+    const { getAlertEngine } = await import('../../../src/alerts/alertEngine.js');
+    vi.mocked(getAlertEngine).mockReturnValue(engine);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should accept no arguments', () => {
+      const result = ListActiveAlertsInputSchema.safeParse({});
+      expect(result.success && result.data.includeResolved).toBe(false);
+    });
+
+    it('should reject unknown severities', () => {
+      expect(ListActiveAlertsInputSchema.safeParse({ severity: 'info' }).success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should list active alerts of every account, critical first', async () => {
+      const { listActiveAlertsTool } = await import('../../../src/tools/listActiveAlerts.js');
+
+      const result = await listActiveAlertsTool.handler({});
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('## Active Alerts');
+      expect(text).toContain('**Active**: 2 (1 critical) | **Rules**: 2');
+      expect(text).toContain('| 🔴 critical | site-b | Rig 02 | offline |');
+      expect(result.structuredContent).toMatchObject({
+        rules: 2,
+        active_count: 2,
+        alerts: [
+          { id: 'offline:site-b:rig-02', severity: 'critical', resolved_at: null },
+          {
+            id: 'low:site-a:rig-01',
+            rule_type: 'hashrate_drop',
+            value: 50,
+            threshold: 70,
+            started_at: '2025-06-01T12:00:00.000Z',
+            notified: true,
+          },
+        ],
+        recently_resolved: [],
+      });
+    });
+
+    it('should filter by account and severity', async () => {
+      const { listActiveAlertsTool } = await import('../../../src/tools/listActiveAlerts.js');
+
+      const byAccount = await listActiveAlertsTool.handler({ account: 'site-a' });
+      const bySeverity = await listActiveAlertsTool.handler({ severity: 'critical' });
+
+      expect(byAccount.structuredContent).toMatchObject({ active_count: 1 });
+      expect(bySeverity.structuredContent).toMatchObject({
+        active_count: 1,
+        alerts: [{ account: 'site-b' }],
+      });
+    });
+
+    it('should include recently resolved alerts on request', async () => {
+      const { listActiveAlertsTool } = await import('../../../src/tools/listActiveAlerts.js');
+      engine.observe('site-a', [{ ...worker, hashrate: { current: 100e12, avg_24h: 100e12 } }], {
+        now: NOW + 60000,
+      });
+
+      const result = await listActiveAlertsTool.handler({ includeResolved: true });
+
+      expect(String(result.content[0].text)).toContain('### Recently Resolved');
+      expect(result.structuredContent).toMatchObject({
+        active_count: 1,
+        recently_resolved: [{ id: 'low:site-a:rig-01', resolved_at: '2025-06-01T12:01:00.000Z' }],
+      });
+    });
+
+    it('should say so when there are no alerts', async () => {
+      const { listActiveAlertsTool } = await import('../../../src/tools/listActiveAlerts.js');
+
+      const result = await listActiveAlertsTool.handler({ account: 'site-c' });
+
+      expect(String(result.content[0].text)).toContain('*No active alerts.*');
+    });
+
+    it('should return a config error when alerting is disabled', async () => {
+      const { listActiveAlertsTool } = await import('../../../src/tools/listActiveAlerts.js');
+      const { getAlertEngine } = await import('../../../src/alerts/alertEngine.js');
+      vi.mocked(getAlertEngine).mockReturnValue(undefined);
+
+      const result = await listActiveAlertsTool.handler({});
+
+      expect(result.isError).toBe(true);
+      const parsed = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(parsed.code).toBe('CONFIG_ERROR');
+    });
+
+    it('should return a validation error for invalid input', async () => {
+      const { listActiveAlertsTool } = await import('../../../src/tools/listActiveAlerts.js');
+
+      const result = await listActiveAlertsTool.handler({ includeResolved: 'yes' });
+
+      expect(result.isError).toBe(true);
+      const parsed = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(parsed.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and required properties', async () => {
+      const { listActiveAlertsTool } = await import('../../../src/tools/listActiveAlerts.js');
+      expect(listActiveAlertsTool.name).toBe('listActiveAlerts');
+      expect(listActiveAlertsTool.inputSchema.required).toEqual([]);
+      expect(listActiveAlertsTool.outputSchema.type).toBe('object');
+    });
+  });
+});
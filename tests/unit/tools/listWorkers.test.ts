@@ -3,7 +3,11 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ListWorkersInputSchema, toApiParams } from '../../../src/schemas/listWorkersInput.js';
+import {
+  ListWorkersInputSchema,
+  toApiParams,
+  matchesStatusFilter,
+} from '../../../src/schemas/listWorkersInput.js';
 import {
   ListWorkersResponseSchema,
   WorkerSchema,
@@ -128,6 +132,12 @@ describe('listWorkers', () => {
       expect(allResult.success).toBe(true);
     });
 
+    it('should accept the four pool states as status filters', () => {
+      for (const status of ['ok', 'low', 'off', 'dis']) {
+        expect(ListWorkersInputSchema.safeParse({ status }).success).toBe(true);
+      }
+    });
+
     it('should reject invalid status filter', () => {
       const result = ListWorkersInputSchema.safeParse({ status: 'unknown' });
       expect(result.success).toBe(false);
@@ -163,6 +173,29 @@ describe('listWorkers', () => {
     });
   });
 
+  describe('matchesStatusFilter', () => {
+    it('should match every status for "all"', () => {
+      expect(matchesStatusFilter('dis', 'all')).toBe(true);
+    });
+
+    it('should match a single pool state exactly', () => {
+      expect(matchesStatusFilter('low', 'low')).toBe(true);
+      expect(matchesStatusFilter('ok', 'low')).toBe(false);
+    });
+
+    it('should group ok and low as active', () => {
+      expect(matchesStatusFilter('ok', 'active')).toBe(true);
+      expect(matchesStatusFilter('low', 'active')).toBe(true);
+      expect(matchesStatusFilter('off', 'active')).toBe(false);
+    });
+
+    it('should match legacy statuses against pool state filters', () => {
+      expect(matchesStatusFilter('inactive', 'inactive')).toBe(true);
+      expect(matchesStatusFilter('off', 'inactive')).toBe(true);
+      expect(matchesStatusFilter('disabled', 'dis')).toBe(true);
+    });
+  });
+
   describe('toApiParams', () => {
     it('should transform defaults correctly', () => {
       const input = ListWorkersInputSchema.parse({});
@@ -366,6 +399,29 @@ describe('listWorkers', () => {
       expect(text).toContain('⚫ disabled');
     });
 
+    it('should format the four pool states', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const states = ['ok', 'low', 'off', 'dis'] as const;
+      const mockClient = {
+        listWorkers: vi.fn().mockResolvedValue({
+          ...mockApiResponse,
+          total: states.length,
+          workers: states.map((status, i) => ({ ...mockWorker, id: `w-${i}`, status })),
+        }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await listWorkersTool.handler({ status: 'all' });
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('🟢 ok');
+      expect(text).toContain('🟡 low');
+      expect(text).toContain('🔴 off');
+      expect(text).toContain('⚫ dis');
+    });
+
     it('should handle pagination parameters', async () => {
       const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
       const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
@@ -498,6 +554,302 @@ describe('listWorkers', () => {
     });
   });
 
+  describe('Export', () => {
+    function workerPage(page: number, count: number, total: number): Record<string, unknown> {
+      return {
+        page,
+        page_size: 200,
+        total,
+        workers: Array.from({ length: count }, (_, i) => ({
+          ...mockWorker,
+          id: `worker-${(page - 1) * 200 + i}`,
+          name: `rig-${(page - 1) * 200 + i}`,
+        })),
+      };
+    }
+
+    function resourceText(result: { content: unknown[] }): { uri: string; text: string } {
+      const last = result.content[result.content.length - 1] as {
+        type: string;
+        resource: { uri: string; mimeType: string; text: string };
+      };
+      expect(last.type).toBe('resource');
+      return last.resource;
+    }
+
+    it('should export every page as CSV', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const mockClient = {
+        listWorkers: vi.fn((params: { page: number }) =>
+          Promise.resolve(workerPage(params.page, params.page === 1 ? 200 : 50, 250))
+        ),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await listWorkersTool.handler({
+        status: 'active',
+        page: 3,
+        export: { format: 'csv' },
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(mockClient.listWorkers).toHaveBeenCalledTimes(2);
+      expect(mockClient.listWorkers).toHaveBeenNthCalledWith(1, {
+        page: 1,
+        page_size: 200,
+        status: 'active',
+      });
+      expect(mockClient.listWorkers).toHaveBeenNthCalledWith(2, {
+        page: 2,
+        page_size: 200,
+        status: 'active',
+      });
+
+      const resource = resourceText(result);
+      expect(resource.uri).toMatch(/^braiins:\/\/exports\/listWorkers-\d{8}T\d{6}Z\.csv$/);
+      const lines = resource.text.trimEnd().split('\r\n');
+      expect(lines).toHaveLength(251);
+      expect(lines[0]).toBe(
+        'id,name,status,hashrate_current,hashrate_avg_24h,shares_valid,shares_invalid,' +
+          'last_share_at,location,tags'
+      );
+      expect(lines[1]).toBe(
+        'worker-0,rig-0,active,110000000000000,105000000000000,1234567,12,' +
+          '2025-01-10T12:30:00.000Z,,'
+      );
+      expect(String(result.content[0].text)).toContain('**Rows**: 250 | **Format**: CSV');
+      expect((result.structuredContent as { workers: unknown[] }).workers).toHaveLength(250);
+    });
+
+    it('should export selected columns as NDJSON in the requested units', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const mockClient = {
+        listWorkers: vi.fn().mockResolvedValue({
+          ...mockApiResponse,
+          workers: [{ ...mockWorker, tags: ['rack1', 'hydro'] }],
+          total: 1,
+        }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await listWorkersTool.handler({
+        export: {
+          format: 'ndjson',
+          columns: ['name', 'hashrate_avg_24h', 'tags'],
+          hashrateUnit: 'TH/s',
+        },
+      });
+
+      const resource = resourceText(result);
+      expect(resource.text).toBe(
+        '{"name":"antminer-s19-rack1","hashrate_avg_24h":105,"tags":["rack1","hydro"]}\n'
+      );
+      expect(String(result.content[0].text)).toContain('**Units**: hashrate in TH/s');
+    });
+
+    it('should stop after the page limit and say so', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const mockClient = {
+        listWorkers: vi.fn((params: { page: number }) =>
+          Promise.resolve(workerPage(params.page, 200, 20000))
+        ),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await listWorkersTool.handler({ export: { format: 'csv' } });
+
+      expect(mockClient.listWorkers).toHaveBeenCalledTimes(50);
+      expect(String(result.content[0].text)).toContain(
+        'Stopped after 50 pages: 10000 of 20000 workers retrieved'
+      );
+    });
+
+    it('should fail when a page has an unexpected format', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const mockClient = {
+        listWorkers: vi.fn().mockResolvedValue({ unexpected: true }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await listWorkersTool.handler({ export: { format: 'csv' } });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('API_ERROR');
+    });
+
+    it('should reject unknown columns', async () => {
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const result = await listWorkersTool.handler({
+        export: { format: 'csv', columns: ['password'] },
+      });
+
+      expect(result.isError).toBe(true);
+      const errorData = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(errorData.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('All Pages', () => {
+    function rig(
+      id: string,
+      status: 'ok' | 'low' | 'off' | 'dis',
+      avg24h: number,
+      lastShare: string | null
+    ): Record<string, unknown> {
+      return {
+        ...mockWorker,
+        id,
+        name: id,
+        status,
+        hashrate: { current: avg24h, avg_24h: avg24h },
+        shares: { valid: 990, invalid: 10 },
+        last_share_at: lastShare,
+      };
+    }
+
+    it('should walk every page, deduplicate and summarize', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+      const { ListWorkersOutputSchema } =
+        await import('../../../src/schemas/listWorkersResponse.js');
+
+      const firstPage = Array.from({ length: 200 }, (_, i) =>
+        rig(`ok-${i}`, 'ok', 100e12 + i * 1e12, '2025-01-10T12:00:00Z')
+      );
+      // The list shifted: the last worker of page 1 shows up again on page 2
+      const secondPage = [
+        firstPage[199],
+        rig('low-1', 'low', 20e12, '2025-01-10T12:00:00Z'),
+        rig('off-1', 'off', 0, '2025-01-08T00:00:00Z'),
+        rig('off-2', 'off', 0, null),
+        rig('dis-1', 'dis', 0, '2025-01-01T00:00:00Z'),
+      ];
+      const mockClient = {
+        listWorkers: vi.fn((params: { page: number }) =>
+          Promise.resolve({
+            page: params.page,
+            page_size: 200,
+            total: 205,
+            workers: params.page === 1 ? firstPage : secondPage,
+          })
+        ),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+      const reportProgress = vi.fn().mockResolvedValue(undefined);
+
+      const result = await listWorkersTool.handler({ all: true, search: 'rig' }, reportProgress);
+
+      expect(result.isError).toBeUndefined();
+      expect(mockClient.listWorkers).toHaveBeenCalledTimes(2);
+      expect(mockClient.listWorkers).toHaveBeenCalledWith({
+        page: 2,
+        page_size: 200,
+        search: 'rig',
+      });
+      expect(reportProgress).toHaveBeenNthCalledWith(1, 1, 2, 'Fetched page 1 (200 workers)');
+      expect(reportProgress).toHaveBeenNthCalledWith(2, 2, 2, 'Fetched page 2 (204 workers)');
+
+      expect(ListWorkersOutputSchema.safeParse(result.structuredContent).success).toBe(true);
+      const structured = result.structuredContent as {
+        workers: { id: string }[];
+        summary: Record<string, unknown>;
+      };
+      expect(structured.summary).toMatchObject({
+        workers_retrieved: 204,
+        pages_fetched: 2,
+        duplicates_skipped: 1,
+        capped: false,
+        by_status: [
+          { status: 'ok', count: 200 },
+          { status: 'low', count: 1, hashrate_avg_24h: 20e12 },
+          { status: 'off', count: 2 },
+          { status: 'dis', count: 1 },
+        ],
+        shares: { valid: 204 * 990, invalid: 204 * 10, reject_rate: 0.01 },
+        lowest_active: [
+          'low-1',
+          'ok-0',
+          'ok-1',
+          'ok-2',
+          'ok-3',
+          'ok-4',
+          'ok-5',
+          'ok-6',
+          'ok-7',
+          'ok-8',
+        ],
+        longest_offline: ['off-2', 'off-1'],
+      });
+      expect(structured.workers).toHaveLength(12);
+
+      const text = String(result.content[0].text);
+      expect(text).toContain('**Workers**: 204 of 205 | **Pages**: 2 | **Duplicates skipped**: 1');
+      expect(text).toContain('| 🟡 low | 1 | 20.00 TH/s |');
+      expect(text).toContain('(1.00% rejected)');
+      expect(text).toContain('### Lowest Hashrate Active Workers (10)');
+      expect(text).toContain('### Longest Offline Workers (2)');
+      expect(text).toContain('| off-2 | 🔴 off | 0.00 H/s | Never |');
+      expect(text).not.toContain('ok-199');
+    });
+
+    it('should stop at the page cap and say so', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const mockClient = {
+        listWorkers: vi.fn((params: { page: number }) =>
+          Promise.resolve({
+            page: params.page,
+            page_size: 200,
+            total: 50000,
+            workers: Array.from({ length: 200 }, (_, i) =>
+              rig(`w-${params.page}-${i}`, 'ok', 1e12, null)
+            ),
+          })
+        ),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await listWorkersTool.handler({ all: true });
+
+      expect(mockClient.listWorkers).toHaveBeenCalledTimes(50);
+      expect(result.structuredContent).toMatchObject({ summary: { capped: true } });
+      expect(String(result.content[0].text)).toContain(
+        'Stopped after 50 pages: 10000 of 50000 workers retrieved'
+      );
+    });
+
+    it('should report an empty fleet', async () => {
+      const { getCachedBraiinsClient } = await import('../../../src/api/cachedBraiinsClient.js');
+      const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
+
+      const mockClient = {
+        listWorkers: vi.fn().mockResolvedValue({ page: 1, page_size: 200, total: 0, workers: [] }),
+      };
+      vi.mocked(getCachedBraiinsClient).mockReturnValue(mockClient as never);
+
+      const result = await listWorkersTool.handler({ all: true, status: 'off' });
+
+      expect(mockClient.listWorkers).toHaveBeenCalledTimes(1);
+      expect(String(result.content[0].text)).toContain('No workers found');
+      expect(result.structuredContent).toMatchObject({
+        total: 0,
+        workers: [],
+        summary: { workers_retrieved: 0, shares: { reject_rate: null } },
+      });
+    });
+  });
+
   describe('Tool Definition', () => {
     it('should have correct name', async () => {
       const { listWorkersTool } = await import('../../../src/tools/listWorkers.js');
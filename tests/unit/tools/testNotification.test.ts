@@ -0,0 +1,155 @@
+/**
+ * Unit tests for testNotification tool
+ *
+ * Delivers to a local HTTP stub.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { TestNotificationInputSchema } from '../../../src/schemas/testNotificationInput.js';
+import { WebhookNotifier } from '../../../src/notify/webhookNotifier.js';
+import type { Webhook } from '../../../src/notify/notifierConfig.js';
+import { NotificationEventEnum } from '../../../src/notify/notifications.js';
+
+// Mock the notifier singleton
+vi.mock('../../../src/notify/webhookNotifier.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/notify/webhookNotifier.js')>()),
+  getNotifier: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    braiinsApiBaseUrl: 'https://pool.braiins.com/api/v1',
+    braiinsApiToken: 'test-token',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('testNotification', () => {
+  let stub: Server;
+  let baseUrl: string;
+  let bodies: string[];
+
+  function webhook(name: string, path: string): Webhook {
+    return {
+      name,
+      url: `${baseUrl}${path}`,
+      // Test notifications reach a webhook whatever its subscriptions
+      events: NotificationEventEnum.options.filter((event) => event !== 'test'),
+      headers: {},
+      templates: {},
+      maxRetries: 0,
+      retryBaseDelayMs: 1,
+      timeoutMs: 1000,
+    };
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    bodies = [];
+    stub = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        bodies.push(Buffer.concat(chunks).toString('utf8'));
+        res.statusCode = req.url === '/broken' ? 404 : 204;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+
+    const { getNotifier } = await import('../../../src/notify/webhookNotifier.js');
+    vi.mocked(getNotifier).mockReturnValue(
+      new WebhookNotifier({ webhooks: [webhook('chat', '/chat'), webhook('pager', '/broken')] })
+    );
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  describe('Input Schema', () => {
+    it('should default the message', () => {
+      const result = TestNotificationInputSchema.safeParse({});
+      expect(result.success && result.data.message).toBe('webhook delivery check');
+    });
+
+    it('should reject unknown fields', () => {
+      expect(TestNotificationInputSchema.safeParse({ url: 'https://x' }).success).toBe(false);
+    });
+  });
+
+  describe('Tool Handler', () => {
+    it('should deliver to every webhook and report each outcome', async () => {
+      const { testNotificationTool } = await import('../../../src/tools/testNotification.js');
+
+      const result = await testNotificationTool.handler({ message: 'ping' });
+
+      expect(result.isError).toBeUndefined();
+      const text = String(result.content[0].text);
+      expect(text).toContain('## Test Notification');
+      expect(text).toContain('**Delivered**: 1 | **Failed**: 1');
+      expect(text).toContain('| pager | 🔴 Webhook responded with HTTP 404 | 1 | 404 |');
+      expect(result.structuredContent).toMatchObject({
+        delivered: 1,
+        failed: 1,
+        results: [
+          { webhook: 'chat', delivered: true, status: 204 },
+          { webhook: 'pager', delivered: false, status: 404 },
+        ],
+      });
+      expect(JSON.parse(bodies[0])).toMatchObject({
+        event: 'test',
+        account: null,
+        text: 'Test notification from Braiins Pool MCP Server: ping',
+        data: { message: 'ping' },
+      });
+    });
+
+    it('should deliver to one named webhook', async () => {
+      const { testNotificationTool } = await import('../../../src/tools/testNotification.js');
+
+      const result = await testNotificationTool.handler({ webhook: 'chat' });
+
+      expect(result.structuredContent).toMatchObject({ delivered: 1, failed: 0 });
+      expect(bodies).toHaveLength(1);
+    });
+
+    it('should return a validation error for an unknown webhook', async () => {
+      const { testNotificationTool } = await import('../../../src/tools/testNotification.js');
+
+      const result = await testNotificationTool.handler({ webhook: 'email' });
+
+      expect(result.isError).toBe(true);
+      const parsed = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(parsed.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return a config error when notifications are disabled', async () => {
+      const { testNotificationTool } = await import('../../../src/tools/testNotification.js');
+      const { getNotifier } = await import('../../../src/notify/webhookNotifier.js');
+      vi.mocked(getNotifier).mockReturnValue(undefined);
+
+      const result = await testNotificationTool.handler({});
+
+      expect(result.isError).toBe(true);
+      const parsed = JSON.parse(String(result.content[0].text)) as { code: string };
+      expect(parsed.code).toBe('CONFIG_ERROR');
+    });
+  });
+
+  describe('Tool Definition', () => {
+    it('should have correct name and required properties', async () => {
+      const { testNotificationTool } = await import('../../../src/tools/testNotification.js');
+      expect(testNotificationTool.name).toBe('testNotification');
+      expect(testNotificationTool.inputSchema.required).toEqual([]);
+      expect(testNotificationTool.outputSchema.type).toBe('object');
+    });
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Unit tests for the Streamable HTTP transport
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createMcpServer, getInFlightToolCalls } from '../../../src/server.js';
+import {
+  HttpTransportServer,
+  MCP_ENDPOINT_PATH,
+  HEALTH_ENDPOINT_PATH,
+} from '../../../src/transports/httpTransport.js';
+import { handleToolCall } from '../../../src/tools/index.js';
+import { Authenticator, AuthConfigSchema, type Principal } from '../../../src/auth/index.js';
+
+// Mock the tool registry with a single tool
+vi.mock('../../../src/tools/index.js', () => ({
+  tools: [
+    {
+      name: 'getPoolStats',
+      description: 'Pool stats',
+      inputSchema: { type: 'object', properties: {}, required: [] },
+    },
+    {
+      name: 'getPayouts',
+      description: 'Payouts',
+      inputSchema: { type: 'object', properties: {}, required: [] },
+    },
+  ],
+  handleToolCall: vi.fn(),
+}));
+
+// Mock config to avoid environment variable issues
+vi.mock('../../../src/config/settings.js', () => ({
+  config: {
+    nodeEnv: 'test',
+    logLevel: 'error',
+    logFormat: 'json',
+  },
+}));
+
+describe('HttpTransportServer', () => {
+  let server: HttpTransportServer;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  async function connectClient(headers: Record<string, string> = {}): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}${MCP_ENDPOINT_PATH}`), {
+        requestInit: { headers },
+      })
+    );
+    clients.push(client);
+    return client;
+  }
+
+  function postJson(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}${MCP_ENDPOINT_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    vi.mocked(handleToolCall).mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+    server = new HttpTransportServer({ host: '127.0.0.1', port: 0, createServer: createMcpServer });
+    const address = await server.start();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.allSettled(clients.splice(0).map((client) => client.close()));
+    await server.stop(100);
+    vi.clearAllMocks();
+  });
+
+  it('should serve the tool registry to an HTTP client', async () => {
+    const client = await connectClient();
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(['getPoolStats', 'getPayouts']);
+
+    const result = await client.callTool({ name: 'getPoolStats', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'ok' }]);
+    expect(handleToolCall).toHaveBeenCalledWith('getPoolStats', {}, undefined);
+  });
+
+  it('should forward tool progress to clients that request it', async () => {
+    vi.mocked(handleToolCall).mockImplementation(async (_name, _args, reportProgress) => {
+      await reportProgress?.(1, 2, 'Fetched page 1');
+      await reportProgress?.(2, 2, 'Fetched page 2');
+      return { content: [{ type: 'text', text: 'ok' }] };
+    });
+    const client = await connectClient();
+    const onprogress = vi.fn();
+
+    await client.callTool({ name: 'getPoolStats', arguments: {} }, undefined, { onprogress });
+
+    expect(onprogress).toHaveBeenCalledTimes(2);
+    expect(onprogress).toHaveBeenLastCalledWith({
+      progress: 2,
+      total: 2,
+      message: 'Fetched page 2',
+    });
+  });
+
+  it('should keep a separate session per client', async () => {
+    await connectClient();
+    await connectClient();
+
+    expect(server.getStats().sessions).toBe(2);
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await postJson(
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { 'mcp-session-id': 'missing' }
+    );
+
+    expect(response.status).toBe(404);
+    const body = (await response.json()) as { error: { message: string } };
+    expect(body.error.message).toBe('Session not found');
+  });
+
+  it('should require a session for non-initialize requests', async () => {
+    const response = await postJson({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject malformed JSON bodies', async () => {
+    const response = await postJson('{not json');
+
+    expect(response.status).toBe(400);
+    const body = (await response.json()) as { error: { code: number } };
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it('should report health and 404 unknown paths', async () => {
+    const health = await fetch(`${baseUrl}${HEALTH_ENDPOINT_PATH}`);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({
+      status: 'ok',
+      sessions: 0,
+      activeRequests: 0,
+      inFlightToolCalls: 0,
+      draining: false,
+    });
+
+    const missing = await fetch(`${baseUrl}/other`);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should drain in-flight tool calls before stopping', async () => {
+    let finishCall: () => void = () => undefined;
+    vi.mocked(handleToolCall).mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          finishCall = () => resolve({ content: [{ type: 'text', text: 'slow' }] });
+        })
+    );
+    const client = await connectClient();
+
+    const call = client.callTool({ name: 'getPoolStats', arguments: {} });
+    await vi.waitFor(() => expect(getInFlightToolCalls()).toBe(1));
+
+    let stopped = false;
+    const stopping = server.stop(5000).then(() => {
+      stopped = true;
+    });
+
+    // New requests are refused while draining
+    const refused = await postJson({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    expect(refused.status).toBe(503);
+    expect(server.getStats()).toMatchObject({ draining: true, activeRequests: 1 });
+    expect(stopped).toBe(false);
+
+    finishCall();
+    const result = await call;
+    expect(result.content).toEqual([{ type: 'text', text: 'slow' }]);
+
+    await stopping;
+    expect(stopped).toBe(true);
+    expect(server.getStats().sessions).toBe(0);
+  });
+
+  it('should stop after the drain timeout when calls do not finish', async () => {
+    vi.mocked(handleToolCall).mockImplementation(() => new Promise(() => undefined));
+    const client = await connectClient();
+
+    void client.callTool({ name: 'getPoolStats', arguments: {} }).catch(() => undefined);
+    await vi.waitFor(() => expect(getInFlightToolCalls()).toBeGreaterThan(0));
+
+    await server.stop(50);
+    expect(server.getStats().sessions).toBe(0);
+  });
+
+  describe('session limits', () => {
+    const initialize = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'raw-client', version: '1.0.0' },
+      },
+    };
+
+    async function restart(options: Partial<ConstructorParameters<typeof HttpTransportServer>[0]>) {
+      await server.stop(100);
+      server = new HttpTransportServer({
+        host: '127.0.0.1',
+        port: 0,
+        createServer: createMcpServer,
+        ...options,
+      });
+      const address = await server.start();
+      baseUrl = `http://127.0.0.1:${address.port}`;
+    }
+
+    it('should close sessions that stay idle past the timeout', async () => {
+      await restart({ sessionIdleTimeoutMs: 50 });
+
+      // A client that initializes and never sends DELETE
+      const opened = await postJson(initialize);
+      const sessionId = opened.headers.get('mcp-session-id') ?? '';
+      await opened.text();
+      expect(server.getStats().sessions).toBe(1);
+
+      await vi.waitFor(() => expect(server.getStats().sessions).toBe(0), { timeout: 1000 });
+
+      const expired = await postJson(
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+        { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' }
+      );
+      expect(expired.status).toBe(404);
+    });
+
+    it('should keep sessions that have requests', async () => {
+      await restart({ sessionIdleTimeoutMs: 200 });
+      const client = await connectClient();
+
+      for (let i = 0; i < 4; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        await client.listTools();
+      }
+
+      expect(server.getStats().sessions).toBe(1);
+    });
+
+    it('should refuse new sessions with 503 at the session limit', async () => {
+      await restart({ maxSessions: 1 });
+      await connectClient();
+
+      const refused = await postJson(initialize);
+
+      expect(refused.status).toBe(503);
+      const body = (await refused.json()) as { error: { message: string } };
+      expect(body.error.message).toBe('Too many sessions; try again later');
+      expect(server.getStats().sessions).toBe(1);
+    });
+
+    it('should not exceed the session limit with concurrent initializations', async () => {
+      // Slow session setup so the initializations overlap
+      await restart({
+        maxSessions: 1,
+        createServer: () => {
+          const mcpServer = createMcpServer();
+          const connect = mcpServer.connect.bind(mcpServer);
+          mcpServer.connect = async (transport) => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            return connect(transport);
+          };
+          return mcpServer;
+        },
+      });
+
+      const responses = await Promise.all([1, 2, 3].map(() => postJson(initialize)));
+      await Promise.all(responses.map((response) => response.text()));
+
+      expect(responses.map((response) => response.status).sort()).toEqual([200, 503, 503]);
+      expect(server.getStats().sessions).toBe(1);
+    });
+  });
+
+  describe('with authentication', () => {
+    const financeKey = 'finance-key-0123456789';
+    const opsKey = 'ops-key-0123456789abcdef';
+
+    beforeEach(async () => {
+      await server.stop(100);
+      const authenticator = new Authenticator(
+        AuthConfigSchema.parse({
+          apiKeys: [
+            { name: 'finance', key: financeKey, allowedTools: ['getPayouts'] },
+            { name: 'ops', key: opsKey },
+          ],
+        })
+      );
+      server = new HttpTransportServer({
+        host: '127.0.0.1',
+        port: 0,
+        createServer: createMcpServer,
+        authenticator,
+      });
+      const address = await server.start();
+      baseUrl = `http://127.0.0.1:${address.port}`;
+    });
+
+    it('should reject requests without credentials', async () => {
+      const response = await postJson({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'anonymous', version: '1.0.0' },
+        },
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toContain('Bearer');
+      const body = (await response.json()) as { error: { data: { code: string } } };
+      expect(body.error.data.code).toBe('UNAUTHORIZED');
+      expect(server.getStats().sessions).toBe(0);
+    });
+
+    it('should keep the health check public', async () => {
+      const health = await fetch(`${baseUrl}${HEALTH_ENDPOINT_PATH}`);
+      expect(health.status).toBe(200);
+    });
+
+    it('should only list and run the allowed tools', async () => {
+      const client = await connectClient({ 'X-API-Key': financeKey });
+
+      const { tools } = await client.listTools();
+      expect(tools.map((tool) => tool.name)).toEqual(['getPayouts']);
+
+      const allowed = await client.callTool({ name: 'getPayouts', arguments: {} });
+      expect(allowed.isError).toBeUndefined();
+
+      const denied = await client.callTool({ name: 'getPoolStats', arguments: {} });
+      expect(denied.isError).toBe(true);
+      const error = JSON.parse(String((denied.content as Array<{ text: string }>)[0].text)) as {
+        code: string;
+      };
+      expect(error.code).toBe('FORBIDDEN');
+      expect(handleToolCall).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept bearer API keys with all tools', async () => {
+      const client = await connectClient({ Authorization: `Bearer ${opsKey}` });
+
+      const { tools } = await client.listTools();
+      expect(tools).toHaveLength(2);
+    });
+
+    it('should not let another principal use a session', async () => {
+      const transport = new StreamableHTTPClientTransport(
+        new URL(`${baseUrl}${MCP_ENDPOINT_PATH}`),
+        { requestInit: { headers: { 'X-API-Key': financeKey } } }
+      );
+      const client = new Client({ name: 'finance-client', version: '1.0.0' });
+      await client.connect(transport);
+      clients.push(client);
+
+      // Reuse the finance session ID with the ops key
+      const sessionId = transport.sessionId ?? '';
+      const response = await postJson(
+        { jsonrpc: '2.0', id: 5, method: 'tools/list' },
+        { 'mcp-session-id': sessionId, 'X-API-Key': opsKey }
+      );
+
+      expect(response.status).toBe(403);
+      const body = (await response.json()) as { error: { data: { code: string } } };
+      expect(body.error.data.code).toBe('FORBIDDEN');
+    });
+
+    it('should not let a JWT subject use the session of an API key with the same name', async () => {
+      await server.stop(100);
+      // Authenticates everyone as "ops", by API key unless a bearer token is sent
+      const authenticator = {
+        authenticate: (headers: Record<string, unknown>): Principal => ({
+          name: 'ops',
+          type: headers.authorization !== undefined ? 'jwt' : 'api-key',
+          allowedTools: ['*'],
+        }),
+      } as unknown as Authenticator;
+      server = new HttpTransportServer({
+        host: '127.0.0.1',
+        port: 0,
+        createServer: createMcpServer,
+        authenticator,
+      });
+      const address = await server.start();
+      baseUrl = `http://127.0.0.1:${address.port}`;
+
+      const transport = new StreamableHTTPClientTransport(
+        new URL(`${baseUrl}${MCP_ENDPOINT_PATH}`),
+        { requestInit: { headers: { 'X-API-Key': opsKey } } }
+      );
+      const client = new Client({ name: 'ops-client', version: '1.0.0' });
+      await client.connect(transport);
+      clients.push(client);
+
+      const response = await postJson(
+        { jsonrpc: '2.0', id: 5, method: 'tools/list' },
+        { 'mcp-session-id': transport.sessionId ?? '', Authorization: 'Bearer a.b.c' }
+      );
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
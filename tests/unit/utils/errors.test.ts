@@ -9,6 +9,9 @@ import {
   BraiinsApiError,
   CacheError,
   NetworkError,
+  RateLimitError,
+  CircuitOpenError,
+  AuthError,
   ConfigError,
   ErrorCode,
   isBraiinsError,
@@ -129,6 +132,48 @@ describe('Custom Errors', () => {
     });
   });
 
+  describe('RateLimitError', () => {
+    it('should create rate limit error correctly', () => {
+      const error = new RateLimitError('Rate limiter queue full', { waitMs: 45000 });
+
+      expect(error.name).toBe('RateLimitError');
+      expect(error.code).toBe(ErrorCode.RATE_LIMITED);
+      expect(error.statusCode).toBe(429);
+      expect(error.details).toEqual({ waitMs: 45000 });
+    });
+  });
+
+  describe('CircuitOpenError', () => {
+    it('should create circuit open error correctly', () => {
+      const error = new CircuitOpenError('Braiins API circuit open for /pool/stats', {
+        retryAt: '2025-01-01T00:00:30.000Z',
+      });
+
+      expect(error.name).toBe('CircuitOpenError');
+      expect(error.code).toBe(ErrorCode.CIRCUIT_OPEN);
+      expect(error.statusCode).toBe(503);
+      expect(error.details).toEqual({ retryAt: '2025-01-01T00:00:30.000Z' });
+    });
+  });
+
+  describe('AuthError', () => {
+    it('should default to unauthorized', () => {
+      const error = new AuthError('Invalid API key');
+
+      expect(error.name).toBe('AuthError');
+      expect(error.code).toBe(ErrorCode.UNAUTHORIZED);
+      expect(error.statusCode).toBe(401);
+    });
+
+    it('should map forbidden to 403', () => {
+      const error = new AuthError('Not allowed', ErrorCode.FORBIDDEN, { tool: 'getPayouts' });
+
+      expect(error.code).toBe(ErrorCode.FORBIDDEN);
+      expect(error.statusCode).toBe(403);
+      expect(error.details).toEqual({ tool: 'getPayouts' });
+    });
+  });
+
   describe('ConfigError', () => {
     it('should create config error correctly', () => {
       const error = new ConfigError('Missing API token');
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for tabular export helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertBtc,
+  convertHashrate,
+  selectColumns,
+  serializeRows,
+  type ExportColumn,
+  type ExportUnits,
+} from '../../../src/utils/export.js';
+
+interface Row {
+  name: string;
+  hashrate: number;
+  amount: string;
+  tags: string[];
+  note: string | null;
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+  { name: 'name', value: (row) => row.name },
+  {
+    name: 'hashrate',
+    kind: 'hashrate',
+    value: (row, units) => convertHashrate(row.hashrate, units.hashrateUnit),
+  },
+  { name: 'amount', kind: 'btc', value: (row, units) => convertBtc(row.amount, units.btcUnit) },
+  { name: 'tags', value: (row) => row.tags },
+  { name: 'note', value: (row) => row.note },
+];
+
+const UNITS: ExportUnits = { hashrateUnit: 'H/s', btcUnit: 'btc' };
+
+describe('export', () => {
+  describe('convertHashrate', () => {
+    it('should keep H/s unchanged', () => {
+      expect(convertHashrate(123456789, 'H/s')).toBe(123456789);
+    });
+
+    it('should convert without floating point noise', () => {
+      expect(convertHashrate(110e12, 'TH/s')).toBe(110);
+      expect(convertHashrate(0.3e15, 'PH/s')).toBe(0.3);
+    });
+  });
+
+  describe('convertBtc', () => {
+    it('should convert to BTC numbers or whole satoshis', () => {
+      expect(convertBtc('0.00012345', 'btc')).toBe(0.00012345);
+      expect(convertBtc('0.00012345', 'sats')).toBe(12345);
+    });
+
+    it('should return zero for unparseable amounts', () => {
+      expect(convertBtc('n/a', 'sats')).toBe(0);
+    });
+  });
+
+  describe('serializeRows', () => {
+    const rows: Row[] = [
+      { name: 'rig-1', hashrate: 100, amount: '0.00000010', tags: ['a', 'b'], note: null },
+      { name: 'rig "2", west', hashrate: 0, amount: '1.5', tags: [], note: 'line\nbreak' },
+    ];
+
+    it('should write CSV with a header and RFC 4180 quoting', () => {
+      expect(serializeRows(rows, COLUMNS, 'csv', UNITS)).toBe(
+        'name,hashrate,amount,tags,note\r\n' +
+          'rig-1,100,0.0000001,a;b,\r\n' +
+          '"rig ""2"", west",0,1.5,,"line\nbreak"\r\n'
+      );
+    });
+
+    it('should neutralize text that spreadsheets would run as a formula', () => {
+      const risky: Row[] = [
+        { name: '=HYPERLINK("x")', hashrate: 1, amount: '-0.5', tags: ['@a', 'b'], note: '+1' },
+        { name: '-rig', hashrate: 1, amount: '0', tags: [], note: '\tpad' },
+      ];
+
+      expect(serializeRows(risky, COLUMNS, 'csv', UNITS)).toBe(
+        'name,hashrate,amount,tags,note\r\n' +
+          `"'=HYPERLINK(""x"")",1,-0.5,'@a;b,'+1\r\n` +
+          "'-rig,1,0,,'\tpad\r\n"
+      );
+    });
+
+    it('should write one JSON object per line for NDJSON', () => {
+      const lines = serializeRows(rows, COLUMNS, 'ndjson', { ...UNITS, btcUnit: 'sats' })
+        .trimEnd()
+        .split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0])).toEqual({
+        name: 'rig-1',
+        hashrate: 100,
+        amount: 10,
+        tags: ['a', 'b'],
+        note: null,
+      });
+    });
+
+    it('should write only the header for no rows', () => {
+      expect(serializeRows([], COLUMNS, 'csv', UNITS)).toBe('name,hashrate,amount,tags,note\r\n');
+      expect(serializeRows([], COLUMNS, 'ndjson', UNITS)).toBe('');
+    });
+  });
+
+  describe('selectColumns', () => {
+    it('should return every column by default', () => {
+      expect(selectColumns(COLUMNS, undefined).map((column) => column.name)).toEqual([
+        'name',
+        'hashrate',
+        'amount',
+        'tags',
+        'note',
+      ]);
+    });
+
+    it('should return the requested columns in the requested order', () => {
+      expect(selectColumns(COLUMNS, ['amount', 'name']).map((column) => column.name)).toEqual([
+        'amount',
+        'name',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for structured tool output helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  annotateStaleData,
+  btcToNumber,
+  buildToolResult,
+  roundBtc,
+  toIsoTimestamp,
+  toIsoTimestampOrNull,
+  toOutputSchema,
+} from '../../../src/utils/structuredOutput.js';
+
+describe('structuredOutput', () => {
+  describe('toOutputSchema', () => {
+    it('should generate an inline object JSON Schema without $schema', () => {
+      const Shared = z.object({ value: z.number() });
+      const schema = toOutputSchema(
+        z.object({
+          name: z.string().describe('Name'),
+          first: Shared,
+          second: Shared,
+          note: z.string().nullable(),
+        })
+      );
+
+      expect(schema.type).toBe('object');
+      expect(schema).not.toHaveProperty('$schema');
+      expect(schema.required).toEqual(['name', 'first', 'second', 'note']);
+      expect(JSON.stringify(schema)).not.toContain('$ref');
+      expect(schema.properties).toMatchObject({
+        name: { type: 'string', description: 'Name' },
+        second: { type: 'object', properties: { value: { type: 'number' } } },
+      });
+    });
+  });
+
+  describe('buildToolResult', () => {
+    const structured = { total: 1.5 };
+
+    it('should return markdown text for the markdown format', () => {
+      const result = buildToolResult('## Title', structured, 'markdown');
+      expect(result.content).toEqual([{ type: 'text', text: '## Title' }]);
+      expect(result.structuredContent).toEqual(structured);
+    });
+
+    it('should return JSON text for the json format', () => {
+      const result = buildToolResult('## Title', structured, 'json');
+      expect(result.content).toHaveLength(1);
+      expect(JSON.parse(String(result.content[0].text))).toEqual(structured);
+      expect(result.structuredContent).toEqual(structured);
+    });
+
+    it('should return markdown then JSON text for the both format', () => {
+      const result = buildToolResult('## Title', structured, 'both');
+      expect(result.content).toHaveLength(2);
+      expect(result.content[0].text).toBe('## Title');
+      expect(JSON.parse(String(result.content[1].text))).toEqual(structured);
+    });
+  });
+
+  describe('annotateStaleData', () => {
+    const structured = { total: 1.5 };
+    const staleRead = {
+      account: 'main',
+      resourceType: 'worker-details' as const,
+      identifier: 'rig-01',
+      cachedAt: Date.parse('2025-06-01T12:00:00Z'),
+      ageSeconds: 754,
+      revalidationError: 'connect ECONNREFUSED',
+    };
+
+    it('should leave results without stale reads unchanged', () => {
+      const result = buildToolResult('## Title', structured, 'markdown');
+      expect(annotateStaleData(result, [])).toBe(result);
+    });
+
+    it('should append a stale note and list stale reads in _meta', () => {
+      const result = annotateStaleData(
+        buildToolResult('## Title', structured, 'both'),
+        [staleRead, staleRead],
+        'both'
+      );
+
+      expect(result.content).toHaveLength(3);
+      expect(result.content[2].text).toContain(
+        '- main worker-details rig-01: 12m old (Braiins API unavailable: connect ECONNREFUSED)'
+      );
+      expect(result.structuredContent).toEqual(structured);
+      expect(result._meta).toEqual({
+        stale_data: [
+          {
+            account: 'main',
+            resource_type: 'worker-details',
+            identifier: 'rig-01',
+            cached_at: '2025-06-01T12:00:00.000Z',
+            age_seconds: 754,
+            revalidation_error: 'connect ECONNREFUSED',
+          },
+        ],
+      });
+    });
+
+    it('should keep json text a single JSON document and note staleness in _meta', () => {
+      const result = annotateStaleData(
+        buildToolResult('## Title', structured, 'json'),
+        [staleRead],
+        'json'
+      );
+
+      expect(result.content).toEqual([{ type: 'text', text: JSON.stringify(structured, null, 2) }]);
+      expect(JSON.parse(String(result.content[0].text))).toEqual(structured);
+      expect(result._meta?.stale_data).toEqual([
+        expect.objectContaining({ resource_type: 'worker-details', identifier: 'rig-01' }),
+      ]);
+    });
+
+    it('should not annotate error results', () => {
+      const result = { content: [{ type: 'text' as const, text: '{}' }], isError: true };
+      expect(annotateStaleData(result, [staleRead])).toBe(result);
+    });
+  });
+
+  describe('btcToNumber', () => {
+    it('should convert BTC strings to numbers', () => {
+      expect(btcToNumber('0.00123456')).toBe(0.00123456);
+      expect(btcToNumber('1')).toBe(1);
+    });
+
+    it('should return zero for unparseable amounts', () => {
+      expect(btcToNumber('n/a')).toBe(0);
+    });
+  });
+
+  describe('roundBtc', () => {
+    it('should round to satoshi precision', () => {
+      expect(roundBtc(0.1 + 0.2)).toBe(0.3);
+      expect(roundBtc(0.123456789)).toBe(0.12345679);
+    });
+  });
+
+  describe('toIsoTimestamp', () => {
+    it('should normalize offsets to UTC', () => {
+      expect(toIsoTimestamp('2025-01-10T14:00:00+02:00')).toBe('2025-01-10T12:00:00.000Z');
+    });
+
+    it('should keep unparseable timestamps unchanged', () => {
+      expect(toIsoTimestamp('yesterday')).toBe('yesterday');
+    });
+
+    it('should pass null through', () => {
+      expect(toIsoTimestampOrNull(null)).toBeNull();
+      expect(toIsoTimestampOrNull('2025-01-10T12:00:00Z')).toBe('2025-01-10T12:00:00.000Z');
+    });
+  });
+});
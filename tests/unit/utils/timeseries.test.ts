@@ -0,0 +1,42 @@
+/**
+ * Unit tests for shared timeseries helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateStats, generateSparkline } from '../../../src/utils/timeseries.js';
+
+describe('timeseries', () => {
+  describe('calculateStats', () => {
+    it('should return zeros for an empty series', () => {
+      expect(calculateStats([])).toEqual({ min: 0, max: 0, avg: 0, latest: 0 });
+    });
+
+    it('should compute min, max, average and latest value', () => {
+      expect(calculateStats([4, 1, 7, 4])).toEqual({ min: 1, max: 7, avg: 4, latest: 4 });
+    });
+  });
+
+  describe('generateSparkline', () => {
+    it('should return empty string for an empty series', () => {
+      expect(generateSparkline([])).toBe('');
+    });
+
+    it('should return a single bar for one value', () => {
+      expect(generateSparkline([42])).toBe('━');
+    });
+
+    it('should return a flat line when there is no variance', () => {
+      expect(generateSparkline([5, 5, 5])).toBe('━━━');
+    });
+
+    it('should map the range onto block characters', () => {
+      expect(generateSparkline([0, 50, 100])).toBe('▁▅█');
+    });
+
+    it('should sample long series down to the requested width', () => {
+      const values = Array.from({ length: 100 }, (_, i) => i);
+      expect(generateSparkline(values, 10)).toHaveLength(10);
+      expect(generateSparkline(values)).toHaveLength(20);
+    });
+  });
+});